@@ -12,7 +12,8 @@ const customJestConfig = {
 	testPathIgnorePatterns: [
 		"<rootDir>/node_modules/",
 		"<rootDir>/src/projects/guitar/__tests__/",
-		"<rootDir>/src/projects/tonnetz/"
+		"<rootDir>/src/projects/tonnetz/",
+		"<rootDir>/src/__tests__/fixtures/"
 	],
 	moduleNameMapper: {
 		"^@/components/(.*)$": "<rootDir>/src/projects/guitar/components/$1",
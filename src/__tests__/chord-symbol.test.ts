@@ -0,0 +1,254 @@
+import { getChordPitchClasses, noteNameToPitchClass, parseChord } from "@/utils/chord-symbol";
+import type { ChordSymbol, ChordSymbolErrorCode, ChordSymbolOptions } from "@/utils/chord-symbol";
+
+const parsed = (symbol: string, options?: ChordSymbolOptions): ChordSymbol => {
+	const result = parseChord(symbol, options);
+	if (!result.ok) {
+		throw new Error(`${symbol}: ${result.error.message}`);
+	}
+	return result.chord;
+};
+
+const degreesOf = (symbol: string, options?: ChordSymbolOptions) =>
+	parsed(symbol, options)
+		.tones.map((tone) => tone.degree)
+		.join(" ");
+
+describe("chord symbol parsing", () => {
+	// Symbol, degrees low to high
+	const degreeTable: Array<[string, string]> = [
+		["C", "1 3 5"],
+		["Cm", "1 b3 5"],
+		["C-", "1 b3 5"],
+		["Cmin", "1 b3 5"],
+		["Cdim", "1 b3 b5"],
+		["C°", "1 b3 b5"],
+		["Caug", "1 3 #5"],
+		["C+", "1 3 #5"],
+		["C5", "1 5"],
+		["Csus2", "1 2 5"],
+		["Csus4", "1 4 5"],
+		["Csus", "1 4 5"],
+		["C6", "1 3 5 6"],
+		["Cm6", "1 b3 5 6"],
+		["C7", "1 3 5 b7"],
+		["Cmaj7", "1 3 5 7"],
+		["CM7", "1 3 5 7"],
+		["CΔ", "1 3 5 7"],
+		["CΔ7", "1 3 5 7"],
+		["C^7", "1 3 5 7"],
+		["Cm7", "1 b3 5 b7"],
+		["C-7", "1 b3 5 b7"],
+		["Cmi7", "1 b3 5 b7"],
+		["CmMaj7", "1 b3 5 7"],
+		["Cm(maj7)", "1 b3 5 7"],
+		["C-Δ7", "1 b3 5 7"],
+		["Cdim7", "1 b3 b5 bb7"],
+		["C°7", "1 b3 b5 bb7"],
+		["Cm7b5", "1 b3 b5 b7"],
+		["Cø", "1 b3 b5 b7"],
+		["Cø7", "1 b3 b5 b7"],
+		["Caug7", "1 3 #5 b7"],
+		["C+7", "1 3 #5 b7"],
+		["C7#5", "1 3 #5 b7"],
+		["C7+", "1 3 #5 b7"],
+		["CaugMaj7", "1 3 #5 7"],
+		["C7b5", "1 3 b5 b7"],
+		["C7-5", "1 3 b5 b7"],
+		["C7sus4", "1 4 5 b7"],
+		["C9sus4", "1 4 5 b7 9"],
+		["Cadd9", "1 3 5 9"],
+		["C2", "1 2 3 5"],
+		["Cmadd9", "1 b3 5 9"],
+		["C6/9", "1 3 5 6 9"],
+		["C69", "1 3 5 6 9"],
+		["C9", "1 3 5 b7 9"],
+		["Cmaj9", "1 3 5 7 9"],
+		["Cm9", "1 b3 5 b7 9"],
+		["C11", "1 5 b7 9 11"],
+		["Cm11", "1 b3 5 b7 9 11"],
+		["C13", "1 3 5 b7 9 13"],
+		["Cmaj13", "1 3 5 7 9 13"],
+		["C7b9", "1 3 5 b7 b9"],
+		["C7#9", "1 3 5 b7 #9"],
+		["C7#11", "1 3 5 b7 #11"],
+		["Cmaj7#11", "1 3 5 7 #11"],
+		["C7b13", "1 3 5 b7 b13"],
+		["C13b9", "1 3 5 b7 b9 13"],
+		["C7(b9,#11)", "1 3 5 b7 b9 #11"],
+		["C7b9#9", "1 3 5 b7 b9 #9"],
+		["C7alt", "1 3 b7 #9 b13"],
+		["Calt", "1 3 b7 #9 b13"],
+		["C7no3", "1 5 b7"],
+		["C9omit5", "1 3 b7 9"],
+		["Cadd9no3", "1 5 9"],
+		["C7(9)", "1 3 5 b7 9"],
+		["Cdom7", "1 3 5 b7"],
+		["Cdom", "1 3 5 b7"],
+		["Chalfdim", "1 b3 b5 b7"],
+		["Cmaj", "1 3 5"],
+		["CM", "1 3 5"],
+	];
+
+	it.each(degreeTable)("reads %s as %s", (symbol, degrees) => {
+		expect(degreesOf(symbol)).toBe(degrees);
+	});
+
+	// Symbol, triad
+	const triadTable: Array<[string, ChordSymbol["triad"]]> = [
+		["Am", "minor"],
+		["Bm7b5", "diminished"],
+		["C#dim7", "diminished"],
+		["Eb+", "augmented"],
+		["Gsus2", "sus2"],
+		["D7sus4", "sus4"],
+		["F11", "sus4"],
+		["A5", "power"],
+		["E7b5", "major"],
+	];
+
+	it.each(triadTable)("builds %s on a %s triad", (symbol, triad) => {
+		expect(parsed(symbol).triad).toBe(triad);
+	});
+
+	it("reads unicode and spaced spellings", () => {
+		expect(parsed("B♭m7")).toMatchObject({ root: "Bb", rootPc: 10 });
+		expect(parsed("F♯ø7")).toMatchObject({ root: "F#", rootPc: 6 });
+		expect(degreesOf("E♭Δ7")).toBe("1 3 5 7");
+		expect(degreesOf("G7(♭9, ♯11)")).toBe("1 3 5 b7 b9 #11");
+		expect(degreesOf("Cº7")).toBe("1 b3 b5 bb7");
+		expect(degreesOf("C−7")).toBe("1 b3 5 b7");
+		expect(parsed("F𝄪")).toMatchObject({ root: "F##", rootPc: 7 });
+		expect(parsed(" D  m7 ")).toMatchObject({ symbol: "Dm7", root: "D" });
+	});
+
+	it("gives the pitch classes from the root up", () => {
+		expect(getChordPitchClasses(parsed("G7"))).toEqual([7, 11, 2, 5]);
+		expect(getChordPitchClasses(parsed("D/F#"))).toEqual([2, 6, 9]);
+		expect(getChordPitchClasses(parsed("C13b9"))).toEqual([0, 4, 7, 10, 1, 9]);
+	});
+});
+
+describe("slash chords and inversions", () => {
+	// Symbol, bass, inversion
+	const slashTable: Array<[string, string | null, number | null]> = [
+		["C", null, 0],
+		["C/E", "E", 1],
+		["C/G", "G", 2],
+		["C7/Bb", "Bb", 3],
+		["Am/G", "G", null],
+		["Am7/G", "G", 3],
+		["C/D", "D", null],
+		["C6/9/E", "E", 1],
+		["Fm/Ab", "Ab", 1],
+		["Csus4/F", "F", 1],
+		["C/C", "C", 0],
+	];
+
+	it.each(slashTable)("puts %s over %s (inversion %s)", (symbol, bass, inversion) => {
+		expect(parsed(symbol)).toMatchObject({ bass, inversion });
+	});
+
+	it("keeps the slash inside 6/9 and m/maj7", () => {
+		expect(parsed("C6/9")).toMatchObject({ bass: null, inversion: 0 });
+		expect(degreesOf("Cm/maj7")).toBe("1 b3 5 7");
+	});
+});
+
+describe("Roman numerals and Nashville numbers", () => {
+	const inC = { key: "C" };
+
+	// Numeral, key, root, degrees
+	const numeralTable: Array<[string, string, string, string]> = [
+		["I", "C", "C", "1 3 5"],
+		["ii", "C", "D", "1 b3 5"],
+		["iii7", "C", "E", "1 b3 5 b7"],
+		["IVmaj7", "C", "F", "1 3 5 7"],
+		["V7", "C", "G", "1 3 5 b7"],
+		["vi", "C", "A", "1 b3 5"],
+		["vii°", "C", "B", "1 b3 b5"],
+		["viiø7", "C", "B", "1 b3 b5 b7"],
+		["vii°7", "C", "B", "1 b3 b5 bb7"],
+		["bVII", "C", "Bb", "1 3 5"],
+		["bIII", "A", "C", "1 3 5"],
+		["#iv°", "C", "F#", "1 b3 b5"],
+		["imaj7", "C", "C", "1 b3 5 7"],
+		["I", "F#", "F#", "1 3 5"],
+		["IV", "F", "Bb", "1 3 5"],
+		["iii", "E", "G#", "1 b3 5"],
+		["VII", "F#", "E#", "1 3 5"],
+		["V7/V", "C", "D", "1 3 5 b7"],
+		["vii°7/V", "C", "F#", "1 b3 b5 bb7"],
+		["V/ii", "Bb", "G", "1 3 5"],
+		["1", "G", "G", "1 3 5"],
+		["6m", "G", "E", "1 b3 5"],
+		["2-7", "G", "A", "1 b3 5 b7"],
+		["47", "D", "G", "1 3 5 b7"],
+		["b7", "E", "D", "1 3 5"],
+		["5sus4", "A", "E", "1 4 5"],
+	];
+
+	it.each(numeralTable)("reads %s in %s as %s", (numeral, key, root, degrees) => {
+		const chord = parsed(numeral, { key });
+		expect(chord.root).toBe(root);
+		expect(degreesOf(numeral, { key })).toBe(degrees);
+		expect(chord.notation).toBe(/\d/.test(numeral[0]) || /^[b#]\d/.test(numeral) ? "nashville" : "roman");
+	});
+
+	// Figured numeral, bass, inversion
+	const figureTable: Array<[string, string, number]> = [
+		["I64", "G", 2],
+		["I6/4", "G", 2],
+		["V65", "B", 1],
+		["V43", "D", 2],
+		["V42", "F", 3],
+		["ii65", "F", 1],
+		["viiø43", "F", 2],
+	];
+
+	it.each(figureTable)("inverts %s over %s", (numeral, bass, inversion) => {
+		expect(parsed(numeral, inC)).toMatchObject({ bass, inversion });
+	});
+
+	it("adds a 6th for a plain 6 and takes Nashville bass degrees", () => {
+		expect(degreesOf("IV6", inC)).toBe("1 3 5 6");
+		expect(parsed("4/5", inC)).toMatchObject({ root: "F", bass: "G", inversion: null });
+		expect(parsed("1/3", { key: "Eb" })).toMatchObject({ root: "Eb", bass: "G", inversion: 1 });
+		expect(parsed("I/E", inC)).toMatchObject({ bass: "E", inversion: 1 });
+	});
+});
+
+describe("chord symbol errors", () => {
+	// Input, options, error code, position
+	const errorTable: Array<[string, ChordSymbolOptions, ChordSymbolErrorCode, number]> = [
+		["", {}, "empty", 0],
+		["   ", {}, "empty", 0],
+		["H7", {}, "invalidRoot", 0],
+		["c", {}, "invalidRoot", 0],
+		["V7", {}, "missingKey", 0],
+		["4", {}, "missingKey", 0],
+		["ii", { key: "X" }, "invalidKey", 0],
+		["Cxyz", {}, "unknownSuffix", 1],
+		["Cmaj7q", {}, "unknownSuffix", 5],
+		["C7b10", {}, "unknownSuffix", 2],
+		["C/H", {}, "invalidBass", 2],
+		["Am7/X#", {}, "invalidBass", 4],
+	];
+
+	it.each(errorTable)("rejects %p", (symbol, options, code, position) => {
+		const result = parseChord(symbol, options);
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			expect(result.error).toMatchObject({ code, position });
+			expect(result.error.message.length).toBeGreaterThan(0);
+		}
+	});
+
+	it("reads note names on their own", () => {
+		expect(noteNameToPitchClass("C")).toBe(0);
+		expect(noteNameToPitchClass("Cb")).toBe(11);
+		expect(noteNameToPitchClass("B#")).toBe(0);
+		expect(noteNameToPitchClass("Ebb")).toBe(2);
+		expect(noteNameToPitchClass("H")).toBeNull();
+	});
+});
@@ -0,0 +1,12 @@
+import type { TriadVoicing } from '@/lib/guitar/triads';
+
+// Root-position C major on the top three strings (G, B, E)
+export const C_MAJOR_VOICING: TriadVoicing = {
+  frets: [5, 5, 3],
+  strings: [3, 4, 5],
+  notes: [0, 4, 7],
+  noteNames: ['C', 'E', 'G'],
+  position: 0,
+  inversion: 'root',
+  avgFret: 4.33,
+};
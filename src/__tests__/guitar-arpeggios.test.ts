@@ -0,0 +1,67 @@
+import { generateArpeggioData, getArpeggioRun } from '@/lib/guitar/arpeggios';
+import { listChordFormulaIds } from '@/lib/guitar/theory-catalog';
+import { STANDARD_TUNING, getTuningById, withFretCount } from '@/lib/guitar/tunings';
+
+describe('arpeggio positions', () => {
+  it('lays a chord out in the five pentatonic box windows', () => {
+    const data = generateArpeggioData('C', '7');
+    expect(data).toMatchObject({ chordNotes: ['C', 'E', 'G', 'A#'], degrees: ['1', '3', '5', 'b7'] });
+    expect(data.positions.map((position) => [position.windowStart, position.windowEnd])).toEqual([
+      [0, 3],
+      [2, 5],
+      [5, 8],
+      [7, 10],
+      [9, 13],
+    ]);
+
+    const position = data.positions.find((candidate) => candidate.windowStart === 5)!;
+    expect(position.pattern).toEqual([[6, 8], [7], [5, 8], [5], [5, 8], [6, 8]]);
+    expect(position.notes.map((note) => note.degree).join(' ')).toBe('b7 1 3 5 b7 1 3 5 b7 1');
+    expect(position.rootPositions).toEqual([[0, 8], [3, 5], [5, 8]]);
+    expect(position.pentatonicBox.windowStart).toBe(5);
+    expect(position.majorBox).toMatchObject({ windowStart: 4, windowEnd: 9 });
+  });
+
+  it('places minor-3rd chords in the minor pentatonic on their root', () => {
+    const data = generateArpeggioData('A', 'min7');
+    expect(data.positions.map((position) => position.pentatonicBox.keyRoot)).toEqual(Array(5).fill('A'));
+    const first = data.positions.find((position) => position.positionNumber === 1)!;
+    expect(first).toMatchObject({ windowStart: 5, windowEnd: 8 });
+    expect(first.notes[0]).toMatchObject({ stringIdx: 0, fret: 5, degree: '1' });
+  });
+
+  it('covers every chord type over two octaves, climbing string by string', () => {
+    const tunings = [STANDARD_TUNING, getTuningById('drop-d'), withFretCount(STANDARD_TUNING, 24)];
+    listChordFormulaIds().forEach((chordType) => {
+      tunings.forEach((tuning) => {
+        const { positions } = generateArpeggioData('E', chordType, tuning);
+        expect(positions).toHaveLength(5);
+        positions.forEach((position) => {
+          const { notes } = position;
+          expect(notes[notes.length - 1].midi - notes[0].midi).toBeGreaterThanOrEqual(24);
+          notes.slice(1).forEach((note, i) => {
+            expect(note.midi).toBeGreaterThan(notes[i].midi);
+            expect(note.stringIdx).toBeGreaterThanOrEqual(notes[i].stringIdx);
+          });
+          // Stretches reach at most one fret past the window
+          notes.forEach((note) => {
+            expect(note.fret).toBeGreaterThanOrEqual(position.windowStart - 1);
+            expect(note.fret).toBeLessThanOrEqual(position.windowEnd + 1);
+          });
+        });
+      });
+    });
+  });
+
+  it('runs up, down, or up and back with the top note once', () => {
+    const position = generateArpeggioData('G', 'maj7').positions[2];
+    const up = getArpeggioRun(position, 'ascending');
+    expect(up).toEqual(position.notes);
+    expect(getArpeggioRun(position, 'descending')).toEqual([...up].reverse());
+
+    const both = getArpeggioRun(position);
+    expect(both).toHaveLength(up.length * 2 - 1);
+    expect(both[up.length - 1]).toEqual(up[up.length - 1]);
+    expect(both[both.length - 1]).toEqual(up[0]);
+  });
+});
@@ -6,6 +6,8 @@ import {
   getRelativeMinorKeyFromMajor,
   normalizeMajorKeyName,
 } from '@/lib/guitar/box-shapes';
+import { getTuningById, getTuningPitchClasses } from '@/lib/guitar/tunings';
+import { hrefForLocation } from '@/components/GuitarAppRoute';
 
 const STANDARD_TUNING_PCS = [4, 9, 2, 7, 11, 4]; // E A D G B E
 
@@ -409,3 +411,116 @@ describe('box shape generation', () => {
     expect(ordered.map((box) => box.shapeNumber)).toEqual([2, 3, 4, 5, 1]);
   });
 });
+
+describe('3NPS box shapes', () => {
+  it('lays out the seven modes of the key with three notes per string', () => {
+    const patterns = generateBoxShapePatterns('G', '3nps');
+    const gMajorPcs = new Set([7, 9, 11, 0, 2, 4, 6]);
+
+    expect(patterns.map((p) => p.label)).toEqual([
+      'G Ionian 3NPS (Box 1)',
+      'A Dorian 3NPS (Box 2)',
+      'B Phrygian 3NPS (Box 3)',
+      'C Lydian 3NPS (Box 4)',
+      'D Mixolydian 3NPS (Box 5)',
+      'E Aeolian 3NPS (Box 6)',
+      'F# Locrian 3NPS (Box 7)',
+    ]);
+    expect(patterns[0].pattern).toEqual([[3, 5, 7], [3, 5, 7], [4, 5, 7], [4, 5, 7], [5, 7, 8], [5, 7, 8]]);
+
+    patterns.forEach((shape) => {
+      shape.pattern.forEach((frets, stringIndex) => {
+        expect(frets).toHaveLength(3);
+        frets.forEach((fret) => expect(gMajorPcs.has(pitchClassAt(stringIndex, fret))).toBe(true));
+      });
+      expect(shape.rootPositions.length).toBeGreaterThan(0);
+      shape.rootPositions.forEach(([stringIndex, fret]) => {
+        expect(pitchClassAt(stringIndex, fret)).toBe(shape.shapeRootPitchClass);
+      });
+    });
+  });
+
+  it('marks the blue note passing between each run without adding it to the pattern', () => {
+    const [ionian] = generateBoxShapePatterns('G', '3nps');
+
+    // Bb, the b3 of G major, between the 2nd and 3rd
+    expect(ionian.blueNotePositions).toEqual([[0, 6], [5, 6]]);
+    expect(ionian.pattern[0]).not.toContain(6);
+  });
+
+  it('follows alternate tunings and links to its own boxes page', () => {
+    const dMajorPcs = new Set([2, 4, 6, 7, 9, 11, 1]);
+    const dropD = getTuningById('drop-d');
+    const dropDPcs = getTuningPitchClasses(dropD);
+
+    generateBoxShapePatterns('D', '3nps', { tuning: dropD }).forEach((shape) => {
+      shape.pattern.forEach((frets, stringIndex) => {
+        expect(frets).toHaveLength(3);
+        frets.forEach((fret) => expect(dMajorPcs.has((dropDPcs[stringIndex] + fret) % 12)).toBe(true));
+      });
+    });
+
+    ['drop-d', 'dadgad', 'open-g', 'open-d'].forEach((tuningId) => {
+      ['C', 'D', 'E', 'F', 'G', 'A', 'B'].forEach((key) => {
+        generateBoxShapePatterns(key, '3nps', { tuning: getTuningById(tuningId) }).forEach((shape) => {
+          shape.pattern.forEach((frets) => {
+            expect(frets).toHaveLength(3);
+            expect(frets[2] - frets[0]).toBeLessThanOrEqual(4);
+          });
+        });
+      });
+    });
+
+    expect(hrefForLocation({ section: 'boxes', triadsView: 'by-voicing', boxFamily: '3nps' }))
+      .toBe('/projects/guitar/boxes/3nps');
+  });
+});
+
+describe('catalog scale boxes', () => {
+  it('gives one four-fret position per degree, named for the mode it starts', () => {
+    const patterns = generateBoxShapePatterns('A', 'scales', { scaleId: 'harmonicMinor' });
+    const aHarmonicMinorPcs = new Set([9, 11, 0, 2, 4, 5, 8]);
+
+    expect(patterns.map((p) => p.label)).toEqual([
+      'A Harmonic Minor (Box 1)',
+      'B Locrian Natural 6 (Box 2)',
+      'C Ionian #5 (Box 3)',
+      'D Dorian #4 (Box 4)',
+      'E Phrygian Dominant (Box 5)',
+      'F Lydian #2 (Box 6)',
+      'G# Super Locrian bb7 (Box 7)',
+    ]);
+    expect(patterns[0].pattern).toEqual([[5, 7, 8], [5, 7, 8], [6, 7, 9], [5, 7, 9], [6, 9], [5, 7, 8]]);
+
+    patterns.forEach((shape) => {
+      expect(shape.windowEnd - shape.windowStart).toBeLessThanOrEqual(5);
+      shape.pattern.forEach((frets, stringIndex) => {
+        frets.forEach((fret) => expect(aHarmonicMinorPcs.has(pitchClassAt(stringIndex, fret))).toBe(true));
+      });
+    });
+  });
+
+  it('keeps pentatonic positions to two notes a string', () => {
+    const [first, ...rest] = generateBoxShapePatterns('C', 'scales', { scaleId: 'majorPentatonic' });
+    expect(first.pattern).toEqual([[8, 10], [7, 10], [7, 10], [7, 9], [8, 10], [8, 10]]);
+    expect(rest.map((p) => p.label)).toContain('A Minor Pentatonic (Box 5)');
+    expect(rest.map((p) => p.label)).toContain('C Major Pentatonic (Box 2)');
+  });
+
+  it('lays any catalog scale out three notes per string', () => {
+    const patterns = generateBoxShapePatterns('G', 'scales', { scaleId: 'altered', scaleFingering: '3nps' });
+    const gAlteredPcs = new Set([7, 8, 10, 11, 1, 3, 5]);
+
+    expect(patterns).toHaveLength(7);
+    expect(patterns[0].label).toBe('G Altered 3NPS (Box 1)');
+    expect(patterns[1].label).toBe('G# Melodic Minor 3NPS (Box 2)');
+    patterns.forEach((shape) => {
+      shape.pattern.forEach((frets, stringIndex) => {
+        expect(frets).toHaveLength(3);
+        frets.forEach((fret) => expect(gAlteredPcs.has(pitchClassAt(stringIndex, fret))).toBe(true));
+      });
+    });
+
+    expect(generateBoxShapePatterns('C', 'scales', { scaleId: 'diminished', scaleFingering: '3nps' })).toHaveLength(8);
+  });
+});
@@ -0,0 +1,68 @@
+import { CAGED_SHAPE_ORDER, generateCagedData } from '@/lib/guitar/caged';
+import { formatChordFrets } from '@/lib/guitar/chord-search';
+import { STANDARD_TUNING, getTuningById, withFretCount } from '@/lib/guitar/tunings';
+
+describe('CAGED forms', () => {
+  it('moves the five open grips up the neck in C-A-G-E-D order', () => {
+    const { forms } = generateCagedData('C');
+    expect(forms.map((form) => form.shape)).toEqual(['C', 'A', 'G', 'E', 'D']);
+    expect(forms.map((form) => formatChordFrets(form.grip))).toEqual([
+      'x32010',
+      'x35553',
+      '875558',
+      '8-10-10-9-8-8',
+      'x-x-10-12-13-12',
+    ]);
+
+    // Other keys rotate the same cycle
+    const inE = generateCagedData('E').forms.map((form) => form.shape);
+    expect(inE).toEqual(['E', 'D', 'C', 'A', 'G']);
+    const start = CAGED_SHAPE_ORDER.indexOf(inE[0]);
+    expect(inE).toEqual(CAGED_SHAPE_ORDER.map((_, i) => CAGED_SHAPE_ORDER[(start + i) % 5]));
+  });
+
+  it('lists the chord tones of each form by degree', () => {
+    const eForm = generateCagedData('G').forms.find((form) => form.shape === 'E')!;
+    expect(eForm).toMatchObject({ windowStart: 3, windowEnd: 5 });
+    expect(eForm.chordTones.filter((tone) => tone.stringIdx === 0)).toEqual([
+      { stringIdx: 0, fret: 3, degree: '1' },
+    ]);
+    expect(eForm.chordTones.filter((tone) => tone.stringIdx === 3)).toEqual([
+      { stringIdx: 3, fret: 4, degree: '3' },
+    ]);
+  });
+
+  it('holds the triad voicings that fall inside each form', () => {
+    const { forms } = generateCagedData('C');
+    const cForm = forms.find((form) => form.shape === 'C')!;
+    expect(cForm.triadVoicings.map((voicing) => voicing.frets.join(','))).toEqual(['3,3,2', '3,2,0', '2,0,1', '0,1,0']);
+
+    forms.forEach((form) => {
+      expect(form.triadVoicings.length).toBeGreaterThan(0);
+      form.triadVoicings.forEach((voicing) => {
+        voicing.frets.forEach((fret) => {
+          expect(fret).toBeGreaterThanOrEqual(form.windowStart);
+          expect(fret).toBeLessThanOrEqual(form.windowEnd);
+        });
+      });
+    });
+  });
+
+  it('sits each form inside its own major pentatonic box', () => {
+    ['C', 'E', 'G', 'Bb'].forEach((key) => {
+      const { forms } = generateCagedData(key as 'C');
+      forms.forEach((form) => {
+        const box = form.pentatonicBox!;
+        form.gripPositions.forEach(([stringIdx, fret]) => {
+          expect(box.pattern[stringIdx]).toContain(fret);
+        });
+      });
+      expect(new Set(forms.map((form) => form.pentatonicBox!.shapeNumber)).size).toBe(5);
+    });
+  });
+
+  it('only applies to standard tuning', () => {
+    expect(() => generateCagedData('C', getTuningById('drop-d'))).toThrow('standard tuning');
+    expect(generateCagedData('C', withFretCount(STANDARD_TUNING, 24)).forms).toHaveLength(5);
+  });
+});
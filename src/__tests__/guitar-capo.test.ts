@@ -0,0 +1,71 @@
+import {
+  assertValidCapoFret,
+  formatCapoChordLabel,
+  generateCapoChordData,
+  getCapoShapeKey,
+  getCapoSoundingKey,
+  getShapeChordSymbol,
+  isFretPlayableWithCapo,
+  suggestCapoForProgression,
+} from '@/lib/guitar/capo';
+import { generateChordData } from '@/lib/guitar/chords';
+import { getPracticeProgressions } from '@/lib/guitar/progression-recommendations';
+
+describe('guitar capo helpers', () => {
+  it('converts between sounding keys and shape keys', () => {
+    expect(getCapoShapeKey('A', 2)).toBe('G');
+    expect(getCapoShapeKey('C', 3)).toBe('A');
+    expect(getCapoSoundingKey('G', 2)).toBe('A');
+    expect(getCapoSoundingKey('E', 0)).toBe('E');
+  });
+
+  it('names chord shapes while keeping quality and slash bass', () => {
+    expect(getShapeChordSymbol('Bm7', 2)).toBe('Am7');
+    expect(getShapeChordSymbol('D/F#', 2)).toBe('C/E');
+    expect(getShapeChordSymbol('N.C.', 2)).toBe('N.C.');
+    expect(getShapeChordSymbol('C6/9', 3)).toBe('A6/9');
+    expect(getShapeChordSymbol('Bb-7/Ab', 1)).toBe('A-7/G');
+    expect(formatCapoChordLabel('A', 2)).toBe('A (G shape)');
+    expect(formatCapoChordLabel('A', 0)).toBe('A');
+  });
+
+  it('validates capo frets and treats the capo as the nut', () => {
+    expect(() => assertValidCapoFret(13)).toThrow('Invalid capo fret');
+    expect(() => assertValidCapoFret(1.5)).toThrow('Invalid capo fret');
+    expect(isFretPlayableWithCapo(2, 2)).toBe(true);
+    expect(isFretPlayableWithCapo(1, 2)).toBe(false);
+  });
+
+  it('moves shape voicings up by the capo and names the sounding chord', () => {
+    const capoData = generateCapoChordData('A', 'major', 2);
+    const shapeData = generateChordData('G', 'major');
+
+    expect(capoData?.chordName).toBe(generateChordData('A', 'major')?.chordName);
+    capoData?.stringGroups.forEach((group, groupIndex) => {
+      const shapeVoicings = shapeData?.stringGroups[groupIndex].voicings ?? [];
+      group.voicings.forEach((voicing, voicingIndex) => {
+        expect(voicing.frets).toEqual(shapeVoicings[voicingIndex].frets.map((fret) => fret + 2));
+        expect(Math.max(...voicing.frets)).toBeLessThanOrEqual(18);
+        expect(voicing.frets.every((fret) => isFretPlayableWithCapo(fret, 2))).toBe(true);
+      });
+    });
+  });
+
+  it('suggests the capo that gives the most open shapes for a progression', () => {
+    const progressions = getPracticeProgressions({
+      tonalCenterMode: 'major',
+      scaleFamily: 'major',
+      majorCenterKey: 'A',
+      minorCenterKey: 'F#',
+      hexatonicMode: 'off',
+      visibleTargetIntervals: [],
+    });
+    const dooWop = progressions.find((progression) => progression.id === 'dooWop');
+    expect(dooWop?.chordNames).toBe('A F#m D E');
+
+    const suggestion = suggestCapoForProgression(dooWop!);
+    expect(suggestion.capoFret).toBe(2);
+    expect(suggestion.shapeChordNames).toEqual(['G', 'Em', 'C', 'D']);
+    expect(suggestion.openShapeCount).toBe(4);
+  });
+});
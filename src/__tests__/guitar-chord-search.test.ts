@@ -0,0 +1,107 @@
+import { formatChordFrets, parseChordSymbol, searchChordVoicings } from '@/lib/guitar/chord-search';
+import { getTuningById } from '@/lib/guitar/tunings';
+
+const shapesOf = (symbol: string, options = {}) =>
+  searchChordVoicings(symbol, options)!.voicings.map((voicing) => formatChordFrets(voicing.frets));
+
+describe('chord symbol parsing', () => {
+  it('reads roots, suffix aliases and slash basses', () => {
+    expect(parseChordSymbol('Am7')).toEqual({ root: 'A', chordType: 'min7', bass: null });
+    expect(parseChordSymbol('CM7')).toEqual({ root: 'C', chordType: 'maj7', bass: null });
+    expect(parseChordSymbol('Bb-7')).toEqual({ root: 'Bb', chordType: 'min7', bass: null });
+    expect(parseChordSymbol('D/F#')).toEqual({ root: 'D', chordType: 'major', bass: 'F#' });
+    expect(parseChordSymbol('C6/9')).toEqual({ root: 'C', chordType: '69', bass: null });
+    expect(parseChordSymbol('G7sus/C')).toEqual({ root: 'G', chordType: '7sus4', bass: 'C' });
+    expect(parseChordSymbol('H7')).toBeNull();
+    expect(parseChordSymbol('Cxyz')).toBeNull();
+  });
+
+  it('keeps symbols whose tones no catalog chord has', () => {
+    expect(parseChordSymbol('C5')).toEqual({ root: 'C', chordType: null, bass: null });
+    expect(parseChordSymbol('C7no5')).toEqual({ root: 'C', chordType: null, bass: null });
+    expect(parseChordSymbol('Cno3')).toEqual({ root: 'C', chordType: null, bass: null });
+  });
+});
+
+describe('chord voicing search', () => {
+  it('ranks the open shapes first', () => {
+    expect(shapesOf('C')[0]).toBe('x32010');
+    expect(shapesOf('G')[0]).toBe('320003');
+    expect(shapesOf('Am7')[0]).toBe('x02010');
+  });
+
+  it('only favours open strings near the nut', () => {
+    const voicings = searchChordVoicings('C')!.voicings;
+    const highWithOpen = voicings.find((voicing) => formatChordFrets(voicing.frets) === 'x-15-14-0-x-x')!;
+
+    expect(highWithOpen.score).toBeLessThan(voicings[0].score - 50);
+    voicings.slice(0, 10).forEach((voicing) => {
+      if (voicing.openStrings > 0) {
+        expect(Math.max(...voicing.soundingFrets)).toBeLessThanOrEqual(4);
+      }
+    });
+  });
+
+  it('finds barre chords and scores the barre', () => {
+    const result = searchChordVoicings('F')!;
+    const barre = result.voicings.find((voicing) => formatChordFrets(voicing.frets) === '133211')!;
+    expect(barre).toMatchObject({ barreFret: 1, fingers: 4, stretch: 2, mutedStrings: 0 });
+    expect(barre.score).toBeLessThan(result.voicings[0].score);
+  });
+
+  it('includes partial and omitted-fifth variants, and only chord tones', () => {
+    const result = searchChordVoicings('G7')!;
+    expect(result.chordNotes).toEqual(['G', 'B', 'D', 'F']);
+    expect(result.voicings.some((voicing) => voicing.mutedStrings > 0)).toBe(true);
+    const shell = result.voicings.find((voicing) => formatChordFrets(voicing.frets) === '3x34xx')!;
+    expect(shell.omitted).toEqual(['5']);
+    result.voicings.forEach((voicing) => {
+      expect(voicing.notes.every((pc) => [7, 11, 2, 5].includes(pc))).toBe(true);
+      expect(voicing.fingers).toBeLessThanOrEqual(4);
+    });
+  });
+
+  it('puts the slash bass, or with inversions any chord tone, lowest', () => {
+    const slash = searchChordVoicings('D/F#')!;
+    expect(slash.symbol).toBe('D/F#');
+    expect(slash.voicings.every((voicing) => voicing.bassPc === 6)).toBe(true);
+    expect(shapesOf('D/F#')).toContain('2x0232');
+
+    expect(searchChordVoicings('C')!.voicings.every((voicing) => voicing.bassPc === 0)).toBe(true);
+    const withInversions = searchChordVoicings('C', { allowInversions: true })!;
+    expect(withInversions.voicings.some((voicing) => voicing.isInversion && voicing.bassPc === 4)).toBe(true);
+  });
+
+  it('searches the written tones of chords outside the catalog', () => {
+    const power = searchChordVoicings('C5')!;
+    expect(power).toMatchObject({ symbol: 'C5', chordNotes: ['C', 'G'], chordPcs: [0, 7] });
+    expect(shapesOf('C5')).toContain('x355xx');
+
+    const noFifth = searchChordVoicings('C7no5/E')!;
+    expect(noFifth.symbol).toBe('C7no5/E');
+    expect(noFifth.voicings.length).toBeGreaterThan(0);
+    noFifth.voicings.forEach((voicing) => {
+      expect(voicing.bassPc).toBe(4);
+      expect(voicing.notes.every((pc) => [0, 4, 10].includes(pc))).toBe(true);
+    });
+  });
+
+  it('searches in the chosen tuning and returns null for unknown symbols', () => {
+    expect(shapesOf('D', { tuning: getTuningById('drop-d') })).toContain('000232');
+    expect(searchChordVoicings('nonsense')).toBeNull();
+  });
+
+  it('keeps only the easiest shapes past the result cap', () => {
+    const all = searchChordVoicings('C7', { tuning: getTuningById('seven-string'), maxResults: Infinity })!.voicings;
+    const capped = searchChordVoicings('C7', { tuning: getTuningById('seven-string'), maxResults: 10 })!.voicings;
+
+    expect(all.length).toBeGreaterThan(300);
+    expect(searchChordVoicings('C7', { tuning: getTuningById('seven-string') })!.voicings).toHaveLength(300);
+    expect(capped).toEqual(all.slice(0, 10));
+  });
+
+  it('formats two-digit frets with separators', () => {
+    expect(formatChordFrets([null, 3, 2, 0, 1, 0])).toBe('x32010');
+    expect(formatChordFrets([null, 10, 12, 12, 12, null])).toBe('x-10-12-12-12-x');
+  });
+});
@@ -0,0 +1,62 @@
+import { render } from '@testing-library/react';
+import FretboardDiagram from '../projects/guitar/components/FretboardDiagram';
+import { getSvgDiagramSize, rasterizeSvg, serializeSvgDiagram } from '@/lib/guitar/diagram-export';
+import { C_MAJOR_VOICING } from './fixtures/guitar-voicings';
+
+function parseSvg(markup: string): Document {
+  return new DOMParser().parseFromString(markup, 'image/svg+xml');
+}
+
+describe('diagram export', () => {
+  afterEach(() => {
+    document.head.innerHTML = '';
+  });
+
+  it('writes a standalone SVG with page styles inlined and classes dropped', () => {
+    document.head.innerHTML = '<style>.board { background-color: rgb(17, 24, 39); } .muted { fill: rgb(107, 114, 128); font-family: Helvetica; }</style>';
+    const { container } = render(
+      <div className="board">
+        <svg viewBox="0 0 200 100">
+          <text className="muted" x="10" y="10">5fr</text>
+          <circle cx="50" cy="50" r="10" fill="#ef4444" />
+        </svg>
+      </div>
+    );
+
+    const svg = container.querySelector('svg')!;
+    const doc = parseSvg(serializeSvgDiagram(svg));
+    const root = doc.documentElement;
+
+    expect(doc.querySelector('parsererror')).toBeNull();
+    expect(root.getAttribute('xmlns')).toBe('http://www.w3.org/2000/svg');
+    expect([root.getAttribute('width'), root.getAttribute('height')]).toEqual(['200', '100']);
+
+    // The page background behind the diagram becomes its first shape
+    const background = root.firstElementChild!;
+    expect(background.tagName).toBe('rect');
+    expect(background.getAttribute('fill')).toBe('rgb(17, 24, 39)');
+
+    const text = doc.querySelector('text')!;
+    expect(text.hasAttribute('class')).toBe(false);
+    expect(text.getAttribute('style')).toContain('fill:rgb(107, 114, 128)');
+    expect(text.getAttribute('style')).toContain('font-family:Helvetica');
+    expect(doc.querySelector('circle')!.getAttribute('fill')).toBe('#ef4444');
+  });
+
+  it('exports a chord diagram with its note colors, and leaves out the background on request', () => {
+    const { container } = render(
+      <FretboardDiagram voicing={C_MAJOR_VOICING} stringNames={['G', 'B', 'E']} triadPcs={[0, 4, 7]} />
+    );
+    const svg = container.querySelector('svg')!;
+    const doc = parseSvg(serializeSvgDiagram(svg, { background: null }));
+
+    expect(doc.documentElement.firstElementChild!.tagName).not.toBe('rect');
+    const noteFills = Array.from(doc.querySelectorAll('circle')).map((circle) => circle.getAttribute('fill'));
+    expect(noteFills).toEqual(expect.arrayContaining(['#ef4444', '#10b981', '#f97316'])); // C, E, G
+    expect(getSvgDiagramSize(svg)).toEqual({ width: 200, height: 280 }); // Four frets shown
+  });
+
+  it('rejects a PNG resolution that is not positive', async () => {
+    await expect(rasterizeSvg('<svg/>', 10, 10, 0)).rejects.toThrow('Invalid DPI');
+  });
+});
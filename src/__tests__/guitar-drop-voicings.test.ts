@@ -0,0 +1,66 @@
+import {
+  findVoiceLedNeighbor,
+  generateDropVoicingsData,
+  getDropStringSets,
+  getDropVoiceTones,
+  getVoiceMotion,
+} from '@/lib/guitar/drop-voicings';
+import { listChordFormulaIds } from '@/lib/guitar/theory-catalog';
+import { getTuningById } from '@/lib/guitar/tunings';
+
+describe('drop voicings', () => {
+  it('uses adjacent string sets for drop-2 and skips the string above the bass for drop-3', () => {
+    expect(getDropStringSets('drop2', 6)).toEqual([[0, 1, 2, 3], [1, 2, 3, 4], [2, 3, 4, 5]]);
+    expect(getDropStringSets('drop3', 6)).toEqual([[0, 2, 3, 4], [1, 3, 4, 5]]);
+    expect(getDropStringSets('drop3', 4)).toEqual([]);
+  });
+
+  it('voices four tones for every chord type, leaving the root and fifth out of extended chords', () => {
+    expect(getDropVoiceTones('maj7').map((tone) => tone.degree)).toEqual(['1', '3', '5', '7']);
+    expect(getDropVoiceTones('major').map((tone) => tone.degree)).toEqual(['1', '3', '5']);
+    expect(getDropVoiceTones('9').map((tone) => tone.degree)).toEqual(['9', '3', '5', 'b7']);
+    expect(getDropVoiceTones('13').map((tone) => tone.degree)).toEqual(['9', '3', '13', 'b7']);
+
+    listChordFormulaIds().forEach((chordType) => {
+      const data = generateDropVoicingsData('C', chordType, 'drop2');
+      data.stringSets.forEach((set) => {
+        expect(set.voicings.length).toBeGreaterThan(0);
+        set.voicings.forEach((voicing) => expect(voicing.frets).toHaveLength(4));
+      });
+    });
+  });
+
+  it('finds the textbook Cmaj7 root-position shapes with all four inversions on each set', () => {
+    const drop2 = generateDropVoicingsData('C', 'maj7', 'drop2');
+    const topSet = drop2.stringSets[2];
+    expect(topSet.stringNames).toEqual(['D', 'G', 'B', 'E']);
+    const rootPosition = topSet.voicings.find((voicing) => voicing.degrees[0] === '1');
+    expect(rootPosition).toMatchObject({ frets: [10, 12, 12, 12], degrees: ['1', '5', '7', '3'], noteNames: ['C', 'G', 'B', 'E'] });
+    expect(new Set(topSet.voicings.map((voicing) => voicing.inversion))).toEqual(new Set([0, 1, 2, 3]));
+
+    const drop3 = generateDropVoicingsData('C', 'maj7', 'drop3');
+    const rootPosition3 = drop3.stringSets[0].voicings.find((voicing) => voicing.degrees[0] === '1');
+    expect(rootPosition3).toMatchObject({ strings: [0, 2, 3, 4], frets: [8, 9, 9, 8], degrees: ['1', '7', '3', '5'] });
+  });
+
+  it('leads each voice to its next chord tone to reach the neighbouring inversion', () => {
+    const { voicings } = generateDropVoicingsData('C', 'maj7', 'drop2').stringSets[2];
+    const rootPosition = voicings.find((voicing) => voicing.frets.join(',') === '10,12,12,12')!;
+
+    const above = findVoiceLedNeighbor(rootPosition, voicings, 1)!;
+    expect(above.degrees).toEqual(['3', '7', '1', '5']);
+    expect(getVoiceMotion(rootPosition, above)).toEqual([4, 4, 1, 3]);
+
+    const below = findVoiceLedNeighbor(rootPosition, voicings, -1)!;
+    expect(below.degrees).toEqual(['7', '3', '5', '1']);
+    expect(findVoiceLedNeighbor(below, voicings, 1)).toBe(rootPosition);
+  });
+
+  it('follows the tuning', () => {
+    const rootBassFret = (tuningId: string) =>
+      generateDropVoicingsData('D', '7', 'drop3', getTuningById(tuningId))
+        .stringSets[0].voicings.find((voicing) => voicing.degrees[0] === '1')?.frets[0];
+    expect(rootBassFret('standard')).toBe(10);
+    expect(rootBassFret('drop-d')).toBe(12);
+  });
+});
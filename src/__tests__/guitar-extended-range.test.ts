@@ -0,0 +1,105 @@
+import { generateBoxShapePatterns } from '@/lib/guitar/box-shapes';
+import { generateChordData } from '@/lib/guitar/chords';
+import { buildFretboard } from '@/lib/guitar/core';
+import {
+  calculateAllStringYPositions,
+  getDoubleInlayStringPairs,
+  getFretboardSvgHeight,
+} from '@/lib/guitar/fretboard-dimensions';
+import { getStringThickness, isWoundString } from '@/lib/guitar/fretboard-physics';
+import { generateTriadsData, getTriadStringGroups } from '@/lib/guitar/triads';
+import { getStringCount, getTuningById, getTuningStringNames } from '@/lib/guitar/tunings';
+
+const MAJOR_INTERVALS = [0, 2, 4, 5, 7, 9, 11];
+
+describe('extended-range instruments', () => {
+  it('lists adjacent triad string groups for any string count', () => {
+    expect(getTriadStringGroups(6)).toEqual([[0, 1, 2], [1, 2, 3], [2, 3, 4], [3, 4, 5]]);
+    expect(getTriadStringGroups(4)).toEqual([[0, 1, 2], [1, 2, 3]]);
+    expect(getTriadStringGroups(8)).toHaveLength(6);
+    expect(getTriadStringGroups(2)).toEqual([]);
+  });
+
+  it('spaces string positions evenly and keeps six-string geometry unchanged', () => {
+    const sixString = calculateAllStringYPositions();
+    const spacing = sixString[4] - sixString[5];
+    expect(sixString).toHaveLength(6);
+    expect(getFretboardSvgHeight()).toBeCloseTo(spacing * 7);
+
+    const sevenString = calculateAllStringYPositions(7);
+    expect(sevenString).toHaveLength(7);
+    expect(sevenString[0] - sevenString[1]).toBeCloseTo(spacing);
+    expect(sevenString[6]).toBeCloseTo(sixString[5]);
+
+    expect(getDoubleInlayStringPairs(6)).toEqual([[1, 2], [3, 4]]);
+    expect(getDoubleInlayStringPairs(4)).toEqual([[0, 1], [2, 3]]);
+  });
+
+  it('sizes strings from the gauge set for the string count', () => {
+    expect(getStringThickness(5, 1.5)).toBeCloseTo(1.5);
+    expect(getStringThickness(0, 1, 7)).toBeGreaterThan(getStringThickness(1, 1, 7));
+    expect(getStringThickness(3, 1, 4)).toBeCloseTo(1);
+    expect(getStringThickness(0, 1, 9)).toBeGreaterThan(getStringThickness(8, 1, 9));
+    expect(isWoundString(3)).toBe(true);
+    expect(isWoundString(4)).toBe(false);
+    expect([0, 1, 2, 3].every((stringIndex) => isWoundString(stringIndex, 4))).toBe(true);
+  });
+
+  it('voices triads on every string group of a 4-string bass and a 7-string', () => {
+    const bass = getTuningById('bass-4');
+    const bassTriads = generateTriadsData('G', bass);
+    expect(getTuningStringNames(bass)).toEqual(['E', 'A', 'D', 'G']);
+    expect(bassTriads.stringGroups.map((group) => group.stringNames)).toEqual([
+      ['E', 'A', 'D'],
+      ['A', 'D', 'G'],
+    ]);
+
+    const sevenString = getTuningById('seven-string');
+    const fretboard = buildFretboard(sevenString);
+    const triads = generateTriadsData('C', sevenString);
+    expect(triads.stringGroups).toHaveLength(5);
+    triads.stringGroups.forEach((group) => {
+      expect(group.voicings.length).toBeGreaterThan(0);
+      group.voicings.forEach((voicing) => {
+        const pitchClasses = voicing.frets.map((fret, index) => fretboard[voicing.strings[index]][fret]);
+        expect(new Set(pitchClasses)).toEqual(new Set([0, 4, 7]));
+      });
+    });
+
+    expect(generateChordData('E', 'minor', getTuningById('bass-5'))?.stringGroups).toHaveLength(3);
+  });
+
+  it('builds box shapes across all strings of an 8-string', () => {
+    const eightString = getTuningById('eight-string');
+    const openPitchClasses = eightString.openStringMidi.map((midi) => midi % 12);
+    const boxes = generateBoxShapePatterns('E', 'major', { tuning: eightString });
+
+    expect(boxes).toHaveLength(7);
+    boxes.forEach((box) => {
+      expect(box.pattern).toHaveLength(getStringCount(eightString));
+      box.pattern.forEach((stringFrets, stringIndex) => {
+        stringFrets.forEach((fret) => {
+          expect(MAJOR_INTERVALS).toContain((openPitchClasses[stringIndex] + fret - 4 + 120) % 12);
+        });
+      });
+    });
+  });
+
+  it('keeps major and blues boxes within a hand span on basses and the 7-string', () => {
+    const fretSpan = (pattern: number[][]) => Math.max(...pattern.flat()) - Math.min(...pattern.flat());
+
+    ['bass-4', 'bass-5', 'seven-string'].forEach((tuningId) => {
+      const tuning = getTuningById(tuningId);
+
+      ['C', 'E', 'G', 'A#'].forEach((key) => {
+        generateBoxShapePatterns(key, 'major', { tuning }).forEach((box) => {
+          expect(fretSpan(box.pattern)).toBeLessThanOrEqual(5);
+          expect(box.pattern.filter((stringFrets) => stringFrets.length === 2)).toHaveLength(1);
+        });
+        generateBoxShapePatterns(key, 'blues', { tuning, includeExperimentalBluesShape: true }).forEach((box) => {
+          expect(fretSpan(box.pattern)).toBeLessThanOrEqual(6);
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { render, screen } from '@testing-library/react';
+import FretboardDiagram from '../projects/guitar/components/FretboardDiagram';
+import ScalePatternFretboard from '@/components/ScalePatternFretboard';
+import { assignBoxFingering, assignVoicingFingering } from '@/lib/guitar/fingering';
+import type { TriadVoicing } from '@/lib/guitar/triads';
+
+const allStrings = (frets: number[]) => ({ strings: frets.map((_, i) => i), frets });
+
+describe('voicing fingering', () => {
+  it('fingers the open chords the way they are taught', () => {
+    expect(assignVoicingFingering({ strings: [1, 2, 3, 4, 5], frets: [3, 2, 0, 1, 0] })).toEqual({
+      fingers: [3, 2, 0, 1, 0],
+      barre: null,
+    });
+    expect(assignVoicingFingering(allStrings([0, 2, 2, 1, 0, 0]))!.fingers).toEqual([0, 2, 3, 1, 0, 0]);
+    expect(assignVoicingFingering({ strings: [1, 2, 3, 4, 5], frets: [0, 2, 2, 2, 0] })!.fingers).toEqual([0, 1, 2, 3, 0]);
+  });
+
+  it('barres with the index when one finger has to hold several strings', () => {
+    expect(assignVoicingFingering(allStrings([1, 3, 3, 2, 1, 1]))).toEqual({
+      fingers: [1, 3, 4, 2, 1, 1],
+      barre: { finger: 1, fret: 1, fromString: 0, toString: 5 },
+    });
+  });
+
+  it('spreads a stretched triad across the fingers and rejects unreachable ones', () => {
+    expect(assignVoicingFingering({ strings: [3, 4, 5], frets: [5, 5, 3] })!.fingers).toEqual([3, 4, 1]);
+    expect(assignVoicingFingering({ strings: [3, 4, 5], frets: [2, 5, 9] })).toBeNull();
+  });
+});
+
+describe('box fingering', () => {
+  it('gives one finger per fret from the lowest fret of the box', () => {
+    // E minor pentatonic box 1
+    expect(assignBoxFingering([[12, 15], [12, 14], [12, 14], [12, 14], [12, 15], [12, 15]])).toEqual([
+      [1, 4], [1, 3], [1, 3], [1, 3], [1, 4], [1, 4],
+    ]);
+  });
+
+  it('shifts up a fret or stretches when a string leaves the four-fret window', () => {
+    expect(assignBoxFingering([[5, 7, 8], [6, 8, 9]])).toEqual([[1, 3, 4], [1, 3, 4]]);
+    expect(assignBoxFingering([[0, 2], [3, 5]])).toEqual([[0, 1], [2, 4]]);
+  });
+});
+
+describe('fingering display', () => {
+  it('shows finger numbers in the box-shape note markers', () => {
+    render(
+      <ScalePatternFretboard
+        title="Fingering"
+        selectedKey="A"
+        pattern={[[5, 8], [], [], [], [], []]}
+        rootPositions={[]}
+        fingering={[[1, 4], [], [], [], [], []]}
+        showTitle={false}
+        numFrets={12}
+      />
+    );
+
+    expect(screen.getByText('1').tagName).toBe('text');
+    expect(screen.getByText('4').tagName).toBe('text');
+    expect(screen.queryByText('A')).toBeNull();
+  });
+
+  it('shows finger numbers and the barre on a voicing diagram', () => {
+    const dotLabelsFor = (voicing: TriadVoicing) => {
+      const { container, unmount } = render(
+        <FretboardDiagram voicing={voicing} stringNames={['G', 'B', 'E']} triadPcs={[9, 0, 4]} showFingering />
+      );
+      const labels = Array.from(container.querySelectorAll('svg g text')).map((text) => text.textContent).slice(-3);
+      const hasBarre = container.querySelector('svg rect') !== null;
+      unmount();
+      return { labels, hasBarre };
+    };
+
+    // A minor, 1st inversion: three fingers side by side
+    expect(dotLabelsFor({
+      frets: [5, 5, 5],
+      strings: [3, 4, 5],
+      notes: [0, 4, 9],
+      noteNames: ['C', 'E', 'A'],
+      position: 0,
+      inversion: 'first',
+      avgFret: 5,
+    })).toEqual({ labels: ['1', '2', '3'], hasBarre: false });
+
+    // C with a doubled root: 1-2-4 would stretch, so the index barres
+    expect(dotLabelsFor({
+      frets: [5, 5, 8],
+      strings: [3, 4, 5],
+      notes: [0, 4, 0],
+      noteNames: ['C', 'E', 'C'],
+      position: 0,
+      inversion: 'root',
+      avgFret: 6,
+    })).toEqual({ labels: ['1', '1', '4'], hasBarre: true });
+  });
+});
@@ -0,0 +1,93 @@
+import { generateBoxShapePatterns } from '@/lib/guitar/box-shapes';
+import { buildFretboard } from '@/lib/guitar/core';
+import { calculateNoteFrequency, playNote } from '@/lib/guitar/sound';
+import { generateTriadsData, select4Positions } from '@/lib/guitar/triads';
+import type { TriadVoicing } from '@/lib/guitar/triads';
+import { STANDARD_TUNING, getFretCount, getTuningById, withFretCount } from '@/lib/guitar/tunings';
+import { setExternalNoteOutput } from '@/utils/note-output';
+import type { NoteOutput, ScheduledNote } from '@/utils/note-output';
+
+const maxFretOf = (frets: number[]) => Math.max(...frets);
+
+describe('instrument fret count', () => {
+  it('sets, clears and validates the fret count on a tuning', () => {
+    const twentyFour = withFretCount(STANDARD_TUNING, 24);
+
+    expect(getFretCount(STANDARD_TUNING)).toBe(18);
+    expect(getFretCount(STANDARD_TUNING, 24)).toBe(24);
+    expect(getFretCount(twentyFour)).toBe(24);
+    expect(withFretCount(twentyFour, null)).toEqual(STANDARD_TUNING);
+    expect(() => withFretCount(STANDARD_TUNING, 25)).toThrow('Invalid fret count');
+    expect(() => withFretCount(STANDARD_TUNING, 21.5)).toThrow('Invalid fret count');
+  });
+
+  it('sounds frets up to the instrument fret count', () => {
+    const twentyFour = withFretCount(STANDARD_TUNING, 24);
+
+    expect(calculateNoteFrequency(5, 24, twentyFour)).toBeCloseTo(1318.51, 1);
+    // Without a fret count any fret a view can draw sounds
+    expect(calculateNoteFrequency(5, 24)).toBeCloseTo(1318.51, 1);
+    expect(calculateNoteFrequency(0, 24)).toBeCloseTo(329.63, 1);
+    expect(() => calculateNoteFrequency(5, 25)).toThrow('Must be 0-24');
+    expect(() => calculateNoteFrequency(5, 22, withFretCount(STANDARD_TUNING, 21))).toThrow('Must be 0-21');
+  });
+
+  it('plays fret 24 on the default tuning', () => {
+    const scheduled: ScheduledNote[] = [];
+    const output: NoteOutput = { name: 'Recorder', schedule: (notes) => scheduled.push(...notes), stopAll: jest.fn() };
+    setExternalNoteOutput(output);
+    try {
+      expect(() => playNote(5, 24)).not.toThrow();
+      expect(scheduled).toEqual([{ midi: 88, startSec: 0, durationSec: 2 }]);
+    } finally {
+      setExternalNoteOutput(null);
+    }
+  });
+
+  it('maps the whole neck and places triads above the 18th fret', () => {
+    const tuning = withFretCount(getTuningById('drop-d'), 24);
+    expect(buildFretboard(tuning)[0][24]).toBe(2);
+
+    const voicings = generateTriadsData('A', tuning).stringGroups.flatMap((group) => group.voicings);
+    expect(voicings.some((voicing) => maxFretOf(voicing.frets) > 18)).toBe(true);
+    expect(voicings.every((voicing) => maxFretOf(voicing.frets) <= 24)).toBe(true);
+  });
+
+  it('leaves out positions past the last fret', () => {
+    const high: Omit<TriadVoicing, 'position'> = {
+      frets: [20, 19, 19],
+      strings: [3, 4, 5],
+      notes: [2, 6, 9],
+      noteNames: ['D', 'F#', 'A'],
+      inversion: 'root',
+      avgFret: 19.33,
+    };
+    const low: Omit<TriadVoicing, 'position'> = { ...high, frets: [7, 7, 5], avgFret: 6.33 };
+
+    expect(select4Positions([low, high], 'root').map((voicing) => voicing.frets)).toEqual([[7, 7, 5]]);
+    expect(select4Positions([low, high], 'root', 22)).toHaveLength(2);
+  });
+
+  it('keeps standard-tuning triads on a short neck', () => {
+    const voicings = generateTriadsData('A', withFretCount(STANDARD_TUNING, 12)).stringGroups
+      .flatMap((group) => group.voicings);
+    const hardCoded = generateTriadsData('A').stringGroups.flatMap((group) => group.voicings);
+
+    expect(maxFretOf(hardCoded.flatMap((voicing) => voicing.frets))).toBeGreaterThan(12);
+    expect(voicings.length).toBeGreaterThan(0);
+    expect(voicings.every((voicing) => maxFretOf(voicing.frets) <= 12)).toBe(true);
+  });
+
+  it('keeps box shapes on a shorter neck', () => {
+    const tuning = withFretCount(STANDARD_TUNING, 21);
+    const unlimited = generateBoxShapePatterns('Eb', 'blues');
+    const boxes = generateBoxShapePatterns('Eb', 'blues', { tuning });
+
+    expect(maxFretOf(unlimited.flatMap((box) => box.pattern.flat()))).toBeGreaterThan(21);
+    expect(boxes).toHaveLength(unlimited.length);
+    boxes.forEach((box) => {
+      expect(maxFretOf(box.pattern.flat())).toBeLessThanOrEqual(21);
+      expect(box.rootPositions.every(([, fret]) => fret <= 21)).toBe(true);
+    });
+  });
+});
@@ -54,6 +54,9 @@ describe('guitar looper sync helpers', () => {
     expect(getChordPitchClassesFromSymbol('G7')).toEqual([7, 11, 2, 5]);
     expect(getChordPitchClassesFromSymbol('D/F#')).toEqual([2, 6, 9]);
     expect(getChordPitchClassesFromSymbol('  Em7b5  ')).toEqual([4, 7, 10, 2]);
+    expect(getChordPitchClassesFromSymbol('Dsus4')).toEqual([2, 7, 9]);
+    expect(getChordPitchClassesFromSymbol('C6/9')).toEqual([0, 4, 7, 9, 2]);
+    expect(getChordPitchClassesFromSymbol('G13b9/B')).toEqual([7, 11, 2, 5, 8, 4]);
   });
 
   it('safely returns an empty list for invalid chord symbols', () => {
@@ -0,0 +1,94 @@
+import { act, fireEvent, render } from '@testing-library/react';
+import GuitarTuner from '../projects/guitar/components/GuitarTuner';
+import { startPitchInput } from '@/lib/guitar/mic-input';
+import type { PitchEstimate } from '@/lib/guitar/pitch-detection';
+
+function createFakeMic(sampleRate: number, frequency: number) {
+  const track = { stop: jest.fn() };
+  const stream = { getTracks: () => [track] };
+  const analyser = {
+    fftSize: 2048,
+    getFloatTimeDomainData: (frame: Float32Array) => {
+      frame.forEach((_, i) => {
+        frame[i] = 0.5 * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+      });
+    },
+  };
+  class FakeAudioContext {
+    sampleRate = sampleRate;
+    createMediaStreamSource = () => ({ connect: jest.fn() });
+    createAnalyser = () => analyser;
+    close = jest.fn(() => Promise.resolve());
+  }
+  return { track, stream, analyser, FakeAudioContext };
+}
+
+describe('microphone pitch input', () => {
+  const frames: FrameRequestCallback[] = [];
+  const runFrame = () => frames.shift()?.(0);
+
+  beforeEach(() => {
+    frames.length = 0;
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((callback) => frames.push(callback));
+    jest.spyOn(window, 'cancelAnimationFrame').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    Object.defineProperty(navigator, 'mediaDevices', { value: undefined, configurable: true });
+  });
+
+  function installFakeMic(mic: ReturnType<typeof createFakeMic>, getUserMedia: () => Promise<unknown>) {
+    Object.defineProperty(navigator, 'mediaDevices', { value: { getUserMedia }, configurable: true });
+    Object.defineProperty(window, 'AudioContext', { value: mic.FakeAudioContext, configurable: true, writable: true });
+  }
+
+  it('sizes the frame from the sample rate, so a 96 kHz interface still hears a low E', async () => {
+    const mic = createFakeMic(96000, 41.2);
+    installFakeMic(mic, () => Promise.resolve(mic.stream));
+    const estimates: Array<PitchEstimate | null> = [];
+
+    const stop = await startPitchInput((estimate) => estimates.push(estimate));
+    runFrame();
+
+    expect(mic.analyser.fftSize).toBe(8192);
+    expect(estimates[0]?.frequency).toBeCloseTo(41.2, 0);
+    stop();
+    expect(mic.track.stop).toHaveBeenCalled();
+  });
+
+  it('keeps listening when a frame or the callback throws', async () => {
+    const mic = createFakeMic(44100, 110);
+    mic.analyser.getFloatTimeDomainData = () => {
+      throw new Error('Analyser closed');
+    };
+    installFakeMic(mic, () => Promise.resolve(mic.stream));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const onPitch = jest.fn(() => {
+      throw new Error('Handler failed');
+    });
+
+    const stop = await startPitchInput(onPitch, 0);
+    expect(runFrame).not.toThrow();
+    expect(runFrame).not.toThrow();
+
+    expect(onPitch).toHaveBeenCalledTimes(2);
+    expect(onPitch).toHaveBeenLastCalledWith(null, expect.any(Number));
+    expect(frames).toHaveLength(1);
+    stop();
+  });
+
+  it('closes a mic that opens after the tuner has gone', async () => {
+    const mic = createFakeMic(48000, 110);
+    let grant: (stream: unknown) => void = () => undefined;
+    installFakeMic(mic, () => new Promise((resolve) => (grant = resolve)));
+
+    const { getByText, unmount } = render(<GuitarTuner />);
+    fireEvent.click(getByText('Start tuner (uses microphone)'));
+    unmount();
+    await act(async () => grant(mic.stream));
+
+    expect(mic.track.stop).toHaveBeenCalled();
+    expect(window.cancelAnimationFrame).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,130 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import TabExportButtons from '../projects/guitar/components/TabExportButtons';
+import {
+  chordSymbolToHarmonyXml,
+  renderBoxShapeMusicXml,
+  renderMusicXml,
+  renderProgressionMusicXml,
+  renderVoicingsMusicXml,
+} from '@/lib/guitar/musicxml';
+import { getTuningById } from '@/lib/guitar/tunings';
+
+function parseScore(xml: string): Document {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+  return doc;
+}
+
+function text(parent: Element | Document, selector: string): string[] {
+  return Array.from(parent.querySelectorAll(selector), (el) => el.textContent ?? '');
+}
+
+// Summed durations of each staff in a measure, skipping the extra notes of a chord
+function staffDurations(measure: Element, staff: string): number {
+  return Array.from(measure.querySelectorAll('note'))
+    .filter((note) => note.querySelector('staff')?.textContent === staff && !note.querySelector('chord'))
+    .reduce((sum, note) => sum + Number(note.querySelector('duration')?.textContent), 0);
+}
+
+describe('MusicXML export', () => {
+  it('writes a notation staff and a TAB staff tuned like the guitar', () => {
+    const doc = parseScore(renderVoicingsMusicXml([{ strings: [3, 4, 5], frets: [5, 5, 3] }], { title: 'C & friends' }));
+
+    expect(doc.documentElement.getAttribute('version')).toBe('4.0');
+    expect(text(doc, 'work-title')).toEqual(['C & friends']);
+    expect(text(doc, 'staves')).toEqual(['2']);
+    expect(text(doc, 'clef[number="2"] sign')).toEqual(['TAB']);
+    expect(text(doc, 'clef[number="1"] clef-octave-change')).toEqual(['-1']);
+    expect(text(doc, 'staff-details staff-lines')).toEqual(['6']);
+    expect(text(doc, 'staff-tuning[line="1"] tuning-step')).toEqual(['E']);
+    expect(text(doc, 'staff-tuning[line="1"] tuning-octave')).toEqual(['2']);
+    expect(text(doc, 'staff-tuning[line="6"] tuning-octave')).toEqual(['4']);
+  });
+
+  it('voices chords on both staves with strings numbered from the highest', () => {
+    const doc = parseScore(renderVoicingsMusicXml([{ strings: [3, 4, 5], frets: [5, 5, 3] }]));
+    const notes = Array.from(doc.querySelectorAll('note')).filter((note) => note.querySelector('pitch'));
+    const tabNotes = notes.filter((note) => note.querySelector('staff')?.textContent === '2');
+
+    expect(notes).toHaveLength(6);
+    expect(tabNotes.map((note) => `${note.querySelector('step')?.textContent}${note.querySelector('octave')?.textContent}`))
+      .toEqual(['C4', 'E4', 'G4']);
+    expect(tabNotes.map((note) => note.querySelector('string')?.textContent)).toEqual(['3', '2', '1']);
+    expect(tabNotes.map((note) => note.querySelector('fret')?.textContent)).toEqual(['5', '5', '3']);
+    expect(tabNotes.map((note) => note.querySelector('chord') !== null)).toEqual([false, true, true]);
+  });
+
+  it('fills every measure on both staves and pads the last with rests', () => {
+    const doc = parseScore(renderBoxShapeMusicXml([[5, 8], [5, 7], [5, 7], [5, 7], [5, 8], [5, 8]]));
+    const measures = Array.from(doc.querySelectorAll('measure'));
+
+    // 23 eighth notes: three bars of 4/4, the last ending on a rest
+    expect(measures).toHaveLength(3);
+    measures.forEach((measure) => {
+      expect(staffDurations(measure, '1')).toBe(8);
+      expect(staffDurations(measure, '2')).toBe(8);
+    });
+    expect(text(measures[2], 'note type')[0]).toBe('eighth');
+    expect(measures[2].querySelectorAll('rest')).toHaveLength(2);
+  });
+
+  it('spells pitches for the tuning and rejects layouts it cannot write', () => {
+    const doc = parseScore(renderMusicXml(
+      [{ notes: [{ stringIndex: 0, fret: 1 }] }],
+      { tuning: getTuningById('drop-d'), preferFlats: true }
+    ));
+    expect(text(doc, 'note pitch step')[0]).toBe('E');
+    expect(text(doc, 'note pitch alter')[0]).toBe('-1');
+    expect(text(doc, 'staff-tuning[line="1"] tuning-step')).toEqual(['D']);
+
+    expect(() => renderMusicXml([], { beatsPerColumn: 3, beatsPerMeasure: 4 })).toThrow('Invalid rhythm');
+    expect(() => renderMusicXml([{ notes: [{ stringIndex: 6, fret: 0 }] }])).toThrow('6-string');
+    expect(() => renderMusicXml([{ notes: [{ stringIndex: 1, fret: 1 }] }], { capoFret: 2 })).toThrow('behind a capo');
+  });
+});
+
+describe('MusicXML chord symbols', () => {
+  it('writes root, kind, bass and altered fifths', () => {
+    expect(chordSymbolToHarmonyXml('Bbm7')).toBe(
+      '<harmony print-frame="no"><root><root-step>B</root-step><root-alter>-1</root-alter></root>'
+      + '<kind text="m7">minor-seventh</kind><staff>1</staff></harmony>'
+    );
+    expect(chordSymbolToHarmonyXml('D/F#')).toContain('<bass><bass-step>F</bass-step><bass-alter>1</bass-alter></bass>');
+    expect(chordSymbolToHarmonyXml('E7b5')).toContain('<degree-alter>-1</degree-alter>');
+    expect(chordSymbolToHarmonyXml('Cadd9')).toContain('<kind text="add9">other</kind>');
+    expect(chordSymbolToHarmonyXml('N.C.')).toBeNull();
+  });
+
+  it('puts one voiced chord per bar under its symbol, with frets from the capo', () => {
+    const doc = parseScore(renderProgressionMusicXml({ title: 'Ballad', chordNames: 'Eb Cm | Ab Bb7' }, { capoFret: 1 }));
+    const measures = Array.from(doc.querySelectorAll('measure'));
+
+    expect(measures).toHaveLength(4);
+    expect(measures.map((measure) => text(measure, 'harmony root-step')[0])).toEqual(['E', 'C', 'A', 'B']);
+    expect(text(doc, 'harmony kind')).toEqual(['major', 'minor', 'major', 'dominant']);
+    expect(text(doc, 'staff-details capo')).toEqual(['1']);
+    expect(text(doc, 'note type')[0]).toBe('whole');
+    expect(text(doc, 'note pitch alter')).not.toContain('1'); // Flat keys are spelled with flats
+    measures.forEach((measure) => expect(staffDurations(measure, '2')).toBe(8));
+  });
+});
+
+describe('MusicXML download button', () => {
+  it('only appears with a score and saves it as .musicxml', () => {
+    const createObjectURL = jest.fn(() => 'blob:score');
+    Object.assign(URL, { createObjectURL, revokeObjectURL: jest.fn() });
+    const click = jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => undefined);
+    const getMusicXml = jest.fn(() => '<score-partwise/>');
+
+    const { rerender } = render(<TabExportButtons getTab={() => ''} fileName="riff" />);
+    expect(screen.queryByText('MusicXML')).toBeNull();
+
+    rerender(<TabExportButtons getTab={() => ''} getMusicXml={getMusicXml} fileName="riff" />);
+    fireEvent.click(screen.getByText('MusicXML'));
+
+    expect(getMusicXml).toHaveBeenCalled();
+    expect(createObjectURL).toHaveBeenCalledTimes(1);
+    expect((click.mock.instances[0] as unknown as HTMLAnchorElement).download).toBe('riff.musicxml');
+    click.mockRestore();
+  });
+});
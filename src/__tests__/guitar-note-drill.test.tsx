@@ -0,0 +1,123 @@
+import { fireEvent, render } from '@testing-library/react';
+import NoteMapFretboard, { getMasteryColor } from '../projects/guitar/components/NoteMapFretboard';
+import {
+  MAX_NOTE_DRILL_BOX,
+  NOTE_DRILL_BOX_INTERVALS_MS,
+  findFretsForPitchClass,
+  getCellMastery,
+  getMasteryMap,
+  getNoteDrillStorageKey,
+  parseNoteDrillMemory,
+  pickNoteDrillQuestion,
+  recordCellAnswer,
+  scoreNoteDrillAnswer,
+} from '@/lib/guitar/note-drill';
+import type { NoteDrillMemory } from '@/lib/guitar/note-drill';
+import { getTuningById } from '@/lib/guitar/tunings';
+
+const NOW = 1_700_000_000_000;
+
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+describe('note drill memory', () => {
+  it('moves cells up a box when quick, holds them when slow and resets them on a miss', () => {
+    let memory: NoteDrillMemory = {};
+    memory = recordCellAnswer(memory, 2, 3, true, false, NOW);
+    memory = recordCellAnswer(memory, 2, 3, true, false, NOW);
+    expect(memory['2:3']).toEqual({ box: 2, dueAt: NOW + NOTE_DRILL_BOX_INTERVALS_MS[2], attempts: 2, correct: 2 });
+
+    memory = recordCellAnswer(memory, 2, 3, true, true, NOW);
+    expect(memory['2:3'].box).toBe(2);
+
+    memory = recordCellAnswer(memory, 2, 3, false, false, NOW);
+    expect(memory['2:3']).toMatchObject({ box: 0, dueAt: NOW, attempts: 4, correct: 3 });
+    expect(getCellMastery(memory['2:3'])).toBe(0);
+    expect(getCellMastery(undefined)).toBeNull();
+  });
+
+  it('round-trips through storage and drops malformed entries', () => {
+    const memory = recordCellAnswer({}, 0, 5, true, false, NOW);
+    const raw = JSON.stringify({ ...memory, junk: { box: 1 }, '1:2': { box: 'x' } });
+
+    expect(parseNoteDrillMemory(raw)).toEqual(memory);
+    expect(parseNoteDrillMemory('not json')).toEqual({});
+    expect(parseNoteDrillMemory(null)).toEqual({});
+    expect(getNoteDrillStorageKey()).not.toBe(getNoteDrillStorageKey(getTuningById('drop-d')));
+  });
+});
+
+describe('note drill questions', () => {
+  it('finds every fret of a pitch class on a string', () => {
+    // F on the D string (4th string)
+    expect(findFretsForPitchClass(2, 5, 22)).toEqual([3, 15]);
+  });
+
+  it('favours weak and due cells over mastered ones', () => {
+    const mastered: NoteDrillMemory = {};
+    for (let stringIndex = 0; stringIndex < 6; stringIndex++) {
+      for (let fret = 0; fret <= 12; fret++) {
+        if (!(stringIndex === 1 && fret === 7)) {
+          mastered[`${stringIndex}:${fret}`] = { box: MAX_NOTE_DRILL_BOX, dueAt: NOW + 1e9, attempts: 5, correct: 5 };
+        }
+      }
+    }
+    mastered['1:7'] = { box: 0, dueAt: NOW, attempts: 3, correct: 0 };
+
+    const random = seededRandom(11);
+    let weakCellHits = 0;
+    for (let i = 0; i < 200; i++) {
+      const question = pickNoteDrillQuestion(mastered, { numFrets: 12, nowMs: NOW, random });
+      const asksWeakCell = question.kind === 'name'
+        ? question.stringIndex === 1 && question.fret === 7
+        : question.stringIndex === 1 && question.answerFrets.includes(7);
+      if (asksWeakCell) weakCellHits++;
+    }
+    // 1 of 78 cells, but it should come up far more often than 1 in 78
+    expect(weakCellHits).toBeGreaterThan(40);
+  });
+
+  it('scores naming and finding answers, including timeouts and wrong picks', () => {
+    const name = { kind: 'name' as const, stringIndex: 0, fret: 5, pitchClass: 9 };
+    expect(scoreNoteDrillAnswer({}, name, 9, 1000, NOW).correct).toBe(true);
+    expect(scoreNoteDrillAnswer({}, name, 9, 6000, NOW).correct).toBe(false);
+    expect(scoreNoteDrillAnswer({}, name, 4, 1000, NOW).memory['0:5'].box).toBe(0);
+
+    const find = { kind: 'find' as const, stringIndex: 2, pitchClass: 5, answerFrets: [3, 15] };
+    expect(scoreNoteDrillAnswer({}, find, [15, 3], 2000, NOW).correct).toBe(true);
+    const partial = scoreNoteDrillAnswer({}, find, [3, 4], 2000, NOW);
+    expect(partial.correct).toBe(false);
+    expect(partial.memory['2:3'].box).toBe(1);
+    expect(partial.memory['2:15'].box).toBe(0);
+    expect(partial.memory['2:4'].box).toBe(0);
+    expect(scoreNoteDrillAnswer({}, find, null, 12000, NOW).correct).toBe(false);
+  });
+});
+
+describe('mastery heatmap on the note map', () => {
+  it('shades asked cells and reports taps on cells', () => {
+    const memory = recordCellAnswer(recordCellAnswer({}, 0, 3, true, false, NOW), 5, 0, false, false, NOW);
+    const onCellClick = jest.fn();
+    const { container } = render(
+      <NoteMapFretboard
+        pitchClass={0}
+        showNotes={false}
+        heatmap={getMasteryMap(memory)}
+        onCellClick={onCellClick}
+      />
+    );
+
+    const fills = Array.from(container.querySelectorAll('rect[opacity="0.55"]')).map((rect) => rect.getAttribute('fill'));
+    expect(fills.sort()).toEqual([getMasteryColor(0), getMasteryColor(1 / MAX_NOTE_DRILL_BOX)].sort());
+    // Note dots are hidden
+    expect(Array.from(container.querySelectorAll('text')).some((text) => text.textContent === 'C')).toBe(false);
+
+    fireEvent.click(container.querySelector('[data-cell="2:7"]')!);
+    expect(onCellClick).toHaveBeenCalledWith(2, 7);
+  });
+});
@@ -0,0 +1,89 @@
+import { render } from '@testing-library/react';
+import CompactHorizontalFretboard from '../projects/guitar/components/CompactHorizontalFretboard';
+import FretboardDiagram from '../projects/guitar/components/FretboardDiagram';
+import {
+  RIGHT_HANDED_ORIENTATION,
+  getOrientationById,
+  isVerticalStringOrderReversed,
+  orientRectX,
+  orientStringIndex,
+  orientTextAnchor,
+  orientX,
+} from '@/lib/guitar/orientation';
+import { C_MAJOR_VOICING } from './fixtures/guitar-voicings';
+
+function getNoteLabelPositions(container: HTMLElement): Map<string, { x: number; y: number }> {
+  const positions = new Map<string, { x: number; y: number }>();
+  container.querySelectorAll('text').forEach((text) => {
+    const label = text.textContent ?? '';
+    if (C_MAJOR_VOICING.noteNames.includes(label)) {
+      positions.set(label, { x: Number(text.getAttribute('x')), y: Number(text.getAttribute('y')) });
+    }
+  });
+  return positions;
+}
+
+describe('fretboard orientation', () => {
+  it('mirrors coordinates, rects, anchors and string rows', () => {
+    const leftHanded = getOrientationById('left-handed');
+    const lowStringTop = getOrientationById('low-string-top');
+
+    expect(getOrientationById('unknown')).toBe(RIGHT_HANDED_ORIENTATION);
+    expect(orientX(30, 200, RIGHT_HANDED_ORIENTATION)).toBe(30);
+    expect(orientX(30, 200, leftHanded)).toBe(170);
+    expect(orientRectX(10, 50, 200, leftHanded)).toBe(140);
+    expect(orientTextAnchor('start', leftHanded)).toBe('end');
+    expect(orientTextAnchor('middle', leftHanded)).toBe('middle');
+    expect(orientStringIndex(0, 6, lowStringTop)).toBe(5);
+    expect(orientStringIndex(0, 6, leftHanded)).toBe(0);
+
+    expect(isVerticalStringOrderReversed(leftHanded)).toBe(true);
+    expect(isVerticalStringOrderReversed(getOrientationById('left-handed-low-string-top'))).toBe(false);
+  });
+
+  it('draws horizontal necks with the nut on the right when mirrored', () => {
+    const props = {
+      voicing: C_MAJOR_VOICING,
+      triadPcs: [0, 4, 7] as [number, number, number],
+      fretRange: { start: 0, end: 12 },
+    };
+    const rightHanded = render(<CompactHorizontalFretboard {...props} />).container;
+    const leftHanded = render(
+      <CompactHorizontalFretboard {...props} fretboardOrientation={getOrientationById('left-handed')} />
+    ).container;
+    const flipped = render(
+      <CompactHorizontalFretboard {...props} fretboardOrientation={getOrientationById('low-string-top')} />
+    ).container;
+
+    const width = Number(rightHanded.querySelector('svg')?.getAttribute('viewBox')?.split(' ')[2]);
+    const rightPositions = getNoteLabelPositions(rightHanded);
+    const leftPositions = getNoteLabelPositions(leftHanded);
+    const flippedPositions = getNoteLabelPositions(flipped);
+
+    C_MAJOR_VOICING.noteNames.forEach((name) => {
+      expect(leftPositions.get(name)?.x).toBeCloseTo(width - rightPositions.get(name)!.x);
+      expect(leftPositions.get(name)?.y).toBeCloseTo(rightPositions.get(name)!.y);
+      expect(flippedPositions.get(name)?.x).toBeCloseTo(rightPositions.get(name)!.x);
+    });
+    // The highest string moves from the top row to the bottom row
+    expect(flippedPositions.get('G')!.y).toBeGreaterThan(flippedPositions.get('C')!.y);
+    expect(rightPositions.get('G')!.y).toBeLessThan(rightPositions.get('C')!.y);
+  });
+
+  it('reverses the string columns and header of vertical chord boxes', () => {
+    const { container } = render(
+      <FretboardDiagram
+        voicing={C_MAJOR_VOICING}
+        stringNames={['G', 'B', 'E']}
+        triadPcs={[0, 4, 7]}
+        fretboardOrientation={getOrientationById('left-handed')}
+      />
+    );
+
+    const headerNames = Array.from(container.querySelectorAll('span.text-center')).map((span) => span.textContent);
+    expect(headerNames).toEqual(['E', 'B', 'G']);
+
+    const positions = getNoteLabelPositions(container);
+    expect(positions.get('C')!.x).toBeGreaterThan(positions.get('G')!.x);
+  });
+});
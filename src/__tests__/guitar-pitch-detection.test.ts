@@ -0,0 +1,83 @@
+import {
+  MAX_PITCH_FRAME_SIZE,
+  detectPitch,
+  frequencyToMidi,
+  getLowestDetectableFrequency,
+  getPitchFrameSize,
+  getTunerReading,
+} from '@/lib/guitar/pitch-detection';
+import { getTuningById } from '@/lib/guitar/tunings';
+
+const SAMPLE_RATE = 44100;
+const FRAME_LENGTH = 4096;
+
+function sine(frequency: number, amplitude = 0.5): Float32Array {
+  return Float32Array.from({ length: FRAME_LENGTH }, (_, i) =>
+    amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE)
+  );
+}
+
+function sawtooth(frequency: number): Float32Array {
+  return Float32Array.from({ length: FRAME_LENGTH }, (_, i) => {
+    const phase = (frequency * i) / SAMPLE_RATE;
+    return 0.8 * (phase - Math.floor(phase) - 0.5);
+  });
+}
+
+describe('pitch detection', () => {
+  it.each([41.2, 82.41, 110, 196, 329.63, 987.77])('finds the pitch of a %f Hz sine', (frequency) => {
+    const estimate = detectPitch(sine(frequency), SAMPLE_RATE);
+    expect(estimate).not.toBeNull();
+    expect(frequencyToMidi(estimate!.frequency)).toBeCloseTo(frequencyToMidi(frequency), 1);
+    expect(estimate!.clarity).toBeGreaterThan(0.9);
+  });
+
+  it.each([82.41, 146.83, 246.94])('reads the fundamental, not an octave, of a %f Hz sawtooth', (frequency) => {
+    const estimate = detectPitch(sawtooth(frequency), SAMPLE_RATE);
+    expect(estimate).not.toBeNull();
+    expect(frequencyToMidi(estimate!.frequency)).toBeCloseTo(frequencyToMidi(frequency), 1);
+  });
+
+  it('ignores silence and noise, and rejects frames too short for the range', () => {
+    let seed = 7;
+    const noise = Float32Array.from({ length: FRAME_LENGTH }, () => {
+      seed = (seed * 1664525 + 1013904223) % 4294967296;
+      return seed / 4294967296 - 0.5;
+    });
+
+    expect(detectPitch(sine(110, 0.001), SAMPLE_RATE)).toBeNull();
+    expect(detectPitch(noise, SAMPLE_RATE)).toBeNull();
+    expect(() => detectPitch(new Float32Array(1024), SAMPLE_RATE)).toThrow('Frame too short');
+  });
+
+  it('sizes frames to hold two periods of the lowest note at any sample rate', () => {
+    expect(getPitchFrameSize(44100)).toBe(4096);
+    expect(getPitchFrameSize(48000)).toBe(4096);
+    expect(getPitchFrameSize(96000)).toBe(8192);
+    expect(getPitchFrameSize(192000)).toBe(16384);
+    expect(getPitchFrameSize(768000)).toBe(MAX_PITCH_FRAME_SIZE);
+
+    // A capped frame searches from the lowest pitch it holds, without throwing
+    [44100, 96000, 192000, 768000].forEach((sampleRate) => {
+      const frame = new Float32Array(getPitchFrameSize(sampleRate));
+      const minFrequency = Math.max(27.5, getLowestDetectableFrequency(frame.length, sampleRate));
+      expect(() => detectPitch(frame, sampleRate, { minFrequency })).not.toThrow();
+    });
+    expect(getLowestDetectableFrequency(MAX_PITCH_FRAME_SIZE, 768000)).toBeCloseTo(46.88, 1);
+  });
+
+  it('names the note, cents and target string for the tuning', () => {
+    const flatA = getTunerReading(108);
+    expect(flatA.noteName).toBe('A');
+    expect(flatA.octave).toBe(2);
+    expect(flatA.cents).toBeCloseTo(-31.77, 1);
+    expect(flatA.stringIndex).toBe(1);
+
+    const sharpD = getTunerReading(75, getTuningById('drop-d'));
+    expect(sharpD.noteName).toBe('D');
+    expect(sharpD.stringIndex).toBe(0);
+    expect(sharpD.stringCents).toBeCloseTo(36.95, 1);
+
+    expect(() => getTunerReading(0)).toThrow('Invalid frequency');
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  EMPTY_PLAY_ALONG_STATS,
+  advancePatternDrill,
+  buildPatternDrill,
+  createNoteOnsetTracker,
+  getAccuracy,
+  getAverageReactionMs,
+  getPlayAlongTarget,
+  getPlayedMidi,
+  recordPlayAlongResult,
+  trackNoteOnset,
+} from '@/lib/guitar/play-along';
+import type { NoteOnsetTracker } from '@/lib/guitar/play-along';
+import { MODES } from '@/lib/guitar/constants';
+import { planXyzPositions } from '@/lib/guitar/core';
+import { getScalePitchClasses } from '@/lib/guitar/modes';
+
+function feedFrames(frames: Array<number | null>): number[] {
+  let tracker: NoteOnsetTracker = createNoteOnsetTracker();
+  const onsets: number[] = [];
+  frames.forEach((midi) => {
+    const next = trackNoteOnset(tracker, midi);
+    tracker = next.tracker;
+    if (next.onsetMidi !== null) onsets.push(next.onsetMidi);
+  });
+  return onsets;
+}
+
+describe('play-along verification', () => {
+  it('targets the sounding pitch of a position and rounds played pitches to the nearest note', () => {
+    expect(getPlayAlongTarget(1, 3)).toEqual({ stringIndex: 1, fret: 3, midi: 48 });
+    expect(getPlayedMidi(131.5)).toBe(48);
+    expect(getPlayedMidi(127)).toBe(47);
+  });
+
+  it('reports stable notes once, ignoring one-frame glitches until silence or a new note', () => {
+    expect(feedFrames([48, 48, 48, 60, 48, 48])).toEqual([48]);
+    expect(feedFrames([48, 48, null, 48, 48])).toEqual([48, 48]);
+    expect(feedFrames([48, 48, 50, 50, 52, 52])).toEqual([48, 50, 52]);
+  });
+
+  it('builds a three-notes-per-string run through the root', () => {
+    // C Ionian with the root on the 5th string, 3rd fret
+    const drill = buildPatternDrill('Ionian', 1, 3);
+
+    expect(drill).toHaveLength(18);
+    expect(drill.slice(0, 6).map((target) => [target.stringIndex, target.fret])).toEqual([
+      [0, 3], [0, 5], [0, 7],
+      [1, 3], [1, 5], [1, 7],
+    ]);
+    expect(drill.every((target, idx) => idx === 0 || target.midi > drill[idx - 1].midi)).toBe(true);
+    expect(drill.every((target) => target.fret >= 0 && target.fret <= 12)).toBe(true);
+    expect(new Set(drill.map((target) => target.midi % 12))).toEqual(new Set([0, 2, 4, 5, 7, 9, 11]));
+  });
+
+  it('follows the XYZ layout, an octave up where it would run under the nut', () => {
+    // C Dorian with the root on the 2nd string, 1st fret
+    const plan = planXyzPositions('Dorian', 4, 1);
+    expect(plan.map((position) => position.fret)).toEqual([-1, 0, 0, 0, 1, 1]);
+    const drill = buildPatternDrill('Dorian', 4, 1);
+    expect(drill.filter((_, idx) => idx % 3 === 0).map((target) => target.fret)).toEqual([11, 12, 12, 12, 13, 13]);
+    expect(drill[12]).toMatchObject({ stringIndex: 4, fret: 13, midi: 72 });
+
+    MODES.forEach((mode) => {
+      for (let stringIndex = 0; stringIndex < 6; stringIndex++) {
+        for (let fret = 0; fret <= 12; fret++) {
+          const layout = planXyzPositions(mode, stringIndex, fret);
+          const shift = layout.some((position) => position.fret < 0) ? 12 : 0;
+          const run = buildPatternDrill(mode, stringIndex, fret);
+          const scalePcs = getScalePitchClasses(run[stringIndex * 3].midi % 12, mode);
+
+          expect(run.filter((_, idx) => idx % 3 === 0).map((target) => target.fret)).toEqual(
+            layout.map((position) => position.fret + shift)
+          );
+          expect(run.every((target) => target.fret >= 0 && scalePcs.includes(target.midi % 12))).toBe(true);
+          expect(run.every((target, idx) => idx === 0 || target.midi > run[idx - 1].midi)).toBe(true);
+        }
+      }
+    });
+  });
+
+  it('advances the pattern drill only on the expected note', () => {
+    const drill = buildPatternDrill('Aeolian', 0, 5);
+    const start = { stepIndex: 0, stepStartedAtMs: 1000 };
+
+    const miss = advancePatternDrill(start, drill, 'Aeolian', drill[0].midi + 1, 1400);
+    expect(miss.progress).toBe(start);
+    expect(miss.result).toEqual({ stringIndex: 0, mode: 'Aeolian', correct: false, reactionMs: 400 });
+
+    const hit = advancePatternDrill(start, drill, 'Aeolian', drill[0].midi, 1600);
+    expect(hit.progress).toEqual({ stepIndex: 1, stepStartedAtMs: 1600 });
+    expect(hit.result?.correct).toBe(true);
+
+    const done = advancePatternDrill({ stepIndex: drill.length, stepStartedAtMs: 0 }, drill, 'Aeolian', 45, 0);
+    expect(done.result).toBeNull();
+  });
+
+  it('tallies accuracy and reaction time per string and per mode', () => {
+    let stats = recordPlayAlongResult(EMPTY_PLAY_ALONG_STATS, {
+      stringIndex: 2, mode: 'Dorian', correct: true, reactionMs: 800,
+    });
+    stats = recordPlayAlongResult(stats, { stringIndex: 2, mode: 'Lydian', correct: false, reactionMs: 1200 });
+
+    expect(getAccuracy(stats.byString[2])).toBe(0.5);
+    expect(getAverageReactionMs(stats.byString[2])).toBe(1000);
+    expect(stats.byMode.Dorian).toEqual({ attempts: 1, correct: 1, totalReactionMs: 800 });
+    expect(getAccuracy({ attempts: 0, correct: 0, totalReactionMs: 0 })).toBe(0);
+    expect(getAverageReactionMs({ attempts: 0, correct: 0, totalReactionMs: 0 })).toBeNull();
+    expect(EMPTY_PLAY_ALONG_STATS).toEqual({ byString: {}, byMode: {} });
+  });
+});
@@ -0,0 +1,131 @@
+import {
+  getStringVoice,
+  getStrumOffsets,
+  renderPluckedString,
+  schedulePluck,
+} from '@/lib/guitar/pluck-synth';
+import type { PluckVoice } from '@/lib/guitar/pluck-synth';
+
+const SAMPLE_RATE = 44100;
+const VOICE: PluckVoice = { brightness: 0.6, pickPosition: 0.18, decay: 3 };
+
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+function rms(samples: Float32Array): number {
+  return Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+}
+
+// Lag with the strongest autocorrelation, searched around the expected period
+function estimatePeriod(samples: Float32Array, minLag: number, maxLag: number): number {
+  let bestLag = minLag;
+  let bestScore = -Infinity;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let score = 0;
+    for (let i = 0; i + lag < samples.length; i++) {
+      score += samples[i] * samples[i + lag];
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+  return bestLag;
+}
+
+function createFakeContext() {
+  const started: number[] = [];
+  const ctx = {
+    sampleRate: SAMPLE_RATE,
+    currentTime: 0,
+    destination: {},
+    createBuffer: (channels: number, length: number) => {
+      const data = new Float32Array(length);
+      return { length, getChannelData: () => data };
+    },
+    createBufferSource: () => ({
+      buffer: null,
+      connect: jest.fn(),
+      disconnect: jest.fn(),
+      start: (time: number) => started.push(time),
+      stop: jest.fn(),
+      onended: null,
+    }),
+    createGain: () => ({
+      gain: { setValueAtTime: jest.fn(), linearRampToValueAtTime: jest.fn() },
+      connect: jest.fn(),
+      disconnect: jest.fn(),
+    }),
+  };
+  return { ctx: ctx as unknown as BaseAudioContext, started };
+}
+
+describe('plucked-string synthesis', () => {
+  it('rings at the requested pitch', () => {
+    const samples = renderPluckedString(110, SAMPLE_RATE, 0.5, VOICE, seededRandom(1));
+    const steadyState = samples.subarray(SAMPLE_RATE * 0.1, SAMPLE_RATE * 0.3);
+    const period = estimatePeriod(steadyState, 300, 500);
+    expect(SAMPLE_RATE / period).toBeCloseTo(110, 0);
+  });
+
+  it('decays over time, faster for a shorter decay setting', () => {
+    const long = renderPluckedString(196, SAMPLE_RATE, 1, VOICE, seededRandom(2));
+    const short = renderPluckedString(196, SAMPLE_RATE, 1, { ...VOICE, decay: 0.5 }, seededRandom(2));
+    const head = (samples: Float32Array) => rms(samples.subarray(0, SAMPLE_RATE * 0.1));
+    const tail = (samples: Float32Array) => rms(samples.subarray(SAMPLE_RATE * 0.9));
+
+    expect(tail(long)).toBeLessThan(head(long));
+    expect(tail(short) / head(short)).toBeLessThan(tail(long) / head(long));
+  });
+
+  it('sounds brighter with higher brightness and repeats with the same noise seed', () => {
+    const roughness = (samples: Float32Array) => {
+      let difference = 0;
+      for (let i = 1; i < samples.length; i++) {
+        difference += (samples[i] - samples[i - 1]) ** 2;
+      }
+      return difference / samples.reduce((sum, sample) => sum + sample * sample, 0);
+    };
+    const dark = renderPluckedString(330, SAMPLE_RATE, 0.3, { ...VOICE, brightness: 0.1 }, seededRandom(3));
+    const bright = renderPluckedString(330, SAMPLE_RATE, 0.3, { ...VOICE, brightness: 0.9 }, seededRandom(3));
+
+    expect(roughness(bright)).toBeGreaterThan(roughness(dark));
+    expect(renderPluckedString(330, SAMPLE_RATE, 0.3, VOICE, seededRandom(4)))
+      .toEqual(renderPluckedString(330, SAMPLE_RATE, 0.3, VOICE, seededRandom(4)));
+    expect(() => renderPluckedString(5, SAMPLE_RATE, 0.3, VOICE)).toThrow('Invalid pluck frequency');
+  });
+
+  it('gives wound and low strings a darker, longer voice', () => {
+    const lowE = getStringVoice(0);
+    const highE = getStringVoice(5);
+    expect(lowE.brightness).toBeLessThan(highE.brightness);
+    expect(lowE.decay).toBeGreaterThan(highE.decay);
+  });
+
+  it('staggers strum onsets down or up the strings', () => {
+    expect(getStrumOffsets([3, 4, 5], 'down', 0.02)).toEqual([0, 0.02, 0.04]);
+    expect(getStrumOffsets([3, 4, 5], 'up', 0.02)).toEqual([0.04, 0.02, 0]);
+    expect(getStrumOffsets([5, 0, 2], 'down', 0.01)).toEqual([0.02, 0, 0.01]);
+    expect(getStrumOffsets([3, 4, 5], 'none')).toEqual([0, 0, 0]);
+  });
+
+  it('schedules a rendered buffer through an injected context', () => {
+    const { ctx, started } = createFakeContext();
+    const source = schedulePluck(ctx, ctx.destination, {
+      frequency: 220,
+      startTime: 0.5,
+      duration: 0.25,
+      gain: 0.4,
+      voice: VOICE,
+    }, seededRandom(5));
+
+    expect(started).toEqual([0.5]);
+    expect(source.buffer?.length).toBe(SAMPLE_RATE * 0.25);
+    expect(rms(source.buffer!.getChannelData(0))).toBeGreaterThan(0);
+  });
+});
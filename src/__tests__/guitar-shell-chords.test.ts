@@ -65,5 +65,25 @@ describe('guitar shell-chord generation', () => {
     // UI can still show chord identity, even though voicings are shell subsets.
     expect(chordData.chordNotes).toEqual(['G', 'B', 'D', 'F#']);
   });
+
+  it('voices sus, add and extended chords on every string group', () => {
+    const voicedPcs = (chordType: Parameters<typeof generateChordData>[1]) => {
+      const chordData = generateChordData('C', chordType);
+      expect(chordData?.stringGroups).toHaveLength(4);
+      return new Set(chordData!.stringGroups.flatMap((group) => group.voicings.flatMap((voicing) => voicing.notes)));
+    };
+
+    // Sus chords keep all three tones; 7sus4 and add9 keep the root
+    expect(voicedPcs('sus4')).toEqual(new Set([0, 5, 7]));
+    expect(voicedPcs('7sus4')).toEqual(new Set([0, 5, 10]));
+    expect(voicedPcs('add9')).toEqual(new Set([0, 4, 2]));
+
+    // Extended and altered chords go rootless: guide tones plus the naming tension
+    expect(voicedPcs('m9')).toEqual(new Set([3, 10, 2]));
+    expect(voicedPcs('7#9')).toEqual(new Set([4, 10, 3]));
+    expect(voicedPcs('13b9')).toEqual(new Set([4, 1, 9]));
+
+    expect(generateChordData('C', '9')).toBeNull();
+  });
 });
 
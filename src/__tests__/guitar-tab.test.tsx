@@ -0,0 +1,137 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import TabExportButtons from '../projects/guitar/components/TabExportButtons';
+import {
+  chooseProgressionVoicings,
+  getBoxRunTabColumns,
+  getTabFileName,
+  getTabStringLabels,
+  renderBoxShapeTab,
+  renderProgressionTab,
+  renderTab,
+  renderVoicingsTab,
+} from '@/lib/guitar/tab';
+import { generateBoxShapePatterns } from '@/lib/guitar/box-shapes';
+import { getTuningById } from '@/lib/guitar/tunings';
+
+describe('tab rendering', () => {
+  it('writes one line per string, highest first, with measures and spacing', () => {
+    const tab = renderVoicingsTab(
+      [
+        { strings: [3, 4, 5], frets: [0, 1, 0] },
+        { strings: [3, 4, 5], frets: [5, 5, 3] },
+        { strings: [3, 4, 5], frets: [9, 8, 8] },
+        { strings: [3, 4, 5], frets: [12, 13, 12] },
+      ],
+      { columnsPerMeasure: 2, spacing: 1 }
+    );
+
+    expect(tab).toBe([
+      'e|-0-3-|-8-12-|',
+      'B|-1-5-|-8-13-|',
+      'G|-0-5-|-9-12-|',
+      'D|-----|------|',
+      'A|-----|------|',
+      'E|-----|------|',
+      '',
+    ].join('\n'));
+  });
+
+  it('wraps measures into systems, prints chord labels and draws Unicode lines', () => {
+    const columns = [
+      { notes: [{ stringIndex: 0, fret: 3 }], label: 'C' },
+      { notes: [{ stringIndex: 0, fret: 5 }], label: 'D' },
+      { notes: [{ stringIndex: 0, fret: 7 }] },
+    ];
+    const tab = renderTab(columns, { columnsPerMeasure: 1, measuresPerLine: 2, style: 'unicode', title: 'Riff' });
+    const [title, firstSystem, secondSystem] = tab.trimEnd().split('\n\n');
+
+    expect(title).toBe('Riff');
+    expect(firstSystem.split('\n')[0]).toBe('    C     D');
+    expect(firstSystem.split('\n')[6]).toBe('E│──3──│──5──│');
+    expect(secondSystem.split('\n')).toHaveLength(6);
+    expect(secondSystem.split('\n')[5]).toBe('E│──7──│');
+  });
+
+  it('counts frets from the capo and rejects notes it cannot place', () => {
+    const tab = renderTab([{ notes: [{ stringIndex: 1, fret: 5 }] }], { capoFret: 3, title: 'Lick' });
+    expect(tab.split('\n')[0]).toBe('Lick (capo 3)');
+    expect(tab).toContain('A|--2--|');
+
+    expect(() => renderTab([{ notes: [{ stringIndex: 1, fret: 2 }] }], { capoFret: 3 })).toThrow('behind a capo');
+    expect(() => renderTab([{ notes: [{ stringIndex: 6, fret: 0 }] }])).toThrow('6-string');
+    expect(() => renderTab([], { columnsPerMeasure: 0 })).toThrow('Invalid tab layout');
+  });
+
+  it('labels strings from the tuning', () => {
+    expect(getTabStringLabels()).toEqual(['E', 'A', 'D', 'G', 'B', 'e']);
+    expect(getTabStringLabels(getTuningById('drop-d'))).toEqual(['D', 'A', 'D', 'G', 'B', 'E']);
+  });
+
+  it('makes safe download names', () => {
+    expect(getTabFileName('C# Minor Pentatonic - 5 Box Shapes')).toBe('c-sharp-minor-pentatonic-5-box-shapes');
+    expect(getTabFileName('???')).toBe('tab');
+  });
+});
+
+describe('box shape runs', () => {
+  it('walks the box up string by string and back down without repeating the top note', () => {
+    const pattern = [[5, 8], [5, 7], [5, 7], [5, 7], [5, 8], [5, 8]];
+    const run = getBoxRunTabColumns(pattern);
+
+    expect(run).toHaveLength(23);
+    expect(run[0].notes).toEqual([{ stringIndex: 0, fret: 5 }]);
+    expect(run[11].notes).toEqual([{ stringIndex: 5, fret: 8 }]);
+    expect(run[12].notes).toEqual([{ stringIndex: 5, fret: 5 }]);
+    expect(run[22].notes).toEqual([{ stringIndex: 0, fret: 5 }]);
+    expect(getBoxRunTabColumns(pattern, 'descending')[0].notes).toEqual([{ stringIndex: 5, fret: 8 }]);
+  });
+
+  it('renders a generated box', () => {
+    const [firstBox] = generateBoxShapePatterns('A', 'pentatonic');
+    const tab = renderBoxShapeTab(firstBox.pattern, 'ascending', { title: firstBox.label, columnsPerMeasure: 12 });
+
+    expect(tab).toContain(firstBox.label);
+    // Two notes on the low string, then ten columns of spacing for the rest of the run
+    expect(tab).toContain(`E|--5--8${'-'.repeat(32)}|`);
+  });
+});
+
+describe('progression tab', () => {
+  it('voices each chord close to the one before', () => {
+    const voicings = chooseProgressionVoicings(['C', 'Am', 'F', 'G7', 'N.C.']);
+
+    expect(voicings.map((entry) => entry.chordSymbol)).toEqual(['C', 'Am', 'F', 'G7', 'N.C.']);
+    expect(voicings[4].voicing).toBeNull();
+    const voiced = voicings.slice(0, 4).map((entry) => entry.voicing!);
+    voiced.slice(1).forEach((voicing, idx) => {
+      expect(Math.abs(voicing.strings[0] - voiced[idx].strings[0])).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it('puts one chord per measure with its symbol above, behind the capo when there is one', () => {
+    const tab = renderProgressionTab({ title: 'Pop', chordNames: 'C G | Am F' }, { capoFret: 2 });
+    const lines = tab.split('\n');
+
+    expect(lines[0]).toBe('Pop (capo 2)');
+    expect(lines[2]).toMatch(/^\s+C\s+G\s+Am\s+F$/);
+    expect(lines.slice(3)).toHaveLength(7); // Six strings and the trailing newline
+    expect(lines[3].split('|')).toHaveLength(6);
+  });
+});
+
+describe('tab export buttons', () => {
+  it('copies the tab in the chosen style', async () => {
+    const writeText = jest.fn().mockResolvedValue(undefined);
+    Object.assign(navigator, { clipboard: { writeText } });
+    const getTab = jest.fn((style: string) => `tab:${style}`);
+
+    render(<TabExportButtons getTab={getTab} fileName="riff" />);
+    fireEvent.change(screen.getByLabelText('Tab style'), { target: { value: 'unicode' } });
+    await act(async () => {
+      fireEvent.click(screen.getByText('Copy'));
+    });
+
+    expect(writeText).toHaveBeenCalledWith('tab:unicode');
+    expect(screen.getByText('Copied')).toBeTruthy();
+  });
+});
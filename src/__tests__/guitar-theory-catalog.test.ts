@@ -1,5 +1,6 @@
 import { buildChord, CHORD_FORMULAS } from '@/lib/guitar/chord-types';
 import {
+  findScaleFormulaByIntervals,
   getChordFormulaDefinition,
   getScaleFormulaDefinition,
   intervalTokenToSemitones,
@@ -34,6 +35,21 @@ describe('guitar theory catalog', () => {
     expect(CHORD_FORMULAS['13'].intervals).toEqual([0, 4, 7, 10, 14, 21]);
   });
 
+  it('holds sus, add, 6/9 and altered dominant chords', () => {
+    expect(buildChord('C', 'sus2')).toEqual([0, 2, 7]);
+    expect(buildChord('C', '7sus4')).toEqual([0, 5, 7, 10]);
+    expect(CHORD_FORMULAS['69']).toMatchObject({ symbol: '6/9', intervals: [0, 4, 7, 9, 14] });
+    expect(CHORD_FORMULAS.m11.intervals).toEqual([0, 3, 7, 10, 14, 17]);
+    expect(CHORD_FORMULAS['7#9'].intervals).toEqual([0, 4, 7, 10, 15]);
+    expect(CHORD_FORMULAS['7#11'].intervals).toEqual([0, 4, 7, 10, 18]);
+    expect(CHORD_FORMULAS['7alt'].intervals).toEqual([0, 4, 10, 15, 20]);
+    expect(CHORD_FORMULAS['13b9'].intervals).toEqual([0, 4, 7, 10, 13, 21]);
+
+    expect(resolveChordFormulaId('sus')).toBe('sus4');
+    expect(resolveChordFormulaId('Maj9')).toBe('maj9');
+    expect(resolveChordFormulaId('m9')).toBe('m9');
+  });
+
   it('provides chord and scale definitions from one catalog', () => {
     const chord = getChordFormulaDefinition('7#5');
     expect(chord).toBeTruthy();
@@ -44,6 +60,51 @@ describe('guitar theory catalog', () => {
     expect(scale?.intervals).toEqual([0, 3, 5, 7, 10]);
   });
 
+  it('holds the harmonic minor, melodic minor and harmonic major modes', () => {
+    expect(getScaleFormulaDefinition('harmonicMinor')?.intervals).toEqual([0, 2, 3, 5, 7, 8, 11]);
+    expect(getScaleFormulaDefinition('jazzMinor')?.id).toBe('melodicMinor');
+    expect(getScaleFormulaDefinition('superLocrian')?.intervals).toEqual([0, 1, 3, 4, 6, 8, 10]);
+    expect(getScaleFormulaDefinition('spanishPhrygian')?.intervals).toEqual([0, 1, 4, 5, 7, 8, 10]);
+    expect(getScaleFormulaDefinition('whole-tone')?.intervals).toEqual([0, 2, 4, 6, 8, 10]);
+    expect(getScaleFormulaDefinition('octatonic')?.intervals).toEqual([0, 2, 3, 5, 6, 8, 9, 11]);
+
+    // Each mode is its parent started on another degree
+    const rotate = (intervals: number[], degree: number) =>
+      intervals.map((interval) => interval - intervals[degree]);
+    const names = (parent: string) => {
+      const intervals = getScaleFormulaDefinition(parent)!.intervals;
+      return intervals.map((_, degree) => findScaleFormulaByIntervals(rotate(intervals, degree))?.name);
+    };
+    expect(names('harmonicMinor')).toEqual([
+      'Harmonic Minor',
+      'Locrian Natural 6',
+      'Ionian #5',
+      'Dorian #4',
+      'Phrygian Dominant',
+      'Lydian #2',
+      'Super Locrian bb7',
+    ]);
+    expect(names('melodicMinor')).toEqual([
+      'Melodic Minor',
+      'Dorian b2',
+      'Lydian Augmented',
+      'Lydian Dominant',
+      'Mixolydian b6',
+      'Locrian Natural 2',
+      'Altered',
+    ]);
+    expect(names('harmonicMajor')).toEqual([
+      'Harmonic Major',
+      'Dorian b5',
+      'Phrygian b4',
+      'Lydian b3',
+      'Mixolydian b2',
+      'Lydian Augmented #2',
+      'Locrian bb7',
+    ]);
+    expect(findScaleFormulaByIntervals([0, 2, 5, 7, 10])).toBeNull();
+  });
+
   it('lists canonical chord formula ids', () => {
     const ids = listChordFormulaIds();
     expect(ids).toEqual(expect.arrayContaining(['major', 'minor', '7', 'maj7', 'mMaj7', '7b5', '7#5']));
@@ -0,0 +1,136 @@
+import { generateBoxShapePatterns, getPitchClass } from '@/lib/guitar/box-shapes';
+import { generateChordData } from '@/lib/guitar/chords';
+import { buildFretboard } from '@/lib/guitar/core';
+import { getNoteAtPosition, getOctaveAtPosition } from '@/lib/guitar/fretboard-physics';
+import { calculateNoteFrequency } from '@/lib/guitar/sound';
+import { generateTriadsData } from '@/lib/guitar/triads';
+import {
+  STANDARD_TUNING,
+  createCustomTuning,
+  formatTuningSpec,
+  getTuningById,
+  getTuningStringNames,
+  isStandardTuning,
+  parseTuningSpec,
+} from '@/lib/guitar/tunings';
+
+const SCALE_INTERVALS_BY_FAMILY = {
+  major: [0, 2, 4, 5, 7, 9, 11],
+  pentatonic: [0, 3, 5, 7, 10],
+};
+
+describe('guitar tunings', () => {
+  it('parses and formats note-with-octave tuning specs', () => {
+    expect(parseTuningSpec('D2 A2 D3 G3 A3 D4')).toEqual([38, 45, 50, 55, 57, 62]);
+    expect(parseTuningSpec('Eb2, Ab2, Db3, Gb3, Bb3, Eb4')).toEqual(
+      getTuningById('half-step-down').openStringMidi
+    );
+    expect(parseTuningSpec('D2 H2')).toBeNull();
+    expect(parseTuningSpec('')).toBeNull();
+    expect(formatTuningSpec(getTuningById('drop-d'))).toBe('D2 A2 D3 G3 B3 E4');
+  });
+
+  it('validates custom tunings', () => {
+    expect(createCustomTuning([36, 43, 50, 57, 64, 71]).id).toBe('custom');
+    expect(() => createCustomTuning([])).toThrow();
+    expect(() => createCustomTuning([40.5])).toThrow();
+    expect(isStandardTuning(createCustomTuning([...STANDARD_TUNING.openStringMidi]))).toBe(true);
+  });
+
+  it('builds the fretboard and note lookups from the tuning', () => {
+    const dropD = getTuningById('drop-d');
+    expect(buildFretboard(dropD)[0][0]).toBe(2);
+    expect(buildFretboard(dropD)[0][2]).toBe(4);
+    expect(getNoteAtPosition(0, 0, undefined, dropD).noteName).toBe('D');
+    expect(getOctaveAtPosition(0, 0, dropD)).toBe(2);
+    expect(getTuningStringNames(getTuningById('open-g'))).toEqual(['D', 'G', 'D', 'G', 'B', 'D']);
+  });
+
+  it('derives note frequencies from the tuning', () => {
+    expect(calculateNoteFrequency(0, 0)).toBeCloseTo(82.41, 2);
+    expect(calculateNoteFrequency(5, 0)).toBeCloseTo(329.63, 2);
+    expect(calculateNoteFrequency(0, 0, getTuningById('drop-d'))).toBeCloseTo(73.42, 2);
+    expect(() => calculateNoteFrequency(6, 0)).toThrow();
+  });
+
+  it('voices triads and chords against the tuning', () => {
+    const dadgad = getTuningById('dadgad');
+    const fretboard = buildFretboard(dadgad);
+    const triads = generateTriadsData('D', dadgad);
+
+    expect(triads.stringGroups[3].stringNames).toEqual(['G', 'A', 'D']);
+    triads.stringGroups.forEach((group) => {
+      expect(group.voicings.length).toBeGreaterThan(0);
+      group.voicings.forEach((voicing) => {
+        const pitchClasses = voicing.frets.map((fret, index) => fretboard[voicing.strings[index]][fret]);
+        expect(pitchClasses).toEqual(voicing.notes);
+        expect(new Set(pitchClasses)).toEqual(new Set([2, 6, 9]));
+      });
+    });
+
+    const minor = generateChordData('A', 'minor', dadgad);
+    expect(minor).not.toBeNull();
+    minor?.stringGroups.forEach((group) => {
+      group.voicings.forEach((voicing) => {
+        expect(new Set(voicing.notes)).toEqual(new Set([9, 0, 4]));
+      });
+    });
+  });
+
+  it('keeps box shapes inside the scale for alternate tunings', () => {
+    const openG = getTuningById('open-g');
+    const openGPitchClasses = openG.openStringMidi.map((midi) => midi % 12);
+
+    (['major', 'pentatonic'] as const).forEach((family) => {
+      const boxes = generateBoxShapePatterns('A', family, { tuning: openG });
+      const rootPitchClass = 9;
+
+      boxes.forEach((box) => {
+        expect(box.pattern).toHaveLength(6);
+        box.pattern.forEach((stringFrets, stringIndex) => {
+          stringFrets.forEach((fret) => {
+            const interval = (openGPitchClasses[stringIndex] + fret - rootPitchClass + 120) % 12;
+            expect(SCALE_INTERVALS_BY_FAMILY[family]).toContain(interval);
+          });
+        });
+      });
+    });
+  });
+
+  it('keeps major boxes in one position with no gaps in drop and open tunings', () => {
+    const majorIntervals = SCALE_INTERVALS_BY_FAMILY.major;
+
+    ['drop-d', 'dadgad', 'open-g', 'open-d'].forEach((tuningId) => {
+      const tuning = getTuningById(tuningId);
+
+      ['C', 'D', 'E', 'F', 'G', 'A', 'B'].forEach((key) => {
+        const rootPitchClass = getPitchClass(key);
+
+        generateBoxShapePatterns(key, 'major', { tuning }).forEach((box) => {
+          const frets = box.pattern.flat();
+          expect(Math.max(...frets) - Math.min(...frets)).toBeLessThanOrEqual(6);
+
+          // Read string by string, every note is the next scale note up.
+          const pitches = box.pattern.flatMap((stringFrets, stringIndex) =>
+            stringFrets.map((fret) => tuning.openStringMidi[stringIndex] + fret)
+          );
+          pitches.slice(1).forEach((pitch, index) => {
+            const skipped = Array.from(
+              { length: pitch - pitches[index] - 1 },
+              (_, offset) => pitches[index] + offset + 1
+            ).filter((between) => majorIntervals.includes((between - rootPitchClass + 120) % 12));
+            expect(pitch).toBeGreaterThan(pitches[index]);
+            expect(skipped).toEqual([]);
+          });
+        });
+      });
+    });
+  });
+
+  it('leaves standard-tuning output unchanged by default', () => {
+    expect(generateBoxShapePatterns('G', 'major', { tuning: STANDARD_TUNING })).toEqual(
+      generateBoxShapePatterns('G', 'major')
+    );
+    expect(generateChordData('E', '7', STANDARD_TUNING)).toEqual(generateChordData('E', '7'));
+  });
+});
@@ -0,0 +1,98 @@
+import { render, screen } from '@testing-library/react';
+import WorksheetPages from '../projects/guitar/components/WorksheetPages';
+import {
+  buildCheatSheetWorksheet,
+  buildNoteQuizWorksheet,
+  buildPentatonicWorksheet,
+  buildTriadWorksheet,
+} from '@/lib/guitar/worksheets';
+import { getTuningById } from '@/lib/guitar/tunings';
+
+describe('worksheet builders', () => {
+  it('puts all four triad positions of every string group on the sheet, two groups a page', () => {
+    const worksheet = buildTriadWorksheet('C');
+
+    expect(worksheet.title).toBe('C Major Triads');
+    expect(worksheet.pages).toHaveLength(2);
+    const sections = worksheet.pages.flatMap((page) => page.sections);
+    expect(sections.map((section) => section.title)).toEqual([
+      'Strings E-A-D',
+      'Strings A-D-G',
+      'Strings D-G-B',
+      'Strings G-B-E',
+    ]);
+    sections.forEach((section) => {
+      expect(section.fretboards).toHaveLength(4);
+      section.fretboards.forEach((fretboard) => {
+        expect(fretboard.dots.filter((dot) => dot.isRoot).map((dot) => dot.label)).toEqual(['C']);
+        fretboard.dots.forEach((dot) => {
+          expect(dot.fret).toBeGreaterThanOrEqual(fretboard.firstFret);
+          expect(dot.fret).toBeLessThanOrEqual(fretboard.lastFret);
+        });
+      });
+    });
+  });
+
+  it('draws the five pentatonic boxes with shape outlines only in standard tuning', () => {
+    const standard = buildPentatonicWorksheet('G');
+    const boxes = standard.pages[0].sections[0].fretboards;
+    expect(standard.title).toBe('E Minor / G Major Pentatonic Boxes');
+    expect(boxes).toHaveLength(5);
+    expect(boxes.every((box) => (box.overlays ?? []).length > 0)).toBe(true);
+    expect(boxes[0].dots.filter((dot) => dot.isRoot).every((dot) => dot.label === 'E')).toBe(true);
+
+    const dropD = buildPentatonicWorksheet('G', getTuningById('drop-d'));
+    expect(dropD.pages[0].sections[0].fretboards.every((box) => box.overlays === undefined)).toBe(true);
+  });
+
+  it('lists the chord tones and a voicing for each chord of a progression', () => {
+    const worksheet = buildCheatSheetWorksheet({ title: 'Pop', romanNumerals: 'I V vi IV', chordNames: 'C G Am F' });
+    const [section] = worksheet.pages[0].sections;
+
+    expect(section.subtitle).toBe('I V vi IV  ·  C G Am F');
+    expect(section.notes).toEqual([
+      { label: 'C', notes: ['C', 'E', 'G'] },
+      { label: 'G', notes: ['G', 'B', 'D'] },
+      { label: 'Am', notes: ['A', 'C', 'E'] },
+      { label: 'F', notes: ['F', 'A', 'C'] },
+    ]);
+    expect(section.fretboards.map((fretboard) => fretboard.title)).toEqual(['C', 'G', 'Am', 'F']);
+    const am = section.fretboards[2];
+    expect(am.dots.map((dot) => dot.label).sort()).toEqual(['A', 'C', 'E']);
+    expect(am.dots.filter((dot) => dot.isRoot).map((dot) => dot.label)).toEqual(['A']);
+  });
+
+  it('builds the same quiz for the same seed, with an answer key for every question', () => {
+    const quiz = buildNoteQuizWorksheet({ seed: 7, questionCount: 20 });
+    expect(buildNoteQuizWorksheet({ seed: 7, questionCount: 20 })).toEqual(quiz);
+    expect(buildNoteQuizWorksheet({ seed: 8, questionCount: 20 })).not.toEqual(quiz);
+
+    const [questions, answers] = quiz.pages.map((page) => page.sections[0]);
+    expect(questions.blanks).toBe(20);
+    expect(questions.fretboards.map((fretboard) => fretboard.dots.length)).toEqual([8, 8, 4]);
+    questions.fretboards.forEach((fretboard) => {
+      expect(new Set(fretboard.dots.map((dot) => `${dot.stringIdx}:${dot.fret}`)).size).toBe(fretboard.dots.length);
+      expect(fretboard.dots.every((dot) => dot.fret <= 12)).toBe(true);
+    });
+
+    expect(answers.title).toBe('Answer Key');
+    expect(answers.answers).toHaveLength(20);
+    const firstQuestion = questions.fretboards[0].dots[0];
+    const firstAnswer = answers.fretboards[0].dots[0];
+    expect(firstQuestion.label).toBe('1');
+    expect([firstAnswer.stringIdx, firstAnswer.fret]).toEqual([firstQuestion.stringIdx, firstQuestion.fret]);
+    expect(answers.answers![0].startsWith(`1. ${firstAnswer.label}`)).toBe(true);
+  });
+});
+
+describe('worksheet pages', () => {
+  it('lays out one sheet per page at the chosen paper size', () => {
+    const { container } = render(<WorksheetPages worksheet={buildTriadWorksheet('C')} pageSize="a4" />);
+
+    expect(container.querySelectorAll('.worksheet-page')).toHaveLength(2);
+    expect((container.querySelector('.worksheet-page') as HTMLElement).style.width).toBe('210mm');
+    expect(container.querySelector('style')!.textContent).toContain('size: A4');
+    expect(screen.getByText('Page 2 of 2')).toBeTruthy();
+    expect(container.querySelectorAll('svg')).toHaveLength(16);
+  });
+});
@@ -0,0 +1,176 @@
+import { encodeVariableLengthQuantity, writeMidiFile } from '@/utils/midi-file';
+import {
+  BACKING_TRACK_BEATS_PER_CHORD,
+  buildChordMidiVoicing,
+  buildProgressionMidiFile,
+} from '@/lib/guitar/backing-track';
+import { buildPathsMidiFile, pathToMidiTrack } from '../projects/tonnetz/core/midiExport';
+import type { TrianglePathPoint } from '../projects/tonnetz/state/types';
+
+interface ParsedNote {
+  midi: number;
+  on: number;
+  off: number;
+}
+
+interface ParsedTrack {
+  name: string | null;
+  tempoMicros: number | null;
+  notes: ParsedNote[];
+}
+
+function readUint(bytes: Uint8Array, offset: number, length: number): number {
+  let value = 0;
+  for (let i = 0; i < length; i++) value = value * 256 + bytes[offset + i];
+  return value;
+}
+
+// Just enough of a Standard MIDI File reader to check what the writer emits
+function parseMidiFile(bytes: Uint8Array): { format: number; division: number; tracks: ParsedTrack[] } {
+  expect(String.fromCharCode(...bytes.slice(0, 4))).toBe('MThd');
+  const format = readUint(bytes, 8, 2);
+  const trackCount = readUint(bytes, 10, 2);
+  const division = readUint(bytes, 12, 2);
+
+  const tracks: ParsedTrack[] = [];
+  let offset = 14;
+  for (let t = 0; t < trackCount; t++) {
+    expect(String.fromCharCode(...bytes.slice(offset, offset + 4))).toBe('MTrk');
+    const end = offset + 8 + readUint(bytes, offset + 4, 4);
+    offset += 8;
+
+    const track: ParsedTrack = { name: null, tempoMicros: null, notes: [] };
+    const open = new Map<number, number>();
+    let tick = 0;
+    while (offset < end) {
+      let delta = 0;
+      let byte: number;
+      do {
+        byte = bytes[offset++];
+        delta = (delta << 7) | (byte & 0x7f);
+      } while (byte & 0x80);
+      tick += delta;
+
+      const status = bytes[offset++];
+      if (status === 0xff) {
+        const type = bytes[offset++];
+        const length = bytes[offset++];
+        const data = bytes.slice(offset, offset + length);
+        if (type === 0x03) track.name = String.fromCharCode(...data);
+        if (type === 0x51) track.tempoMicros = readUint(data, 0, 3);
+        offset += length;
+      } else if ((status & 0xf0) === 0x90) {
+        open.set(bytes[offset], tick);
+        offset += 2;
+      } else if ((status & 0xf0) === 0x80) {
+        track.notes.push({ midi: bytes[offset], on: open.get(bytes[offset])!, off: tick });
+        open.delete(bytes[offset]);
+        offset += 2;
+      } else {
+        offset += 1; // Program change
+      }
+    }
+    tracks.push(track);
+  }
+  return { format, division, tracks };
+}
+
+describe('standard MIDI file writer', () => {
+  it('encodes variable-length quantities', () => {
+    expect(encodeVariableLengthQuantity(0)).toEqual([0x00]);
+    expect(encodeVariableLengthQuantity(0x7f)).toEqual([0x7f]);
+    expect(encodeVariableLengthQuantity(0x80)).toEqual([0x81, 0x00]);
+    expect(encodeVariableLengthQuantity(0x3fff)).toEqual([0xff, 0x7f]);
+    expect(() => encodeVariableLengthQuantity(-1)).toThrow('Invalid variable-length quantity');
+  });
+
+  it('writes a tempo track and one track per part in format 1, or merges them in format 0', () => {
+    const tracks = [
+      { name: 'Low', notes: [{ midi: 48, startTick: 0, durationTicks: 480 }] },
+      { name: 'High', channel: 1, notes: [{ midi: 72, startTick: 480, durationTicks: 240 }] },
+    ];
+
+    const multi = parseMidiFile(writeMidiFile(tracks, { bpm: 120 }));
+    expect(multi.format).toBe(1);
+    expect(multi.division).toBe(480);
+    expect(multi.tracks).toHaveLength(3);
+    expect(multi.tracks[0].tempoMicros).toBe(500000);
+    expect(multi.tracks[2]).toMatchObject({ name: 'High', notes: [{ midi: 72, on: 480, off: 720 }] });
+
+    const single = parseMidiFile(writeMidiFile(tracks, { bpm: 90, format: 0 }));
+    expect(single.format).toBe(0);
+    expect(single.tracks).toHaveLength(1);
+    expect(single.tracks[0].notes).toEqual([
+      { midi: 48, on: 0, off: 480 },
+      { midi: 72, on: 480, off: 720 },
+    ]);
+  });
+
+  it('lets a repeated note end before it starts again', () => {
+    const notes = [
+      { midi: 60, startTick: 0, durationTicks: 480 },
+      { midi: 60, startTick: 480, durationTicks: 480 },
+    ];
+    const parsed = parseMidiFile(writeMidiFile([{ notes }], { bpm: 100, format: 0 }));
+    expect(parsed.tracks[0].notes).toEqual([
+      { midi: 60, on: 0, off: 480 },
+      { midi: 60, on: 480, off: 960 },
+    ]);
+  });
+
+  it('rejects values MIDI cannot carry', () => {
+    expect(() => writeMidiFile([{ notes: [{ midi: 128, startTick: 0, durationTicks: 1 }] }], { bpm: 120 })).toThrow('MIDI note');
+    expect(() => writeMidiFile([{ channel: 16, notes: [] }], { bpm: 120 })).toThrow('MIDI channel');
+    expect(() => writeMidiFile([], { bpm: 0 })).toThrow('Invalid tempo');
+    expect(() => writeMidiFile([], { bpm: 120, timeSignature: [3, 5] })).toThrow('time signature');
+  });
+});
+
+describe('progression MIDI export', () => {
+  it('plays the backing-track voicing of each chord for a bar at the chosen tempo', () => {
+    const parsed = parseMidiFile(buildProgressionMidiFile({ title: 'Pop', chordNames: 'C G | Am F' }, 100));
+    const bar = 480 * BACKING_TRACK_BEATS_PER_CHORD;
+
+    expect(parsed.tracks[0]).toMatchObject({ name: 'Pop', tempoMicros: 600000 });
+    const chords = parsed.tracks[1].notes;
+    expect(chords.filter((note) => note.on === 0).map((note) => note.midi)).toEqual(buildChordMidiVoicing('C'));
+    expect(chords.filter((note) => note.on === 2 * bar).map((note) => note.midi)).toEqual(buildChordMidiVoicing('Am'));
+    expect(chords.every((note) => note.off - note.on === bar)).toBe(true);
+  });
+
+  it('clamps the tempo like playback does', () => {
+    const parsed = parseMidiFile(buildProgressionMidiFile({ title: 'Slow', chordNames: 'C' }, 10, 0));
+    expect(parsed.format).toBe(0);
+    expect(parsed.tracks[0].tempoMicros).toBe(1500000);
+  });
+});
+
+describe('Tonnetz path MIDI export', () => {
+  const point = (midiPitches: [number, number, number], seventhMidiPitch?: number): TrianglePathPoint => ({
+    rootCell: { row: 0, col: 0 },
+    type: 'major',
+    rootPC: 0,
+    pitchClasses: [0, 4, 7],
+    midiPitches,
+    seventhMidiPitch,
+  });
+
+  it('keeps lattice pitches and added sevenths, two beats per chord', () => {
+    const track = pathToMidiTrack([point([60, 64, 67]), point([65, 69, 72], 75)], 'Path');
+
+    expect(track.notes.filter((note) => note.startTick === 0).map((note) => note.midi)).toEqual([60, 64, 67]);
+    expect(track.notes.filter((note) => note.startTick === 960).map((note) => note.midi)).toEqual([65, 69, 72, 75]);
+    expect(track.notes[0].durationTicks).toBe(864);
+  });
+
+  it('writes the current path and every saved path as separate tracks', () => {
+    const parsed = parseMidiFile(buildPathsMidiFile(
+      [point([60, 64, 67])],
+      [{ id: 'a', name: 'Saved', points: [point([62, 66, 69])], color: 'red' }],
+      96
+    ));
+
+    expect(parsed.tracks.map((track) => track.name)).toEqual(['Tonnetz paths', 'Current path', 'Saved']);
+    expect(parsed.tracks[0].tempoMicros).toBe(625000);
+  });
+});
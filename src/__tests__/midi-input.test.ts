@@ -0,0 +1,94 @@
+import {
+  EMPTY_MIDI_HELD_NOTES,
+  getSoundingMidiNotes,
+  parseMidiMessage,
+  reduceMidiMessages,
+} from '@/utils/midi-input';
+import { recognizeChord } from '../projects/tonnetz/core/chordRecognition';
+import { findNearestFretPositions } from '@/lib/guitar/midi-fretboard';
+
+const noteOn = (note: number, channel = 0, velocity = 100) => [0x90 | channel, note, velocity];
+const noteOff = (note: number, channel = 0) => [0x80 | channel, note, 64];
+const sustain = (on: boolean, channel = 0) => [0xb0 | channel, 64, on ? 127 : 0];
+
+describe('MIDI message parsing', () => {
+  it('reads notes, sustain and all-notes-off, and skips the rest', () => {
+    expect(parseMidiMessage(noteOn(60, 2, 90))).toEqual({ type: 'noteOn', channel: 2, note: 60, velocity: 90 });
+    expect(parseMidiMessage([0x90, 60, 0])).toEqual({ type: 'noteOff', channel: 0, note: 60 });
+    expect(parseMidiMessage(noteOff(62, 1))).toEqual({ type: 'noteOff', channel: 1, note: 62 });
+    expect(parseMidiMessage(sustain(true))).toEqual({ type: 'sustain', channel: 0, on: true });
+    expect(parseMidiMessage([0xb3, 123, 0])).toEqual({ type: 'allNotesOff', channel: 3 });
+    expect(parseMidiMessage([0xb0, 7, 100])).toBeNull(); // Volume
+    expect(parseMidiMessage([0xf8])).toBeNull(); // Clock
+    expect(parseMidiMessage([0xe0, 0, 64])).toBeNull(); // Pitch bend
+  });
+});
+
+describe('held notes', () => {
+  it('follows presses and releases', () => {
+    const state = reduceMidiMessages([noteOn(64), noteOn(60), noteOn(67), noteOff(64)]);
+    expect(getSoundingMidiNotes(state)).toEqual([60, 67]);
+  });
+
+  it('keeps released notes sounding until the pedal comes up', () => {
+    const pedalled = reduceMidiMessages([noteOn(60), sustain(true), noteOff(60), noteOn(64)]);
+    expect(getSoundingMidiNotes(pedalled)).toEqual([60, 64]);
+
+    const released = reduceMidiMessages([sustain(false)], pedalled);
+    expect(getSoundingMidiNotes(released)).toEqual([64]);
+  });
+
+  it('tracks each channel separately, as a MIDI guitar sends one per string', () => {
+    const state = reduceMidiMessages([noteOn(64, 0), noteOn(64, 1), noteOff(64, 0), noteOn(59, 2)]);
+    expect(getSoundingMidiNotes(state)).toEqual([59, 64]);
+
+    const cleared = reduceMidiMessages([[0xb1, 123, 0], [0xb2, 120, 0]], state);
+    expect(cleared.pressed).toEqual([]);
+    expect(reduceMidiMessages([noteOff(70)])).toEqual(EMPTY_MIDI_HELD_NOTES);
+  });
+});
+
+describe('chord recognition', () => {
+  it('names triads and sevenths in root position', () => {
+    expect(recognizeChord([60, 64, 67])?.symbol).toBe('C');
+    expect(recognizeChord([57, 60, 64, 72])?.symbol).toBe('Am');
+    expect(recognizeChord([55, 59, 62, 65])?.symbol).toBe('G7');
+    expect(recognizeChord([60, 64, 68])?.symbol).toBe('Caug');
+    expect(recognizeChord([60, 64, 67, 69])?.symbol).toBe('C6');
+  });
+
+  it('names inversions over the bass and parses the result', () => {
+    const firstInversion = recognizeChord([52, 55, 60]);
+    expect(firstInversion?.symbol).toBe('C/E');
+    expect(firstInversion?.chord).toEqual({ rootPC: 0, quality: 'major', seventhQuality: undefined, bassPC: 4 });
+
+    expect(recognizeChord([55, 57, 60, 64])?.symbol).toBe('Am7/G');
+    expect(recognizeChord([53, 59, 62, 69])?.chord).toMatchObject({ rootPC: 11, seventhQuality: 'halfDim7', bassPC: 5 });
+    expect(recognizeChord([58, 62, 65], false)?.symbol).toBe('Bb');
+  });
+
+  it('leaves sets it cannot name unnamed', () => {
+    expect(recognizeChord([])).toBeNull();
+    expect(recognizeChord([60, 67, 72])).toBeNull(); // Power chord
+    expect(recognizeChord([60, 61, 62])).toBeNull();
+  });
+});
+
+describe('fretboard positions for MIDI notes', () => {
+  it('puts a chord in the most compact shape, one note per string', () => {
+    expect(findNearestFretPositions([60, 64, 67])).toEqual([
+      { stringIdx: 3, fret: 5, midi: 60 },
+      { stringIdx: 4, fret: 5, midi: 64 },
+      { stringIdx: 5, fret: 3, midi: 67 },
+    ]);
+  });
+
+  it('stays near the previous position', () => {
+    expect(findNearestFretPositions([60, 64, 67], undefined, { anchorFret: 9 }).map((position) => position.fret))
+      .toEqual([10, 9, 8]);
+  });
+
+  it('leaves out notes the neck cannot reach', () => {
+    expect(findNearestFretPositions([30, 40], undefined, { numFrets: 12 })).toEqual([{ stringIdx: 0, fret: 0, midi: 40 }]);
+  });
+});
@@ -0,0 +1,196 @@
+import {
+  createMidiPortOutput,
+  getExternalNoteOutput,
+  getSelectedMidiPortOutput,
+  playSequence,
+  setExternalNoteOutput,
+} from '@/utils/note-output';
+import type { NoteOutput, ScheduledNote } from '@/utils/note-output';
+import { MIDI_OUTPUT_CHANNELS, useMidiOutputSelection } from '../components/useMidiOutputSelection';
+import { playBackingTrack } from '@/lib/guitar/backing-track';
+import { playChord, playNote, playNoteSequence } from '@/lib/guitar/sound';
+import { act, renderHook, waitFor } from '@testing-library/react';
+
+function createFakePort() {
+  const sent: Array<{ data: number[]; timestamp?: number }> = [];
+  const port = {
+    id: 'port-1',
+    name: 'Test Synth',
+    send: (data: number[], timestamp?: number) => sent.push({ data, timestamp }),
+    clear: jest.fn(),
+  };
+  return { port, sent };
+}
+
+describe('MIDI port output', () => {
+  it('queues note-on and note-off on the channel at the scheduled times', () => {
+    const { port, sent } = createFakePort();
+    const output = createMidiPortOutput(port, { channel: 2, velocity: 80, now: () => 1000 });
+
+    output.schedule([
+      { midi: 60, startSec: 0, durationSec: 0.5 },
+      { midi: 64, startSec: 0.25, durationSec: 1, velocity: 100 },
+    ]);
+
+    expect(output.name).toBe('Test Synth');
+    expect(sent).toEqual([
+      { data: [0x92, 60, 80], timestamp: 1000 },
+      { data: [0x82, 60, 64], timestamp: 1500 },
+      { data: [0x92, 64, 100], timestamp: 1250 },
+      { data: [0x82, 64, 64], timestamp: 2250 },
+    ]);
+  });
+
+  it('stops queued and sounding notes at once', () => {
+    const { port, sent } = createFakePort();
+    const output = createMidiPortOutput(port, { now: () => 0 });
+    output.schedule([{ midi: 60, startSec: 0, durationSec: 2 }, { midi: 60, startSec: 1, durationSec: 2 }]);
+    sent.length = 0;
+
+    output.stopAll();
+    expect(port.clear).toHaveBeenCalled();
+    expect(sent).toEqual([
+      { data: [0x80, 60, 64], timestamp: undefined },
+      { data: [0xb0, 123, 0], timestamp: undefined },
+    ]);
+  });
+
+  it('rejects out-of-range channels, velocities and notes', () => {
+    const { port } = createFakePort();
+    expect(() => createMidiPortOutput(port, { channel: 16 })).toThrow('Invalid MIDI channel');
+    expect(() => createMidiPortOutput(port, { velocity: 0 })).toThrow('Invalid velocity');
+    expect(() => createMidiPortOutput(port).schedule([{ midi: 128, startSec: 0, durationSec: 1 }]))
+      .toThrow('Invalid MIDI note');
+  });
+});
+
+describe('external note output', () => {
+  afterEach(() => setExternalNoteOutput(null));
+
+  it('takes guitar playback instead of the built-in voice, strum included', () => {
+    const scheduled: ScheduledNote[] = [];
+    const output: NoteOutput = { name: 'Recorder', schedule: (notes) => scheduled.push(...notes), stopAll: jest.fn() };
+    setExternalNoteOutput(output);
+
+    playChord([{ stringIndex: 0, fret: 3 }, { stringIndex: 1, fret: 2 }], 1.5, undefined, 'down', 0.02);
+
+    expect(output.stopAll).toHaveBeenCalled(); // A new chord cuts off the last one, as on the built-in voice
+    expect(scheduled).toEqual([
+      { midi: 43, startSec: 0, durationSec: 1.5 },
+      { midi: 47, startSec: 0.02, durationSec: 1.5 },
+    ]);
+  });
+
+  it('remembers the selected MIDI port for the pickers and silences the old output on change', () => {
+    const { port, sent } = createFakePort();
+    const output = createMidiPortOutput(port, { channel: 3 });
+    setExternalNoteOutput(output);
+    expect(getExternalNoteOutput()).toBe(output);
+    expect(getSelectedMidiPortOutput()).toMatchObject({ portId: 'port-1', channel: 3 });
+
+    setExternalNoteOutput(null);
+    expect(sent).toContainEqual({ data: [0xb3, 123, 0], timestamp: undefined });
+    expect(getSelectedMidiPortOutput()).toBeNull();
+  });
+});
+
+describe('sequence scheduling', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('plays one step per step length until stopped', async () => {
+    const played: number[] = [];
+    let keepGoing = true;
+    const done = playSequence(4, 0.5, (index) => {
+      played.push(index);
+      if (index === 2) keepGoing = false;
+    }, () => keepGoing);
+
+    expect(played).toEqual([0]);
+    await jest.advanceTimersByTimeAsync(500);
+    expect(played).toEqual([0, 1]);
+    await jest.advanceTimersByTimeAsync(1500);
+    await done;
+    expect(played).toEqual([0, 1, 2]);
+  });
+
+  it('steps guitar runs through the sequence, so the next note cuts them off', async () => {
+    const scheduled: ScheduledNote[] = [];
+    setExternalNoteOutput({ name: 'Recorder', schedule: (notes) => scheduled.push(...notes), stopAll: jest.fn() });
+    try {
+      const done = playNoteSequence([{ stringIndex: 0, fret: 3 }, { stringIndex: 0, fret: 5 }, { stringIndex: 0, fret: 7 }], 0.25);
+      expect(scheduled).toEqual([{ midi: 43, startSec: 0, durationSec: 0.5 }]);
+      await jest.advanceTimersByTimeAsync(250);
+      expect(scheduled.map((note) => note.midi)).toEqual([43, 45]);
+
+      playNote(5, 0);
+      await jest.advanceTimersByTimeAsync(1000);
+      await done;
+      expect(scheduled.map((note) => note.midi)).toEqual([43, 45, 64]);
+    } finally {
+      setExternalNoteOutput(null);
+    }
+  });
+
+  it('loops the backing track a bar per chord from the chord it starts on', async () => {
+    const played: Array<[string, number]> = [];
+    let keepGoing = true;
+    const done = playBackingTrack(['C', 'F', 'G'], 120, (chord, durationMs) => played.push([chord, durationMs]), () => keepGoing, 1);
+
+    expect(played).toEqual([['F', 2000]]);
+    await jest.advanceTimersByTimeAsync(6000);
+    expect(played.map(([chord]) => chord)).toEqual(['F', 'G', 'C', 'F']);
+
+    keepGoing = false;
+    await jest.advanceTimersByTimeAsync(2000);
+    await done;
+    expect(played).toHaveLength(4);
+  });
+});
+
+describe('MIDI output selection', () => {
+  const { port } = createFakePort();
+
+  beforeEach(() => {
+    const outputs = new Map([[port.id, { ...port, state: 'connected' }]]);
+    Object.defineProperty(navigator, 'requestMIDIAccess', {
+      value: () => Promise.resolve({ outputs }),
+      configurable: true,
+    });
+  });
+
+  afterEach(() => {
+    setExternalNoteOutput(null);
+    Object.defineProperty(navigator, 'requestMIDIAccess', { value: undefined, configurable: true });
+  });
+
+  it('lists ports on demand and shares the chosen port and channel between pickers', async () => {
+    const { result } = renderHook(() => useMidiOutputSelection());
+    expect(result.current).toMatchObject({ ports: null, portId: '', channel: 0 });
+
+    act(() => result.current.loadPorts());
+    await waitFor(() => expect(result.current.ports).toHaveLength(1));
+    act(() => result.current.selectOutput('port-1', 9));
+    expect(result.current).toMatchObject({ portId: 'port-1', channel: 9, selectedName: 'Test Synth' });
+    expect(getSelectedMidiPortOutput()).toMatchObject({ portId: 'port-1', channel: 9 });
+
+    // A picker in another app opens on the same output, before it lists ports
+    const other = renderHook(() => useMidiOutputSelection()).result;
+    expect(other.current).toMatchObject({ ports: null, portId: 'port-1', channel: 9 });
+    act(() => other.current.selectOutput('port-1', 2));
+    expect(getSelectedMidiPortOutput()?.channel).toBe(2);
+
+    act(() => result.current.selectOutput('', 0));
+    expect(getExternalNoteOutput()).toBeNull();
+    expect(MIDI_OUTPUT_CHANNELS).toHaveLength(16);
+  });
+
+  it('reports when there is nothing to play through', async () => {
+    Object.defineProperty(navigator, 'requestMIDIAccess', { value: undefined, configurable: true });
+    const { result } = renderHook(() => useMidiOutputSelection());
+
+    act(() => result.current.loadPorts());
+    await waitFor(() => expect(result.current.error).toBe('Web MIDI is not available in this browser.'));
+    expect(result.current.ports).toEqual([]);
+  });
+});
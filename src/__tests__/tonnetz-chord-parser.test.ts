@@ -0,0 +1,60 @@
+import {
+  getChordDisplayName,
+  getPitchClassesForChord,
+  parseChordSymbol,
+} from '../projects/tonnetz/core/chordParser';
+import type { ParsedChord } from '../projects/tonnetz/core/chordParser';
+import { PROGRESSIONS } from '../projects/tonnetz/data/progressions';
+
+const parsed = (symbol: string): ParsedChord => {
+  const result = parseChordSymbol(symbol);
+  if (!result.ok) {
+    throw new Error(`${symbol}: ${result.error.message}`);
+  }
+  return result.chord;
+};
+
+const pitchClassesOf = (symbol: string) => getPitchClassesForChord(parsed(symbol));
+
+describe('tonnetz chord symbol parsing', () => {
+  it('reads sus and added-tone chords, keeping the slash in 6/9', () => {
+    expect(parsed('Csus2')).toEqual({ rootPC: 0, quality: 'major', suspension: 'sus2' });
+    expect(pitchClassesOf('Gsus4')).toEqual([7, 0, 2]);
+    expect(pitchClassesOf('D7sus4')).toEqual([2, 7, 9, 0]);
+    expect(pitchClassesOf('Cadd9')).toEqual([0, 4, 7, 2]);
+    expect(parsed('C6/9')).toMatchObject({ seventhQuality: '6', extensions: [14], bassPC: undefined });
+    expect(parsed('C6/9/E')).toMatchObject({ seventhQuality: '6', extensions: [14], bassPC: 4 });
+  });
+
+  it('reads extended and altered chords as a 7th chord plus tensions', () => {
+    expect(parsed('Cmaj9')).toMatchObject({ quality: 'major', seventhQuality: 'maj7', extensions: [14] });
+    expect(parsed('Dm11')).toMatchObject({ quality: 'minor', seventhQuality: 'min7', extensions: [14, 17] });
+    expect(parsed('G7#9')).toMatchObject({ seventhQuality: 'dom7', extensions: [15] });
+    expect(parsed('C7#11')).toMatchObject({ seventhQuality: 'dom7', extensions: [18] });
+    expect(parsed('G7alt')).toMatchObject({ seventhQuality: 'dom7', extensions: [15, 20] });
+
+    // The flat 9 replaces the natural 9 the 13th would stack
+    expect(pitchClassesOf('G13b9')).toEqual([7, 11, 2, 5, 8, 4]);
+    expect(getChordDisplayName(parsed('G13b9'))).toBe('G7(b9, 13)');
+    expect(getChordDisplayName(parsed('Dm9/C'))).toBe('Dm7(9)/C');
+  });
+
+  it('shares the guitar parser for unicode spellings and its errors', () => {
+    expect(parsed('B♭m7')).toMatchObject({ rootPC: 10, quality: 'minor', seventhQuality: 'min7' });
+    expect(parsed('EΔ7/G♯')).toMatchObject({ rootPC: 4, seventhQuality: 'maj7', bassPC: 8 });
+    expect(parsed('Caug7')).toMatchObject({ quality: 'augmented', seventhQuality: 'dom7' });
+
+    const warn = jest.spyOn(console, 'warn');
+    expect(parseChordSymbol('Hmaj7')).toMatchObject({ ok: false, error: { code: 'invalidRoot', position: 0 } });
+    expect(parseChordSymbol('Cmaj7q')).toMatchObject({ ok: false, error: { code: 'unknownSuffix', position: 5 } });
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('reads every chord of the bundled progressions', () => {
+    expect(PROGRESSIONS.length).toBeGreaterThan(0);
+    PROGRESSIONS.forEach((progression) => {
+      expect(progression.points).toHaveLength(progression.chords.length);
+    });
+  });
+});
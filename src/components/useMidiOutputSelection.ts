@@ -0,0 +1,75 @@
+/**
+ * MIDI output selection for the sound output pickers
+ *
+ * Holds the port list and the chosen port and channel, and routes playback to
+ * the choice through setExternalNoteOutput. Each app keeps only its own markup.
+ * Ports are listed on the first loadPorts call (pickers make it when their
+ * dropdown is focused), so the browser only asks for MIDI access once someone
+ * goes looking for a synth.
+ */
+
+import { useState } from "react";
+import {
+	createMidiPortOutput,
+	getSelectedMidiPortOutput,
+	requestMidiOutputPorts,
+	setExternalNoteOutput,
+} from "../utils/note-output";
+
+export interface MidiOutputSelection {
+	ports: MIDIOutput[] | null; // null until loaded
+	portId: string; // "" for the built-in voices
+	channel: number; // 0-15
+	selectedName: string | undefined; // Name of the selected port, listed before the ports are loaded
+	error: string | null;
+	loadPorts(): void;
+	selectOutput(portId: string, channel: number): void;
+}
+
+// 0-15, shown to users as channels 1-16
+export const MIDI_OUTPUT_CHANNELS = Array.from({ length: 16 }, (_, channel) => channel);
+
+/**
+ * Port list and selection, starting from the output already selected in any app
+ */
+export function useMidiOutputSelection(): MidiOutputSelection {
+	const [ports, setPorts] = useState<MIDIOutput[] | null>(null);
+	const [portId, setPortId] = useState(() => getSelectedMidiPortOutput()?.portId ?? "");
+	const [channel, setChannel] = useState(() => getSelectedMidiPortOutput()?.channel ?? 0);
+	const [error, setError] = useState<string | null>(null);
+
+	const loadPorts = () => {
+		if (ports) {
+			return;
+		}
+		requestMidiOutputPorts()
+			.then((available) => {
+				setPorts(available);
+				setError(available.length === 0 ? "No MIDI outputs connected" : null);
+			})
+			.catch((err: unknown) => {
+				setPorts([]);
+				setError(err instanceof Error ? err.message : "Could not open MIDI outputs.");
+			});
+	};
+
+	const selectOutput = (nextPortId: string, nextChannel: number) => {
+		const current = getSelectedMidiPortOutput();
+		const port =
+			ports?.find((candidate) => candidate.id === nextPortId) ??
+			(current?.portId === nextPortId ? current.port : undefined);
+		setExternalNoteOutput(port ? createMidiPortOutput(port, { channel: nextChannel }) : null);
+		setPortId(port ? nextPortId : "");
+		setChannel(nextChannel);
+	};
+
+	return {
+		ports,
+		portId,
+		channel,
+		selectedName: getSelectedMidiPortOutput()?.name,
+		error,
+		loadPorts,
+		selectOutput,
+	};
+}
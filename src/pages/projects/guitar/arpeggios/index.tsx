@@ -0,0 +1,10 @@
+import Layout from "../../../../components/Layout";
+import GuitarAppRoute from "../../../../projects/guitar/components/GuitarAppRoute";
+
+const ArpeggiosIndexPage = () => (
+	<Layout title="Guitar Arpeggios | Bagpyp">
+		<GuitarAppRoute section="arpeggios" triadsView="by-voicing" boxFamily="pentatonic" />
+	</Layout>
+);
+
+export default ArpeggiosIndexPage;
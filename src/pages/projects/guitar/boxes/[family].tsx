@@ -5,7 +5,9 @@ import type { BoxScaleFamily } from "../../../../projects/guitar/lib/box-shapes"
 
 const FAMILY_SLUGS: Record<string, BoxScaleFamily> = {
 	pentatonic: "pentatonic",
-	major: "major"
+	major: "major",
+	"3nps": "3nps",
+	scales: "scales"
 };
 
 type Props = { boxFamily: BoxScaleFamily };
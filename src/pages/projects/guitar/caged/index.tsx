@@ -0,0 +1,10 @@
+import Layout from "../../../../components/Layout";
+import GuitarAppRoute from "../../../../projects/guitar/components/GuitarAppRoute";
+
+const CagedIndexPage = () => (
+	<Layout title="Guitar CAGED System | Bagpyp">
+		<GuitarAppRoute section="caged" triadsView="by-voicing" boxFamily="pentatonic" />
+	</Layout>
+);
+
+export default CagedIndexPage;
@@ -0,0 +1,10 @@
+import Layout from "../../../../components/Layout";
+import GuitarAppRoute from "../../../../projects/guitar/components/GuitarAppRoute";
+
+const ChordsIndexPage = () => (
+	<Layout title="Guitar Chord Finder | Bagpyp">
+		<GuitarAppRoute section="chords" triadsView="by-voicing" boxFamily="pentatonic" />
+	</Layout>
+);
+
+export default ChordsIndexPage;
@@ -8,7 +8,8 @@ const VIEW_SLUGS: Record<string, TriadsViewMode> = {
 	byvoicing: "by-voicing",
 	"by-key": "by-key",
 	"by-voicing": "by-voicing",
-	all: "all"
+	all: "all",
+	drop: "drop"
 };
 
 type Props = { triadsView: TriadsViewMode };
@@ -0,0 +1,10 @@
+import Layout from "../../../../components/Layout";
+import GuitarAppRoute from "../../../../projects/guitar/components/GuitarAppRoute";
+
+const TunerIndexPage = () => (
+	<Layout title="Guitar Tuner | Bagpyp">
+		<GuitarAppRoute section="tuner" triadsView="by-voicing" boxFamily="pentatonic" />
+	</Layout>
+);
+
+export default TunerIndexPage;
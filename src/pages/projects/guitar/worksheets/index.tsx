@@ -0,0 +1,10 @@
+import Layout from "../../../../components/Layout";
+import GuitarAppRoute from "../../../../projects/guitar/components/GuitarAppRoute";
+
+const WorksheetsIndexPage = () => (
+	<Layout title="Guitar Worksheets | Bagpyp">
+		<GuitarAppRoute section="worksheets" triadsView="by-voicing" boxFamily="pentatonic" />
+	</Layout>
+);
+
+export default WorksheetsIndexPage;
@@ -81,9 +81,9 @@ describe('Guitar Sound System', () => {
       expect(freq).toBeGreaterThan(0);
     });
 
-    it('should reject frets above 18', () => {
-      expect(() => calculateNoteFrequency(0, 19)).toThrow();
-      expect(() => calculateNoteFrequency(0, 24)).toThrow();
+    it('should sound frets up to 24 and reject frets above', () => {
+      expect(calculateNoteFrequency(0, 24)).toBeGreaterThan(0);
+      expect(() => calculateNoteFrequency(0, 25)).toThrow();
     });
 
     it('should have highest note at 1st string, fret 18', () => {
@@ -160,7 +160,7 @@ describe('Guitar Sound System', () => {
 
     it('should throw error for invalid fret', () => {
       expect(() => calculateNoteFrequency(0, -1)).toThrow();
-      expect(() => calculateNoteFrequency(0, 19)).toThrow();
+      expect(() => calculateNoteFrequency(0, 25)).toThrow();
     });
   });
 
@@ -7,12 +7,18 @@ import {
   getNoteYPosition,
   getStringThickness,
   getOctaveAtPosition,
+  isWoundString,
 } from '../lib/fretboard-physics';
 import { getNoteColor, getNoteColorWithOctave } from '../lib/note-colors';
-import { DIMENSIONS, calculateAllStringYPositions } from '../lib/fretboard-dimensions';
+import {
+  DIMENSIONS,
+  calculateAllStringYPositions,
+  getDoubleInlayStringPairs,
+  getFretboardSvgHeight,
+} from '../lib/fretboard-dimensions';
 import type { TriadSettings } from '../lib/triad-settings';
-
-const STRING_MIDI = [40, 45, 50, 55, 59, 64];
+import { STANDARD_TUNING } from '../lib/tunings';
+import type { Tuning } from '../lib/tunings';
 
 // Root octave shapes (same as the Notes lattice), used to connect roots.
 //   NE = 2 strings up, +2 (clean) / +3 (across the G–B wrinkle)
@@ -90,6 +96,7 @@ interface AllTriadsFretboardProps {
   showRootLattice: boolean;
   dimNonRoots: boolean;
   showGroups: boolean;
+  tuning?: Tuning;
 }
 
 interface Dot {
@@ -112,16 +119,20 @@ export default function AllTriadsFretboard({
   showRootLattice,
   dimNonRoots,
   showGroups,
+  tuning = STANDARD_TUNING,
 }: AllTriadsFretboardProps) {
+  const stringMidi = tuning.openStringMidi;
+  const stringCount = stringMidi.length;
+  const topString = stringCount - 1;
   const width = DIMENSIONS.svgWidth;
-  const height = DIMENSIONS.svgHeight;
+  const height = getFretboardSvgHeight(stringCount);
   const numFrets = DIMENSIONS.numFrets;
   const startFret = DIMENSIONS.startFret;
   const openOffset = DIMENSIONS.openStringOffset;
   const viewBoxWidth = DIMENSIONS.viewBoxWidth;
 
   const fretAxis = calculateFretYPositions(startFret, numFrets, width).map((x) => x + openOffset);
-  const stringY = calculateAllStringYPositions();
+  const stringY = calculateAllStringYPositions(stringCount);
   const noteX = (fret: number) => (fret === 0 ? openOffset / 2 : getNoteYPosition(fret, fretAxis, startFret));
   const noteRadius = DIMENSIONS.noteRadius * DIMENSIONS.defaultTriadNoteMultiplier;
 
@@ -142,7 +153,7 @@ export default function AllTriadsFretboard({
   const rootKeys = new Set(dots.filter((d) => d.pc === rootPc).map((d) => `${d.s}-${d.fret}`));
 
   const colorOf = (d: Dot) => {
-    const octave = getOctaveAtPosition(d.s, d.fret);
+    const octave = getOctaveAtPosition(d.s, d.fret, tuning);
     return settings.showOctaveColors
       ? getNoteColorWithOctave(d.pc, octave)
       : getNoteColor(d.noteName);
@@ -156,8 +167,8 @@ export default function AllTriadsFretboard({
       .forEach((d) => {
         OCTAVE_SHAPES.forEach((shape) => {
           const ts = d.s + shape.stringSpan;
-          if (ts > 5) return;
-          const tf = STRING_MIDI[d.s] + d.fret + 12 - STRING_MIDI[ts];
+          if (ts > topString) return;
+          const tf = stringMidi[d.s] + d.fret + 12 - stringMidi[ts];
           if (tf < 0 || tf > numFrets) return;
           if (!rootKeys.has(`${ts}-${tf}`)) return;
           const delta = tf - d.fret;
@@ -205,9 +216,9 @@ export default function AllTriadsFretboard({
         {/* Wood */}
         <rect
           x={openOffset}
-          y={stringY[5] - DIMENSIONS.fretboardMarginTop}
+          y={stringY[topString] - DIMENSIONS.fretboardMarginTop}
           width={width}
-          height={stringY[0] - stringY[5] + DIMENSIONS.fretboardMarginTop + DIMENSIONS.fretboardMarginBottom}
+          height={stringY[0] - stringY[topString] + DIMENSIONS.fretboardMarginTop + DIMENSIONS.fretboardMarginBottom}
           fill="#3d2817"
           rx={DIMENSIONS.fretboardBorderRadius}
         />
@@ -220,7 +231,7 @@ export default function AllTriadsFretboard({
             <g key={`fret-${f}`}>
               <line
                 x1={x}
-                y1={stringY[5] - DIMENSIONS.fretLineExtensionTop}
+                y1={stringY[topString] - DIMENSIONS.fretLineExtensionTop}
                 x2={x}
                 y2={stringY[0] + DIMENSIONS.fretLineExtensionBottom}
                 stroke={isNut ? '#e8dcc8' : '#b8b8b8'}
@@ -236,19 +247,18 @@ export default function AllTriadsFretboard({
                 />
               )}
               {f === 12 &&
-                [
-                  (stringY[1] + stringY[2]) / 2,
-                  (stringY[3] + stringY[4]) / 2,
-                ].map((cy, i) => (
-                  <circle
-                    key={i}
-                    cx={getNoteYPosition(12, fretAxis, startFret)}
-                    cy={cy}
-                    r={DIMENSIONS.fretMarkerRadius}
-                    fill="#f5f5dc"
-                    opacity={0.95}
-                  />
-                ))}
+                getDoubleInlayStringPairs(stringCount)
+                  .map(([lower, upper]) => (stringY[lower] + stringY[upper]) / 2)
+                  .map((cy, i) => (
+                    <circle
+                      key={i}
+                      cx={getNoteYPosition(12, fretAxis, startFret)}
+                      cy={cy}
+                      r={DIMENSIONS.fretMarkerRadius}
+                      fill="#f5f5dc"
+                      opacity={0.95}
+                    />
+                  ))}
             </g>
           );
         })}
@@ -261,8 +271,8 @@ export default function AllTriadsFretboard({
             y1={y}
             x2={fretAxis[numFrets]}
             y2={y}
-            stroke={s <= 3 ? '#cd7f32' : '#c0c0c0'}
-            strokeWidth={getStringThickness(s, 1.5)}
+            stroke={isWoundString(s, stringCount) ? '#cd7f32' : '#c0c0c0'}
+            strokeWidth={getStringThickness(s, 1.5, stringCount)}
           />
         ))}
 
@@ -0,0 +1,205 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import CircleOfFifthsSelector from './CircleOfFifthsSelector';
+import ScalePatternFretboard from './ScalePatternFretboard';
+import type { FretboardGhostNote } from './ScalePatternFretboard';
+import { generateArpeggioData, getArpeggioRun } from '../lib/arpeggios';
+import type { ArpeggioPosition } from '../lib/arpeggios';
+import { CHORD_FORMULAS, buildChord } from '../lib/chord-types';
+import type { ChordType } from '../lib/chord-types';
+import { nameToPc } from '../lib';
+import type { BoxRunDirection } from '../lib/tab';
+import { listChordFormulaIds } from '../lib/theory-catalog';
+import type { NoteName } from '../lib/types';
+import { playNoteSequence, resumeAudioContext } from '../lib/sound';
+import { STANDARD_TUNING, getFretCount, getTuningPitchClasses } from '../lib/tunings';
+import type { Tuning } from '../lib/tunings';
+
+interface ArpeggiosProps {
+  selectedKey: string;
+  onSelectedKeyChange: (key: string) => void;
+  tuning?: Tuning;
+  capoFret?: number;
+}
+
+// Seconds between the notes of a run
+const NOTE_SPACING = 0.22;
+
+const RUN_BUTTONS: Array<{ direction: BoxRunDirection; label: string }> = [
+  { direction: 'ascending', label: 'Play up' },
+  { direction: 'descending', label: 'Play down' },
+  { direction: 'both', label: 'Up and down' },
+];
+
+/**
+ * Arpeggio view: every tone of a chord in each of the five positions, with
+ * the pentatonic box around it and runs to play up and down
+ */
+export default function Arpeggios({
+  selectedKey,
+  onSelectedKeyChange,
+  tuning = STANDARD_TUNING,
+  capoFret = 0,
+}: ArpeggiosProps) {
+  const [chordType, setChordType] = useState<ChordType>('maj7');
+  const [focusedPosition, setFocusedPosition] = useState<number | null>(null);
+
+  const data = useMemo(
+    () => generateArpeggioData(selectedKey as NoteName, chordType, tuning),
+    [selectedKey, chordType, tuning]
+  );
+
+  const numFrets = getFretCount(tuning);
+  const tuningPcs = getTuningPitchClasses(tuning);
+  const rootPc = nameToPc(selectedKey as NoteName);
+  const chordPcs = buildChord(selectedKey as NoteName, chordType);
+  const degreeLabels = Object.fromEntries(chordPcs.map((pc, i) => [pc, data.degrees[i]]));
+
+  // Every chord tone on the neck, for the overview
+  const chordTonePattern = useMemo(() => {
+    const pcs = buildChord(selectedKey as NoteName, chordType);
+    return getTuningPitchClasses(tuning).map((openPc) =>
+      Array.from({ length: getFretCount(tuning) + 1 }, (_, fret) => fret).filter((fret) => pcs.includes((openPc + fret) % 12))
+    );
+  }, [selectedKey, chordType, tuning]);
+
+  const getRootPositions = (pattern: number[][]): [number, number][] =>
+    pattern.flatMap((frets, stringIdx) =>
+      frets
+        .filter((fret) => (tuningPcs[stringIdx] + fret) % 12 === rootPc)
+        .map((fret): [number, number] => [stringIdx, fret])
+    );
+
+  // Box notes outside the arpeggio, so the chord tones show against the scale
+  const getBoxGhostNotes = (position: ArpeggioPosition): FretboardGhostNote[] =>
+    position.pentatonicBox.pattern.flatMap((frets, stringIdx) =>
+      frets
+        .filter((fret) => !position.pattern[stringIdx].includes(fret))
+        .map((fret) => ({ stringIdx, fret }))
+    );
+
+  const playRun = async (position: ArpeggioPosition, direction: BoxRunDirection) => {
+    await resumeAudioContext();
+    await playNoteSequence(
+      getArpeggioRun(position, direction).map(({ stringIdx, fret }) => ({ stringIndex: stringIdx, fret })),
+      NOTE_SPACING,
+      tuning
+    );
+  };
+
+  return (
+    <div className="bg-slate-900 px-4 py-6 space-y-6">
+      <div className="w-full max-w-[970px] mx-auto overflow-x-auto">
+        <CircleOfFifthsSelector selectedKey={selectedKey} onSelectKey={onSelectedKeyChange} />
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-3">
+        <label className="flex items-center gap-2">
+          <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">Chord</span>
+          <select
+            value={chordType}
+            onChange={(e) => setChordType(e.target.value as ChordType)}
+            className="min-h-[40px] rounded-lg border border-slate-700 bg-slate-800 px-3 text-sm font-semibold text-slate-200"
+          >
+            {listChordFormulaIds().map((type) => (
+              <option key={type} value={type}>
+                {CHORD_FORMULAS[type].name}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <p className="text-center text-sm text-slate-300">
+        <span className="font-semibold text-white">{data.chordName}</span>
+        {' · '}
+        {data.chordNotes.join(' ')}
+        {' · '}
+        {data.degrees.join(' ')}
+      </p>
+
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        {data.positions.map((position) => (
+          <button
+            key={position.positionNumber}
+            type="button"
+            onClick={() => setFocusedPosition((current) => (current === position.positionNumber ? null : position.positionNumber))}
+            className={`flex min-h-[44px] items-center gap-2 rounded-lg border px-3 text-sm font-semibold transition-colors ${
+              focusedPosition === position.positionNumber
+                ? 'border-blue-500 bg-slate-800 text-white'
+                : 'border-slate-700 text-slate-200 hover:border-slate-500'
+            }`}
+          >
+            Position {position.positionNumber}
+            <span className="font-mono text-xs text-slate-400">
+              {position.windowStart}-{position.windowEnd}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      <div className="w-full max-w-[1760px] mx-auto overflow-x-auto">
+        <ScalePatternFretboard
+          title={`${data.chordName} arpeggio`}
+          selectedKey={data.key}
+          tuning={tuning}
+          pattern={chordTonePattern}
+          rootPositions={getRootPositions(chordTonePattern)}
+          pitchClassLabels={degreeLabels}
+          numFrets={numFrets}
+          capoFret={capoFret}
+          showTitle={false}
+        />
+      </div>
+
+      <div className="w-full max-w-[1760px] mx-auto space-y-8">
+        {data.positions
+          .filter((position) => focusedPosition === null || focusedPosition === position.positionNumber)
+          .map((position) => (
+            <section key={position.positionNumber} className="space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <h3 className="flex flex-wrap items-baseline gap-x-3 text-sm font-semibold text-slate-200">
+                  Position {position.positionNumber}
+                  <span className="text-xs font-normal text-slate-400">
+                    Frets {position.windowStart}-{position.windowEnd}
+                    {' · '}
+                    pentatonic box {position.pentatonicBox.shapeNumber}
+                    {position.majorBox && ` · major box ${position.majorBox.shapeNumber}`}
+                  </span>
+                </h3>
+                <div className="flex flex-wrap gap-2">
+                  {RUN_BUTTONS.map(({ direction, label }) => (
+                    <button
+                      key={direction}
+                      type="button"
+                      onClick={() => void playRun(position, direction)}
+                      className="min-h-[40px] rounded-lg border border-slate-700 px-3 text-xs font-semibold text-slate-200 transition-colors hover:border-slate-500"
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="overflow-x-auto">
+                <ScalePatternFretboard
+                  title={`Position ${position.positionNumber}`}
+                  selectedKey={data.key}
+                  tuning={tuning}
+                  pattern={position.pattern}
+                  rootPositions={position.rootPositions}
+                  rootPitchClassOverride={rootPc}
+                  ghostNotes={getBoxGhostNotes(position)}
+                  pitchClassLabels={degreeLabels}
+                  numFrets={numFrets}
+                  capoFret={capoFret}
+                  showTitle={false}
+                />
+              </div>
+            </section>
+          ))}
+      </div>
+    </div>
+  );
+}
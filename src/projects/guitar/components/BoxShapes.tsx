@@ -8,7 +8,9 @@ import {
   getBoxScaleFamilyOptions,
   getRelativeMajorKeyFromMinor,
   getRelativeMinorKeyFromMajor,
+  isModalBoxFamily,
   type BoxScaleFamily,
+  type ScaleFingering,
 } from '../lib/box-shapes';
 import ScalePatternFretboard, {
   type FretboardMarker,
@@ -17,7 +19,9 @@ import ScalePatternFretboard, {
 import CircleOfFifthsSelector from './CircleOfFifthsSelector';
 import ChordCheatSheetPanel from './ChordCheatSheetPanel';
 import PracticeProgressionsPanel from './PracticeProgressionsPanel';
+import TabExportButtons from './TabExportButtons';
 import { buildPentatonicShapeOverlays } from '../lib/pentatonic-shape-overlays';
+import { assignBoxFingering } from '../lib/fingering';
 import {
   getChordCheatSheetData,
   getPracticeProgressions,
@@ -37,15 +41,24 @@ import {
   type SingleTargetToneId,
   type TonalCenterMode,
 } from '../lib/target-tones';
+import { SCALE_FORMULA_CATALOG, listScaleFormulaIds } from '../lib/theory-catalog';
+import type { ScaleFormulaId } from '../lib/theory-catalog';
+import { STANDARD_TUNING, getFretCount, getTuningPitchClasses, isStandardTuning } from '../lib/tunings';
+import type { Tuning } from '../lib/tunings';
+import { getCapoShapeKey } from '../lib/capo';
+import { renderMusicXml } from '../lib/musicxml';
+import { getBoxRunTabColumns, getTabFileName, renderBoxShapeTab } from '../lib/tab';
+import type { TabStyle } from '../lib/tab';
 
 interface BoxShapesProps {
   selectedMajorKey: string;
   onSelectedMajorKeyChange: (key: string) => void;
   scaleFamily?: BoxScaleFamily;
   onScaleFamilyChange?: (scaleFamily: BoxScaleFamily) => void;
+  tuning?: Tuning;
+  capoFret?: number;
 }
 
-const STANDARD_TUNING_PCS = [4, 9, 2, 7, 11, 4]; // E A D G B E
 const BOX_FRET_COUNT = 24;
 const CHROMATIC_DEGREE_LABELS = ['1', 'b2', '2', 'b3', '3', '4', 'b5', '5', 'b6', '6', 'b7', '7'] as const;
 
@@ -78,6 +91,8 @@ export default function BoxShapes({
   onSelectedMajorKeyChange,
   scaleFamily: controlledScaleFamily,
   onScaleFamilyChange,
+  tuning = STANDARD_TUNING,
+  capoFret = 0,
 }: BoxShapesProps) {
   const [internalScaleFamily, setInternalScaleFamily] = useState<BoxScaleFamily>(controlledScaleFamily ?? 'pentatonic');
   const scaleFamily = controlledScaleFamily ?? internalScaleFamily;
@@ -90,6 +105,9 @@ export default function BoxShapes({
   const [showRectangleAndStack, setShowRectangleAndStack] = useState(false);
   const [showIntervalLabels, setShowIntervalLabels] = useState(false);
   const [showRootHalos, setShowRootHalos] = useState(true);
+  const [showFingering, setShowFingering] = useState(false);
+  const [catalogScaleId, setCatalogScaleId] = useState<ScaleFormulaId>('harmonicMinor');
+  const [scaleFingering, setScaleFingering] = useState<ScaleFingering>('position');
   const [showPracticePanel, setShowPracticePanel] = useState(true);
   const [showCheatSheetPanel, setShowCheatSheetPanel] = useState(true);
   const [activeChordPitchClasses, setActiveChordPitchClasses] = useState<number[] | null>(null);
@@ -132,18 +150,28 @@ export default function BoxShapes({
     ),
     [selectedMajorKey, tonalCenterMode]
   );
+  // Catalog scales are rooted on the selected tonal center
   const effectiveScaleKey = useMemo(
-    () => (scaleFamily === 'major' ? majorCenterKey : minorCenterKey),
-    [majorCenterKey, minorCenterKey, scaleFamily]
+    () => (
+      isModalBoxFamily(scaleFamily) || (scaleFamily === 'scales' && tonalCenterMode === 'major')
+        ? majorCenterKey
+        : minorCenterKey
+    ),
+    [majorCenterKey, minorCenterKey, scaleFamily, tonalCenterMode]
   );
   const activeScaleFamily = useMemo<BoxScaleFamily>(
-    () => (scaleFamily === 'major' ? 'major' : 'pentatonic'),
+    () => (isModalBoxFamily(scaleFamily) || scaleFamily === 'scales' ? scaleFamily : 'pentatonic'),
     [scaleFamily]
   );
+  const catalogScale = SCALE_FORMULA_CATALOG[catalogScaleId];
 
   const shapePatterns = useMemo(() => {
-    return generateBoxShapePatterns(effectiveScaleKey, activeScaleFamily);
-  }, [effectiveScaleKey, activeScaleFamily]);
+    return generateBoxShapePatterns(effectiveScaleKey, activeScaleFamily, {
+      tuning,
+      scaleId: catalogScaleId,
+      scaleFingering,
+    });
+  }, [effectiveScaleKey, activeScaleFamily, tuning, catalogScaleId, scaleFingering]);
 
   const displayPatterns = useMemo(
     () => getDisplayOrderedBoxPatterns(
@@ -151,13 +179,19 @@ export default function BoxShapes({
       activeScaleFamily,
       activeScaleFamily === 'pentatonic' && tonalCenterMode === 'major' && majorCenterKey === 'F'
         ? 2
-        : undefined
+        : undefined,
+      tuning
     ),
-    [shapePatterns, activeScaleFamily, tonalCenterMode, majorCenterKey]
+    [shapePatterns, activeScaleFamily, tonalCenterMode, majorCenterKey, tuning]
   );
 
+  const tuningPitchClasses = useMemo(() => getTuningPitchClasses(tuning), [tuning]);
+  const boxFretCount = getFretCount(tuning, BOX_FRET_COUNT);
+  const stringCount = tuningPitchClasses.length;
+  // Rectangle/stack overlays are standard-tuning fingering mnemonics.
+  const canShowShapeOverlays = showRectangleAndStack && isStandardTuning(tuning);
   const getPitchClassAtPosition = (stringIndex: number, fret: number) =>
-    (STANDARD_TUNING_PCS[stringIndex] + fret) % 12;
+    (tuningPitchClasses[stringIndex] + fret) % 12;
   const visibleTargetTones = useMemo(
     () => getVisibleTargetTones(
       singleTargetToneState,
@@ -227,7 +261,11 @@ export default function BoxShapes({
   const tonalCenterKey = tonalCenterMode === 'major' ? majorCenterKey : minorCenterKey;
   const scaleFamilyLabel = activeScaleFamily === 'major'
     ? 'Major (7 modes)'
-    : tonalCenterMode === 'major'
+    : activeScaleFamily === '3nps'
+      ? 'Three notes per string (7 modes)'
+      : activeScaleFamily === 'scales'
+        ? `${catalogScale.name} (${catalogScale.intervals.length} ${scaleFingering === '3nps' ? '3NPS patterns' : 'positions'})`
+        : tonalCenterMode === 'major'
       ? 'Major Pentatonic (5 boxes)'
       : 'Minor Pentatonic (5 boxes)';
 
@@ -339,12 +377,12 @@ export default function BoxShapes({
       return;
     }
 
-    if (nextFamily === 'major' && tonalCenterMode !== 'major') {
+    if (isModalBoxFamily(nextFamily) && tonalCenterMode !== 'major') {
       handleTonalCenterChange('major');
     }
 
     setScaleFamily(nextFamily);
-    if (nextFamily === 'major') {
+    if (nextFamily !== 'pentatonic') {
       setSingleTargetToneState(DEFAULT_SINGLE_TARGET_TONE_STATE);
       setHexatonicMode('off');
     }
@@ -473,9 +511,37 @@ export default function BoxShapes({
     displayPatterns.length,
   ]);
 
-  const title = scaleFamily === 'major'
+  const titleKey = isModalBoxFamily(scaleFamily) || tonalCenterMode === 'major' ? majorCenterKey : minorCenterKey;
+  const baseTitle = scaleFamily === 'major'
     ? `${majorCenterKey} Major System - 7 Modal Box Shapes`
-    : `${tonalCenterMode === 'major' ? majorCenterKey : minorCenterKey} ${tonalCenterMode === 'major' ? 'Major' : 'Minor'} Pentatonic - 5 Box Shapes`;
+    : scaleFamily === '3nps'
+      ? `${majorCenterKey} Major System - 7 Three-Notes-Per-String Patterns`
+      : scaleFamily === 'scales'
+        ? `${effectiveScaleKey} ${catalogScale.name} - ${displayPatterns.length} ${scaleFingering === '3nps' ? 'Three-Notes-Per-String Patterns' : 'Positions'}`
+        : `${titleKey} ${tonalCenterMode === 'major' ? 'Major' : 'Minor'} Pentatonic - 5 Box Shapes`;
+  const title = capoFret > 0
+    ? `${baseTitle} (${getCapoShapeKey(titleKey, capoFret)} shapes, capo ${capoFret})`
+    : baseTitle;
+
+  // Every displayed box as an up-and-back run, in display order
+  const getBoxesTab = (style: TabStyle) => [
+    baseTitle,
+    ...displayPatterns.map((shapeData) => renderBoxShapeTab(shapeData.pattern, 'both', {
+      tuning,
+      style,
+      title: shapeData.label,
+      measuresPerLine: 3,
+    })),
+  ].join('\n');
+
+  // The same runs as eighth notes, each box starting on a new bar
+  const getBoxesMusicXml = () => renderMusicXml(
+    displayPatterns.flatMap((shapeData) => {
+      const run = getBoxRunTabColumns(shapeData.pattern, 'both');
+      return [...run, ...Array.from({ length: (8 - (run.length % 8)) % 8 }, () => ({ notes: [] }))];
+    }),
+    { tuning, title: baseTitle, beatsPerColumn: 0.5, preferFlats: titleKey.includes('b') }
+  );
 
   return (
     <div className="w-full bg-slate-900 min-h-screen">
@@ -592,6 +658,35 @@ export default function BoxShapes({
                     Relative to selected tonal center
                   </p>
 
+                  <div
+                    onClick={() => setShowFingering((current) => !current)}
+                    className="mt-2 flex items-center gap-3 cursor-pointer py-1"
+                  >
+                    <div className="relative flex-shrink-0" style={{ width: '36px', height: '20px' }}>
+                      <div
+                        className="absolute inset-0 rounded-full transition-colors"
+                        style={{ backgroundColor: showFingering ? '#34C759' : '#E5E7EB' }}
+                      />
+                      <div
+                        className="absolute bg-white rounded-full shadow-sm pointer-events-none"
+                        style={{
+                          width: '16px',
+                          height: '16px',
+                          left: '2px',
+                          top: '2px',
+                          transform: showFingering ? 'translateX(16px)' : 'translateX(0)',
+                          transition: 'transform 0.2s ease',
+                        }}
+                      />
+                    </div>
+                    <span className="text-xs text-slate-700 dark:text-slate-300 select-none">
+                      Show fingering
+                    </span>
+                  </div>
+                  <p className="mt-1 text-[11px] text-slate-500 dark:text-slate-400">
+                    One finger per fret, 1 = index
+                  </p>
+
                   <div
                     onClick={() => setShowNotesFromOtherPositions((current) => !current)}
                     className="mt-2 flex items-center gap-3 cursor-pointer py-1"
@@ -667,7 +762,13 @@ export default function BoxShapes({
                       onClick={() => handleScaleFamilyChange(option.value)}
                       className={getSegmentButtonClass(option.value === scaleFamily)}
                     >
-                      {option.value === 'major' ? 'Major (7)' : 'Pentatonic (5)'}
+                      {option.value === 'major'
+                        ? 'Major (7)'
+                        : option.value === '3nps'
+                          ? '3NPS (7)'
+                          : option.value === 'scales'
+                            ? 'Scales'
+                            : 'Pentatonic (5)'}
                     </button>
                   ))}
                 </div>
@@ -698,6 +799,54 @@ export default function BoxShapes({
               </div>
             </div>
 
+            {scaleFamily === 'scales' && (
+              <div className="mt-4 flex flex-wrap items-start justify-center gap-6 text-center">
+                <div className="flex flex-col items-center">
+                  <label
+                    htmlFor="box-catalog-scale"
+                    className="mb-2 text-[11px] font-semibold uppercase tracking-wide text-slate-400"
+                  >
+                    Scale
+                  </label>
+                  <select
+                    id="box-catalog-scale"
+                    value={catalogScaleId}
+                    onChange={(e) => setCatalogScaleId(e.target.value as ScaleFormulaId)}
+                    className="min-h-[44px] rounded-lg border border-slate-700 bg-slate-800 px-3 text-sm font-semibold text-slate-200"
+                  >
+                    {listScaleFormulaIds().map((id) => (
+                      <option key={id} value={id}>
+                        {SCALE_FORMULA_CATALOG[id].name}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-slate-400">{catalogScale.description}</p>
+                </div>
+
+                <div className="flex flex-col items-center">
+                  <p className="mb-2 text-[11px] font-semibold uppercase tracking-wide text-slate-400">
+                    Fingering
+                  </p>
+                  <div className={SEGMENT_WRAPPER_CLASS}>
+                    <button
+                      type="button"
+                      onClick={() => setScaleFingering('position')}
+                      className={getSegmentButtonClass(scaleFingering === 'position')}
+                    >
+                      Positions
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setScaleFingering('3nps')}
+                      className={getSegmentButtonClass(scaleFingering === '3nps')}
+                    >
+                      3NPS
+                    </button>
+                  </div>
+                </div>
+              </div>
+            )}
+
             {scaleFamily === 'pentatonic' && (
               <div className="mt-4 space-y-3 text-center">
                 <div className="flex flex-col items-center">
@@ -788,6 +937,10 @@ export default function BoxShapes({
             )}
           </section>
 
+          <div className="flex justify-center">
+            <TabExportButtons getTab={getBoxesTab} getMusicXml={getBoxesMusicXml} fileName={getTabFileName(baseTitle)} />
+          </div>
+
           <div>
             <div ref={fretboardsContainerRef} className="relative flex flex-col gap-1">
               {displayPatterns.map((shapeData) => {
@@ -804,11 +957,11 @@ export default function BoxShapes({
                     inner: string;
                   };
                 }[] = [];
-                const focusedShapeOverlays = activeScaleFamily === 'pentatonic' && showRectangleAndStack
+                const focusedShapeOverlays = activeScaleFamily === 'pentatonic' && canShowShapeOverlays
                   ? buildPentatonicShapeOverlays(shapeData.pattern, majorCenterKey)
                   : [];
                 const faintOtherShapeOverlays = activeScaleFamily === 'pentatonic'
-                  && showRectangleAndStack
+                  && canShowShapeOverlays
                   && showNotesFromOtherPositions
                   ? displayPatterns
                     .filter((otherShape) => otherShape.id !== shapeData.id)
@@ -837,7 +990,7 @@ export default function BoxShapes({
                 if (activeScaleFamily === 'pentatonic' && visibleTargetTones.length > 0) {
                   const mergedPattern = shapeData.pattern.map((stringFrets) => new Set(stringFrets));
                   const minFret = Math.max(0, shapeData.windowStart);
-                  const maxFret = Math.min(BOX_FRET_COUNT, shapeData.windowEnd);
+                  const maxFret = Math.min(boxFretCount, shapeData.windowEnd);
                   const minimumTargetsPerPitchClass = 2;
                   const focusFret = maxFret + 1;
 
@@ -860,7 +1013,7 @@ export default function BoxShapes({
                       getPitchClassAtPosition(stringIndex, fret) === targetPitchClass;
 
                     // Primary pass: flood this target note inside the current box window.
-                    for (let stringIndex = 0; stringIndex < 6; stringIndex++) {
+                    for (let stringIndex = 0; stringIndex < stringCount; stringIndex++) {
                       for (let fret = minFret; fret <= maxFret; fret++) {
                         if (matchesTargetPitchClass(stringIndex, fret)) {
                           addTargetPosition(stringIndex, fret);
@@ -873,8 +1026,8 @@ export default function BoxShapes({
                     while (count < minimumTargetsPerPitchClass) {
                       let bestCandidate: { stringIndex: number; fret: number; score: number } | null = null;
 
-                      for (let stringIndex = 0; stringIndex < 6; stringIndex++) {
-                        for (let fret = 0; fret <= BOX_FRET_COUNT; fret++) {
+                      for (let stringIndex = 0; stringIndex < stringCount; stringIndex++) {
+                        for (let fret = 0; fret <= boxFretCount; fret++) {
                           if (!matchesTargetPitchClass(stringIndex, fret)) {
                             continue;
                           }
@@ -905,13 +1058,16 @@ export default function BoxShapes({
 
                     // The E strings always mirror in these box shapes, so a target
                     // borrowed onto one E string must appear on the other as well.
-                    [...targetPositions].forEach(([stringIndex, fret]) => {
-                      if (stringIndex === 0) {
-                        addTargetPosition(5, fret);
-                      } else if (stringIndex === 5) {
-                        addTargetPosition(0, fret);
-                      }
-                    });
+                    const lastStringIndex = stringCount - 1;
+                    if (tuningPitchClasses[0] === tuningPitchClasses[lastStringIndex]) {
+                      [...targetPositions].forEach(([stringIndex, fret]) => {
+                        if (stringIndex === 0) {
+                          addTargetPosition(lastStringIndex, fret);
+                        } else if (stringIndex === lastStringIndex) {
+                          addTargetPosition(0, fret);
+                        }
+                      });
+                    }
 
                     if (targetPositions.length > 0) {
                       markers.push({
@@ -931,6 +1087,22 @@ export default function BoxShapes({
                   );
                 }
 
+                // 3NPS blue notes pass between a string's notes, so they join the rendered pattern only
+                if (activeScaleFamily === '3nps' && shapeData.blueNotePositions.length > 0) {
+                  const mergedPattern = patternForRender.map((stringFrets) => new Set(stringFrets));
+                  shapeData.blueNotePositions.forEach(([stringIndex, fret]) => mergedPattern[stringIndex].add(fret));
+                  markers.push({
+                    positions: shapeData.blueNotePositions,
+                    stroke: '#38bdf8',
+                    strokeWidth: 2,
+                    ringOffset: 3,
+                    variant: 'blue-vibe',
+                  });
+                  patternForRender = mergedPattern.map(
+                    (stringFrets) => [...stringFrets].sort((a, b) => a - b)
+                  );
+                }
+
                 const computedRootPositions: [number, number][] = [];
                 patternForRender.forEach((stringFrets, stringIndex) => {
                   stringFrets.forEach((fret) => {
@@ -989,12 +1161,12 @@ export default function BoxShapes({
 
                   if (missingPitchClasses.length > 0) {
                     const minFret = Math.max(0, shapeData.windowStart);
-                    const maxFret = Math.min(BOX_FRET_COUNT, shapeData.windowEnd);
+                    const maxFret = Math.min(boxFretCount, shapeData.windowEnd);
                     const centerFret = (minFret + maxFret) / 2;
 
                     const getCandidates = (pitchClass: number, fretStart: number, fretEnd: number) => {
                       const candidates: { stringIdx: number; fret: number; score: number }[] = [];
-                      for (let stringIdx = 0; stringIdx < 6; stringIdx++) {
+                      for (let stringIdx = 0; stringIdx < stringCount; stringIdx++) {
                         for (let fret = fretStart; fret <= fretEnd; fret++) {
                           if (getPitchClassAtPosition(stringIdx, fret) !== pitchClass) {
                             continue;
@@ -1020,7 +1192,7 @@ export default function BoxShapes({
                       const inWindowCandidates = getCandidates(pitchClass, minFret, maxFret);
                       const pickedCandidates = inWindowCandidates.length > 0
                         ? inWindowCandidates.slice(0, 2)
-                        : getCandidates(pitchClass, 0, BOX_FRET_COUNT).slice(0, 2);
+                        : getCandidates(pitchClass, 0, boxFretCount).slice(0, 2);
 
                       pickedCandidates.forEach(({ stringIdx, fret }) => {
                         const key = `${stringIdx}:${fret}`;
@@ -1065,9 +1237,9 @@ export default function BoxShapes({
                     .filter((otherShape) => otherShape.id !== shapeData.id)
                     .forEach((otherShape) => {
                       const minFret = Math.max(0, otherShape.windowStart);
-                      const maxFret = Math.min(BOX_FRET_COUNT, otherShape.windowEnd);
+                      const maxFret = Math.min(boxFretCount, otherShape.windowEnd);
                       temporaryNonScaleToneStyleByPitchClass.forEach((temporaryToneStyle, pitchClass) => {
-                        for (let stringIdx = 0; stringIdx < 6; stringIdx++) {
+                        for (let stringIdx = 0; stringIdx < stringCount; stringIdx++) {
                           for (let fret = minFret; fret <= maxFret; fret++) {
                             if (getPitchClassAtPosition(stringIdx, fret) !== pitchClass) {
                               continue;
@@ -1116,6 +1288,7 @@ export default function BoxShapes({
                     key={`${scaleFamily}-${selectedMajorKey}-${effectiveScaleKey}-${shapeData.id}`}
                     title={shapeData.label}
                     selectedKey={effectiveScaleKey}
+                    tuning={tuning}
                     pattern={patternForRender}
                     rootPositions={rootPositionsForRender}
                     rootPitchClassOverride={rootHaloPitchClass}
@@ -1124,9 +1297,11 @@ export default function BoxShapes({
                     markers={markers}
                     shapeOverlays={shapeOverlaysForRender}
                     pitchClassLabels={pitchClassLabels}
+                    fingering={showFingering ? assignBoxFingering(patternForRender) : undefined}
                     showRootHalos={showRootHalos}
                     activeChordPitchClasses={activeChordPitchClasses ?? undefined}
-                    numFrets={BOX_FRET_COUNT}
+                    numFrets={boxFretCount}
+                    capoFret={capoFret}
                     titlePlacement="left"
                     showTitle={false}
                   />
@@ -1149,6 +1324,7 @@ export default function BoxShapes({
                   auraPitchClasses={cheatSheetAuraPitchClasses}
                   activeChordPitchClasses={activeChordPitchClasses ?? undefined}
                   activeChordSymbol={activeChordSymbol ?? undefined}
+                  capoFret={capoFret}
                   onClose={() => setShowCheatSheetPanel(false)}
                 />
               </div>
@@ -1174,6 +1350,8 @@ export default function BoxShapes({
                   onActiveChordPitchClassesChange={setActiveChordPitchClasses}
                   onActiveChordSymbolChange={setActiveChordSymbol}
                   onHideNonScaleChordTonesChange={setHideNonScaleChordTones}
+                  capoFret={capoFret}
+                  tuning={tuning}
                   onClose={() => setShowPracticePanel(false)}
                 />
               </div>
@@ -1188,6 +1366,7 @@ export default function BoxShapes({
                     auraPitchClasses={cheatSheetAuraPitchClasses}
                     activeChordPitchClasses={activeChordPitchClasses ?? undefined}
                     activeChordSymbol={activeChordSymbol ?? undefined}
+                    capoFret={capoFret}
                     onClose={() => setShowCheatSheetPanel(false)}
                   />
                 )}
@@ -1202,6 +1381,8 @@ export default function BoxShapes({
                     onActiveChordPitchClassesChange={setActiveChordPitchClasses}
                     onActiveChordSymbolChange={setActiveChordSymbol}
                     onHideNonScaleChordTonesChange={setHideNonScaleChordTones}
+                    capoFret={capoFret}
+                    tuning={tuning}
                     onClose={() => setShowPracticePanel(false)}
                   />
                 )}
@@ -0,0 +1,241 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import CircleOfFifthsSelector from './CircleOfFifthsSelector';
+import CompactHorizontalFretboard from './CompactHorizontalFretboard';
+import ScalePatternFretboard from './ScalePatternFretboard';
+import type { FretboardMarker, FretboardShapeOverlay } from './ScalePatternFretboard';
+import { CAGED_SHAPE_COLORS, generateCagedData } from '../lib/caged';
+import type { CagedForm, CagedShapeName } from '../lib/caged';
+import { isFretPlayableWithCapo } from '../lib/capo';
+import { formatChordFrets } from '../lib/chord-search';
+import { buildPentatonicShapeOverlays } from '../lib/pentatonic-shape-overlays';
+import { buildMajorTriad } from '../lib/triads';
+import type { NoteName } from '../lib/types';
+import { playChord, resumeAudioContext } from '../lib/sound';
+import { STANDARD_TUNING, getFretCount, getTuningPitchClasses, isStandardTuning } from '../lib/tunings';
+import type { Tuning } from '../lib/tunings';
+import { RIGHT_HANDED_ORIENTATION } from '../lib/orientation';
+import type { FretboardOrientation } from '../lib/orientation';
+
+interface CagedSystemProps {
+  selectedKey: string;
+  onSelectedKeyChange: (key: string) => void;
+  tuning?: Tuning;
+  capoFret?: number;
+  fretboardOrientation?: FretboardOrientation;
+}
+
+function getGripOverlay(form: CagedForm, shift: number, emphasis: number): FretboardShapeOverlay {
+  return {
+    id: `caged-${form.shape}-${shift}`,
+    points: form.gripPositions.map(([stringIdx, fret]): [number, number] => [stringIdx, fret + shift]),
+    stroke: CAGED_SHAPE_COLORS[form.shape],
+    strokeWidth: 4,
+    opacity: 0.9 * emphasis,
+  };
+}
+
+/**
+ * CAGED view: the five movable major chord shapes across the neck, each with
+ * the triad voicings and the pentatonic box it contains
+ */
+export default function CagedSystem({
+  selectedKey,
+  onSelectedKeyChange,
+  tuning = STANDARD_TUNING,
+  capoFret = 0,
+  fretboardOrientation = RIGHT_HANDED_ORIENTATION,
+}: CagedSystemProps) {
+  const [focusedShape, setFocusedShape] = useState<CagedShapeName | null>(null);
+
+  const isStandard = isStandardTuning(tuning);
+  const data = useMemo(
+    () => (isStandard ? generateCagedData(selectedKey as NoteName, tuning) : null),
+    [selectedKey, tuning, isStandard]
+  );
+
+  const numFrets = getFretCount(tuning);
+  const tuningPcs = getTuningPitchClasses(tuning);
+  const stringCount = tuningPcs.length;
+  const triadPcs = buildMajorTriad(selectedKey as NoteName);
+  const [rootPc, thirdPc, fifthPc] = triadPcs;
+  const degreeLabels = { [rootPc]: '1', [thirdPc]: '3', [fifthPc]: '5' };
+
+  // Every chord tone on the neck, for the overview
+  const chordTonePattern = useMemo(() => {
+    const pcs = buildMajorTriad(selectedKey as NoteName);
+    return getTuningPitchClasses(tuning).map((openPc) =>
+      Array.from({ length: getFretCount(tuning) + 1 }, (_, fret) => fret).filter((fret) => pcs.includes((openPc + fret) % 12))
+    );
+  }, [selectedKey, tuning]);
+
+  const getRootPositions = (pattern: number[][]): [number, number][] =>
+    pattern.flatMap((frets, stringIdx) =>
+      frets
+        .filter((fret) => (tuningPcs[stringIdx] + fret) % 12 === rootPc)
+        .map((fret): [number, number] => [stringIdx, fret])
+    );
+
+  const playPositions = async (positions: Array<{ stringIndex: number; fret: number }>) => {
+    await resumeAudioContext();
+    playChord(positions, 2.0, tuning);
+  };
+
+  const handleFormClick = (form: CagedForm) => {
+    setFocusedShape((current) => (current === form.shape ? null : form.shape));
+    void playPositions(form.gripPositions.map(([stringIndex, fret]) => ({ stringIndex, fret })));
+  };
+
+  const getTriadFretRange = (form: CagedForm) => {
+    const start = form.windowStart <= 1 ? 0 : form.windowStart - 1;
+    return { start, end: Math.min(numFrets, Math.max(start + 5, form.windowEnd + 1)) };
+  };
+
+  if (!data) {
+    return (
+      <div className="bg-slate-900 px-4 py-10 text-center text-sm text-slate-300">
+        The CAGED shapes are open-chord grips in standard tuning. Switch the tuning to standard to see them.
+      </div>
+    );
+  }
+
+  // Each form repeats an octave up (or down) wherever it still fits on the neck
+  const overviewOverlays = data.forms.flatMap((form) =>
+    [-12, 0, 12]
+      .filter((shift) => form.gripPositions.every(([, fret]) => fret + shift >= 0 && fret + shift <= numFrets))
+      .map((shift) => getGripOverlay(form, shift, focusedShape === null || focusedShape === form.shape ? 1 : 0.3))
+  );
+
+  return (
+    <div className="bg-slate-900 px-4 py-6 space-y-6">
+      <div className="w-full max-w-[970px] mx-auto overflow-x-auto">
+        <CircleOfFifthsSelector selectedKey={selectedKey} onSelectKey={onSelectedKeyChange} />
+      </div>
+
+      <p className="text-center text-sm text-slate-300">
+        <span className="font-semibold text-white">{data.key} major</span>
+        {' · '}
+        {data.triadNotes.join(' ')}
+        {' · '}
+        Click a shape to hear it and highlight it on the neck
+      </p>
+
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        {data.forms.map((form) => (
+          <button
+            key={form.shape}
+            type="button"
+            onClick={() => handleFormClick(form)}
+            className={`flex min-h-[44px] items-center gap-2 rounded-lg border px-3 text-sm font-semibold transition-colors ${
+              focusedShape === form.shape
+                ? 'border-blue-500 bg-slate-800 text-white'
+                : 'border-slate-700 text-slate-200 hover:border-slate-500'
+            }`}
+          >
+            <span className="h-3 w-3 rounded-full" style={{ backgroundColor: CAGED_SHAPE_COLORS[form.shape] }} />
+            {form.shape} shape
+            <span className="font-mono text-xs text-slate-400">{formatChordFrets(form.grip)}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="w-full max-w-[1760px] mx-auto overflow-x-auto">
+        <ScalePatternFretboard
+          title={`CAGED in ${data.key}`}
+          selectedKey={data.key}
+          tuning={tuning}
+          pattern={chordTonePattern}
+          rootPositions={getRootPositions(chordTonePattern)}
+          pitchClassLabels={degreeLabels}
+          shapeOverlays={overviewOverlays}
+          numFrets={numFrets}
+          capoFret={capoFret}
+          showTitle={false}
+        />
+      </div>
+
+      <div className="w-full max-w-[1760px] mx-auto space-y-8">
+        {data.forms
+          .filter((form) => focusedShape === null || focusedShape === form.shape)
+          .map((form) => {
+            const box = form.pentatonicBox;
+            const gripMarker: FretboardMarker = {
+              positions: form.gripPositions,
+              stroke: CAGED_SHAPE_COLORS[form.shape],
+              strokeWidth: 3,
+            };
+            const boxOverlays = box ? buildPentatonicShapeOverlays(box.pattern, data.key) : [];
+            const triads = form.triadVoicings.filter((voicing) =>
+              voicing.frets.every((fret) => isFretPlayableWithCapo(fret, capoFret))
+            );
+
+            return (
+              <section key={form.shape} className="space-y-3">
+                <h3 className="flex flex-wrap items-baseline gap-x-3 text-sm font-semibold text-slate-200">
+                  <span style={{ color: CAGED_SHAPE_COLORS[form.shape] }}>{form.shape} shape</span>
+                  <span className="font-mono text-slate-300">{formatChordFrets(form.grip)}</span>
+                  <span className="text-xs font-normal text-slate-400">
+                    Frets {form.windowStart}-{form.windowEnd}
+                    {box && ` · inside pentatonic box ${box.shapeNumber}`}
+                  </span>
+                </h3>
+
+                {box && (
+                  <div className="overflow-x-auto">
+                    <ScalePatternFretboard
+                      title={`${form.shape} shape`}
+                      selectedKey={data.key}
+                      tuning={tuning}
+                      pattern={box.pattern}
+                      rootPositions={getRootPositions(box.pattern)}
+                      rootPitchClassOverride={rootPc}
+                      markers={[gripMarker]}
+                      shapeOverlays={[...boxOverlays, getGripOverlay(form, 0, 1)]}
+                      pitchClassLabels={degreeLabels}
+                      numFrets={numFrets}
+                      capoFret={capoFret}
+                      showTitle={false}
+                    />
+                  </div>
+                )}
+
+                {triads.length > 0 && (
+                  <div>
+                    <p className="mb-2 text-xs font-semibold uppercase tracking-wide text-slate-400">
+                      Triads in this shape
+                    </p>
+                    <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+                      {triads.map((voicing) => (
+                        <button
+                          key={`${voicing.strings.join(',')}:${voicing.frets.join(',')}`}
+                          type="button"
+                          onClick={() => void playPositions(
+                            voicing.strings.map((stringIndex, i) => ({ stringIndex, fret: voicing.frets[i] }))
+                          )}
+                          className="flex flex-col items-center rounded-lg border border-slate-700 p-2 transition-colors hover:border-slate-500"
+                        >
+                          <span className="mb-1 text-xs text-slate-300">
+                            Strings {voicing.strings.map((stringIdx) => stringCount - stringIdx).join('-')}
+                            {' · '}
+                            {voicing.inversion === 'root' ? 'root position' : `${voicing.inversion} inversion`}
+                          </span>
+                          <CompactHorizontalFretboard
+                            voicing={voicing}
+                            triadPcs={triadPcs}
+                            fretRange={getTriadFretRange(form)}
+                            stringCount={stringCount}
+                            fretboardOrientation={fretboardOrientation}
+                          />
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </section>
+            );
+          })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import React from 'react';
+
+interface CapoBarProps {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  thickness?: number;
+}
+
+/**
+ * Capo drawn across the strings as a rubber-padded bar (SVG fragment).
+ * Callers place it on the capo fret's note position so notes at that fret
+ * sit on the bar, the way open-string notes sit by the nut.
+ */
+export default function CapoBar({ x1, y1, x2, y2, thickness = 10 }: CapoBarProps) {
+  return (
+    <g pointerEvents="none" data-capo-bar="true">
+      <line
+        x1={x1}
+        y1={y1}
+        x2={x2}
+        y2={y2}
+        stroke="#111827"
+        strokeWidth={thickness}
+        strokeLinecap="round"
+        opacity={0.85}
+      />
+      <line
+        x1={x1}
+        y1={y1}
+        x2={x2}
+        y2={y2}
+        stroke="#94a3b8"
+        strokeWidth={thickness * 0.25}
+        strokeLinecap="round"
+        opacity={0.9}
+      />
+    </g>
+  );
+}
@@ -0,0 +1,34 @@
+'use client';
+
+import React from 'react';
+import { MAX_CAPO_FRET } from '../lib/capo';
+
+interface CapoPickerProps {
+  capoFret: number;
+  onCapoFretChange: (capoFret: number) => void;
+}
+
+/**
+ * Capo dropdown (no capo, or frets 1 through MAX_CAPO_FRET)
+ */
+export default function CapoPicker({ capoFret, onCapoFretChange }: CapoPickerProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <label htmlFor="guitar-capo" className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+        Capo
+      </label>
+      <select
+        id="guitar-capo"
+        value={capoFret}
+        onChange={(e) => onCapoFretChange(Number(e.target.value))}
+        className="min-h-[44px] rounded-lg border border-slate-700 bg-slate-800 px-3 text-sm font-semibold text-slate-200"
+      >
+        {Array.from({ length: MAX_CAPO_FRET + 1 }, (_, fret) => (
+          <option key={fret} value={fret}>
+            {fret === 0 ? 'None' : `Fret ${fret}`}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
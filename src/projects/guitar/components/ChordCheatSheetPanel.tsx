@@ -4,6 +4,7 @@ import React, { useMemo } from 'react';
 import type { ChordCheatSheetData } from '../lib/progression-recommendations';
 import { getPitchClass } from '../lib/box-shapes';
 import { getNoteColor } from '../lib/note-colors';
+import { getShapeChordSymbol } from '../lib/capo';
 
 interface ChordCheatSheetPanelProps {
   data: ChordCheatSheetData;
@@ -11,6 +12,7 @@ interface ChordCheatSheetPanelProps {
   auraPitchClasses: number[];
   activeChordPitchClasses?: number[];
   activeChordSymbol?: string;
+  capoFret?: number;
   onClose?: () => void;
 }
 
@@ -127,6 +129,7 @@ export default function ChordCheatSheetPanel({
   auraPitchClasses,
   activeChordPitchClasses,
   activeChordSymbol,
+  capoFret = 0,
   onClose,
 }: ChordCheatSheetPanelProps) {
   const rootSet = useMemo(() => new Set(rootPitchClasses), [rootPitchClasses]);
@@ -182,6 +185,11 @@ export default function ChordCheatSheetPanel({
               >
                 <p className="text-xs font-semibold text-slate-100">
                   {entry.chordSymbol}
+                  {capoFret > 0 && (
+                    <span className="ml-1.5 font-normal text-slate-400">
+                      {getShapeChordSymbol(entry.chordSymbol, capoFret)} shape
+                    </span>
+                  )}
                 </p>
                 <div className="mt-1 flex flex-wrap gap-1">
                   {entry.notes.map((note, noteIndex) => {
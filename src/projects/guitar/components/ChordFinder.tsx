@@ -0,0 +1,213 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import CompactHorizontalFretboard from './CompactHorizontalFretboard';
+import { isFretPlayableWithCapo } from '../lib/capo';
+import { formatChordFrets, searchChordVoicings } from '../lib/chord-search';
+import type { ChordVoicingCandidate } from '../lib/chord-search';
+import { CHORD_FORMULA_CATALOG } from '../lib/theory-catalog';
+import { playChord, resumeAudioContext } from '../lib/sound';
+import { STANDARD_TUNING, getFretCount } from '../lib/tunings';
+import type { Tuning } from '../lib/tunings';
+import { RIGHT_HANDED_ORIENTATION } from '../lib/orientation';
+import type { FretboardOrientation } from '../lib/orientation';
+
+interface ChordFinderProps {
+  tuning?: Tuning;
+  capoFret?: number;
+  fretboardOrientation?: FretboardOrientation;
+}
+
+type VoicingFilter = 'all' | 'full' | 'partial' | 'omitted';
+
+const VOICING_FILTERS: Array<{ value: VoicingFilter; label: string }> = [
+  { value: 'all', label: 'All shapes' },
+  { value: 'full', label: 'Every string' },
+  { value: 'partial', label: 'Partial' },
+  { value: 'omitted', label: 'Omitted tones' },
+];
+
+const SUGGESTION_ROOTS = ['C', 'C#', 'Db', 'D', 'Eb', 'E', 'F', 'F#', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'];
+const CHORD_SUGGESTIONS = SUGGESTION_ROOTS.flatMap((root) =>
+  Object.values(CHORD_FORMULA_CATALOG).map((formula) => `${root}${formula.symbol}`)
+);
+
+const PAGE_SIZE = 24;
+
+// Frets shown around each shape, so grips compare at the same scale
+const WINDOW_FRETS = 4;
+
+const selectClass = 'min-h-[44px] rounded-lg border border-slate-700 bg-slate-800 px-3 text-sm font-semibold text-slate-200';
+const labelClass = 'text-xs font-semibold uppercase tracking-wide text-slate-400';
+
+function matchesFilter(voicing: ChordVoicingCandidate, filter: VoicingFilter): boolean {
+  switch (filter) {
+    case 'all':
+      return true;
+    case 'full':
+      return voicing.mutedStrings === 0;
+    case 'partial':
+      return voicing.mutedStrings > 0;
+    case 'omitted':
+      return voicing.omitted.length > 0;
+  }
+}
+
+/**
+ * Chord finder: every playable fretting of a chord symbol, easiest first
+ */
+export default function ChordFinder({
+  tuning = STANDARD_TUNING,
+  capoFret = 0,
+  fretboardOrientation = RIGHT_HANDED_ORIENTATION,
+}: ChordFinderProps) {
+  const [query, setQuery] = useState('C');
+  const [filter, setFilter] = useState<VoicingFilter>('all');
+  const [allowInversions, setAllowInversions] = useState(false);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const stringCount = tuning.openStringMidi.length;
+  const maxFret = getFretCount(tuning);
+
+  const result = useMemo(() => searchChordVoicings(query, { tuning, allowInversions }), [query, tuning, allowInversions]);
+
+  const voicings = useMemo(
+    () => (result?.voicings ?? []).filter((voicing) =>
+      matchesFilter(voicing, filter) &&
+      voicing.soundingFrets.every((fret) => isFretPlayableWithCapo(fret, capoFret))
+    ),
+    [result, filter, capoFret]
+  );
+
+  const triadPcs = useMemo((): [number, number, number] | null => {
+    if (!result) return null;
+    // Only the root is marked, so chords of two tones ("C5") fill in with it
+    const [rootPc, thirdPc = rootPc, fifthPc = rootPc] = result.chordPcs;
+    return [rootPc, thirdPc, fifthPc];
+  }, [result]);
+
+  const handleQueryChange = (next: string) => {
+    setQuery(next);
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  const handlePlay = async (voicing: ChordVoicingCandidate) => {
+    await resumeAudioContext();
+    playChord(
+      voicing.strings.map((stringIndex, i) => ({ stringIndex, fret: voicing.soundingFrets[i] })),
+      2.0,
+      tuning
+    );
+  };
+
+  const getFretRange = (voicing: ChordVoicingCandidate) => {
+    const fretted = voicing.soundingFrets.filter((fret) => fret > 0);
+    const low = fretted.length > 0 ? Math.min(...fretted) : 0;
+    const start = low <= 2 ? 0 : low - 1;
+    return { start, end: Math.min(maxFret, Math.max(start + WINDOW_FRETS, ...voicing.soundingFrets)) };
+  };
+
+  return (
+    <div className="bg-slate-900 px-4 py-6">
+      <div className="mx-auto mb-6 flex max-w-[1100px] flex-wrap items-center justify-center gap-3">
+        <label className="flex items-center gap-2">
+          <span className={labelClass}>Chord</span>
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => handleQueryChange(e.target.value)}
+            list="chord-finder-suggestions"
+            placeholder="e.g. Am7, D/F#, Bbmaj7"
+            spellCheck={false}
+            className="min-h-[44px] w-48 rounded-lg border border-slate-700 bg-slate-800 px-3 text-sm font-semibold text-slate-100 placeholder:text-slate-500"
+          />
+          <datalist id="chord-finder-suggestions">
+            {CHORD_SUGGESTIONS.map((symbol) => (
+              <option key={symbol} value={symbol} />
+            ))}
+          </datalist>
+        </label>
+
+        <label className="flex items-center gap-2">
+          <span className={labelClass}>Show</span>
+          <select value={filter} onChange={(e) => setFilter(e.target.value as VoicingFilter)} className={selectClass}>
+            {VOICING_FILTERS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex min-h-[44px] items-center gap-2 text-sm font-semibold text-slate-200">
+          <input type="checkbox" checked={allowInversions} onChange={(e) => setAllowInversions(e.target.checked)} />
+          Inversions
+        </label>
+      </div>
+
+      {!result ? (
+        <p className="text-center text-sm text-slate-400">
+          {query.trim() ? `Can't read "${query.trim()}" as a chord.` : 'Type a chord symbol to search.'}
+        </p>
+      ) : (
+        <div className="mx-auto max-w-6xl space-y-4">
+          <p className="text-center text-sm text-slate-300">
+            <span className="font-semibold text-white">{result.symbol}</span>
+            {' · '}
+            {result.chordNotes.join(' ')}
+            {' · '}
+            {voicings.length} {voicings.length === 1 ? 'shape' : 'shapes'}, easiest first
+          </p>
+
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-4">
+            {voicings.slice(0, visibleCount).map((voicing) => {
+              const details = [
+                `${voicing.fingers} ${voicing.fingers === 1 ? 'finger' : 'fingers'}`,
+                voicing.stretch > 0 ? `span ${voicing.stretch + 1}` : null,
+                voicing.barreFret !== null ? `barre ${voicing.barreFret}` : null,
+                voicing.openStrings > 0 ? `${voicing.openStrings} open` : null,
+                voicing.omitted.length > 0 ? `no ${voicing.omitted.join(', ')}` : null,
+                voicing.isInversion ? `${voicing.noteNames[0]} bass` : null,
+              ].filter(Boolean);
+              return (
+                <button
+                  key={voicing.frets.join(',')}
+                  type="button"
+                  onClick={() => handlePlay(voicing)}
+                  className="flex flex-col items-center rounded-lg border border-slate-700 p-2 transition-colors hover:border-slate-500"
+                >
+                  <span className="mb-1 flex w-full items-baseline justify-between text-xs">
+                    <span className="font-mono font-semibold text-slate-100">{formatChordFrets(voicing.frets)}</span>
+                    <span className="font-semibold text-emerald-400" title="Playability (higher is easier)">{voicing.score}</span>
+                  </span>
+                  {triadPcs && (
+                    <CompactHorizontalFretboard
+                      voicing={{ strings: voicing.strings, frets: voicing.soundingFrets, notes: voicing.notes, noteNames: voicing.noteNames }}
+                      triadPcs={triadPcs}
+                      fretRange={getFretRange(voicing)}
+                      stringCount={stringCount}
+                      fretboardOrientation={fretboardOrientation}
+                    />
+                  )}
+                  <span className="mt-1 text-[11px] text-slate-400">{details.join(' · ')}</span>
+                </button>
+              );
+            })}
+          </div>
+
+          {visibleCount < voicings.length && (
+            <div className="flex justify-center">
+              <button
+                type="button"
+                onClick={() => setVisibleCount((count) => count + PAGE_SIZE)}
+                className="min-h-[44px] rounded-lg border border-slate-700 bg-slate-800 px-4 text-sm font-semibold text-slate-200 hover:bg-slate-700"
+              >
+                Show more ({voicings.length - visibleCount} left)
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
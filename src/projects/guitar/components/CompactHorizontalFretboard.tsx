@@ -8,13 +8,18 @@ import {
   getFretPosition,
   getNoteYPosition,
   getStringThickness,
+  isWoundString,
 } from '../lib/fretboard-physics';
+import { RIGHT_HANDED_ORIENTATION, orientRectX, orientStringIndex, orientX } from '../lib/orientation';
+import type { FretboardOrientation } from '../lib/orientation';
 
 interface CompactHorizontalFretboardProps {
-  voicing: TriadVoicing;
+  voicing: Pick<TriadVoicing, 'strings' | 'frets' | 'notes' | 'noteNames'>;
   triadPcs: [number, number, number];
   fretRange: { start: number; end: number };
   neighbors?: NeighborNote[];
+  stringCount?: number; // Strings on the instrument (default 6)
+  fretboardOrientation?: FretboardOrientation; // Handedness and string order (default right-handed)
 }
 
 const STRING_SPACING = 11;
@@ -28,8 +33,8 @@ const POSITION_MARKER_FRETS = [3, 5, 7, 9, 15, 17];
 const BRASS_COLOR = '#cd7f32';
 const SILVER_COLOR = '#c0c0c0';
 
-function stringColor(globalStringIdx: number): string {
-  return globalStringIdx <= 3 ? BRASS_COLOR : SILVER_COLOR;
+function stringColor(globalStringIdx: number, stringCount: number): string {
+  return isWoundString(globalStringIdx, stringCount) ? BRASS_COLOR : SILVER_COLOR;
 }
 
 export default function CompactHorizontalFretboard({
@@ -37,6 +42,8 @@ export default function CompactHorizontalFretboard({
   triadPcs,
   fretRange,
   neighbors = [],
+  stringCount = 6,
+  fretboardOrientation = RIGHT_HANDED_ORIENTATION,
 }: CompactHorizontalFretboardProps) {
   const startFret = fretRange.start;
   const endFret = fretRange.end;
@@ -50,31 +57,35 @@ export default function CompactHorizontalFretboard({
   const fretboardPx = Math.max(80, physDistanceMm * PIXELS_PER_MM);
 
   const width = padLeft + fretboardPx + padRight;
-  // 6 strings → 5 gaps
-  const height = PAD_TOP + 5 * STRING_SPACING + PAD_BOTTOM;
+  const topString = stringCount - 1;
+  // N strings → N - 1 gaps
+  const height = PAD_TOP + topString * STRING_SPACING + PAD_BOTTOM;
 
   const fretRelativePositions = calculateFretYPositions(
     startFret,
     numCells,
     fretboardPx,
   );
-  const fretX = (i: number) => padLeft + fretRelativePositions[i];
+  // Positions are laid out right-handed, then mirrored when the orientation asks for it
+  const orientedX = (x: number) => orientX(x, width, fretboardOrientation);
+  const fretX = (i: number) => orientedX(padLeft + fretRelativePositions[i]);
 
   const notePositionX = (fret: number) => {
-    if (fret === 0) return padLeft - 7;
-    return padLeft + getNoteYPosition(fret, fretRelativePositions, startFret);
+    if (fret === 0) return orientedX(padLeft - 7);
+    return orientedX(padLeft + getNoteYPosition(fret, fretRelativePositions, startFret));
   };
 
-  // stringYs[globalStringIdx]: high-pitch string (idx 5) on top, low-pitch (idx 0) at bottom
+  // stringYs[globalStringIdx]: high-pitch string (top index) on top, low-pitch (idx 0) at bottom
+  // unless the orientation flips the string order
   const stringY = (globalStringIdx: number) =>
-    PAD_TOP + (5 - globalStringIdx) * STRING_SPACING;
+    PAD_TOP + (topString - orientStringIndex(globalStringIdx, stringCount, fretboardOrientation)) * STRING_SPACING;
 
   const woodLeft = includesOpen ? padLeft : padLeft - 2;
   const woodWidth = width - woodLeft - padRight;
-  const woodTop = stringY(5) - 5;
-  const woodBottom = stringY(0) + 5;
+  const woodTop = PAD_TOP - 5;
+  const woodBottom = PAD_TOP + topString * STRING_SPACING + 5;
   const woodHeight = woodBottom - woodTop;
-  const middleY = (stringY(0) + stringY(5)) / 2;
+  const middleY = (stringY(0) + stringY(topString)) / 2;
 
   return (
     <svg
@@ -83,7 +94,7 @@ export default function CompactHorizontalFretboard({
       className="w-full h-auto rounded-sm"
     >
       <rect
-        x={woodLeft}
+        x={orientRectX(woodLeft, woodWidth, width, fretboardOrientation)}
         y={woodTop}
         width={woodWidth}
         height={woodHeight}
@@ -93,8 +104,7 @@ export default function CompactHorizontalFretboard({
 
       {POSITION_MARKER_FRETS.map(fret => {
         if (fret <= startFret || fret > endFret) return null;
-        const cx =
-          padLeft + getNoteYPosition(fret, fretRelativePositions, startFret);
+        const cx = notePositionX(fret);
         return (
           <circle
             key={fret}
@@ -112,8 +122,8 @@ export default function CompactHorizontalFretboard({
       {12 > startFret && 12 <= endFret && (
         <g>
           <circle
-            cx={padLeft + getNoteYPosition(12, fretRelativePositions, startFret)}
-            cy={(stringY(5) + stringY(3)) / 2}
+            cx={notePositionX(12)}
+            cy={(stringY(topString) + stringY(topString - 2)) / 2}
             r={3}
             fill="#f5f5dc"
             opacity={0.9}
@@ -121,7 +131,7 @@ export default function CompactHorizontalFretboard({
             strokeWidth={0.5}
           />
           <circle
-            cx={padLeft + getNoteYPosition(12, fretRelativePositions, startFret)}
+            cx={notePositionX(12)}
             cy={(stringY(2) + stringY(0)) / 2}
             r={3}
             fill="#f5f5dc"
@@ -148,16 +158,16 @@ export default function CompactHorizontalFretboard({
         );
       })}
 
-      {[0, 1, 2, 3, 4, 5].map(globalStringIdx => {
+      {Array.from({ length: stringCount }, (_, globalStringIdx) => {
         const y = stringY(globalStringIdx);
-        const thickness = getStringThickness(globalStringIdx, 0.6);
-        const color = stringColor(globalStringIdx);
+        const thickness = getStringThickness(globalStringIdx, 0.6, stringCount);
+        const color = stringColor(globalStringIdx, stringCount);
         return (
           <line
             key={globalStringIdx}
-            x1={includesOpen ? padLeft - 8 : padLeft}
+            x1={orientedX(includesOpen ? padLeft - 8 : padLeft)}
             y1={y}
-            x2={width - padRight}
+            x2={orientedX(width - padRight)}
             y2={y}
             stroke={color}
             strokeWidth={thickness}
@@ -232,8 +242,7 @@ export default function CompactHorizontalFretboard({
 
       {Array.from({ length: numCells }).map((_, i) => {
         const fret = startFret + 1 + i;
-        const cx =
-          padLeft + getNoteYPosition(fret, fretRelativePositions, startFret);
+        const cx = notePositionX(fret);
         return (
           <text
             key={fret}
@@ -0,0 +1,85 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { RefObject } from 'react';
+import {
+  DEFAULT_PNG_DPI,
+  PNG_DPI_OPTIONS,
+  SVG_MIME_TYPE,
+  exportSvgDiagramPng,
+  serializeSvgDiagram,
+} from '../lib/diagram-export';
+
+interface DiagramExportButtonsProps {
+  svgRef: RefObject<SVGSVGElement | null>;
+  fileName: string; // Without extension
+  className?: string;
+}
+
+function saveBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * SVG / PNG download buttons for a fretboard diagram, as it is currently shown
+ */
+export default function DiagramExportButtons({ svgRef, fileName, className = '' }: DiagramExportButtonsProps) {
+  const [dpi, setDpi] = useState<number>(DEFAULT_PNG_DPI);
+  const [pngStatus, setPngStatus] = useState<'idle' | 'working' | 'failed'>('idle');
+
+  const handleSvgDownload = () => {
+    if (svgRef.current) {
+      saveBlob(new Blob([serializeSvgDiagram(svgRef.current)], { type: SVG_MIME_TYPE }), `${fileName}.svg`);
+    }
+  };
+
+  const handlePngDownload = async () => {
+    if (!svgRef.current) {
+      return;
+    }
+    setPngStatus('working');
+    try {
+      saveBlob(await exportSvgDiagramPng(svgRef.current, dpi), `${fileName}.png`);
+      setPngStatus('idle');
+    } catch {
+      setPngStatus('failed');
+    }
+  };
+
+  const buttonClass = 'px-2 py-1 text-[11px] font-semibold rounded border bg-slate-800 text-slate-300 border-slate-700 hover:bg-slate-700 transition-colors';
+
+  return (
+    <div className={`inline-flex items-center gap-1.5 ${className}`}>
+      <span className="text-[10px] font-semibold uppercase tracking-wide text-slate-500">Image</span>
+      <button type="button" onClick={handleSvgDownload} className={buttonClass} title="Download as a standalone SVG">
+        SVG
+      </button>
+      <button
+        type="button"
+        onClick={handlePngDownload}
+        disabled={pngStatus === 'working'}
+        className={buttonClass}
+        title={`Download as a PNG at ${dpi} DPI`}
+      >
+        {pngStatus === 'failed' ? 'PNG failed' : 'PNG'}
+      </button>
+      <select
+        aria-label="PNG resolution"
+        value={dpi}
+        onChange={(e) => setDpi(Number(e.target.value))}
+        className="rounded border border-slate-700 bg-slate-800 px-1 py-1 text-[11px] font-semibold text-slate-300"
+      >
+        {PNG_DPI_OPTIONS.map((option) => (
+          <option key={option} value={option}>
+            {option} DPI
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import CircleOfFifthsSelector from './CircleOfFifthsSelector';
+import CompactHorizontalFretboard from './CompactHorizontalFretboard';
+import { isFretPlayableWithCapo } from '../lib/capo';
+import { CHORD_FORMULAS, buildChord } from '../lib/chord-types';
+import type { ChordType } from '../lib/chord-types';
+import { nameToPc } from '../lib';
+import {
+  DROP_VOICING_LABELS,
+  findVoiceLedNeighbor,
+  generateDropVoicingsData,
+  getVoiceMotion,
+} from '../lib/drop-voicings';
+import type { DropVoicing, DropVoicingType } from '../lib/drop-voicings';
+import { listChordFormulaIds } from '../lib/theory-catalog';
+import type { NoteName } from '../lib/types';
+import { playChord, resumeAudioContext } from '../lib/sound';
+import { STANDARD_TUNING, getFretCount } from '../lib/tunings';
+import type { Tuning } from '../lib/tunings';
+import { RIGHT_HANDED_ORIENTATION } from '../lib/orientation';
+import type { FretboardOrientation } from '../lib/orientation';
+
+interface DropVoicingsProps {
+  selectedKey: string;
+  onSelectedKeyChange: (key: string) => void;
+  tuning?: Tuning;
+  capoFret?: number;
+  fretboardOrientation?: FretboardOrientation;
+}
+
+const DROP_TYPES: DropVoicingType[] = ['drop2', 'drop3'];
+
+// Frets shown around each voicing, so shapes compare at the same scale
+const WINDOW_FRETS = 5;
+
+function getVoicingId(voicing: DropVoicing): string {
+  return `${voicing.strings.join(',')}:${voicing.frets.join(',')}`;
+}
+
+function formatMotion(motion: number[]): string {
+  return motion.map((semitones) => (semitones > 0 ? `+${semitones}` : `${semitones}`)).join(' ');
+}
+
+/**
+ * Drop-2 / drop-3 voicings of any chord type on every string set, with the
+ * voice-led neighbours of the selected voicing marked
+ */
+export default function DropVoicings({
+  selectedKey,
+  onSelectedKeyChange,
+  tuning = STANDARD_TUNING,
+  capoFret = 0,
+  fretboardOrientation = RIGHT_HANDED_ORIENTATION,
+}: DropVoicingsProps) {
+  const [dropType, setDropType] = useState<DropVoicingType>('drop2');
+  const [chordType, setChordType] = useState<ChordType>('maj7');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const stringCount = tuning.openStringMidi.length;
+  const maxFret = getFretCount(tuning);
+
+  const data = useMemo(() => {
+    const generated = generateDropVoicingsData(selectedKey as NoteName, chordType, dropType, tuning);
+    // Shapes reaching behind the capo can't be fingered
+    return {
+      ...generated,
+      stringSets: generated.stringSets.map((set) => ({
+        ...set,
+        voicings: set.voicings.filter((voicing) => voicing.frets.every((fret) => isFretPlayableWithCapo(fret, capoFret))),
+      })),
+    };
+  }, [selectedKey, chordType, dropType, tuning, capoFret]);
+
+  const rootPc = nameToPc(selectedKey as NoteName);
+  const chordPcs = buildChord(selectedKey as NoteName, chordType);
+  const triadPcs: [number, number, number] = [chordPcs[0], chordPcs[1], chordPcs[2]];
+
+  const allVoicings = data.stringSets.flatMap((set) => set.voicings);
+  const selected = allVoicings.find((voicing) => getVoicingId(voicing) === selectedId) ?? null;
+  const neighborsOfSelected = selected
+    ? {
+        below: findVoiceLedNeighbor(selected, allVoicings, -1),
+        above: findVoiceLedNeighbor(selected, allVoicings, 1),
+      }
+    : null;
+
+  // Chord-tone degrees on the circle of fifths
+  const getDegreeLabel = (noteName: string): string | null => {
+    const interval = (nameToPc(noteName as NoteName) - rootPc + 12) % 12;
+    return data.voiceTones.find((tone) => tone.interval === interval)?.degree ?? null;
+  };
+
+  const handleSelect = async (voicing: DropVoicing) => {
+    setSelectedId(getVoicingId(voicing));
+    await resumeAudioContext();
+    playChord(
+      voicing.strings.map((stringIndex, i) => ({ stringIndex, fret: voicing.frets[i] })),
+      2.0,
+      tuning
+    );
+  };
+
+  const getFretRange = (voicing: DropVoicing) => {
+    const low = Math.min(...voicing.frets);
+    const start = low <= 1 ? 0 : low - 1;
+    return { start, end: Math.min(maxFret, Math.max(start + WINDOW_FRETS, ...voicing.frets)) };
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-center gap-3">
+        <div className="inline-flex rounded-lg border border-slate-700 bg-slate-800 p-1">
+          {DROP_TYPES.map((type) => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => setDropType(type)}
+              className={`px-3 sm:px-4 py-2.5 min-h-[40px] text-sm font-medium rounded-md transition-colors ${
+                dropType === type
+                  ? 'bg-primary-600 text-white'
+                  : 'text-slate-400 hover:text-slate-100'
+              }`}
+            >
+              {DROP_VOICING_LABELS[type]}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2">
+          <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">Chord</span>
+          <select
+            value={chordType}
+            onChange={(e) => setChordType(e.target.value as ChordType)}
+            className="min-h-[40px] rounded-lg border border-slate-700 bg-slate-800 px-3 text-sm font-semibold text-slate-200"
+          >
+            {listChordFormulaIds().map((type) => (
+              <option key={type} value={type}>
+                {CHORD_FORMULAS[type].name}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="w-full max-w-[970px] mx-auto overflow-x-auto">
+        <CircleOfFifthsSelector selectedKey={selectedKey} onSelectKey={onSelectedKeyChange} getAuxLabel={getDegreeLabel} />
+      </div>
+
+      <p className="text-center text-sm text-slate-300">
+        <span className="font-semibold text-white">{data.chordName}</span>
+        {' · '}
+        {DROP_VOICING_LABELS[dropType]} voices {data.voiceTones.map((tone) => tone.degree).join(' ')}
+        {' · '}
+        Click a voicing to hear it and mark its voice-led neighbours
+      </p>
+
+      <div className="w-full max-w-6xl mx-auto px-4 pb-6 space-y-6">
+        {[...data.stringSets].reverse().map((set) => {
+          // Conventional string numbers (e.g. strings [0, 2, 3, 4] → "6-4-3-2")
+          const stringNumbers = set.strings.map((stringIdx) => stringCount - stringIdx).join('-');
+          return (
+            <section key={set.strings.join(',')}>
+              <h3 className="mb-2 text-sm font-semibold text-slate-200">
+                Strings {stringNumbers} ({set.stringNames.join('-')})
+              </h3>
+              {set.voicings.length === 0 ? (
+                <p className="text-xs text-slate-400">No playable voicings on these strings.</p>
+              ) : (
+                <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+                  {set.voicings.map((voicing) => {
+                    const id = getVoicingId(voicing);
+                    const isSelected = id === selectedId;
+                    const neighborLabel = neighborsOfSelected?.below && getVoicingId(neighborsOfSelected.below) === id
+                      ? 'Below'
+                      : neighborsOfSelected?.above && getVoicingId(neighborsOfSelected.above) === id
+                        ? 'Above'
+                        : null;
+                    return (
+                      <button
+                        key={id}
+                        type="button"
+                        onClick={() => handleSelect(voicing)}
+                        className={`flex flex-col items-center rounded-lg border p-2 transition-colors ${
+                          isSelected
+                            ? 'border-blue-500 bg-slate-800'
+                            : neighborLabel
+                              ? 'border-amber-500 bg-slate-800/60'
+                              : 'border-slate-700 hover:border-slate-500'
+                        }`}
+                      >
+                        <span className="mb-1 text-xs text-slate-300">
+                          <span className="font-semibold text-slate-100">{voicing.degrees[0]} in bass</span>
+                          {' · '}
+                          {voicing.degrees.join('-')}
+                        </span>
+                        <CompactHorizontalFretboard
+                          voicing={voicing}
+                          triadPcs={triadPcs}
+                          fretRange={getFretRange(voicing)}
+                          stringCount={stringCount}
+                          fretboardOrientation={fretboardOrientation}
+                        />
+                        {neighborLabel && selected && (
+                          <span className="mt-1 text-[11px] font-semibold text-amber-400">
+                            {neighborLabel}: {formatMotion(getVoiceMotion(selected, voicing))}
+                          </span>
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
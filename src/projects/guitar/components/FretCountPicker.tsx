@@ -0,0 +1,35 @@
+'use client';
+
+import React from 'react';
+import { FRET_COUNT_OPTIONS } from '../lib/tunings';
+
+interface FretCountPickerProps {
+  fretCount: number | null; // null = each view's default fret range
+  onFretCountChange: (fretCount: number | null) => void;
+}
+
+/**
+ * Instrument fret count dropdown (default, or one of FRET_COUNT_OPTIONS)
+ */
+export default function FretCountPicker({ fretCount, onFretCountChange }: FretCountPickerProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <label htmlFor="guitar-fret-count" className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+        Frets
+      </label>
+      <select
+        id="guitar-fret-count"
+        value={fretCount ?? ''}
+        onChange={(e) => onFretCountChange(e.target.value ? Number(e.target.value) : null)}
+        className="min-h-[44px] rounded-lg border border-slate-700 bg-slate-800 px-3 text-sm font-semibold text-slate-200"
+      >
+        <option value="">Default</option>
+        {FRET_COUNT_OPTIONS.map((count) => (
+          <option key={count} value={count}>
+            {count} frets
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
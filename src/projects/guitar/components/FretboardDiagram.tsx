@@ -1,14 +1,23 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import type { TriadVoicing } from '../lib/triads';
 import { calculateFretYPositions, getNoteYPosition, getStringThickness } from '../lib/fretboard-physics';
 import { getNoteColor } from '../lib/note-colors';
+import CapoBar from './CapoBar';
+import DiagramExportButtons from './DiagramExportButtons';
+import { getTabFileName } from '../lib/tab';
+import { assignVoicingFingering } from '../lib/fingering';
+import { RIGHT_HANDED_ORIENTATION, isVerticalStringOrderReversed, orientX } from '../lib/orientation';
+import type { FretboardOrientation } from '../lib/orientation';
 
 interface FretboardDiagramProps {
   voicing: TriadVoicing;
   stringNames: string[]; // e.g., ["G", "B", "E"] for strings 3-2-1
   triadPcs: [number, number, number]; // [root, third, fifth] pitch classes
+  capoFret?: number; // Capo fret acting as the new nut (0 = no capo)
+  fretboardOrientation?: FretboardOrientation; // Handedness and string order (default right-handed)
+  showFingering?: boolean; // Finger numbers in the dots, with a bar for any barre
 }
 
 /**
@@ -25,10 +34,18 @@ function getIntervalName(notePc: number, triadPcs: [number, number, number]): 'r
 /**
  * SVG-based vertical fretboard diagram showing a triad voicing
  */
-export default function FretboardDiagram({ voicing, stringNames, triadPcs }: FretboardDiagramProps) {
+export default function FretboardDiagram({
+  voicing,
+  stringNames,
+  triadPcs,
+  capoFret = 0,
+  fretboardOrientation = RIGHT_HANDED_ORIENTATION,
+  showFingering = false,
+}: FretboardDiagramProps) {
   const [hoveredFret, setHoveredFret] = useState<number | null>(null);
   const [pinnedFret, setPinnedFret] = useState<number | null>(null);
   const activeFret = pinnedFret ?? hoveredFret;
+  const svgRef = useRef<SVGSVGElement>(null);
 
   const { frets, notes, noteNames, inversion } = voicing;
 
@@ -44,18 +61,30 @@ export default function FretboardDiagram({ voicing, stringNames, triadPcs }: Fre
   // Calculate physics-based fret positions
   const fretYPositions = calculateFretYPositions(minFret, displayFretCount, height);
 
-  // Calculate positions
-  const stringXPositions = [
-    stringSpacing,
-    stringSpacing * 2,
-    stringSpacing * 3,
-  ];
+  // Calculate positions (lowest string on the left unless the orientation reverses the columns)
+  const reverseStrings = isVerticalStringOrderReversed(fretboardOrientation);
+  const stringXPositions = reverseStrings
+    ? [stringSpacing * 3, stringSpacing * 2, stringSpacing]
+    : [stringSpacing, stringSpacing * 2, stringSpacing * 3];
+  const stringsLeftX = stringSpacing;
+  const stringsRightX = stringSpacing * 3;
+  const headerStringNames = reverseStrings ? [...stringNames].reverse() : stringNames;
+
+  // The capo is drawn when it falls inside the displayed frets
+  const showCapo = capoFret > 0 && capoFret >= minFret && capoFret <= minFret + displayFretCount;
+  const capoY = showCapo ? getNoteYPosition(capoFret, fretYPositions, minFret) : 0;
+
+  const fingering = showFingering ? assignVoicingFingering(voicing) : null;
+  const barre = fingering?.barre ?? null;
+  const barreXs = barre
+    ? [voicing.strings.indexOf(barre.fromString), voicing.strings.indexOf(barre.toString)].map((idx) => stringXPositions[idx])
+    : [];
 
   return (
     <div className="flex flex-col items-center gap-2 p-3 bg-gray-800 rounded-lg border border-gray-700">
       {/* String names header - proportional so labels track the string lines at any width */}
       <div className="flex w-full max-w-[200px] justify-between px-[12.5%] text-xs text-gray-400">
-        {stringNames.map((name, idx) => (
+        {headerStringNames.map((name, idx) => (
           <span key={idx} className="text-center">
             {name}
           </span>
@@ -64,6 +93,7 @@ export default function FretboardDiagram({ voicing, stringNames, triadPcs }: Fre
 
       {/* SVG Fretboard - scales to container width via viewBox */}
       <svg
+        ref={svgRef}
         className="bg-gray-900 rounded w-full h-auto max-w-[200px] mx-auto"
         viewBox={`0 0 ${width} ${height}`}
       >
@@ -75,9 +105,9 @@ export default function FretboardDiagram({ voicing, stringNames, triadPcs }: Fre
           return (
             <g key={`fret-${idx}`}>
               <line
-                x1={stringXPositions[0] - 20}
+                x1={stringsLeftX - 20}
                 y1={y}
-                x2={stringXPositions[2] + 20}
+                x2={stringsRightX + 20}
                 y2={y}
                 stroke={idx === 0 ? '#9ca3af' : '#4b5563'}
                 strokeWidth={idx === 0 ? 3 : 1}
@@ -85,7 +115,7 @@ export default function FretboardDiagram({ voicing, stringNames, triadPcs }: Fre
               {/* Fret numbers */}
               {idx < displayFretCount && (
                 <text
-                  x={stringXPositions[0] - 35}
+                  x={orientX(stringsLeftX - 35, width, fretboardOrientation)}
                   y={(y + fretYPositions[idx + 1]) / 2}
                   fill="#6b7280"
                   fontSize="12"
@@ -117,6 +147,28 @@ export default function FretboardDiagram({ voicing, stringNames, triadPcs }: Fre
           );
         })}
 
+        {showCapo && (
+          <CapoBar
+            x1={stringsLeftX - 20}
+            y1={capoY}
+            x2={stringsRightX + 20}
+            y2={capoY}
+            thickness={14}
+          />
+        )}
+
+        {/* Barre bar behind the dots it joins */}
+        {barre && (
+          <rect
+            x={Math.min(...barreXs) - 15}
+            y={getNoteYPosition(barre.fret, fretYPositions, minFret) - 15}
+            width={Math.abs(barreXs[1] - barreXs[0]) + 30}
+            height={30}
+            rx={15}
+            fill="#4b5563"
+          />
+        )}
+
         {/* Finger dots */}
         {frets.map((fret, stringIdx) => {
           const x = stringXPositions[stringIdx];
@@ -127,6 +179,7 @@ export default function FretboardDiagram({ voicing, stringNames, triadPcs }: Fre
           const intervalName = getIntervalName(notePc, triadPcs);
           const noteName = noteNames[stringIdx];
           const noteColor = getNoteColor(noteName);
+          const finger = fingering?.fingers[stringIdx];
 
           const isHovered = activeFret === stringIdx;
 
@@ -150,7 +203,7 @@ export default function FretboardDiagram({ voicing, stringNames, triadPcs }: Fre
                 strokeWidth={isHovered ? 3 : 2}
                 className="transition-all"
               />
-              {/* Note name text */}
+              {/* Note name (or finger number) text */}
               <text
                 x={x}
                 y={y}
@@ -161,7 +214,7 @@ export default function FretboardDiagram({ voicing, stringNames, triadPcs }: Fre
                 dominantBaseline="middle"
                 pointerEvents="none"
               >
-                {noteName}
+                {finger !== undefined ? finger : noteName}
               </text>
             </g>
           );
@@ -198,6 +251,12 @@ export default function FretboardDiagram({ voicing, stringNames, triadPcs }: Fre
           );
         })}
       </div>
+
+      <DiagramExportButtons
+        svgRef={svgRef}
+        fileName={getTabFileName(`triad ${noteNames.join(' ')} ${inversion}`)}
+        className="mt-1"
+      />
     </div>
   );
 }
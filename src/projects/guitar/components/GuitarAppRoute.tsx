@@ -8,7 +8,7 @@ import type { GuitarWorkbenchSection, GuitarWorkbenchLocation } from './GuitarWo
 import type { TriadsViewMode } from './MajorTriads';
 import type { BoxScaleFamily } from '../lib/box-shapes';
 
-// The workbench uses browser-only APIs (audio, wake lock), so load it client-side.
+// The workbench uses browser-only APIs (audio, microphone, wake lock), so load it client-side.
 const GuitarWorkbench = dynamic(() => import('./GuitarWorkbench'), { ssr: false });
 
 interface GuitarAppRouteProps {
@@ -21,18 +21,44 @@ const BASE_PATH = '/projects/guitar';
 
 /**
  * Map a workbench location to its canonical URL.
- *   triads -> /projects/guitar/triads/bykey | .../byvoicing
- *   boxes  -> /projects/guitar/boxes/pentatonic | .../major
+ *   triads -> /projects/guitar/triads/bykey | .../byvoicing | .../all | .../drop
+ *   chords -> /projects/guitar/chords
+ *   caged  -> /projects/guitar/caged
+ *   arpeggios -> /projects/guitar/arpeggios
+ *   boxes  -> /projects/guitar/boxes/pentatonic | .../major | .../3nps | .../scales
+ *   notes  -> /projects/guitar/notes
+ *   tuner  -> /projects/guitar/tuner
+ *   worksheets -> /projects/guitar/worksheets
  */
 export function hrefForLocation(loc: GuitarWorkbenchLocation): string {
+  if (loc.section === 'chords') {
+    return `${BASE_PATH}/chords`;
+  }
+  if (loc.section === 'caged') {
+    return `${BASE_PATH}/caged`;
+  }
+  if (loc.section === 'arpeggios') {
+    return `${BASE_PATH}/arpeggios`;
+  }
   if (loc.section === 'notes') {
     return `${BASE_PATH}/notes`;
   }
+  if (loc.section === 'tuner') {
+    return `${BASE_PATH}/tuner`;
+  }
+  if (loc.section === 'worksheets') {
+    return `${BASE_PATH}/worksheets`;
+  }
   if (loc.section === 'triads') {
-    const slug = loc.triadsView === 'by-key' ? 'bykey' : loc.triadsView === 'all' ? 'all' : 'byvoicing';
+    const slug = loc.triadsView === 'by-key'
+      ? 'bykey'
+      : loc.triadsView === 'all' || loc.triadsView === 'drop'
+        ? loc.triadsView
+        : 'byvoicing';
     return `${BASE_PATH}/triads/${slug}`;
   }
-  return `${BASE_PATH}/boxes/${loc.boxFamily === 'major' ? 'major' : 'pentatonic'}`;
+  // Blues boxes have no page of their own and open the pentatonic view
+  return `${BASE_PATH}/boxes/${loc.boxFamily === 'blues' ? 'pentatonic' : loc.boxFamily}`;
 }
 
 /**
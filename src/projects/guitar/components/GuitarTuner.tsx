@@ -0,0 +1,158 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { getTunerReading } from '../lib/pitch-detection';
+import type { TunerReading } from '../lib/pitch-detection';
+import { startPitchInput } from '../lib/mic-input';
+import { STANDARD_TUNING, formatTuningSpec } from '../lib/tunings';
+import type { Tuning } from '../lib/tunings';
+
+interface GuitarTunerProps {
+  tuning?: Tuning; // Open strings to tune to (default standard tuning)
+}
+
+type TunerStatus = 'idle' | 'listening' | 'error';
+
+const IN_TUNE_CENTS = 5;
+
+function formatCents(cents: number): string {
+  const rounded = Math.round(cents);
+  return `${rounded > 0 ? '+' : ''}${rounded} cents`;
+}
+
+/**
+ * Microphone tuner: shows the detected note, how far off it is in cents, and
+ * which open string of the current tuning it is closest to
+ */
+export default function GuitarTuner({ tuning = STANDARD_TUNING }: GuitarTunerProps) {
+  const [status, setStatus] = useState<TunerStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [reading, setReading] = useState<TunerReading | null>(null);
+  const stopInputRef = useRef<(() => void) | null>(null);
+  // Bumped on every stop, so a mic that opens after a stop or unmount is closed again
+  const inputSessionRef = useRef(0);
+  const tuningRef = useRef(tuning);
+
+  const openStringNames = formatTuningSpec(tuning).split(' ');
+
+  const stopListening = useCallback(() => {
+    inputSessionRef.current += 1;
+    stopInputRef.current?.();
+    stopInputRef.current = null;
+  }, []);
+
+  // The analysis loop reads the tuning through a ref so switching tunings does not restart the mic
+  useEffect(() => {
+    tuningRef.current = tuning;
+  }, [tuning]);
+
+  useEffect(() => stopListening, [stopListening]);
+
+  const handleStop = () => {
+    stopListening();
+    setStatus('idle');
+  };
+
+  const handleStart = async () => {
+    if (status === 'listening') {
+      return;
+    }
+
+    stopListening();
+    setError(null);
+    setReading(null);
+    setStatus('listening');
+    const session = inputSessionRef.current;
+
+    try {
+      const stopInput = await startPitchInput((estimate) => {
+        // Keep showing the last note while the string rings out into silence
+        if (estimate) {
+          setReading(getTunerReading(estimate.frequency, tuningRef.current));
+        }
+      });
+      if (session !== inputSessionRef.current) {
+        stopInput();
+        return;
+      }
+      stopInputRef.current = stopInput;
+    } catch (err) {
+      if (session !== inputSessionRef.current) {
+        return;
+      }
+      setStatus('error');
+      setError(err instanceof Error ? err.message : 'Could not open the microphone.');
+    }
+  };
+
+  const inTune = reading !== null && Math.abs(reading.cents) <= IN_TUNE_CENTS;
+  // Needle position across the meter: -50 cents at the left edge, +50 at the right
+  const needlePercent = reading ? 50 + Math.max(-50, Math.min(50, reading.cents)) : 50;
+
+  return (
+    <div className="w-full min-h-screen bg-slate-900 pb-10">
+      <div className="mx-auto w-full max-w-[640px] px-4 pt-6 flex flex-col items-center gap-5">
+        <h2 className="text-center text-2xl font-bold text-white">Tuner</h2>
+
+        <button
+          onClick={status === 'listening' ? handleStop : () => void handleStart()}
+          className={`px-4 py-2.5 min-h-[44px] rounded-lg text-sm font-semibold transition-colors border ${
+            status === 'listening'
+              ? 'bg-red-600 text-white border-red-500 hover:bg-red-500'
+              : 'bg-blue-600 text-white border-blue-500 hover:bg-blue-500'
+          }`}
+        >
+          {status === 'listening' ? 'Stop listening' : 'Start tuner (uses microphone)'}
+        </button>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <div className="flex items-baseline gap-1" data-tuner-note>
+          <span className={`text-7xl font-bold ${inTune ? 'text-emerald-400' : 'text-white'}`}>
+            {reading ? reading.noteName : '–'}
+          </span>
+          {reading && <span className="text-2xl font-semibold text-slate-400">{reading.octave}</span>}
+        </div>
+
+        <div className="w-full">
+          <div className="relative h-3 w-full rounded-full bg-slate-800">
+            <div className="absolute left-1/2 top-[-4px] h-5 w-px bg-slate-500" />
+            <div
+              className={`absolute top-[-6px] h-6 w-1.5 -translate-x-1/2 rounded-full transition-[left] duration-100 ${
+                inTune ? 'bg-emerald-400' : 'bg-amber-400'
+              }`}
+              style={{ left: `${needlePercent}%` }}
+            />
+          </div>
+          <div className="mt-2 flex justify-between text-xs text-slate-500">
+            <span>-50</span>
+            <span>{reading ? (inTune ? 'In tune' : formatCents(reading.cents)) : 'Play a single string'}</span>
+            <span>+50</span>
+          </div>
+        </div>
+
+        {reading && (
+          <p className="text-sm text-slate-300">
+            {reading.frequency.toFixed(1)} Hz · closest string {openStringNames[reading.stringIndex]}{' '}
+            ({formatCents(reading.stringCents)})
+          </p>
+        )}
+
+        <div className="flex flex-wrap justify-center gap-2">
+          {openStringNames.map((name, stringIndex) => (
+            <span
+              key={`${name}-${stringIndex}`}
+              className={`min-w-[52px] rounded-lg border px-3 py-2 text-center text-sm font-semibold ${
+                reading?.stringIndex === stringIndex
+                  ? 'bg-blue-600 text-white border-blue-500'
+                  : 'bg-slate-800 text-slate-300 border-slate-700'
+              }`}
+            >
+              {name}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
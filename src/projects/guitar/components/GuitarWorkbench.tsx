@@ -1,14 +1,36 @@
 'use client';
 
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import MajorTriads from './MajorTriads';
 import type { TriadsViewMode } from './MajorTriads';
 import BoxShapes from './BoxShapes';
 import NotesExplorer from './NotesExplorer';
+import GuitarTuner from './GuitarTuner';
+import Worksheets from './Worksheets';
+import ChordFinder from './ChordFinder';
+import CagedSystem from './CagedSystem';
+import Arpeggios from './Arpeggios';
+import TuningPicker from './TuningPicker';
+import CapoPicker from './CapoPicker';
+import FretCountPicker from './FretCountPicker';
+import OrientationPicker from './OrientationPicker';
+import SoundOutputPicker from './SoundOutputPicker';
 import { normalizeMajorKeyName } from '../lib/box-shapes';
 import type { BoxScaleFamily } from '../lib/box-shapes';
+import { STANDARD_TUNING, withFretCount } from '../lib/tunings';
+import type { Tuning } from '../lib/tunings';
+import { RIGHT_HANDED_ORIENTATION } from '../lib/orientation';
+import type { FretboardOrientation } from '../lib/orientation';
 
-export type GuitarWorkbenchSection = 'triads' | 'boxes' | 'notes';
+export type GuitarWorkbenchSection =
+  | 'triads'
+  | 'chords'
+  | 'caged'
+  | 'arpeggios'
+  | 'boxes'
+  | 'notes'
+  | 'tuner'
+  | 'worksheets';
 
 export interface GuitarWorkbenchLocation {
   section: GuitarWorkbenchSection;
@@ -35,8 +57,15 @@ export default function GuitarWorkbench({
   const [triadsView, setTriadsView] = useState<TriadsViewMode>(triadsViewProp ?? 'by-voicing');
   const [boxFamily, setBoxFamily] = useState<BoxScaleFamily>(boxFamilyProp ?? 'pentatonic');
   const [selectedMajorKey, setSelectedMajorKey] = useState<string>('E');
+  const [tuning, setTuning] = useState<Tuning>(STANDARD_TUNING);
+  const [fretCount, setFretCount] = useState<number | null>(null);
+  const [capoFret, setCapoFret] = useState(0);
+  const [fretboardOrientation, setFretboardOrientation] = useState<FretboardOrientation>(RIGHT_HANDED_ORIENTATION);
   const wakeLockRef = useRef<WakeLockSentinel | null>(null);
 
+  // The picker keeps the bare tuning; the views get it with the chosen fret count.
+  const instrumentTuning = useMemo(() => withFretCount(tuning, fretCount), [tuning, fretCount]);
+
   // Keep local state in sync when the host drives navigation (e.g. browser back).
   useEffect(() => {
     if (triadsViewProp) setTriadsView(triadsViewProp);
@@ -146,6 +175,36 @@ export default function GuitarWorkbench({
             >
               Triads
             </button>
+            <button
+              onClick={() => navigate({ section: 'chords' })}
+              className={`px-4 py-2.5 min-h-[44px] rounded-lg text-sm font-semibold transition-colors border ${
+                section === 'chords'
+                  ? 'bg-blue-600 text-white border-blue-500'
+                  : 'bg-slate-800 text-slate-200 border-slate-700 hover:bg-slate-700'
+              }`}
+            >
+              Chord Finder
+            </button>
+            <button
+              onClick={() => navigate({ section: 'caged' })}
+              className={`px-4 py-2.5 min-h-[44px] rounded-lg text-sm font-semibold transition-colors border ${
+                section === 'caged'
+                  ? 'bg-blue-600 text-white border-blue-500'
+                  : 'bg-slate-800 text-slate-200 border-slate-700 hover:bg-slate-700'
+              }`}
+            >
+              CAGED
+            </button>
+            <button
+              onClick={() => navigate({ section: 'arpeggios' })}
+              className={`px-4 py-2.5 min-h-[44px] rounded-lg text-sm font-semibold transition-colors border ${
+                section === 'arpeggios'
+                  ? 'bg-blue-600 text-white border-blue-500'
+                  : 'bg-slate-800 text-slate-200 border-slate-700 hover:bg-slate-700'
+              }`}
+            >
+              Arpeggios
+            </button>
             <button
               onClick={() => navigate({ section: 'boxes' })}
               className={`px-4 py-2.5 min-h-[44px] rounded-lg text-sm font-semibold transition-colors border ${
@@ -166,6 +225,31 @@ export default function GuitarWorkbench({
             >
               Notes
             </button>
+            <button
+              onClick={() => navigate({ section: 'tuner' })}
+              className={`px-4 py-2.5 min-h-[44px] rounded-lg text-sm font-semibold transition-colors border ${
+                section === 'tuner'
+                  ? 'bg-blue-600 text-white border-blue-500'
+                  : 'bg-slate-800 text-slate-200 border-slate-700 hover:bg-slate-700'
+              }`}
+            >
+              Tuner
+            </button>
+            <button
+              onClick={() => navigate({ section: 'worksheets' })}
+              className={`px-4 py-2.5 min-h-[44px] rounded-lg text-sm font-semibold transition-colors border ${
+                section === 'worksheets'
+                  ? 'bg-blue-600 text-white border-blue-500'
+                  : 'bg-slate-800 text-slate-200 border-slate-700 hover:bg-slate-700'
+              }`}
+            >
+              Worksheets
+            </button>
+            <TuningPicker tuning={tuning} onTuningChange={setTuning} />
+            <FretCountPicker fretCount={fretCount} onFretCountChange={setFretCount} />
+            <CapoPicker capoFret={capoFret} onCapoFretChange={setCapoFret} />
+            <OrientationPicker orientation={fretboardOrientation} onOrientationChange={setFretboardOrientation} />
+            <SoundOutputPicker />
           </div>
         </div>
       </div>
@@ -177,20 +261,58 @@ export default function GuitarWorkbench({
             onSelectedKeyChange={handleMajorKeyChange}
             viewMode={triadsView}
             onViewModeChange={(next) => navigate({ triadsView: next })}
+            tuning={instrumentTuning}
+            capoFret={capoFret}
+            fretboardOrientation={fretboardOrientation}
           />
         </div>
       )}
 
+      {section === 'chords' && (
+        <ChordFinder tuning={instrumentTuning} capoFret={capoFret} fretboardOrientation={fretboardOrientation} />
+      )}
+
+      {section === 'caged' && (
+        <CagedSystem
+          selectedKey={selectedMajorKey}
+          onSelectedKeyChange={handleMajorKeyChange}
+          tuning={instrumentTuning}
+          capoFret={capoFret}
+          fretboardOrientation={fretboardOrientation}
+        />
+      )}
+
+      {section === 'arpeggios' && (
+        <Arpeggios
+          selectedKey={selectedMajorKey}
+          onSelectedKeyChange={handleMajorKeyChange}
+          tuning={instrumentTuning}
+          capoFret={capoFret}
+        />
+      )}
+
       {section === 'boxes' && (
         <BoxShapes
           selectedMajorKey={selectedMajorKey}
           onSelectedMajorKeyChange={handleMajorKeyChange}
           scaleFamily={boxFamily}
           onScaleFamilyChange={(next) => navigate({ boxFamily: next })}
+          tuning={instrumentTuning}
+          capoFret={capoFret}
         />
       )}
 
-      {section === 'notes' && <NotesExplorer />}
+      {section === 'notes' && <NotesExplorer tuning={instrumentTuning} fretboardOrientation={fretboardOrientation} />}
+
+      {section === 'tuner' && <GuitarTuner tuning={tuning} />}
+
+      {section === 'worksheets' && (
+        <Worksheets
+          selectedMajorKey={selectedMajorKey}
+          onSelectedMajorKeyChange={handleMajorKeyChange}
+          tuning={instrumentTuning}
+        />
+      )}
     </div>
   );
 }
@@ -1,14 +1,22 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import type { TriadVoicing } from '../lib/triads';
 import { computeNeighborNotes } from '../lib/triads';
-import { calculateFretYPositions, getNoteYPosition, getStringThickness, getNoteAtPosition, getOctaveAtPosition } from '../lib/fretboard-physics';
+import { calculateFretYPositions, getNoteYPosition, getStringThickness, getNoteAtPosition, getOctaveAtPosition, isWoundString } from '../lib/fretboard-physics';
 import { getNoteColor, getNoteColorWithOctave, getAllNoteColorsInCircleOfFifths } from '../lib/note-colors';
 import { playNote, playChord, stopAllSounds, resumeAudioContext } from '../lib/sound';
-import { DIMENSIONS, calculateAllStringYPositions } from '../lib/fretboard-dimensions';
+import { DIMENSIONS, calculateAllStringYPositions, getDoubleInlayStringPairs, getFretboardSvgHeight } from '../lib/fretboard-dimensions';
 import { DEFAULT_TRIAD_SETTINGS, getInversionSymbol } from '../lib/triad-settings';
 import type { TriadSettings } from '../lib/triad-settings';
+import { STANDARD_TUNING, getFretCount, getTuningStringNames } from '../lib/tunings';
+import { getTabFileName } from '../lib/tab';
+import DiagramExportButtons from './DiagramExportButtons';
+import { isFretPlayableWithCapo } from '../lib/capo';
+import CapoBar from './CapoBar';
+import type { Tuning } from '../lib/tunings';
+import { RIGHT_HANDED_ORIENTATION, orientOffsetX, orientRectX, orientStringIndex, orientX } from '../lib/orientation';
+import type { FretboardOrientation } from '../lib/orientation';
 
 interface LongFretboardDiagramProps {
   voicings: TriadVoicing[]; // All 4 positions for this string group
@@ -17,6 +25,9 @@ interface LongFretboardDiagramProps {
   triadPcs: [number, number, number]; // [root, third, fifth] pitch classes
   settings?: TriadSettings; // Display settings (optional, uses defaults if not provided)
   selectedKey?: string; // The selected key (for sharp vs flat note names)
+  tuning?: Tuning; // Open-string tuning (default standard tuning)
+  capoFret?: number; // Capo fret acting as the new nut (0 = no capo)
+  fretboardOrientation?: FretboardOrientation; // Handedness and string order (default right-handed)
 }
 
 /**
@@ -50,6 +61,9 @@ export default function LongFretboardDiagram({
   triadPcs,
   settings = DEFAULT_TRIAD_SETTINGS,
   selectedKey,
+  tuning = STANDARD_TUNING,
+  capoFret = 0,
+  fretboardOrientation = RIGHT_HANDED_ORIENTATION,
 }: LongFretboardDiagramProps) {
   const [hoveredDot, setHoveredDot] = useState<{
     voicingIdx: number;
@@ -57,6 +71,7 @@ export default function LongFretboardDiagram({
   } | null>(null);
   const [hoveredNearPosition, setHoveredNearPosition] = useState<number | null>(null);
   const [highlightedPosition, setHighlightedPosition] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
 
   // Get the string group indices (e.g., [3, 4, 5] for strings 3-2-1)
   const stringGroupIndices = voicings.length > 0 ? voicings[0].strings : [3, 4, 5];
@@ -90,11 +105,11 @@ export default function LongFretboardDiagram({
       const globalStringIdx = stringGroupIndices[hoveredDot.stringIdx];
       const fret = voicing.frets[hoveredDot.stringIdx];
 
-      playNote(globalStringIdx, fret, 2.0);
+      playNote(globalStringIdx, fret, 2.0, tuning);
     } else {
       stopAllSounds();
     }
-  }, [hoveredDot, voicings, stringGroupIndices, settings.enableHoverSound]);
+  }, [hoveredDot, voicings, stringGroupIndices, settings.enableHoverSound, tuning]);
 
   // Play chord when clicking on a position area
   const handlePositionClick = (position: number) => {
@@ -109,14 +124,17 @@ export default function LongFretboardDiagram({
         fret,
       }));
 
-      playChord(chordNotes, 2.0);
+      playChord(chordNotes, 2.0, tuning);
     }
   };
 
   // SVG dimensions - rotated 90 degrees (now horizontal)
   const width = DIMENSIONS.svgWidth; // Fretboard width (frets span left-right)
-  const height = DIMENSIONS.svgHeight; // Compact height (strings span top-bottom)
-  const numFrets = DIMENSIONS.numFrets; // Show frets 0-17 (cut off high frets near sound hole)
+  const stringCount = tuning.openStringMidi.length;
+  const topString = stringCount - 1;
+  const height = getFretboardSvgHeight(stringCount); // Compact height (strings span top-bottom)
+  // Show frets 0-17 (cut off high frets near sound hole) unless the instrument sets its own fret count
+  const numFrets = getFretCount(tuning, DIMENSIONS.numFrets);
   const startFret = DIMENSIONS.startFret;
   const openStringOffset = DIMENSIONS.openStringOffset; // Space for open string notes beyond nut
   const viewBoxWidth = DIMENSIONS.viewBoxWidth; // Total width including open string space
@@ -128,12 +146,21 @@ export default function LongFretboardDiagram({
   // Offset all fret positions to make room for open string notes on the left
   const fretXPositions = fretXPositionsRelative.map(x => x + openStringOffset);
 
-  // All 6 guitar strings (6th to 1st)
-  const allStringNames = ['E', 'A', 'D', 'G', 'B', 'E'];
+  // All strings, lowest to highest (6th to 1st on a six-string)
+  const allStringNames = getTuningStringNames(tuning);
 
-  // Calculate string Y positions for all 6 strings (now vertical)
-  // Reversed: string 1 (index 5) at top, string 6 (index 0) at bottom
-  const allStringYPositions = calculateAllStringYPositions();
+  // Calculate string Y positions for all strings (now vertical)
+  // Reversed: string 1 (highest index) at top, lowest string (index 0) at bottom,
+  // unless the orientation flips the string order
+  const baseStringYPositions = calculateAllStringYPositions(stringCount);
+  const allStringYPositions = baseStringYPositions.map(
+    (_, stringIdx) => baseStringYPositions[orientStringIndex(stringIdx, stringCount, fretboardOrientation)]
+  );
+  const stringAxisTop = baseStringYPositions[topString];
+  const stringAxisBottom = baseStringYPositions[0];
+
+  // Positions are laid out nut-left, then mirrored when the orientation asks for it
+  const orientedX = (x: number) => orientX(x, viewBoxWidth, fretboardOrientation);
 
   // Determine which strings are active (part of this group)
   const activeStringIndices = new Set(stringGroupIndices);
@@ -142,10 +169,10 @@ export default function LongFretboardDiagram({
   const getNoteXPosition = (fret: number): number => {
     if (fret === 0) {
       // Open string - place in the "air" space before the nut
-      return openStringOffset / 2;
+      return orientedX(openStringOffset / 2);
     }
     // Regular fretted notes
-    return getNoteYPosition(fret, fretXPositions, startFret);
+    return orientedX(getNoteYPosition(fret, fretXPositions, startFret));
   };
 
   // Group all dots by fret and string to detect overlaps
@@ -165,6 +192,7 @@ export default function LongFretboardDiagram({
       {/* SVG Long Fretboard */}
       <div className="relative w-full overflow-x-auto p-2">
         <svg
+          ref={svgRef}
           className="w-full min-w-[760px] lg:min-w-0 h-auto rounded-lg"
           viewBox={`0 0 ${viewBoxWidth} ${1.1*height}`}
           preserveAspectRatio="xMidYMid meet"
@@ -182,34 +210,34 @@ export default function LongFretboardDiagram({
 
           {/* Fretboard wood - starts at nut (after open string space) */}
           <rect
-            x={openStringOffset}
-            y={allStringYPositions[5] - DIMENSIONS.fretboardMarginTop}
+            x={orientRectX(openStringOffset, width, viewBoxWidth, fretboardOrientation)}
+            y={stringAxisTop - DIMENSIONS.fretboardMarginTop}
             width={width}
-            height={allStringYPositions[0] - allStringYPositions[5] + DIMENSIONS.fretboardMarginTop + DIMENSIONS.fretboardMarginBottom}
+            height={stringAxisBottom - stringAxisTop + DIMENSIONS.fretboardMarginTop + DIMENSIONS.fretboardMarginBottom}
             fill="#3d2817"
             rx={DIMENSIONS.fretboardBorderRadius}
           />
 
           {/* Fret lines - now vertical */}
           {Array.from({ length: numFrets + 1 }).map((_, fretIdx) => {
-            const x = fretXPositions[fretIdx];
+            const x = orientedX(fretXPositions[fretIdx]);
             const isNut = fretIdx === 0;
 
             return (
               <g key={`fret-${fretIdx}`}>
-                {/* Fret line - spans all 6 strings vertically */}
+                {/* Fret line - spans all strings vertically */}
                 <line
                   x1={x}
-                  y1={allStringYPositions[5] - DIMENSIONS.fretLineExtensionTop}
+                  y1={stringAxisTop - DIMENSIONS.fretLineExtensionTop}
                   x2={x}
-                  y2={allStringYPositions[0] + DIMENSIONS.fretLineExtensionBottom}
+                  y2={stringAxisBottom + DIMENSIONS.fretLineExtensionBottom}
                   stroke={isNut ? '#e8dcc8' : '#b8b8b8'}
                   strokeWidth={isNut ? DIMENSIONS.nutWidth : DIMENSIONS.fretLineWidth}
                 />
                 {/* Fret markers (3, 5, 7, 9, 15, 17) - pearl inlays */}
                 {[3, 5, 7, 9, 15, 17].includes(fretIdx) && fretIdx < numFrets && (
                   <circle
-                    cx={getNoteYPosition(fretIdx, fretXPositions, startFret)}
+                    cx={getNoteXPosition(fretIdx)}
                     cy={height / 2}
                     r={DIMENSIONS.fretMarkerRadius}
                     fill="#f5f5dc"
@@ -219,41 +247,32 @@ export default function LongFretboardDiagram({
                   />
                 )}
                 {/* Double dots at 12th fret - pearl inlays */}
-                {fretIdx === 12 && (
-                  <>
-                    <circle
-                      cx={getNoteYPosition(12, fretXPositions, startFret)}
-                      cy={(allStringYPositions[1] + allStringYPositions[2]) / 2}
-                      r={DIMENSIONS.fretMarkerRadius}
-                      fill="#f5f5dc"
-                      opacity={0.95}
-                      stroke="#ffffff"
-                      strokeWidth={DIMENSIONS.fretMarkerStrokeWidth}
-                    />
+                {fretIdx === 12 &&
+                  getDoubleInlayStringPairs(stringCount).map(([lowerString, upperString]) => (
                     <circle
-                      cx={getNoteYPosition(12, fretXPositions, startFret)}
-                      cy={(allStringYPositions[3] + allStringYPositions[4]) / 2}
+                      key={`inlay-12-${lowerString}`}
+                      cx={getNoteXPosition(12)}
+                      cy={(allStringYPositions[lowerString] + allStringYPositions[upperString]) / 2}
                       r={DIMENSIONS.fretMarkerRadius}
                       fill="#f5f5dc"
                       opacity={0.95}
                       stroke="#ffffff"
                       strokeWidth={DIMENSIONS.fretMarkerStrokeWidth}
                     />
-                  </>
-                )}
+                  ))}
               </g>
             );
           })}
 
-          {/* String lines - all 6 strings horizontal with varying thickness and realistic colors */}
+          {/* String lines - all strings horizontal with varying thickness and realistic colors */}
           {allStringYPositions.map((y, stringIdx) => {
             const isActive = activeStringIndices.has(stringIdx);
-            const thickness = getStringThickness(stringIdx, isActive ? 1.8 : 1.2);
+            const thickness = getStringThickness(stringIdx, isActive ? 1.8 : 1.2, stringCount);
 
             // Realistic string colors:
-            // Strings 0-3 (6th-E, 5th-A, 4th-D, 3rd-G): Bronze/brass wound strings
-            // Strings 4-5 (2nd-B, 1st-E): Silver/steel plain strings
-            const isBrassWound = stringIdx <= 3;
+            // Wound strings (6th-E, 5th-A, 4th-D, 3rd-G on six strings): Bronze/brass
+            // Plain strings (2nd-B, 1st-E): Silver/steel
+            const isBrassWound = isWoundString(stringIdx, stringCount);
             const brassColor = '#cd7f32'; // Bronze color
             const silverColor = '#c0c0c0'; // Silver/steel color
             const stringColor = isBrassWound ? brassColor : silverColor;
@@ -261,9 +280,9 @@ export default function LongFretboardDiagram({
             return (
               <line
                 key={`string-${stringIdx}`}
-                x1={0}
+                x1={orientedX(0)}
                 y1={y}
-                x2={fretXPositions[numFrets]}
+                x2={orientedX(fretXPositions[numFrets])}
                 y2={y}
                 stroke={stringColor}
                 strokeWidth={thickness}
@@ -272,14 +291,28 @@ export default function LongFretboardDiagram({
             );
           })}
 
-          {/* Chromatic background - all notes on ALL 6 strings (faint) */}
+          {/* Capo - its fret is the new nut, notes behind it are not drawn */}
+          {capoFret > 0 && (
+            <CapoBar
+              x1={getNoteXPosition(capoFret)}
+              y1={stringAxisTop - DIMENSIONS.fretboardMarginTop}
+              x2={getNoteXPosition(capoFret)}
+              y2={stringAxisBottom + DIMENSIONS.fretboardMarginBottom}
+              thickness={DIMENSIONS.noteRadius * 1.6}
+            />
+          )}
+
+          {/* Chromatic background - all notes on ALL strings (faint) */}
           {settings.showChromaticNotes && (
             <g>
               {allStringYPositions.map((y, globalStringIdx) => {
                 return Array.from({ length: numFrets + 1 }).map((_, fretIdx) => {
+                  if (!isFretPlayableWithCapo(fretIdx, capoFret)) {
+                    return null;
+                  }
                   const x = getNoteXPosition(fretIdx);
-                  const { pitchClass, noteName } = getNoteAtPosition(globalStringIdx, fretIdx, selectedKey);
-                  const octave = getOctaveAtPosition(globalStringIdx, fretIdx);
+                  const { pitchClass, noteName } = getNoteAtPosition(globalStringIdx, fretIdx, selectedKey, tuning);
+                  const octave = getOctaveAtPosition(globalStringIdx, fretIdx, tuning);
                   const noteColor = settings.showOctaveColors
                     ? getNoteColorWithOctave(pitchClass, octave)
                     : getNoteColor(noteName);
@@ -321,7 +354,7 @@ export default function LongFretboardDiagram({
             const seen = new Set<string>();
             const neighborDots: { globalStringIdx: number; fret: number; noteName: string }[] = [];
             voicings.forEach(voicing => {
-              computeNeighborNotes(voicing, triadPcs, selectedKey).forEach(n => {
+              computeNeighborNotes(voicing, triadPcs, selectedKey, undefined, tuning).forEach(n => {
                 const k = `${n.globalStringIdx}-${n.fret}`;
                 if (seen.has(k)) return;
                 seen.add(k);
@@ -371,7 +404,9 @@ export default function LongFretboardDiagram({
                 const dotIndex = dotsAtPosition.findIndex(
                   (d) => d.voicingIdx === voicingIdx && d.stringIdx === localStringIdx
                 );
-                const offsetX = dotsAtPosition.length > 1 ? (dotIndex - 0.5) * DIMENSIONS.noteOverlapOffset : 0;
+                const offsetX = dotsAtPosition.length > 1
+                  ? orientOffsetX((dotIndex - 0.5) * DIMENSIONS.noteOverlapOffset, fretboardOrientation)
+                  : 0;
 
                 return (
                   <circle
@@ -414,7 +449,7 @@ export default function LongFretboardDiagram({
                   const notePc = voicing.notes[localStringIdx];
                   const intervalName = getIntervalName(notePc, triadPcs);
                   const noteName = voicing.noteNames[localStringIdx];
-                  const octave = getOctaveAtPosition(globalStringIdx, fret);
+                  const octave = getOctaveAtPosition(globalStringIdx, fret, tuning);
                   const noteColor = settings.showOctaveColors
                     ? getNoteColorWithOctave(notePc, octave)
                     : getNoteColor(noteName);
@@ -438,7 +473,9 @@ export default function LongFretboardDiagram({
                   const dotIndex = dotsAtPosition.findIndex(
                     (d) => d.voicingIdx === voicingIdx && d.stringIdx === localStringIdx
                   );
-                  const offsetX = dotsAtPosition.length > 1 ? (dotIndex - 0.5) * DIMENSIONS.noteOverlapOffset : 0;
+                  const offsetX = dotsAtPosition.length > 1
+                    ? orientOffsetX((dotIndex - 0.5) * DIMENSIONS.noteOverlapOffset, fretboardOrientation)
+                    : 0;
 
                   // Size logic with proper precedence:
                   // 1. Direct hover on THIS note: 2.1x (largest)
@@ -561,6 +598,8 @@ export default function LongFretboardDiagram({
           })}
         </svg>
       </div>
+
+      <DiagramExportButtons svgRef={svgRef} fileName={getTabFileName(`triads ${stringGroupLabel}`)} className="mt-1" />
     </div>
   );
 }
@@ -7,14 +7,23 @@ import VoicingPositionSelector from './VoicingPositionSelector';
 import type { VoicingSlot } from './VoicingPositionSelector';
 import TwelveKeysGrid from './TwelveKeysGrid';
 import AllTriadsFretboard from './AllTriadsFretboard';
-import { generateChordData } from '../lib/chords';
+import DropVoicings from './DropVoicings';
+import TabExportButtons from './TabExportButtons';
+import { generateCapoChordData, getCapoShapeKey } from '../lib/capo';
 import type { ChordData } from '../lib/chords';
-import { buildChord } from '../lib/chord-types';
+import { buildChord, getChordName } from '../lib/chord-types';
 import { nameToPc } from '../lib';
 import type { NoteName } from '../lib/types';
 import { DEFAULT_TRIAD_SETTINGS, getChordTypeLabels } from '../lib/triad-settings';
 import type { TriadSettings, TriadChordType } from '../lib/triad-settings';
 import { playChord, resumeAudioContext } from '../lib/sound';
+import { renderMusicXml } from '../lib/musicxml';
+import { getTabFileName, getVoicingTabColumn, renderTab } from '../lib/tab';
+import type { TabColumn, TabStyle } from '../lib/tab';
+import { STANDARD_TUNING } from '../lib/tunings';
+import type { Tuning } from '../lib/tunings';
+import { RIGHT_HANDED_ORIENTATION } from '../lib/orientation';
+import type { FretboardOrientation } from '../lib/orientation';
 
 // Keyboard mapping:
 // - lowercase = natural (c = C, d = D, etc.)
@@ -65,13 +74,6 @@ const VOICING_POSITION_HOTKEYS: Record<string, { stringGroup: number; position:
   'c': { stringGroup: 3, position: 2 },
 };
 
-const STRING_GROUP_LABELS = [
-  'Strings 3-2-1 (G-B-E)',
-  'Strings 4-3-2 (D-G-B)',
-  'Strings 5-4-3 (A-D-G)',
-  'Strings 6-5-4 (E-A-D)',
-];
-
 const SHELL_CHORD_TYPES: TriadChordType[] = ['7', 'min7', 'maj7'];
 const INTERVAL_LABELS_BY_SEMITONES: Record<number, string> = {
   0: '1',
@@ -84,13 +86,16 @@ const INTERVAL_LABELS_BY_SEMITONES: Record<number, string> = {
   11: '7',
 };
 
-export type TriadsViewMode = 'by-key' | 'by-voicing' | 'all';
+export type TriadsViewMode = 'by-key' | 'by-voicing' | 'all' | 'drop';
 
 interface MajorTriadsProps {
   selectedKey: string;
   onSelectedKeyChange: (key: string) => void;
   viewMode?: TriadsViewMode;
   onViewModeChange?: (viewMode: TriadsViewMode) => void;
+  tuning?: Tuning;
+  capoFret?: number;
+  fretboardOrientation?: FretboardOrientation;
 }
 
 export default function MajorTriads({
@@ -98,6 +103,9 @@ export default function MajorTriads({
   onSelectedKeyChange,
   viewMode: controlledViewMode,
   onViewModeChange,
+  tuning = STANDARD_TUNING,
+  capoFret = 0,
+  fretboardOrientation = RIGHT_HANDED_ORIENTATION,
 }: MajorTriadsProps) {
   const [settings, setSettings] = useState<TriadSettings>(DEFAULT_TRIAD_SETTINGS);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
@@ -118,10 +126,10 @@ export default function MajorTriads({
 
   // Generate triads data locally (no API needed!)
   const triadsData = useMemo(() => {
-    const chordData = generateChordData(selectedKey as NoteName, settings.chordType);
+    const chordData = generateCapoChordData(selectedKey as NoteName, settings.chordType, capoFret, tuning);
     // If chord generation fails (e.g., some open string constraints), fall back to major
     if (!chordData) {
-      const fallbackData = generateChordData(selectedKey as NoteName, 'major');
+      const fallbackData = generateCapoChordData(selectedKey as NoteName, 'major', capoFret, tuning);
       // If even major fails, we have a problem
       if (!fallbackData) {
         throw new Error(`No chord data available for ${selectedKey}`);
@@ -129,7 +137,19 @@ export default function MajorTriads({
       return fallbackData;
     }
     return chordData;
-  }, [selectedKey, settings.chordType]);
+  }, [selectedKey, settings.chordType, tuning, capoFret]);
+
+  // With a capo on, voicings are fingered as shapes of a lower key
+  const capoShapeChordName = capoFret > 0
+    ? getChordName(getCapoShapeKey(triadsData.key, capoFret), triadsData.chordType)
+    : null;
+
+  // String groups vary with the instrument (2 on a 4-string bass, 6 on an 8-string)
+  const stringCount = tuning.openStringMidi.length;
+  const stringGroupCount = triadsData.stringGroups.length;
+  const activeVoicingSlot: VoicingSlot = selectedVoicingSlot.stringGroup < stringGroupCount
+    ? selectedVoicingSlot
+    : { stringGroup: 0, position: selectedVoicingSlot.position };
 
   const displayedChordPitchClasses = useMemo(() => {
     const chordPcs = buildChord(selectedKey as NoteName, settings.chordType);
@@ -153,6 +173,32 @@ export default function MajorTriads({
     return INTERVAL_LABELS_BY_SEMITONES[interval] ?? null;
   };
 
+  // One measure per string group, highest group first as displayed (short groups padded with rests)
+  const getTriadsTab = (style: TabStyle) => {
+    const groups = [...triadsData.stringGroups].reverse();
+    const columnsPerMeasure = Math.max(1, ...groups.map((group) => group.voicings.length));
+    const columns: TabColumn[] = groups.flatMap((group) => [
+      ...group.voicings.map((voicing) => getVoicingTabColumn(voicing)),
+      ...Array.from({ length: columnsPerMeasure - group.voicings.length }, () => ({ notes: [] })),
+    ]);
+    return renderTab(columns, {
+      tuning,
+      capoFret,
+      style,
+      title: `${triadsData.chordName} triads`,
+      columnsPerMeasure,
+      measuresPerLine: 2,
+    });
+  };
+
+  // Every voicing in the same order as quarter notes, with the chord symbol over the first
+  const getTriadsMusicXml = () => renderMusicXml(
+    [...triadsData.stringGroups].reverse().flatMap((group) => group.voicings).map((voicing, idx) =>
+      getVoicingTabColumn(voicing, idx === 0 ? triadsData.chordName : undefined)
+    ),
+    { tuning, capoFret, title: `${triadsData.chordName} triads`, preferFlats: selectedKey.includes('b') }
+  );
+
   // Play a triad position
   const playTriadPosition = async (groupIdx: number, positionIdx: number) => {
     await resumeAudioContext();
@@ -161,8 +207,8 @@ export default function MajorTriads({
       return;
     }
 
-    // Groups are displayed in reverse order (3,2,1,0) but we need to access them correctly
-    const displayGroupIdx = 3 - groupIdx; // Convert display index to data index
+    // Groups are displayed in reverse order (highest group first) but we need to access them correctly
+    const displayGroupIdx = triadsData.stringGroups.length - 1 - groupIdx; // Convert display index to data index
     const group = triadsData.stringGroups[displayGroupIdx];
 
     if (!group || positionIdx < 0 || positionIdx >= group.voicings.length) {
@@ -175,7 +221,7 @@ export default function MajorTriads({
       fret: voicing.frets[i]
     }));
 
-    playChord(notes, 2.0);
+    playChord(notes, 2.0, tuning);
   };
 
   // Keyboard navigation
@@ -197,7 +243,7 @@ export default function MajorTriads({
       // By-Voicing mode: position hotkeys take priority over chord type / note keys
       if (viewMode === 'by-voicing') {
         const slot = VOICING_POSITION_HOTKEYS[e.key];
-        if (slot) {
+        if (slot && slot.stringGroup < triadsData.stringGroups.length) {
           e.preventDefault();
           setSelectedVoicingSlot(slot);
           return;
@@ -235,8 +281,8 @@ export default function MajorTriads({
         return;
       }
 
-      // Check for triad playing keys
-      for (const [groupStr, keys] of Object.entries(TRIAD_PLAY_KEYS)) {
+      // Check for triad playing keys (the drop view plays voicings by click)
+      for (const [groupStr, keys] of viewMode === 'drop' ? [] : Object.entries(TRIAD_PLAY_KEYS)) {
         const groupIdx = parseInt(groupStr);
         const positionIdx = keys.indexOf(e.key);
         if (positionIdx !== -1) {
@@ -447,6 +493,17 @@ export default function MajorTriads({
           >
             All
           </button>
+          <button
+            type="button"
+            onClick={() => setViewMode('drop')}
+            className={`px-3 sm:px-4 py-2.5 min-h-[40px] text-sm font-medium rounded-md transition-colors ${
+              viewMode === 'drop'
+                ? 'bg-primary-600 text-white'
+                : 'text-slate-400 hover:text-slate-100'
+            }`}
+          >
+            Drop 2/3
+          </button>
         </div>
       </div>
 
@@ -489,7 +546,22 @@ export default function MajorTriads({
         </div>
       )}
 
+      {(viewMode === 'by-key' || viewMode === 'all') && (
+        <div className="flex justify-center">
+          <TabExportButtons getTab={getTriadsTab} getMusicXml={getTriadsMusicXml} fileName={getTabFileName(`${triadsData.chordName} triads`)} />
+        </div>
+      )}
+
+      {capoShapeChordName && viewMode !== 'drop' && (
+        <p className="text-center text-sm text-slate-300">
+          Sounding <span className="font-semibold text-white">{triadsData.chordName}</span>
+          {' · '}
+          Play <span className="font-semibold text-white">{capoShapeChordName}</span> shapes with capo on fret {capoFret}
+        </p>
+      )}
+
       {/* Chord Type Selector with Help Icon */}
+      {viewMode !== 'drop' && (
       <div className="flex flex-col items-center gap-2 p-2 sm:p-4 lg:flex-row lg:items-center lg:justify-between">
         <div className="hidden lg:block lg:flex-1" /> {/* Spacer */}
         <div className="flex flex-wrap justify-center max-w-full rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-1 lg:inline-flex lg:flex-nowrap">
@@ -593,8 +665,9 @@ export default function MajorTriads({
         <div className="w-full flex justify-center items-center gap-3 lg:w-auto lg:flex-1 lg:justify-end">
           {viewMode === 'by-voicing' && (
             <VoicingPositionSelector
-              selected={selectedVoicingSlot}
+              selected={activeVoicingSlot}
               onChange={setSelectedVoicingSlot}
+              stringGroupCount={stringGroupCount}
             />
           )}
           {/* Question mark icon button */}
@@ -621,6 +694,8 @@ export default function MajorTriads({
         </div>
       </div>
 
+      )}
+
       {/* Circle of Fifths Visual Selector with Settings Icon */}
       {viewMode === 'by-key' && (
       <div className="w-full max-w-[970px] mx-auto relative">
@@ -824,18 +899,21 @@ export default function MajorTriads({
                 displayedChordPitchClasses[2],
               ];
 
-              // Reversed index for labels (0→3, 1→2, 2→1, 3→0)
-              const labelIdx = 3 - groupIdx;
+              // Conventional string numbers, high to low (e.g. strings [3, 4, 5] → "3-2-1")
+              const stringNumbers = group.strings.map((stringIdx) => stringCount - stringIdx).join('-');
 
               return (
                 <div key={groupIdx} className="flex-shrink-0">
                   <LongFretboardDiagram
                     voicings={group.voicings}
                     stringNames={group.stringNames}
-                    stringGroupLabel={STRING_GROUP_LABELS[labelIdx]}
+                    stringGroupLabel={`Strings ${stringNumbers} (${group.stringNames.join('-')})`}
                     triadPcs={triadPcs}
                     settings={settings}
                     selectedKey={selectedKey}
+                    tuning={tuning}
+                    capoFret={capoFret}
+                    fretboardOrientation={fretboardOrientation}
                   />
                 </div>
               );
@@ -859,18 +937,33 @@ export default function MajorTriads({
             showRootLattice={showRootLattice}
             dimNonRoots={dimNonRoots}
             showGroups={showGroups}
+            tuning={tuning}
           />
         </div>
       )}
 
+      {/* Drop mode: drop-2 / drop-3 four-note voicings of any chord type */}
+      {viewMode === 'drop' && (
+        <DropVoicings
+          selectedKey={selectedKey}
+          onSelectedKeyChange={onSelectedKeyChange}
+          tuning={tuning}
+          capoFret={capoFret}
+          fretboardOrientation={fretboardOrientation}
+        />
+      )}
+
       {/* By Voicing mode: 4x3 grid of 12 keys (selector is inline in the chord-type row above) */}
       {viewMode === 'by-voicing' && (
         <div className="w-full max-w-6xl mx-auto px-4 pb-6">
           <TwelveKeysGrid
-            stringGroup={selectedVoicingSlot.stringGroup}
-            position={selectedVoicingSlot.position}
+            stringGroup={activeVoicingSlot.stringGroup}
+            position={activeVoicingSlot.position}
             chordType="major"
             showNeighborhoods={settings.showNeighborhoods}
+            tuning={tuning}
+            capoFret={capoFret}
+            fretboardOrientation={fretboardOrientation}
           />
         </div>
       )}
@@ -0,0 +1,225 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import NoteMapFretboard from './NoteMapFretboard';
+import { pcToDisplayName } from '../lib/core';
+import {
+  NOTE_DRILL_TIME_LIMITS_MS,
+  getMasteryMap,
+  getNoteDrillStorageKey,
+  parseNoteDrillMemory,
+  pickNoteDrillQuestion,
+  scoreNoteDrillAnswer,
+} from '../lib/note-drill';
+import type { NoteDrillMemory, NoteDrillQuestion } from '../lib/note-drill';
+import { STANDARD_TUNING, getTuningStringNames } from '../lib/tunings';
+import type { Tuning } from '../lib/tunings';
+import { RIGHT_HANDED_ORIENTATION } from '../lib/orientation';
+import type { FretboardOrientation } from '../lib/orientation';
+
+interface NoteDrillProps {
+  numFrets: number;
+  tuning?: Tuning;
+  fretboardOrientation?: FretboardOrientation;
+}
+
+interface DrillFeedback {
+  correct: boolean;
+  timedOut: boolean;
+}
+
+const PITCH_CLASSES = Array.from({ length: 12 }, (_, pc) => pc);
+
+function getStringLabel(stringIndex: number, stringCount: number, stringNames: string[]): string {
+  // Players count strings from the highest (1st) down
+  const number = stringCount - stringIndex;
+  const suffix = number === 1 ? 'st' : number === 2 ? 'nd' : number === 3 ? 'rd' : 'th';
+  return `${number}${suffix} string (${stringNames[stringIndex]})`;
+}
+
+/**
+ * Timed note-finding drill: "find all Fs on the 4th string" or "name this
+ * fret". Progress is kept per tuning in localStorage and shown as a mastery
+ * heatmap over the neck.
+ */
+export default function NoteDrill({
+  numFrets,
+  tuning = STANDARD_TUNING,
+  fretboardOrientation = RIGHT_HANDED_ORIENTATION,
+}: NoteDrillProps) {
+  const storageKey = getNoteDrillStorageKey(tuning);
+  const [memory, setMemory] = useState<NoteDrillMemory>({});
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  const [question, setQuestion] = useState<NoteDrillQuestion | null>(null);
+  const [askedAtMs, setAskedAtMs] = useState(0);
+  const [nowMs, setNowMs] = useState(0);
+  const [pickedFrets, setPickedFrets] = useState<number[]>([]);
+  const [feedback, setFeedback] = useState<DrillFeedback | null>(null);
+  const [streak, setStreak] = useState(0);
+
+  const stringNames = getTuningStringNames(tuning);
+  const stringCount = tuning.openStringMidi.length;
+  const heatmap = useMemo(() => getMasteryMap(memory), [memory]);
+
+  useEffect(() => {
+    try {
+      setMemory(parseNoteDrillMemory(window.localStorage.getItem(storageKey)));
+    } catch {
+      setMemory({});
+    }
+    setLoadedKey(storageKey);
+    setQuestion(null);
+    setFeedback(null);
+  }, [storageKey]);
+
+  useEffect(() => {
+    if (loadedKey !== storageKey) {
+      return;
+    }
+    window.localStorage.setItem(storageKey, JSON.stringify(memory));
+  }, [memory, loadedKey, storageKey]);
+
+  const askNext = useCallback(() => {
+    const now = Date.now();
+    setQuestion(pickNoteDrillQuestion(memory, { numFrets, tuning, nowMs: now }));
+    setAskedAtMs(now);
+    setNowMs(now);
+    setPickedFrets([]);
+    setFeedback(null);
+  }, [memory, numFrets, tuning]);
+
+  const submit = useCallback(
+    (answer: number | number[] | null) => {
+      if (!question || feedback) {
+        return;
+      }
+      const now = Date.now();
+      const scored = scoreNoteDrillAnswer(memory, question, answer, now - askedAtMs, now);
+      setMemory(scored.memory);
+      setFeedback({ correct: scored.correct, timedOut: answer === null });
+      setStreak((prev) => (scored.correct ? prev + 1 : 0));
+    },
+    [question, feedback, memory, askedAtMs]
+  );
+
+  // Countdown; running out of time counts as a miss
+  const timeLimitMs = question ? NOTE_DRILL_TIME_LIMITS_MS[question.kind] : 0;
+  const remainingMs = Math.max(0, timeLimitMs - (nowMs - askedAtMs));
+  useEffect(() => {
+    if (!question || feedback) {
+      return;
+    }
+    const timer = window.setInterval(() => setNowMs(Date.now()), 100);
+    return () => window.clearInterval(timer);
+  }, [question, feedback]);
+  useEffect(() => {
+    if (question && !feedback && remainingMs === 0) {
+      submit(null);
+    }
+  }, [question, feedback, remainingMs, submit]);
+
+  const handleCellClick = (stringIdx: number, fret: number) => {
+    if (!question || question.kind !== 'find' || feedback || stringIdx !== question.stringIndex) {
+      return;
+    }
+    setPickedFrets((prev) => (prev.includes(fret) ? prev.filter((f) => f !== fret) : [...prev, fret]));
+  };
+
+  const prompt = !question
+    ? 'Press start to begin'
+    : question.kind === 'find'
+      ? `Find every ${pcToDisplayName(question.pitchClass)} on the ${getStringLabel(question.stringIndex, stringCount, stringNames)}`
+      : `Name the note at fret ${question.fret} on the ${getStringLabel(question.stringIndex, stringCount, stringNames)}`;
+
+  const markedPositions = !question
+    ? []
+    : question.kind === 'name'
+      ? [{ stringIdx: question.stringIndex, fret: question.fret, label: feedback ? pcToDisplayName(question.pitchClass) : '?' }]
+      : [
+          ...pickedFrets.map((fret) => ({
+            stringIdx: question.stringIndex,
+            fret,
+            color: feedback && !question.answerFrets.includes(fret) ? '#f87171' : '#facc15',
+          })),
+          // Reveal the ones that were missed
+          ...(feedback
+            ? question.answerFrets
+                .filter((fret) => !pickedFrets.includes(fret))
+                .map((fret) => ({ stringIdx: question.stringIndex, fret, label: pcToDisplayName(question.pitchClass), color: '#4ade80' }))
+            : []),
+        ];
+
+  return (
+    <div className="px-2">
+      <div className="flex flex-col items-center gap-3 mb-3">
+        <p className="text-center text-lg font-semibold text-white" data-drill-prompt>
+          {prompt}
+        </p>
+
+        {question && !feedback && (
+          <div className="w-full max-w-[420px] h-1.5 rounded-full bg-slate-800 overflow-hidden">
+            <div className="h-full bg-amber-400" style={{ width: `${(remainingMs / timeLimitMs) * 100}%` }} />
+          </div>
+        )}
+
+        {question?.kind === 'name' && !feedback && (
+          <div className="flex flex-wrap justify-center gap-1.5">
+            {PITCH_CLASSES.map((pc) => (
+              <button
+                key={pc}
+                onClick={() => submit(pc)}
+                className="min-w-[44px] min-h-[40px] rounded border border-slate-700 bg-slate-800 text-sm font-semibold text-slate-200 hover:bg-slate-700"
+              >
+                {pcToDisplayName(pc)}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {question?.kind === 'find' && !feedback && (
+          <button
+            onClick={() => submit(pickedFrets)}
+            className="px-4 py-2.5 min-h-[40px] rounded border border-blue-500 bg-blue-600 text-sm font-semibold text-white"
+          >
+            Check ({pickedFrets.length} picked)
+          </button>
+        )}
+
+        {feedback && (
+          <p className={`text-sm font-semibold ${feedback.correct ? 'text-emerald-400' : 'text-red-400'}`}>
+            {feedback.correct ? 'Correct!' : feedback.timedOut ? 'Out of time' : 'Not quite'} · streak {streak}
+          </p>
+        )}
+
+        {(!question || feedback) && (
+          <button
+            onClick={askNext}
+            className="px-4 py-2.5 min-h-[40px] rounded border border-blue-500 bg-blue-600 text-sm font-semibold text-white"
+          >
+            {question ? 'Next question' : 'Start drill'}
+          </button>
+        )}
+      </div>
+
+      <NoteMapFretboard
+        pitchClass={question?.pitchClass ?? 0}
+        showNotes={false}
+        numFrets={numFrets}
+        tuning={tuning}
+        fretboardOrientation={fretboardOrientation}
+        heatmap={heatmap}
+        markedPositions={markedPositions}
+        onCellClick={question?.kind === 'find' && !feedback ? handleCellClick : undefined}
+      />
+
+      <div className="mt-2 flex items-center justify-center gap-2 text-xs text-slate-400">
+        <span>Weak</span>
+        <span
+          className="h-2 w-32 rounded-full"
+          style={{ background: 'linear-gradient(to right, hsl(0, 70%, 45%), hsl(60, 70%, 45%), hsl(120, 70%, 45%))' }}
+        />
+        <span>Mastered</span>
+      </div>
+    </div>
+  );
+}
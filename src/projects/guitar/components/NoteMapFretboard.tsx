@@ -1,18 +1,33 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import {
   calculateFretYPositions,
   getNoteYPosition,
   getStringThickness,
   getNoteAtPosition,
   getOctaveAtPosition,
+  isWoundString,
 } from '../lib/fretboard-physics';
-import { getNoteColor, getNoteColorWithOctave } from '../lib/note-colors';
-import { DIMENSIONS, calculateAllStringYPositions } from '../lib/fretboard-dimensions';
-
-// Standard-tuning MIDI numbers, string index 0 = low E … 5 = high e.
-const STRING_MIDI = [40, 45, 50, 55, 59, 64];
+import { getNoteColor, getNoteColorWithOctave, getPitchClassColor } from '../lib/note-colors';
+import { getTabFileName } from '../lib/tab';
+import DiagramExportButtons from './DiagramExportButtons';
+import {
+  DIMENSIONS,
+  calculateAllStringYPositions,
+  getDoubleInlayStringPairs,
+  getFretboardSvgHeight,
+} from '../lib/fretboard-dimensions';
+import { STANDARD_TUNING } from '../lib/tunings';
+import type { Tuning } from '../lib/tunings';
+import {
+  RIGHT_HANDED_ORIENTATION,
+  isVerticalStringOrderReversed,
+  orientRectX,
+  orientStringIndex,
+  orientX,
+} from '../lib/orientation';
+import type { FretboardOrientation } from '../lib/orientation';
 
 // The two compact octave shapes we illustrate (octave UP).
 //   NE = 2 strings up, +2 frets (clean) / +3 (across the G–B wrinkle)
@@ -32,11 +47,19 @@ const V_STRING_GAP = 56;
 const V_SIDE_MARGIN = 40;
 const V_OPEN_OFFSET = 35;
 
-interface Pos {
+export interface Pos {
   stringIdx: number;
   fret: number;
 }
 
+/**
+ * Heatmap fill for a mastery level: red (0) through amber to green (1)
+ */
+export function getMasteryColor(mastery: number): string {
+  const hue = Math.round(Math.max(0, Math.min(1, mastery)) * 120);
+  return `hsl(${hue}, 70%, 45%)`;
+}
+
 interface NoteMapFretboardProps {
   /** Pitch class (0-11) to plot across the whole neck. */
   pitchClass: number;
@@ -57,6 +80,18 @@ interface NoteMapFretboardProps {
   orientation?: 'horizontal' | 'vertical';
   /** Number of frets on the neck (default 22). */
   numFrets?: number;
+  /** Open-string tuning (default standard tuning). */
+  tuning?: Tuning;
+  /** Handedness and string order, applied on top of the layout (default right-handed). */
+  fretboardOrientation?: FretboardOrientation;
+  /** Plot the pitch-class dots (default true; off for quizzes). */
+  showNotes?: boolean;
+  /** Mastery 0-1 per cell, keyed "string:fret", shaded red (weak) to green (mastered). */
+  heatmap?: Record<string, number>;
+  /** Cells to ring and label, e.g. the fret being asked about. */
+  markedPositions?: Array<Pos & { label?: string; color?: string }>;
+  /** Makes every cell tappable. */
+  onCellClick?: (stringIdx: number, fret: number) => void;
 }
 
 /**
@@ -73,9 +108,16 @@ export default function NoteMapFretboard({
   showAllShapes = false,
   orientation = 'horizontal',
   numFrets = 22,
+  tuning = STANDARD_TUNING,
+  fretboardOrientation = RIGHT_HANDED_ORIENTATION,
+  showNotes = true,
+  heatmap,
+  markedPositions = [],
+  onCellClick,
 }: NoteMapFretboardProps) {
   const vertical = orientation === 'vertical';
   const startFret = DIMENSIONS.startFret;
+  const svgRef = useRef<SVGSVGElement>(null);
 
   // Fret axis (exponential spacing) runs along the neck's long dimension.
   const longAxisLen = vertical ? V_FRET_LEN : DIMENSIONS.svgWidth;
@@ -83,24 +125,40 @@ export default function NoteMapFretboard({
   const fretRel = calculateFretYPositions(startFret, numFrets, longAxisLen);
   const fretAxis = fretRel.map((v) => v + openOffset);
 
-  // String axis.
-  const stringAxisH = calculateAllStringYPositions(); // index 0 (low E) at bottom
-  const stringAxisV = [0, 1, 2, 3, 4, 5].map((s) => V_SIDE_MARGIN + s * V_STRING_GAP); // low E left
-
-  const fretCoord = (fret: number) =>
-    fret === 0 ? openOffset / 2 : getNoteYPosition(fret, fretAxis, startFret);
-  const stringCoord = (s: number) => (vertical ? stringAxisV[s] : stringAxisH[s]);
+  // String axis. Horizontal necks flip rows with the string order; vertical necks
+  // reverse columns when mirroring or flipping (but not both).
+  const stringCount = tuning.openStringMidi.length;
+  const topString = stringCount - 1;
+  const baseStringAxisH = calculateAllStringYPositions(stringCount); // index 0 (low E) at bottom
+  const stringAxisH = baseStringAxisH.map(
+    (_, s) => baseStringAxisH[orientStringIndex(s, stringCount, fretboardOrientation)]
+  );
+  const reverseColumns = isVerticalStringOrderReversed(fretboardOrientation);
+  const stringAxisV = Array.from(
+    { length: stringCount },
+    (_, s) => V_SIDE_MARGIN + (reverseColumns ? topString - s : s) * V_STRING_GAP
+  ); // low E left
+  const stringAxisHTop = baseStringAxisH[topString];
+  const stringAxisHBottom = baseStringAxisH[0];
+  const stringAxisVLeft = V_SIDE_MARGIN;
+  const stringAxisVRight = V_SIDE_MARGIN + topString * V_STRING_GAP;
 
   const place = (s: number, fret: number) =>
     vertical
       ? { x: stringCoord(s), y: fretCoord(fret) }
       : { x: fretCoord(fret), y: stringCoord(s) };
 
-  const width = vertical ? V_SIDE_MARGIN * 2 + V_STRING_GAP * 5 : DIMENSIONS.svgWidth;
-  const height = DIMENSIONS.svgHeight;
+  const width = vertical ? V_SIDE_MARGIN * 2 + V_STRING_GAP * topString : DIMENSIONS.svgWidth;
+  const height = getFretboardSvgHeight(stringCount);
   const viewBoxW = vertical ? width : DIMENSIONS.viewBoxWidth;
   const viewBoxH = vertical ? openOffset + longAxisLen + 40 : 1.1 * height;
 
+  // Only horizontal necks mirror along the fret axis
+  const orientFretAxis = (p: number) => (vertical ? p : orientX(p, viewBoxW, fretboardOrientation));
+  const fretCoord = (fret: number) =>
+    orientFretAxis(fret === 0 ? openOffset / 2 : getNoteYPosition(fret, fretAxis, startFret));
+  const stringCoord = (s: number) => (vertical ? stringAxisV[s] : stringAxisH[s]);
+
   const noteRadius = DIMENSIONS.noteRadius * DIMENSIONS.defaultTriadNoteMultiplier;
 
   const [hovered, setHovered] = useState<Pos | null>(null);
@@ -110,8 +168,9 @@ export default function NoteMapFretboard({
   const partnersFor = (pos: Pos) =>
     OCTAVE_SHAPES.flatMap((shape) => {
       const targetString = pos.stringIdx + shape.stringSpan;
-      if (targetString > 5) return [];
-      const targetFret = STRING_MIDI[pos.stringIdx] + pos.fret + 12 - STRING_MIDI[targetString];
+      if (targetString > topString) return [];
+      const targetFret =
+        tuning.openStringMidi[pos.stringIdx] + pos.fret + 12 - tuning.openStringMidi[targetString];
       if (targetFret < 0 || targetFret > numFrets) return [];
       const delta = targetFret - pos.fret;
       const isWrinkle = delta !== shape.cleanOffset;
@@ -129,15 +188,15 @@ export default function NoteMapFretboard({
   const partners = anchor ? partnersFor(anchor) : [];
 
   const colorFor = (pos: Pos): string => {
-    const octave = getOctaveAtPosition(pos.stringIdx, pos.fret);
-    const { noteName } = getNoteAtPosition(pos.stringIdx, pos.fret, selectedKey);
+    const octave = getOctaveAtPosition(pos.stringIdx, pos.fret, tuning);
+    const { noteName } = getNoteAtPosition(pos.stringIdx, pos.fret, selectedKey, tuning);
     return (showOctaveColors ? getNoteColorWithOctave(pitchClass, octave) : getNoteColor(noteName)).bg;
   };
 
   const notePositions: Pos[] = [];
-  for (let s = 0; s < 6; s++) {
+  for (let s = 0; s < stringCount; s++) {
     for (let f = 0; f <= numFrets; f++) {
-      if (getNoteAtPosition(s, f, selectedKey).pitchClass === pitchClass) {
+      if (getNoteAtPosition(s, f, selectedKey, tuning).pitchClass === pitchClass) {
         notePositions.push({ stringIdx: s, fret: f });
       }
     }
@@ -147,11 +206,30 @@ export default function NoteMapFretboard({
     a != null && a.stringIdx === b.stringIdx && a.fret === b.fret;
 
   const fretEnd = fretAxis[numFrets];
-  const stringMid = (stringAxisV[0] + stringAxisV[5]) / 2;
+
+  // Cell around a note position: between its fret wires, one string gap wide
+  const stringGap = vertical ? V_STRING_GAP : Math.abs(baseStringAxisH[1] - baseStringAxisH[0]) || V_STRING_GAP;
+  const cellRect = (s: number, fret: number) => {
+    const start = fret === 0 ? 0 : fretAxis[fret - 1];
+    const end = fret === 0 ? openOffset : fretAxis[fret];
+    const a = orientFretAxis(start);
+    const b = orientFretAxis(end);
+    const along = { min: Math.min(a, b), size: Math.abs(b - a) };
+    const across = { min: stringCoord(s) - stringGap / 2, size: stringGap };
+    return vertical
+      ? { x: across.min, y: along.min, width: across.size, height: along.size }
+      : { x: along.min, y: across.min, width: along.size, height: across.size };
+  };
+  const allCells: Pos[] = Array.from({ length: stringCount }, (_, s) =>
+    Array.from({ length: numFrets + 1 }, (_, f) => ({ stringIdx: s, fret: f }))
+  ).flat();
+  const inlayStringPairs = getDoubleInlayStringPairs(stringCount);
+  const stringMid = (stringAxisVLeft + stringAxisVRight) / 2;
 
   return (
     <div className="relative w-full" style={{ padding: '6px' }}>
       <svg
+        ref={svgRef}
         className="rounded-lg w-full h-auto block"
         viewBox={`0 0 ${viewBoxW} ${viewBoxH}`}
         preserveAspectRatio="xMidYMid meet"
@@ -159,21 +237,21 @@ export default function NoteMapFretboard({
         {/* Fretboard wood */}
         {vertical ? (
           <rect
-            x={stringAxisV[0] - 14}
+            x={stringAxisVLeft - 14}
             y={openOffset}
-            width={stringAxisV[5] - stringAxisV[0] + 28}
+            width={stringAxisVRight - stringAxisVLeft + 28}
             height={fretEnd - openOffset}
             fill="#3d2817"
             rx={DIMENSIONS.fretboardBorderRadius}
           />
         ) : (
           <rect
-            x={openOffset}
-            y={stringAxisH[5] - DIMENSIONS.fretboardMarginTop}
+            x={orientRectX(openOffset, DIMENSIONS.svgWidth, viewBoxW, fretboardOrientation)}
+            y={stringAxisHTop - DIMENSIONS.fretboardMarginTop}
             width={DIMENSIONS.svgWidth}
             height={
-              stringAxisH[0] -
-              stringAxisH[5] +
+              stringAxisHBottom -
+              stringAxisHTop +
               DIMENSIONS.fretboardMarginTop +
               DIMENSIONS.fretboardMarginBottom
             }
@@ -184,21 +262,21 @@ export default function NoteMapFretboard({
 
         {/* Fret lines + inlays */}
         {Array.from({ length: numFrets + 1 }).map((_, fretIdx) => {
-          const p = fretAxis[fretIdx];
+          const p = orientFretAxis(fretAxis[fretIdx]);
           const isNut = fretIdx === 0;
           const strokeW = isNut ? DIMENSIONS.nutWidth : DIMENSIONS.fretLineWidth;
           const stroke = isNut ? '#e8dcc8' : '#b8b8b8';
-          const inlayPos = getNoteYPosition(fretIdx, fretAxis, startFret);
+          const inlayPos = fretCoord(fretIdx);
           return (
             <g key={`fret-${fretIdx}`}>
               {vertical ? (
-                <line x1={stringAxisV[0] - 10} y1={p} x2={stringAxisV[5] + 10} y2={p} stroke={stroke} strokeWidth={strokeW} />
+                <line x1={stringAxisVLeft - 10} y1={p} x2={stringAxisVRight + 10} y2={p} stroke={stroke} strokeWidth={strokeW} />
               ) : (
                 <line
                   x1={p}
-                  y1={stringAxisH[5] - DIMENSIONS.fretLineExtensionTop}
+                  y1={stringAxisHTop - DIMENSIONS.fretLineExtensionTop}
                   x2={p}
-                  y2={stringAxisH[0] + DIMENSIONS.fretLineExtensionBottom}
+                  y2={stringAxisHBottom + DIMENSIONS.fretLineExtensionBottom}
                   stroke={stroke}
                   strokeWidth={strokeW}
                 />
@@ -216,10 +294,7 @@ export default function NoteMapFretboard({
               )}
               {fretIdx === 12 &&
                 (vertical
-                  ? [
-                      (stringAxisV[1] + stringAxisV[2]) / 2,
-                      (stringAxisV[3] + stringAxisV[4]) / 2,
-                    ].map((cx, i) => (
+                  ? inlayStringPairs.map(([lower, upper]) => (stringAxisV[lower] + stringAxisV[upper]) / 2).map((cx, i) => (
                       <circle
                         key={i}
                         cx={cx}
@@ -231,10 +306,7 @@ export default function NoteMapFretboard({
                         strokeWidth={DIMENSIONS.fretMarkerStrokeWidth}
                       />
                     ))
-                  : [
-                      (stringAxisH[1] + stringAxisH[2]) / 2,
-                      (stringAxisH[3] + stringAxisH[4]) / 2,
-                    ].map((cy, i) => (
+                  : inlayStringPairs.map(([lower, upper]) => (stringAxisH[lower] + stringAxisH[upper]) / 2).map((cy, i) => (
                       <circle
                         key={i}
                         cx={inlayPos}
@@ -251,10 +323,10 @@ export default function NoteMapFretboard({
         })}
 
         {/* Strings */}
-        {[0, 1, 2, 3, 4, 5].map((stringIdx) => {
+        {stringAxisH.map((_, stringIdx) => {
           const c = stringCoord(stringIdx);
-          const thickness = getStringThickness(stringIdx, 1.4);
-          const stringColor = stringIdx <= 3 ? '#cd7f32' : '#c0c0c0';
+          const thickness = getStringThickness(stringIdx, 1.4, stringCount);
+          const stringColor = isWoundString(stringIdx, stringCount) ? '#cd7f32' : '#c0c0c0';
           return vertical ? (
             <line
               key={`string-${stringIdx}`}
@@ -268,9 +340,9 @@ export default function NoteMapFretboard({
           ) : (
             <line
               key={`string-${stringIdx}`}
-              x1={0}
+              x1={orientFretAxis(0)}
               y1={c}
-              x2={fretEnd}
+              x2={orientFretAxis(fretEnd)}
               y2={c}
               stroke={stringColor}
               strokeWidth={thickness}
@@ -278,6 +350,22 @@ export default function NoteMapFretboard({
           );
         })}
 
+        {/* Mastery heatmap */}
+        {heatmap &&
+          allCells.map(({ stringIdx, fret }) => {
+            const mastery = heatmap[`${stringIdx}:${fret}`];
+            if (mastery === undefined) return null;
+            return (
+              <rect
+                key={`heat-${stringIdx}-${fret}`}
+                {...cellRect(stringIdx, fret)}
+                fill={getMasteryColor(mastery)}
+                opacity={0.55}
+                pointerEvents="none"
+              />
+            );
+          })}
+
         {/* Lattice mode: octave-shape lines for every note (no labels) */}
         {showAllShapes &&
           notePositions.flatMap((pos) =>
@@ -325,10 +413,10 @@ export default function NoteMapFretboard({
           })}
 
         {/* Note dots: every occurrence of the pitch class */}
-        {notePositions.map(({ stringIdx, fret }) => {
+        {showNotes && notePositions.map(({ stringIdx, fret }) => {
           const { x, y } = place(stringIdx, fret);
-          const { noteName } = getNoteAtPosition(stringIdx, fret, selectedKey);
-          const octave = getOctaveAtPosition(stringIdx, fret);
+          const { noteName } = getNoteAtPosition(stringIdx, fret, selectedKey, tuning);
+          const octave = getOctaveAtPosition(stringIdx, fret, tuning);
           const color = showOctaveColors
             ? getNoteColorWithOctave(pitchClass, octave)
             : getNoteColor(noteName);
@@ -389,7 +477,49 @@ export default function NoteMapFretboard({
               />
             );
           })}
+
+        {/* Marked cells (quiz prompts, picks) */}
+        {markedPositions.map(({ stringIdx, fret, label, color = '#facc15' }) => {
+          const { x, y } = place(stringIdx, fret);
+          return (
+            <g key={`mark-${stringIdx}-${fret}`} pointerEvents="none">
+              <circle cx={x} cy={y} r={noteRadius} fill="#0f172a" stroke={color} strokeWidth={3} />
+              {label && (
+                <text
+                  x={x}
+                  y={y}
+                  fill={color}
+                  fontSize={DIMENSIONS.noteFontSize}
+                  fontWeight="bold"
+                  textAnchor="middle"
+                  dominantBaseline="middle"
+                >
+                  {label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+
+        {/* Tap targets for every cell */}
+        {onCellClick &&
+          allCells.map(({ stringIdx, fret }) => (
+            <rect
+              key={`cell-${stringIdx}-${fret}`}
+              {...cellRect(stringIdx, fret)}
+              fill="transparent"
+              style={{ cursor: 'pointer' }}
+              data-cell={`${stringIdx}:${fret}`}
+              onClick={() => onCellClick(stringIdx, fret)}
+            />
+          ))}
       </svg>
+      <div className="mt-1 flex justify-end">
+        <DiagramExportButtons
+          svgRef={svgRef}
+          fileName={getTabFileName(`note map ${getPitchClassColor(pitchClass).name}`)}
+        />
+      </div>
     </div>
   );
 }
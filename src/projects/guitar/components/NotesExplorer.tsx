@@ -1,10 +1,24 @@
 'use client';
 
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import CircleOfFifthsSelector from './CircleOfFifthsSelector';
 import NoteMapFretboard from './NoteMapFretboard';
-import { nameToPc, pcToDisplayName } from '../lib/core';
+import NoteDrill from './NoteDrill';
+import { keyUsesFlats, nameToPc, pcToDisplayName } from '../lib/core';
 import { getNoteAtPosition, getOctaveAtPosition } from '../lib/fretboard-physics';
+import { STANDARD_TUNING, getFretCount } from '../lib/tunings';
+import type { Tuning } from '../lib/tunings';
+import { RIGHT_HANDED_ORIENTATION } from '../lib/orientation';
+import type { FretboardOrientation } from '../lib/orientation';
+import { findNearestFretPositions, getPositionCenterFret } from '../lib/midi-fretboard';
+import { recognizeChord } from '../../tonnetz/core/chordRecognition';
+import {
+  EMPTY_MIDI_HELD_NOTES,
+  applyMidiMessage,
+  getSoundingMidiNotes,
+  parseMidiMessage,
+  startMidiInput,
+} from '@/utils/midi-input';
 
 
 // Plain key -> natural note
@@ -26,12 +40,31 @@ const FLAT_MAP: Record<string, string> = {
  * Notes explorer: pick a note, see one neck with every occurrence across the
  * fretboard (colored by octave brightness), then one neck per octave the note
  * sounds in (highest octave first) — that octave at full opacity, the other
- * octaves dimmed.
+ * octaves dimmed. With MIDI In on, notes held on a keyboard or MIDI guitar are
+ * ringed on the whole-neck board at the nearest playable shape.
  */
-export default function NotesExplorer() {
+interface NotesExplorerProps {
+  tuning?: Tuning;
+  fretboardOrientation?: FretboardOrientation;
+}
+
+export default function NotesExplorer({
+  tuning = STANDARD_TUNING,
+  fretboardOrientation = RIGHT_HANDED_ORIENTATION,
+}: NotesExplorerProps) {
   const [note, setNote] = useState('F');
   const [showAll, setShowAll] = useState(true);
-  const [fretCount, setFretCount] = useState(22);
+  const [drilling, setDrilling] = useState(false);
+  const [shortNeck, setShortNeck] = useState(false);
+  const [midiListening, setMidiListening] = useState(false);
+  const [midiNotes, setMidiNotes] = useState<number[]>([]);
+  const [midiInputNames, setMidiInputNames] = useState<string[]>([]);
+  const [midiError, setMidiError] = useState<string | null>(null);
+  const midiAnchorFretRef = useRef<number | null>(null);
+
+  // Full neck follows the instrument (22 frets unless it sets its own count)
+  const fullFretCount = getFretCount(tuning, 22);
+  const fretCount = shortNeck ? 20 : fullFretCount;
 
   const pitchClass = nameToPc(note);
   const displayName = pcToDisplayName(pitchClass, note);
@@ -71,18 +104,88 @@ export default function NotesExplorer() {
     return () => document.removeEventListener('keydown', handleKeyDown);
   }, []);
 
+  // MIDI input: track held notes while listening (keyboard or MIDI guitar).
+  useEffect(() => {
+    if (!midiListening) {
+      return;
+    }
+    let held = EMPTY_MIDI_HELD_NOTES;
+    let stop: (() => void) | null = null;
+    let cancelled = false;
+
+    startMidiInput(
+      (data) => {
+        const message = parseMidiMessage(data);
+        if (!message) {
+          return;
+        }
+        const next = applyMidiMessage(held, message);
+        if (next !== held) {
+          held = next;
+          setMidiNotes(getSoundingMidiNotes(held));
+        }
+      },
+      setMidiInputNames
+    )
+      .then((stopInput) => {
+        if (cancelled) {
+          stopInput();
+        } else {
+          stop = stopInput;
+        }
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) {
+          setMidiError(err instanceof Error ? err.message : 'Could not open MIDI input.');
+          setMidiListening(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      stop?.();
+      setMidiNotes([]);
+      setMidiInputNames([]);
+      midiAnchorFretRef.current = null;
+    };
+  }, [midiListening]);
+
+  // Held notes on the nearest playable shape, staying close to the last one
+  const midiPositions = useMemo(
+    () => findNearestFretPositions(midiNotes, tuning, { numFrets: fretCount, anchorFret: midiAnchorFretRef.current }),
+    [midiNotes, tuning, fretCount]
+  );
+  useEffect(() => {
+    const center = getPositionCenterFret(midiPositions);
+    if (center !== null) {
+      midiAnchorFretRef.current = center;
+    }
+  }, [midiPositions]);
+  const midiMarks = midiPositions.map(({ stringIdx, fret, midi }) => ({
+    stringIdx,
+    fret,
+    label: pcToDisplayName(midi % 12, note),
+    color: '#f472b6',
+  }));
+  const midiChord = recognizeChord(midiNotes, !keyUsesFlats(note));
+
+  const toggleMidiListening = () => {
+    setMidiError(null);
+    setMidiListening((v) => !v);
+  };
+
   // Distinct octaves in which this pitch class occurs, highest first.
   const octaves = useMemo(() => {
     const found = new Set<number>();
-    for (let stringIdx = 0; stringIdx < 6; stringIdx++) {
+    for (let stringIdx = 0; stringIdx < tuning.openStringMidi.length; stringIdx++) {
       for (let fret = 0; fret <= fretCount; fret++) {
-        if (getNoteAtPosition(stringIdx, fret).pitchClass === pitchClass) {
-          found.add(getOctaveAtPosition(stringIdx, fret));
+        if (getNoteAtPosition(stringIdx, fret, undefined, tuning).pitchClass === pitchClass) {
+          found.add(getOctaveAtPosition(stringIdx, fret, tuning));
         }
       }
     }
     return [...found].sort((a, b) => b - a);
-  }, [pitchClass, fretCount]);
+  }, [pitchClass, fretCount, tuning]);
 
   return (
     <div className="w-full min-h-screen bg-slate-900 pb-10">
@@ -96,6 +199,16 @@ export default function NotesExplorer() {
 
       {/* Controls */}
       <div className="flex flex-wrap items-center justify-center gap-3 mb-2 px-4">
+        <button
+          onClick={() => setDrilling((v) => !v)}
+          className={`px-3 py-2.5 md:py-1 min-h-[40px] md:min-h-0 rounded border text-xs md:text-[11px] font-semibold transition-colors ${
+            drilling
+              ? 'bg-blue-600 text-white border-blue-500'
+              : 'bg-slate-800 text-slate-200 border-slate-700 hover:bg-slate-700'
+          }`}
+        >
+          {drilling ? 'Back to explorer' : 'Drill'}
+        </button>
         <button
           onClick={() => setShowAll((v) => !v)}
           className={`px-3 py-2.5 md:py-1 min-h-[40px] md:min-h-0 rounded border text-xs md:text-[11px] font-semibold transition-colors ${
@@ -106,11 +219,22 @@ export default function NotesExplorer() {
         >
           {showAll ? 'Hide all lines' : 'Show all lines'}
         </button>
+        <button
+          onClick={toggleMidiListening}
+          title="Show notes played on a MIDI keyboard or guitar"
+          className={`px-3 py-2.5 md:py-1 min-h-[40px] md:min-h-0 rounded border text-xs md:text-[11px] font-semibold transition-colors ${
+            midiListening
+              ? 'bg-pink-600 text-white border-pink-500'
+              : 'bg-slate-800 text-slate-200 border-slate-700 hover:bg-slate-700'
+          }`}
+        >
+          🎹 {midiListening ? 'Stop MIDI In' : 'MIDI In'}
+        </button>
         <div className="inline-flex rounded border border-slate-700 overflow-hidden">
-          {[22, 20].map((n) => (
+          {[fullFretCount, 20].map((n) => (
             <button
               key={n}
-              onClick={() => setFretCount(n)}
+              onClick={() => setShortNeck(n === 20)}
               className={`px-3 py-2.5 md:py-1 min-h-[40px] md:min-h-0 text-xs md:text-[11px] font-semibold transition-colors ${
                 fretCount === n
                   ? 'bg-blue-600 text-white'
@@ -123,51 +247,80 @@ export default function NotesExplorer() {
         </div>
       </div>
 
-      {/* Mobile: a single vertical whole-neck board */}
-      <div className="md:hidden px-2">
-        <p className="text-center text-xs font-semibold uppercase tracking-wide text-slate-400 mb-1">
-          Whole neck
+      {(midiListening || midiError) && (
+        <p className="text-center text-xs text-slate-300 mb-2 px-4" aria-live="polite">
+          {midiError ?? (
+            midiNotes.length > 0
+              ? <>
+                {midiChord && <span className="font-semibold text-pink-300">{midiChord.symbol} · </span>}
+                {midiNotes.map((midi) => `${pcToDisplayName(midi % 12, note)}${Math.floor(midi / 12) - 1}`).join(' ')}
+              </>
+              : midiInputNames.length > 0
+                ? `Listening to ${midiInputNames.join(', ')}`
+                : 'No MIDI devices connected'
+          )}
         </p>
-        <NoteMapFretboard
-          pitchClass={pitchClass}
-          selectedKey={note}
-          activeOctave={null}
-          enableOctaveShapes
-          showAllShapes={showAll}
-          orientation="vertical"
-          numFrets={fretCount}
-        />
-      </div>
+      )}
+
+      {drilling && <NoteDrill numFrets={fretCount} tuning={tuning} fretboardOrientation={fretboardOrientation} />}
+
+      {/* Mobile: a single vertical whole-neck board */}
+      {!drilling && (
+        <div className="md:hidden px-2">
+          <p className="text-center text-xs font-semibold uppercase tracking-wide text-slate-400 mb-1">
+            Whole neck
+          </p>
+          <NoteMapFretboard
+            pitchClass={pitchClass}
+            selectedKey={note}
+            activeOctave={null}
+            enableOctaveShapes
+            showAllShapes={showAll}
+            orientation="vertical"
+            numFrets={fretCount}
+            tuning={tuning}
+            fretboardOrientation={fretboardOrientation}
+            markedPositions={midiMarks}
+          />
+        </div>
+      )}
 
       {/* Desktop: horizontal whole-neck + one board per octave */}
-      <div className="hidden md:block px-2">
-        <p className="text-center text-xs font-semibold uppercase tracking-wide text-slate-400 mb-1">
-          Whole neck
-        </p>
-        <NoteMapFretboard
-          pitchClass={pitchClass}
-          selectedKey={note}
-          activeOctave={null}
-          enableOctaveShapes
-          showAllShapes={showAll}
-          numFrets={fretCount}
-        />
-
-        {/* One neck per octave (highest first) */}
-        {octaves.map((octave) => (
-          <div key={octave} className="mt-4">
-            <p className="text-center text-xs font-semibold uppercase tracking-wide text-slate-400 mb-1">
-              {`${displayName}${octave}`}
-            </p>
-            <NoteMapFretboard
-              pitchClass={pitchClass}
-              selectedKey={note}
-              activeOctave={octave}
-              numFrets={fretCount}
-            />
-          </div>
-        ))}
-      </div>
+      {!drilling && (
+        <div className="hidden md:block px-2">
+          <p className="text-center text-xs font-semibold uppercase tracking-wide text-slate-400 mb-1">
+            Whole neck
+          </p>
+          <NoteMapFretboard
+            pitchClass={pitchClass}
+            selectedKey={note}
+            activeOctave={null}
+            enableOctaveShapes
+            showAllShapes={showAll}
+            numFrets={fretCount}
+            tuning={tuning}
+            fretboardOrientation={fretboardOrientation}
+            markedPositions={midiMarks}
+          />
+
+          {/* One neck per octave (highest first) */}
+          {octaves.map((octave) => (
+            <div key={octave} className="mt-4">
+              <p className="text-center text-xs font-semibold uppercase tracking-wide text-slate-400 mb-1">
+                {`${displayName}${octave}`}
+              </p>
+              <NoteMapFretboard
+                pitchClass={pitchClass}
+                selectedKey={note}
+                activeOctave={octave}
+                numFrets={fretCount}
+                tuning={tuning}
+                fretboardOrientation={fretboardOrientation}
+              />
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
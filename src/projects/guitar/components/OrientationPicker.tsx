@@ -0,0 +1,35 @@
+'use client';
+
+import React from 'react';
+import { ORIENTATION_PRESETS, getOrientationById } from '../lib/orientation';
+import type { FretboardOrientation } from '../lib/orientation';
+
+interface OrientationPickerProps {
+  orientation: FretboardOrientation;
+  onOrientationChange: (orientation: FretboardOrientation) => void;
+}
+
+/**
+ * Fretboard orientation dropdown (right/left-handed, string order)
+ */
+export default function OrientationPicker({ orientation, onOrientationChange }: OrientationPickerProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <label htmlFor="guitar-orientation" className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+        Orientation
+      </label>
+      <select
+        id="guitar-orientation"
+        value={orientation.id}
+        onChange={(e) => onOrientationChange(getOrientationById(e.target.value))}
+        className="min-h-[44px] rounded-lg border border-slate-700 bg-slate-800 px-3 text-sm font-semibold text-slate-200"
+      >
+        {ORIENTATION_PRESETS.map((preset) => (
+          <option key={preset.id} value={preset.id}>
+            {preset.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import type { PracticeProgression } from '../lib/progression-recommendations';
+import { getShapeChordSymbol, suggestCapoForProgression } from '../lib/capo';
 import {
   type LoopSyncConfig,
   getActiveChordIndex,
@@ -12,6 +13,20 @@ import {
   normalizeLoopDurationMs,
   parseChordSequence,
 } from '../lib/looper-sync';
+import {
+  BACKING_TRACK_DEFAULT_BPM,
+  buildChordMidiVoicing,
+  buildProgressionMidiFile,
+  getBackingTrackChordDurationMs,
+  playBackingTrack,
+} from '../lib/backing-track';
+import { renderProgressionMusicXml } from '../lib/musicxml';
+import { getTabFileName, renderProgressionTab } from '../lib/tab';
+import { downloadMidiFile } from '@/utils/midi-file';
+import { getExternalNoteOutput } from '@/utils/note-output';
+import { STANDARD_TUNING } from '../lib/tunings';
+import type { Tuning } from '../lib/tunings';
+import TabExportButtons from './TabExportButtons';
 
 interface PracticeProgressionsPanelProps {
   tonalCenterMode: 'minor' | 'major';
@@ -24,6 +39,8 @@ interface PracticeProgressionsPanelProps {
   onActiveChordPitchClassesChange?: (pitchClasses: number[] | null) => void;
   onActiveChordSymbolChange?: (symbol: string | null) => void;
   onHideNonScaleChordTonesChange?: (hide: boolean) => void;
+  capoFret?: number;
+  tuning?: Tuning;
   onClose: () => void;
 }
 
@@ -47,28 +64,8 @@ interface LooperSyncModalProps {
 // If we scale to multi-device/user sync, move this to a server-backed store
 // with user scoping and schema versioning.
 const LOOP_SYNC_STORAGE_KEY = 'guitar:loop-sync-configs:v1';
-const BACKING_TRACK_DEFAULT_BPM = 84;
-const BACKING_TRACK_BEATS_PER_CHORD = 4;
-const NOTE_NAME_TO_PITCH_CLASS: Record<string, number> = {
-  C: 0,
-  'C#': 1,
-  Db: 1,
-  D: 2,
-  'D#': 3,
-  Eb: 3,
-  E: 4,
-  F: 5,
-  'F#': 6,
-  Gb: 6,
-  G: 7,
-  'G#': 8,
-  Ab: 8,
-  A: 9,
-  'A#': 10,
-  Bb: 10,
-  B: 11,
-  Cb: 11,
-};
+// Fraction of a bar into a chord that the backing track still starts on it
+const BACKING_CHORD_START_TOLERANCE = 0.05;
 
 interface AutoStateEvent {
   stateIndex: number;
@@ -80,61 +77,6 @@ function midiToFrequency(midi: number): number {
   return 440 * Math.pow(2, (midi - 69) / 12);
 }
 
-function getBackingTrackChordDurationMs(bpm: number): number {
-  const safeBpm = Math.min(220, Math.max(40, bpm));
-  return (60_000 / safeBpm) * BACKING_TRACK_BEATS_PER_CHORD;
-}
-
-function getChordRootPitchClass(chordSymbol: string): number | null {
-  const rootMatch = chordSymbol.match(/^([A-G](?:#|b)?)/);
-  if (!rootMatch) {
-    return null;
-  }
-  return NOTE_NAME_TO_PITCH_CLASS[rootMatch[1]] ?? null;
-}
-
-function buildChordMidiVoicing(chordSymbol: string | null | undefined): number[] {
-  if (typeof chordSymbol !== 'string') {
-    return [];
-  }
-
-  const chordPitchClasses = [...new Set(getChordPitchClassesFromSymbol(chordSymbol))];
-  if (chordPitchClasses.length === 0) {
-    return [];
-  }
-
-  const rootPitchClass = getChordRootPitchClass(chordSymbol);
-  const orderedPitchClasses = [...chordPitchClasses].sort((left, right) => {
-    if (rootPitchClass === null) {
-      return left - right;
-    }
-    return ((left - rootPitchClass + 12) % 12) - ((right - rootPitchClass + 12) % 12);
-  });
-
-  const rootBaseMidi = rootPitchClass === null ? 45 : 48 + rootPitchClass;
-  let previousMidi = 40;
-
-  return orderedPitchClasses.map((pitchClass, idx) => {
-    let midi = rootBaseMidi + (rootPitchClass === null
-      ? pitchClass
-      : ((pitchClass - rootPitchClass + 12) % 12));
-
-    while (idx > 0 && midi <= previousMidi) {
-      midi += 12;
-    }
-
-    while (midi < 43) {
-      midi += 12;
-    }
-    while (midi > 74) {
-      midi -= 12;
-    }
-
-    previousMidi = midi;
-    return midi;
-  });
-}
-
 function getAutoLockRequirements(
   chordCount: number,
   guideLoopDurationMs?: number | null
@@ -1260,6 +1202,8 @@ export default function PracticeProgressionsPanel({
   onActiveChordPitchClassesChange,
   onActiveChordSymbolChange,
   onHideNonScaleChordTonesChange,
+  capoFret = 0,
+  tuning = STANDARD_TUNING,
   onClose,
 }: PracticeProgressionsPanelProps) {
   const panelContainerRef = useRef<HTMLElement | null>(null);
@@ -1277,7 +1221,6 @@ export default function PracticeProgressionsPanel({
   const [nowMs, setNowMs] = useState<number>(0);
   const lastReportedActiveChordKeyRef = useRef<string | null>(null);
   const backingAudioContextRef = useRef<AudioContext | null>(null);
-  const lastPlayedBackingChordRef = useRef<string | null>(null);
   const resolvedPanelHeightPx = typeof panelHeightPx === 'number' && Number.isFinite(panelHeightPx)
     ? Math.max(260, Math.floor(panelHeightPx))
     : null;
@@ -1556,7 +1499,6 @@ export default function PracticeProgressionsPanel({
     setSelectedProgressionKey(config.progressionKey);
     setOptionsWheelForKey(null);
     setBackingTransport(null);
-    lastPlayedBackingChordRef.current = null;
     setTransport({
       progressionKey: config.progressionKey,
       status: 'playing',
@@ -1570,6 +1512,18 @@ export default function PracticeProgressionsPanel({
       return;
     }
 
+    const midiVoicing = buildChordMidiVoicing(chordSymbol);
+    if (midiVoicing.length === 0) {
+      return;
+    }
+    const releaseSec = Math.min(2.2, Math.max(0.35, (chordDurationMs / 1000) * 0.85));
+
+    const externalOutput = getExternalNoteOutput();
+    if (externalOutput) {
+      externalOutput.schedule(midiVoicing.map((midi) => ({ midi, startSec: 0, durationSec: releaseSec })));
+      return;
+    }
+
     const windowWithWebkit = window as Window & { webkitAudioContext?: typeof AudioContext };
     const AudioContextCtor = window.AudioContext ?? windowWithWebkit.webkitAudioContext;
     if (!AudioContextCtor) {
@@ -1589,14 +1543,8 @@ export default function PracticeProgressionsPanel({
       void audioContext.resume();
     }
 
-    const midiVoicing = buildChordMidiVoicing(chordSymbol);
-    if (midiVoicing.length === 0) {
-      return;
-    }
-
     const now = audioContext.currentTime;
     const attackSec = 0.02;
-    const releaseSec = Math.min(2.2, Math.max(0.35, (chordDurationMs / 1000) * 0.85));
     const stopAt = now + releaseSec;
     const noteGain = Math.max(0.035, 0.12 / midiVoicing.length);
 
@@ -1636,7 +1584,6 @@ export default function PracticeProgressionsPanel({
     }
     const now = performance.now();
     setBackingTransport(null);
-    lastPlayedBackingChordRef.current = null;
 
     setTransport((current) => {
       if (current && current.progressionKey === progressionKey) {
@@ -1671,18 +1618,20 @@ export default function PracticeProgressionsPanel({
     }
 
     const now = performance.now();
+    const chordDurationMs = getBackingTrackChordDurationMs(backingTempoByKey[progressionKey] ?? BACKING_TRACK_DEFAULT_BPM);
     setTransport(null);
-    lastPlayedBackingChordRef.current = null;
 
     setBackingTransport((current) => {
       if (current && current.progressionKey === progressionKey) {
         if (current.status === 'playing') {
           return current;
         }
+        // Resume from the start of the paused chord, so it sounds straight away
+        const chordStartMs = Math.floor(current.pausedElapsedMs / chordDurationMs) * chordDurationMs;
         return {
           ...current,
           status: 'playing',
-          startedAtMs: now - current.pausedElapsedMs,
+          startedAtMs: now - chordStartMs,
         };
       }
 
@@ -1715,7 +1664,7 @@ export default function PracticeProgressionsPanel({
   };
 
   const handleBackingStop = (progressionKey: string) => {
-    lastPlayedBackingChordRef.current = null;
+    getExternalNoteOutput()?.stopAll();
     setBackingTransport((current) => {
       if (!current || current.progressionKey !== progressionKey) {
         return current;
@@ -1728,9 +1677,14 @@ export default function PracticeProgressionsPanel({
     });
   };
 
+  // The transport drives the display; the chords themselves come from
+  // playBackingTrack, started on a chord change so the two stay in step
+  const backingBpm = backingTransport
+    ? backingTempoByKey[backingTransport.progressionKey] ?? BACKING_TRACK_DEFAULT_BPM
+    : BACKING_TRACK_DEFAULT_BPM;
+
   useEffect(() => {
     if (!backingTransport || backingTransport.status !== 'playing') {
-      lastPlayedBackingChordRef.current = null;
       return;
     }
 
@@ -1745,26 +1699,23 @@ export default function PracticeProgressionsPanel({
       return;
     }
 
-    const bpm = backingTempoByKey[backingTransport.progressionKey] ?? BACKING_TRACK_DEFAULT_BPM;
-    const chordDurationMs = getBackingTrackChordDurationMs(bpm);
+    const chordDurationMs = getBackingTrackChordDurationMs(backingBpm);
     const loopDurationMs = normalizeLoopDurationMs(chordDurationMs * chordCount);
-    const elapsedMs = getElapsedMs(backingTransport, nowMs, loopDurationMs);
-    const activeChordIndex = Math.floor(elapsedMs / chordDurationMs) % chordCount;
-    const elapsedSinceStart = Math.max(0, nowMs - backingTransport.startedAtMs);
-    const loopCycle = Math.floor(elapsedSinceStart / loopDurationMs);
-    const chordSymbol = chordSequence[activeChordIndex];
-    if (!chordSymbol) {
-      return;
-    }
-    const chordCycleKey = `${backingTransport.progressionKey}:${loopCycle}:${activeChordIndex}:${chordSymbol}`;
+    const chordPosition = getElapsedMs(backingTransport, performance.now(), loopDurationMs) / chordDurationMs;
+    // Start on a chord that has only just begun, otherwise wait for the next one
+    const nextChordIndex = Math.ceil(chordPosition - BACKING_CHORD_START_TOLERANCE);
+    const delayMs = Math.max(0, (nextChordIndex - chordPosition) * chordDurationMs);
 
-    if (lastPlayedBackingChordRef.current === chordCycleKey) {
-      return;
-    }
+    let active = true;
+    const timeoutId = window.setTimeout(() => {
+      void playBackingTrack(chordSequence, backingBpm, playBackingChord, () => active, nextChordIndex % chordCount);
+    }, delayMs);
 
-    lastPlayedBackingChordRef.current = chordCycleKey;
-    playBackingChord(chordSymbol, chordDurationMs);
-  }, [backingTransport, progressionByKey, backingTempoByKey, nowMs, playBackingChord]);
+    return () => {
+      active = false;
+      window.clearTimeout(timeoutId);
+    };
+  }, [backingTransport, progressionByKey, backingBpm, playBackingChord]);
 
   const handlePause = (progressionKey: string) => {
     const config = syncConfigsByKey[progressionKey];
@@ -1889,6 +1840,9 @@ export default function PracticeProgressionsPanel({
                 : 0;
               const activeRoman = romanSequence[activeChordIndex] ?? '—';
               const activeChord = chordSequence[activeChordIndex] ?? '—';
+              const capoSuggestion = isSelected && capoFret === 0
+                ? suggestCapoForProgression(progression)
+                : null;
               const backingTempo = backingTempoByKey[progressionKey] ?? BACKING_TRACK_DEFAULT_BPM;
               const backingChordDurationMs = getBackingTrackChordDurationMs(backingTempo);
               const backingLoopDurationMs = normalizeLoopDurationMs(
@@ -1915,6 +1869,7 @@ export default function PracticeProgressionsPanel({
                 : 'Stopped';
               const shouldHighlightBackingChord = isBackingProgression && backingTransport?.status !== 'stopped';
               const addNonScaleChordTones = !hideNonScaleChordTones;
+              const exportFileName = getTabFileName(`${progression.title} ${tonalKey}`);
 
               return (
                 <div
@@ -1950,7 +1905,24 @@ export default function PracticeProgressionsPanel({
                   {isSelected && (
                     <div className="mt-2 rounded-md bg-slate-800 p-2 ring-1 ring-slate-700">
                       <p className="font-mono text-[11px] text-sky-300">{progression.chordNames}</p>
+                      {capoFret > 0 && (
+                        <p className="mt-0.5 font-mono text-[11px] text-slate-300">
+                          Shapes (capo {capoFret}): {chordSequence.map((symbol) => getShapeChordSymbol(symbol, capoFret)).join(' ')}
+                        </p>
+                      )}
+                      {capoSuggestion && capoSuggestion.capoFret > 0 && (
+                        <p className="mt-0.5 text-[11px] text-slate-300" data-capo-suggestion={capoSuggestion.capoFret}>
+                          Easiest capo: fret {capoSuggestion.capoFret} ({capoSuggestion.shapeChordNames.join(' ')})
+                        </p>
+                      )}
                       <p className="mt-1 text-[11px] text-slate-400">{progression.whyItFits}</p>
+                      <div className="mt-1.5" onClick={(event) => event.stopPropagation()}>
+                        <TabExportButtons
+                          getTab={(style) => renderProgressionTab(progression, { tuning, capoFret, style })}
+                          getMusicXml={() => renderProgressionMusicXml(progression, { tuning, capoFret })}
+                          fileName={exportFileName}
+                        />
+                      </div>
                       <div className="flex items-center justify-between">
                         <button
                           type="button"
@@ -2086,6 +2058,20 @@ export default function PracticeProgressionsPanel({
                           >
                             ⏹️
                           </button>
+                          <button
+                            type="button"
+                            onClick={(event) => {
+                              event.stopPropagation();
+                              downloadMidiFile(
+                                buildProgressionMidiFile(progression, backingTempo),
+                                `${exportFileName}-${backingTempo}bpm`
+                              );
+                            }}
+                            className="inline-flex h-9 items-center justify-center rounded-md bg-slate-700 px-2.5 text-[11px] font-semibold text-slate-100 ring-1 ring-white/20 hover:bg-slate-600"
+                            title="Download the backing track as a MIDI file at this tempo"
+                          >
+                            MIDI
+                          </button>
                         </div>
                       </div>
 
@@ -1,16 +1,28 @@
 'use client';
 
-import React, { useEffect, useId, useMemo, useState } from 'react';
+import React, { useEffect, useId, useMemo, useRef, useState } from 'react';
 import {
   calculateFretYPositions,
   getNoteAtPosition,
   getNoteYPosition,
   getStringThickness,
+  isWoundString,
   toFlatEnharmonic,
 } from '../lib/fretboard-physics';
 import { getAllNoteColorsInCircleOfFifths, getNoteColor } from '../lib/note-colors';
-import { DIMENSIONS, calculateAllStringYPositions } from '../lib/fretboard-dimensions';
+import { getTabFileName } from '../lib/tab';
+import DiagramExportButtons from './DiagramExportButtons';
+import {
+  DIMENSIONS,
+  calculateAllStringYPositions,
+  getDoubleInlayStringPairs,
+  getFretboardSvgHeight,
+} from '../lib/fretboard-dimensions';
 import { playNote, resumeAudioContext, stopAllSounds } from '../lib/sound';
+import { STANDARD_TUNING } from '../lib/tunings';
+import { isFretPlayableWithCapo } from '../lib/capo';
+import CapoBar from './CapoBar';
+import type { Tuning } from '../lib/tunings';
 
 export interface FretboardMarker {
   positions: [number, number][];
@@ -74,11 +86,14 @@ interface ScalePatternFretboardProps {
   markers?: FretboardMarker[];
   shapeOverlays?: FretboardShapeOverlay[];
   pitchClassLabels?: Partial<Record<number, string>>;
+  fingering?: number[][]; // Finger numbers in the pattern's layout, shown in place of note names
   showRootHalos?: boolean;
   showChromaticNotes?: boolean;
   numFrets?: number;
   titlePlacement?: 'top' | 'left';
   showTitle?: boolean;
+  tuning?: Tuning;
+  capoFret?: number; // Capo fret acting as the new nut (0 = no capo)
 }
 
 function hasPosition(
@@ -115,29 +130,35 @@ export default function ScalePatternFretboard({
   markers = [],
   shapeOverlays = [],
   pitchClassLabels,
+  fingering,
   showRootHalos = true,
   showChromaticNotes = false,
   numFrets = 24,
   titlePlacement = 'top',
   showTitle = true,
+  tuning = STANDARD_TUNING,
+  capoFret = 0,
 }: ScalePatternFretboardProps) {
   const [hoveredNote, setHoveredNote] = useState<{ string: number; fret: number } | null>(null);
   const overlayClipPathId = useId();
   const inactiveToneFilterId = useId();
+  const svgRef = useRef<SVGSVGElement>(null);
 
   const fretYPositions = calculateFretYPositions(
     DIMENSIONS.startFret,
     numFrets,
     DIMENSIONS.svgWidth
   );
-  const stringYPositions = calculateAllStringYPositions();
+  const stringCount = tuning.openStringMidi.length;
+  const topString = stringCount - 1;
+  const stringYPositions = calculateAllStringYPositions(stringCount);
   const allNoteColors = getAllNoteColorsInCircleOfFifths();
   const defaultVibePalette = {
     outer: '#0ea5e9',
     mid: '#38bdf8',
     inner: '#7dd3fc',
   };
-  const fretboardTop = stringYPositions[5] - DIMENSIONS.fretLineExtensionTop;
+  const fretboardTop = stringYPositions[topString] - DIMENSIONS.fretLineExtensionTop;
   const fretboardBottom = stringYPositions[0] + DIMENSIONS.fretLineExtensionBottom;
   const fretboardHeight = fretboardBottom - fretboardTop;
   const stringGap = stringYPositions[1] - stringYPositions[0];
@@ -150,7 +171,7 @@ export default function ScalePatternFretboard({
     return getNoteYPosition(fret, fretYPositions, DIMENSIONS.startFret) + DIMENSIONS.openStringOffset;
   };
   const getOverlayY = (stringPosition: number) => {
-    if (Number.isInteger(stringPosition) && stringPosition >= 0 && stringPosition <= 5) {
+    if (Number.isInteger(stringPosition) && stringPosition >= 0 && stringPosition <= topString) {
       return stringYPositions[stringPosition];
     }
 
@@ -158,8 +179,8 @@ export default function ScalePatternFretboard({
       return stringYPositions[0] + (stringPosition * stringGap);
     }
 
-    if (stringPosition >= 5) {
-      return stringYPositions[5] + ((stringPosition - 5) * stringGap);
+    if (stringPosition >= topString) {
+      return stringYPositions[topString] + ((stringPosition - topString) * stringGap);
     }
 
     const lowerString = Math.floor(stringPosition);
@@ -171,12 +192,16 @@ export default function ScalePatternFretboard({
   };
 
   const patternNotes = useMemo(() => {
-    const notes: { stringIdx: number; fret: number }[] = [];
+    const notes: { stringIdx: number; fret: number; finger?: number }[] = [];
     pattern.forEach((frets, stringIdx) => {
-      frets.forEach((fret) => notes.push({ stringIdx, fret }));
+      frets.forEach((fret, noteIdx) => {
+        if (isFretPlayableWithCapo(fret, capoFret)) {
+          notes.push({ stringIdx, fret, finger: fingering?.[stringIdx]?.[noteIdx] });
+        }
+      });
     });
     return notes;
-  }, [pattern]);
+  }, [pattern, capoFret, fingering]);
   const rootPitchClass = useMemo(() => {
     if (rootPitchClassOverride !== undefined && rootPitchClassOverride !== null) {
       return ((rootPitchClassOverride % 12) + 12) % 12;
@@ -185,8 +210,8 @@ export default function ScalePatternFretboard({
       return null;
     }
     const [stringIdx, fret] = rootPositions[0];
-    return getNoteAtPosition(stringIdx, fret, selectedKey).pitchClass;
-  }, [rootPitchClassOverride, rootPositions, selectedKey]);
+    return getNoteAtPosition(stringIdx, fret, selectedKey, tuning).pitchClass;
+  }, [rootPitchClassOverride, rootPositions, selectedKey, tuning]);
   const activeChordPitchClassSet = useMemo(
     () => new Set(activeChordPitchClasses ?? []),
     [activeChordPitchClasses]
@@ -212,11 +237,11 @@ export default function ScalePatternFretboard({
 
   useEffect(() => {
     if (hoveredNote) {
-      playNote(hoveredNote.string, hoveredNote.fret, 2.0);
+      playNote(hoveredNote.string, hoveredNote.fret, 2.0, tuning);
     } else {
       stopAllSounds();
     }
-  }, [hoveredNote]);
+  }, [hoveredNote, tuning]);
 
   return (
     <div className={`w-full ${titlePlacement === 'left' ? 'md:flex md:items-center md:gap-2' : ''}`}>
@@ -234,8 +259,9 @@ export default function ScalePatternFretboard({
 
       <div className={`${titlePlacement === 'left' ? 'md:flex-1 md:min-w-0 ' : ''}overflow-x-auto`}>
         <svg
+          ref={svgRef}
           className="mx-auto block h-auto w-full min-w-[720px] lg:min-w-0"
-          viewBox={`0 0 ${DIMENSIONS.viewBoxWidth} ${DIMENSIONS.svgHeight}`}
+          viewBox={`0 0 ${DIMENSIONS.viewBoxWidth} ${getFretboardSvgHeight(stringCount)}`}
         >
         <defs>
           <filter id="note-vibe-glow" x="-60%" y="-60%" width="220%" height="220%">
@@ -291,7 +317,7 @@ export default function ScalePatternFretboard({
               x1={yPos + DIMENSIONS.openStringOffset}
               y1={stringYPositions[0] + DIMENSIONS.fretLineExtensionBottom}
               x2={yPos + DIMENSIONS.openStringOffset}
-              y2={stringYPositions[5] - DIMENSIONS.fretLineExtensionTop}
+              y2={stringYPositions[topString] - DIMENSIONS.fretLineExtensionTop}
               stroke={isNut ? '#e8dcc8' : '#b8b8b8'}
               strokeWidth={isNut ? DIMENSIONS.nutWidth : DIMENSIONS.fretLineWidth}
             />
@@ -299,7 +325,7 @@ export default function ScalePatternFretboard({
         })}
 
         {stringYPositions.map((yPos, stringIdx) => {
-          const isBrassWound = stringIdx <= 3;
+          const isBrassWound = isWoundString(stringIdx, stringCount);
           const stringColor = isBrassWound ? '#cd7f32' : '#c0c0c0';
 
           return (
@@ -310,14 +336,14 @@ export default function ScalePatternFretboard({
               x2={DIMENSIONS.openStringOffset + DIMENSIONS.svgWidth}
               y2={yPos}
               stroke={stringColor}
-              strokeWidth={getStringThickness(stringIdx, 1.8)}
+              strokeWidth={getStringThickness(stringIdx, 1.8, stringCount)}
             />
           );
         })}
 
         {[3, 5, 7, 9, 15, 17, 19, 21].filter((fretNum) => fretNum <= numFrets).map((fretNum) => {
           const xPos = getFretMarkerXPosition(fretNum, fretYPositions, DIMENSIONS.startFret);
-          const yCenter = (stringYPositions[0] + stringYPositions[5]) / 2;
+          const yCenter = (stringYPositions[0] + stringYPositions[topString]) / 2;
 
           return (
             <circle
@@ -337,33 +363,37 @@ export default function ScalePatternFretboard({
           const xPos = getFretMarkerXPosition(fretNum, fretYPositions, DIMENSIONS.startFret) + DIMENSIONS.openStringOffset;
           return (
             <g key={`double-inlay-${fretNum}`}>
-              <circle
-                cx={xPos}
-                cy={(stringYPositions[1] + stringYPositions[2]) / 2}
-                r={DIMENSIONS.fretMarkerRadius}
-                fill="#f5f5dc"
-                opacity={0.95}
-                stroke="#ffffff"
-                strokeWidth={DIMENSIONS.fretMarkerStrokeWidth}
-              />
-              <circle
-                cx={xPos}
-                cy={(stringYPositions[3] + stringYPositions[4]) / 2}
-                r={DIMENSIONS.fretMarkerRadius}
-                fill="#f5f5dc"
-                opacity={0.95}
-                stroke="#ffffff"
-                strokeWidth={DIMENSIONS.fretMarkerStrokeWidth}
-              />
+              {getDoubleInlayStringPairs(stringCount).map(([lowerString, upperString]) => (
+                <circle
+                  key={lowerString}
+                  cx={xPos}
+                  cy={(stringYPositions[lowerString] + stringYPositions[upperString]) / 2}
+                  r={DIMENSIONS.fretMarkerRadius}
+                  fill="#f5f5dc"
+                  opacity={0.95}
+                  stroke="#ffffff"
+                  strokeWidth={DIMENSIONS.fretMarkerStrokeWidth}
+                />
+              ))}
             </g>
           );
         })}
 
+        {capoFret > 0 && capoFret <= numFrets && (
+          <CapoBar
+            x1={getRenderedXForFret(capoFret)}
+            y1={stringYPositions[topString] - DIMENSIONS.fretboardMarginTop}
+            x2={getRenderedXForFret(capoFret)}
+            y2={stringYPositions[0] + DIMENSIONS.fretboardMarginBottom}
+            thickness={DIMENSIONS.noteRadius * 1.6}
+          />
+        )}
+
         {showChromaticNotes && allNoteColors.map((noteColor, pc) => {
           const notes: { stringIdx: number; fret: number }[] = [];
-          for (let stringIdx = 0; stringIdx < 6; stringIdx++) {
-            for (let fret = 0; fret <= numFrets; fret++) {
-              const noteAtPos = getNoteAtPosition(stringIdx, fret, selectedKey);
+          for (let stringIdx = 0; stringIdx < stringCount; stringIdx++) {
+            for (let fret = capoFret; fret <= numFrets; fret++) {
+              const noteAtPos = getNoteAtPosition(stringIdx, fret, selectedKey, tuning);
               if (noteAtPos.pitchClass === pc) {
                 notes.push({ stringIdx, fret });
               }
@@ -432,9 +462,9 @@ export default function ScalePatternFretboard({
           );
         })}
 
-        {otherPositionNotes.map((otherNote, idx) => {
+        {otherPositionNotes.filter((otherNote) => isFretPlayableWithCapo(otherNote.fret, capoFret)).map((otherNote, idx) => {
           const { stringIdx, fret } = otherNote;
-          const noteAtPos = getNoteAtPosition(stringIdx, fret, selectedKey);
+          const noteAtPos = getNoteAtPosition(stringIdx, fret, selectedKey, tuning);
           const prefersFlatName = markers.some((marker) => {
             const shouldUseFlat = marker.preferFlatName ?? marker.variant === 'blue-vibe';
             return shouldUseFlat && hasPosition(marker.positions, stringIdx, fret);
@@ -625,8 +655,8 @@ export default function ScalePatternFretboard({
           );
         })}
 
-        {ghostNotes.map((ghostNote, ghostIdx) => {
-          const noteAtPos = getNoteAtPosition(ghostNote.stringIdx, ghostNote.fret, selectedKey);
+        {ghostNotes.filter((ghostNote) => isFretPlayableWithCapo(ghostNote.fret, capoFret)).map((ghostNote, ghostIdx) => {
+          const noteAtPos = getNoteAtPosition(ghostNote.stringIdx, ghostNote.fret, selectedKey, tuning);
           const displayNoteName = ghostNote.preferFlatName
             ? toFlatEnharmonic(noteAtPos.noteName)
             : noteAtPos.noteName;
@@ -740,14 +770,16 @@ export default function ScalePatternFretboard({
           );
         })}
 
-        {patternNotes.map(({ stringIdx, fret }, idx) => {
-          const noteAtPos = getNoteAtPosition(stringIdx, fret, selectedKey);
+        {patternNotes.map(({ stringIdx, fret, finger }, idx) => {
+          const noteAtPos = getNoteAtPosition(stringIdx, fret, selectedKey, tuning);
           const prefersFlatName = markers.some((marker) => {
             const shouldUseFlat = marker.preferFlatName ?? marker.variant === 'blue-vibe';
             return shouldUseFlat && hasPosition(marker.positions, stringIdx, fret);
           });
           const displayNoteName = prefersFlatName ? toFlatEnharmonic(noteAtPos.noteName) : noteAtPos.noteName;
-          const displayLabel = pitchClassLabels?.[noteAtPos.pitchClass] ?? displayNoteName;
+          const displayLabel = finger !== undefined
+            ? String(finger)
+            : pitchClassLabels?.[noteAtPos.pitchClass] ?? displayNoteName;
           const colorData = getNoteColor(displayNoteName);
           const xPos = getRenderedXForFret(fret);
           const yPos = stringYPositions[stringIdx];
@@ -904,6 +936,9 @@ export default function ScalePatternFretboard({
           );
         })}
         </svg>
+        <div className="mt-1 flex justify-end">
+          <DiagramExportButtons svgRef={svgRef} fileName={getTabFileName(title)} />
+        </div>
       </div>
     </div>
   );
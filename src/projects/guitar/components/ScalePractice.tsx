@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import {
   stringIndexToOrdinal,
   STRING_NAMES,
@@ -10,8 +10,22 @@ import {
   getXyzDisplayString,
   planXyzPositions
 } from '@/lib/guitar';
-import { MODES, NOTE_NAMES_SHARP } from '@/lib/guitar/constants';
+import { MODES, NOTE_NAMES_SHARP, STRING_ORDINALS } from '@/lib/guitar/constants';
 import type { Mode } from '@/lib/guitar/types';
+import { startPitchInput } from '@/lib/guitar/mic-input';
+import {
+  EMPTY_PLAY_ALONG_STATS,
+  advancePatternDrill,
+  buildPatternDrill,
+  createNoteOnsetTracker,
+  getAccuracy,
+  getAverageReactionMs,
+  getPlayAlongTarget,
+  getPlayedMidi,
+  recordPlayAlongResult,
+  trackNoteOnset,
+} from '@/lib/guitar/play-along';
+import type { PatternDrillProgress, PlayAlongStatBucket, PlayAlongStats } from '@/lib/guitar/play-along';
 
 interface Challenge {
   mode: string;
@@ -73,6 +87,25 @@ function getAnswer(challenge: Challenge): Answer {
   };
 }
 
+type ListenMode = 'note' | 'pattern';
+
+interface ListenResult {
+  correct: boolean;
+  playedMidi: number;
+  expectedMidi: number;
+  reactionMs: number;
+}
+
+function midiToLabel(midi: number): string {
+  return `${NOTE_NAMES_SHARP[midi % 12]}${Math.floor(midi / 12) - 1}`;
+}
+
+function formatStatBucket(bucket: PlayAlongStatBucket): string {
+  const reactionMs = getAverageReactionMs(bucket);
+  const reaction = reactionMs === null ? '' : ` · ${(reactionMs / 1000).toFixed(1)}s`;
+  return `${Math.round(getAccuracy(bucket) * 100)}% of ${bucket.attempts}${reaction}`;
+}
+
 function getOrdinalSuffix(num: number): string {
   if (num >= 11 && num <= 13) return 'th';
   const lastDigit = num % 10;
@@ -93,6 +126,37 @@ export default function ScalePractice() {
   const [score, setScore] = useState(0);
   const [streak, setStreak] = useState(0);
   const [totalChallenges, setTotalChallenges] = useState(0);
+  const [listening, setListening] = useState(false);
+  const [listenError, setListenError] = useState<string | null>(null);
+  const [listenMode, setListenMode] = useState<ListenMode>('note');
+  const [noteResult, setNoteResult] = useState<ListenResult | null>(null);
+  const [drillProgress, setDrillProgress] = useState<PatternDrillProgress>({ stepIndex: 0, stepStartedAtMs: 0 });
+  const [drillMiss, setDrillMiss] = useState<ListenResult | null>(null);
+  const [listenStats, setListenStats] = useState<PlayAlongStats>(EMPTY_PLAY_ALONG_STATS);
+  const stopInputRef = useRef<(() => void) | null>(null);
+  // Counts stops; a mic that finishes opening after one is closed straight away
+  const inputSessionRef = useRef(0);
+  const onsetTrackerRef = useRef(createNoteOnsetTracker());
+  const challengeStartedAtMsRef = useRef(0);
+  const handleNotePlayedRef = useRef<(midi: number, timeMs: number) => void>(() => {});
+
+  // Where the challenge note should be played, and the 3NPS run through it
+  const listenTargets = useMemo(() => {
+    if (!challenge) return null;
+    const position = findBestPosition(challenge.note, challenge.targetFret, fretboard);
+    return {
+      note: getPlayAlongTarget(position.stringIndex, position.fret),
+      pattern: buildPatternDrill(challenge.mode as Mode, position.stringIndex, position.fret),
+    };
+  }, [challenge]);
+
+  useEffect(
+    () => () => {
+      inputSessionRef.current += 1;
+      stopInputRef.current?.();
+    },
+    []
+  );
 
   useEffect(() => {
     loadNewChallenge();
@@ -116,7 +180,12 @@ export default function ScalePractice() {
       }
 
       const newChallenge = generateChallenge();
+      const now = performance.now();
+      challengeStartedAtMsRef.current = now;
       setChallenge(newChallenge);
+      setNoteResult(null);
+      setDrillProgress({ stepIndex: 0, stepStartedAtMs: now });
+      setDrillMiss(null);
       setAnswer(null);
       setShowKey(false);
       setShowPosition(false);
@@ -155,6 +224,76 @@ export default function ScalePractice() {
     setShowShape(!showShape);
   };
 
+  const handleNotePlayed = (midi: number, timeMs: number) => {
+    if (!challenge || !listenTargets) return;
+
+    if (listenMode === 'note') {
+      if (noteResult) return; // One attempt per challenge
+      const target = listenTargets.note;
+      const result = {
+        stringIndex: target.stringIndex,
+        mode: challenge.mode,
+        correct: midi === target.midi,
+        reactionMs: timeMs - challengeStartedAtMsRef.current,
+      };
+      setListenStats(prev => recordPlayAlongResult(prev, result));
+      setNoteResult({ correct: result.correct, playedMidi: midi, expectedMidi: target.midi, reactionMs: result.reactionMs });
+      return;
+    }
+
+    const expected = listenTargets.pattern[drillProgress.stepIndex];
+    const { progress, result } = advancePatternDrill(drillProgress, listenTargets.pattern, challenge.mode, midi, timeMs);
+    if (!result) return;
+    setListenStats(prev => recordPlayAlongResult(prev, result));
+    setDrillProgress(progress);
+    setDrillMiss(result.correct ? null : { correct: false, playedMidi: midi, expectedMidi: expected.midi, reactionMs: result.reactionMs });
+  };
+
+  // The mic callback is created once; it always calls the latest handler
+  useEffect(() => {
+    handleNotePlayedRef.current = handleNotePlayed;
+  });
+
+  const startListening = async () => {
+    setListenError(null);
+    const session = inputSessionRef.current;
+    try {
+      onsetTrackerRef.current = createNoteOnsetTracker();
+      const stopInput = await startPitchInput((estimate, timeMs) => {
+        const midi = estimate ? getPlayedMidi(estimate.frequency) : null;
+        const { tracker, onsetMidi } = trackNoteOnset(onsetTrackerRef.current, midi);
+        onsetTrackerRef.current = tracker;
+        if (onsetMidi !== null) {
+          handleNotePlayedRef.current(onsetMidi, timeMs);
+        }
+      });
+      if (session !== inputSessionRef.current) {
+        stopInput();
+        return;
+      }
+      stopInputRef.current = stopInput;
+      setListening(true);
+    } catch (e) {
+      setListenError(e instanceof Error ? e.message : 'Could not open the microphone.');
+    }
+  };
+
+  const stopListening = () => {
+    inputSessionRef.current += 1;
+    stopInputRef.current?.();
+    stopInputRef.current = null;
+    setListening(false);
+  };
+
+  const handleListenModeChange = (nextMode: ListenMode) => {
+    const now = performance.now();
+    challengeStartedAtMsRef.current = now;
+    setListenMode(nextMode);
+    setNoteResult(null);
+    setDrillProgress({ stepIndex: 0, stepStartedAtMs: now });
+    setDrillMiss(null);
+  };
+
   const toggleAll = () => {
     if (!answer) loadAnswer();
     const newState = !(showKey && showPosition && showShape);
@@ -293,6 +432,109 @@ export default function ScalePractice() {
           </button>
         </div>
 
+        {/* Play-along listening */}
+        <div className="mb-8 bg-black/30 rounded-xl p-4 sm:p-6 border-2 border-gray-700">
+          <div className="flex flex-wrap gap-3 justify-center items-center">
+            <button
+              onClick={listening ? stopListening : () => void startListening()}
+              className={`px-6 py-3 rounded-xl font-bold transition-all transform hover:scale-105 active:scale-95 shadow-lg border-2 ${
+                listening
+                  ? 'bg-gradient-to-r from-red-500 to-red-700 text-white border-red-300 shadow-red-500/50'
+                  : 'bg-gradient-to-r from-gray-700 to-gray-800 text-gray-200 border-gray-600 hover:border-gray-500'
+              }`}
+            >
+              🎤 {listening ? 'Stop Listening' : 'Listen'}
+            </button>
+            {(['note', 'pattern'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => handleListenModeChange(option)}
+                className={`px-4 py-3 rounded-xl font-bold transition-colors border-2 ${
+                  listenMode === option
+                    ? 'bg-blue-600 text-white border-blue-400'
+                    : 'bg-gray-800 text-gray-300 border-gray-600 hover:border-gray-500'
+                }`}
+              >
+                {option === 'note' ? 'Play the note' : 'Play the whole pattern'}
+              </button>
+            ))}
+          </div>
+
+          {listenError && <p className="mt-3 text-center text-red-300 font-semibold">{listenError}</p>}
+
+          {listening && listenMode === 'note' && (
+            <p className="mt-4 text-center text-lg font-bold">
+              {noteResult === null ? (
+                <span className="text-gray-300">Play {note} near fret {targetFret}…</span>
+              ) : noteResult.correct ? (
+                <span className="text-green-400">
+                  ✅ Correct: {midiToLabel(noteResult.playedMidi)} in {(noteResult.reactionMs / 1000).toFixed(1)}s
+                </span>
+              ) : (
+                <span className="text-red-400">
+                  ❌ Heard {midiToLabel(noteResult.playedMidi)}, expected {midiToLabel(noteResult.expectedMidi)}
+                </span>
+              )}
+            </p>
+          )}
+
+          {listening && listenMode === 'pattern' && listenTargets && (
+            <div className="mt-4">
+              <p className="text-center text-lg font-bold text-gray-300">
+                {drillProgress.stepIndex >= listenTargets.pattern.length
+                  ? '🎉 Pattern complete!'
+                  : `Note ${drillProgress.stepIndex + 1} of ${listenTargets.pattern.length} (low → high)`}
+              </p>
+              {drillMiss && (
+                <p className="text-center text-red-400 font-semibold">
+                  Heard {midiToLabel(drillMiss.playedMidi)}, expected {midiToLabel(drillMiss.expectedMidi)}
+                </p>
+              )}
+              <div className="mt-3 flex flex-wrap justify-center gap-2">
+                {listenTargets.pattern.map((target, idx) => (
+                  <span
+                    key={idx}
+                    className={`rounded-lg px-2 py-1 text-xs font-mono border ${
+                      idx < drillProgress.stepIndex
+                        ? 'bg-green-600/30 text-green-300 border-green-500'
+                        : idx === drillProgress.stepIndex
+                          ? 'bg-yellow-600/30 text-yellow-200 border-yellow-400'
+                          : 'bg-gray-800 text-gray-400 border-gray-700'
+                    }`}
+                  >
+                    {/* Frets stay hidden until played, unless the shape hint is shown */}
+                    {STRING_NAMES[target.stringIndex]}
+                    {idx < drillProgress.stepIndex || showShape ? ` ${target.fret}` : ''}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {(Object.keys(listenStats.byString).length > 0) && (
+            <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+              <div>
+                <p className="text-gray-400 font-semibold uppercase tracking-wide text-xs mb-1">By string</p>
+                {Object.entries(listenStats.byString).map(([stringIndex, bucket]) => (
+                  <div key={stringIndex} className="flex justify-between text-gray-200">
+                    <span>{STRING_ORDINALS[Number(stringIndex)]} ({STRING_NAMES[Number(stringIndex)]})</span>
+                    <span className="font-mono">{formatStatBucket(bucket)}</span>
+                  </div>
+                ))}
+              </div>
+              <div>
+                <p className="text-gray-400 font-semibold uppercase tracking-wide text-xs mb-1">By mode</p>
+                {Object.entries(listenStats.byMode).map(([modeName, bucket]) => (
+                  <div key={modeName} className="flex justify-between text-gray-200">
+                    <span>{modeName}</span>
+                    <span className="font-mono">{formatStatBucket(bucket)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
         {/* Answers */}
         <div className="space-y-4">
           {showKey && answer && (
@@ -0,0 +1,53 @@
+'use client';
+
+import React from 'react';
+import { MIDI_OUTPUT_CHANNELS, useMidiOutputSelection } from '../../../components/useMidiOutputSelection';
+
+/**
+ * Sound output dropdown: the built-in guitar voice or a MIDI port and channel
+ *
+ * MIDI ports are listed when the dropdown is first focused, so the browser
+ * only asks for MIDI access once someone goes looking for a synth.
+ */
+export default function SoundOutputPicker() {
+  const { ports, portId, channel, selectedName, error, loadPorts, selectOutput } = useMidiOutputSelection();
+
+  return (
+    <div className="flex items-center gap-2">
+      <label htmlFor="guitar-sound-output" className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+        Sound
+      </label>
+      <select
+        id="guitar-sound-output"
+        value={portId}
+        onFocus={loadPorts}
+        onChange={(e) => selectOutput(e.target.value, channel)}
+        title={error ?? 'Play through the built-in guitar voice or an external MIDI synth'}
+        className="min-h-[44px] rounded-lg border border-slate-700 bg-slate-800 px-3 text-sm font-semibold text-slate-200"
+      >
+        <option value="">Built-in</option>
+        {/* Keep the selected port listed until the ports have been loaded */}
+        {!ports && portId && <option value={portId}>{selectedName}</option>}
+        {ports?.map((port) => (
+          <option key={port.id} value={port.id}>
+            {port.name || port.id}
+          </option>
+        ))}
+      </select>
+      {portId && (
+        <select
+          aria-label="MIDI channel"
+          value={channel}
+          onChange={(e) => selectOutput(portId, Number(e.target.value))}
+          className="min-h-[44px] rounded-lg border border-slate-700 bg-slate-800 px-3 text-sm font-semibold text-slate-200"
+        >
+          {MIDI_OUTPUT_CHANNELS.map((midiChannel) => (
+            <option key={midiChannel} value={midiChannel}>
+              Ch {midiChannel + 1}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { MUSICXML_MIME_TYPE } from '../lib/musicxml';
+import type { TabStyle } from '../lib/tab';
+
+interface TabExportButtonsProps {
+  getTab: (style: TabStyle) => string; // Built on click, so large tabs cost nothing until asked for
+  getMusicXml?: () => string; // Adds a MusicXML download when given
+  fileName: string; // Without extension
+  className?: string;
+}
+
+function saveFile(content: string, type: string, fileName: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Copy / download buttons for a text tab, with an ASCII or Unicode line style,
+ * and optionally a MusicXML score for MuseScore or Guitar Pro
+ */
+export default function TabExportButtons({ getTab, getMusicXml, fileName, className = '' }: TabExportButtonsProps) {
+  const [style, setStyle] = useState<TabStyle>('ascii');
+  const [copyStatus, setCopyStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+  useEffect(() => {
+    if (copyStatus === 'idle') {
+      return;
+    }
+    const timer = window.setTimeout(() => setCopyStatus('idle'), 1500);
+    return () => window.clearTimeout(timer);
+  }, [copyStatus]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(getTab(style));
+      setCopyStatus('copied');
+    } catch {
+      setCopyStatus('failed');
+    }
+  };
+
+  const handleDownload = () => {
+    saveFile(getTab(style), 'text/plain;charset=utf-8', `${fileName}.txt`);
+  };
+
+  const handleMusicXmlDownload = () => {
+    if (getMusicXml) {
+      saveFile(getMusicXml(), MUSICXML_MIME_TYPE, `${fileName}.musicxml`);
+    }
+  };
+
+  const buttonClass = 'px-3 py-2 min-h-[40px] lg:py-1.5 lg:min-h-0 text-xs font-semibold rounded border bg-slate-800 text-slate-200 border-slate-700 hover:bg-slate-700 transition-colors';
+
+  return (
+    <div className={`inline-flex items-center gap-2 ${className}`}>
+      <span className="text-[11px] font-semibold uppercase tracking-wide text-slate-400">Tab</span>
+      <select
+        aria-label="Tab style"
+        value={style}
+        onChange={(e) => setStyle(e.target.value as TabStyle)}
+        className="min-h-[40px] lg:min-h-0 lg:py-1.5 rounded border border-slate-700 bg-slate-800 px-2 text-xs font-semibold text-slate-200"
+      >
+        <option value="ascii">ASCII</option>
+        <option value="unicode">Unicode</option>
+      </select>
+      <button type="button" onClick={handleCopy} className={buttonClass}>
+        {copyStatus === 'copied' ? 'Copied' : copyStatus === 'failed' ? 'Copy failed' : 'Copy'}
+      </button>
+      <button type="button" onClick={handleDownload} className={buttonClass}>
+        Download
+      </button>
+      {getMusicXml && (
+        <button
+          type="button"
+          onClick={handleMusicXmlDownload}
+          className={buttonClass}
+          title="Score with notation and TAB staves for MuseScore or Guitar Pro"
+        >
+          MusicXML
+        </button>
+      )}
+    </div>
+  );
+}
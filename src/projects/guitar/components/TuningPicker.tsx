@@ -0,0 +1,86 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  TUNING_PRESETS,
+  createCustomTuning,
+  formatTuningSpec,
+  getTuningById,
+  parseTuningSpec,
+} from '../lib/tunings';
+import type { Tuning } from '../lib/tunings';
+
+interface TuningPickerProps {
+  tuning: Tuning;
+  onTuningChange: (tuning: Tuning) => void;
+}
+
+/**
+ * Tuning dropdown with the preset tunings plus a free-text custom tuning
+ * (notes with octaves, low string first, e.g. "D2 A2 D3 G3 B3 E4").
+ */
+export default function TuningPicker({ tuning, onTuningChange }: TuningPickerProps) {
+  const [customSpec, setCustomSpec] = useState(() => formatTuningSpec(tuning));
+  const isCustom = tuning.id === 'custom';
+  const customIsValid = parseTuningSpec(customSpec) !== null;
+
+  // Seed the custom field from whichever tuning is active so edits start from it.
+  useEffect(() => {
+    if (!isCustom) {
+      setCustomSpec(formatTuningSpec(tuning));
+    }
+  }, [tuning, isCustom]);
+
+  const handlePresetChange = (id: string) => {
+    if (id === 'custom') {
+      const midiNotes = parseTuningSpec(customSpec);
+      if (midiNotes) {
+        onTuningChange(createCustomTuning(midiNotes));
+      }
+      return;
+    }
+    onTuningChange(getTuningById(id));
+  };
+
+  const handleCustomSpecChange = (spec: string) => {
+    setCustomSpec(spec);
+    const midiNotes = parseTuningSpec(spec);
+    if (midiNotes) {
+      onTuningChange(createCustomTuning(midiNotes));
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <label htmlFor="guitar-tuning" className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+        Tuning
+      </label>
+      <select
+        id="guitar-tuning"
+        value={tuning.id}
+        onChange={(e) => handlePresetChange(e.target.value)}
+        className="min-h-[44px] rounded-lg border border-slate-700 bg-slate-800 px-3 text-sm font-semibold text-slate-200"
+      >
+        {TUNING_PRESETS.map((preset) => (
+          <option key={preset.id} value={preset.id}>
+            {preset.label}
+          </option>
+        ))}
+        <option value="custom">Custom…</option>
+      </select>
+      {isCustom && (
+        <input
+          type="text"
+          value={customSpec}
+          onChange={(e) => handleCustomSpecChange(e.target.value)}
+          aria-label="Custom tuning notes, low string first"
+          aria-invalid={!customIsValid}
+          placeholder="D2 A2 D3 G3 B3 E4"
+          className={`min-h-[44px] w-56 rounded-lg border bg-slate-800 px-3 text-sm font-mono text-slate-200 ${
+            customIsValid ? 'border-slate-700' : 'border-red-500'
+          }`}
+        />
+      )}
+    </div>
+  );
+}
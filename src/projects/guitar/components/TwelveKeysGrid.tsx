@@ -3,12 +3,16 @@
 import React, { useMemo } from 'react';
 import CompactHorizontalFretboard from './CompactHorizontalFretboard';
 import UnionFretboard from './UnionFretboard';
-import { generateChordData } from '../lib/chords';
+import { formatCapoChordLabel, generateCapoChordData, isFretPlayableWithCapo } from '../lib/capo';
 import { buildChord, getChordName } from '../lib/chord-types';
 import type { ChordType } from '../lib/chord-types';
 import { getCircleOfFifthsOrder } from '../lib/circle-of-fifths';
-import { computeNeighborNotes } from '../lib/triads';
+import { computeNeighborNotes, getTriadStringGroups } from '../lib/triads';
 import type { NoteName } from '../lib/types';
+import { STANDARD_TUNING, getFretCount } from '../lib/tunings';
+import type { Tuning } from '../lib/tunings';
+import { RIGHT_HANDED_ORIENTATION } from '../lib/orientation';
+import type { FretboardOrientation } from '../lib/orientation';
 
 interface TwelveKeysGridProps {
   stringGroup: number;
@@ -16,10 +20,12 @@ interface TwelveKeysGridProps {
   chordType?: ChordType;
   noteOrder?: NoteName[];
   showNeighborhoods?: boolean;
+  tuning?: Tuning;
+  capoFret?: number;
+  fretboardOrientation?: FretboardOrientation;
 }
 
 const DEFAULT_NOTE_ORDER = getCircleOfFifthsOrder('F', 'cw');
-const MAX_FRET = 18;
 
 export default function TwelveKeysGrid({
   stringGroup,
@@ -27,12 +33,18 @@ export default function TwelveKeysGrid({
   chordType = 'major',
   noteOrder = DEFAULT_NOTE_ORDER,
   showNeighborhoods = false,
+  tuning = STANDARD_TUNING,
+  capoFret = 0,
+  fretboardOrientation = RIGHT_HANDED_ORIENTATION,
 }: TwelveKeysGridProps) {
-  const internalGroupIdx = 3 - stringGroup;
+  const stringCount = tuning.openStringMidi.length;
+  // stringGroup 0 is the highest group, as listed in the selector
+  const internalGroupIdx = getTriadStringGroups(stringCount).length - 1 - stringGroup;
+  const maxFret = getFretCount(tuning);
 
   const { cells, fretRange } = useMemo(() => {
     const built = noteOrder.map(root => {
-      const chordData = generateChordData(root, chordType);
+      const chordData = generateCapoChordData(root, chordType, capoFret, tuning);
       const chordPcs = buildChord(root, chordType);
       const triadPcs: [number, number, number] = [
         chordPcs[0],
@@ -45,10 +57,11 @@ export default function TwelveKeysGrid({
         group?.voicings.find(v => v.position === position) ??
         group?.voicings[position] ??
         null;
-      const chordName = getChordName(root, chordType);
+      const chordName = formatCapoChordLabel(getChordName(root, chordType), capoFret);
       const neighbors =
         showNeighborhoods && voicing
-          ? computeNeighborNotes(voicing, chordPcs, root)
+          ? computeNeighborNotes(voicing, chordPcs, root, maxFret, tuning)
+              .filter(n => isFretPlayableWithCapo(n.fret, capoFret))
           : [];
 
       return { root, chordName, triadPcs, voicing, neighbors };
@@ -65,12 +78,12 @@ export default function TwelveKeysGrid({
       end = 5;
     } else {
       start = Math.max(0, Math.min(...allFrets));
-      end = Math.min(MAX_FRET, Math.max(...allFrets));
-      if (end - start < 3) end = Math.min(MAX_FRET, start + 3);
+      end = Math.min(maxFret, Math.max(...allFrets));
+      if (end - start < 3) end = Math.min(maxFret, start + 3);
     }
 
     return { cells: built, fretRange: { start, end } };
-  }, [noteOrder, chordType, internalGroupIdx, position, showNeighborhoods]);
+  }, [noteOrder, chordType, internalGroupIdx, position, showNeighborhoods, tuning, capoFret, maxFret]);
 
   return (
     <div className="w-full space-y-6">
@@ -86,6 +99,8 @@ export default function TwelveKeysGrid({
               triadPcs={cell.triadPcs}
               fretRange={fretRange}
               neighbors={cell.neighbors}
+              stringCount={stringCount}
+              fretboardOrientation={fretboardOrientation}
             />
           ) : (
             <div className="text-xs text-slate-400 py-6 text-center bg-slate-800 rounded w-full">
@@ -98,7 +113,9 @@ export default function TwelveKeysGrid({
     <div className="overflow-x-auto">
       <UnionFretboard
         voicings={cells.map(c => c.voicing)}
-        fretRange={{ start: 0, end: MAX_FRET }}
+        fretRange={{ start: 0, end: maxFret }}
+        stringCount={stringCount}
+        fretboardOrientation={fretboardOrientation}
       />
     </div>
     </div>
@@ -8,11 +8,16 @@ import {
   getFretPosition,
   getNoteYPosition,
   getStringThickness,
+  isWoundString,
 } from '../lib/fretboard-physics';
+import { RIGHT_HANDED_ORIENTATION, orientRectX, orientStringIndex, orientX } from '../lib/orientation';
+import type { FretboardOrientation } from '../lib/orientation';
 
 interface UnionFretboardProps {
   voicings: (TriadVoicing | null)[];
   fretRange: { start: number; end: number };
+  stringCount?: number; // Strings on the instrument (default 6)
+  fretboardOrientation?: FretboardOrientation; // Handedness and string order (default right-handed)
 }
 
 const STRING_SPACING = 22;
@@ -25,13 +30,15 @@ const POSITION_MARKER_FRETS = [3, 5, 7, 9, 15, 17];
 const BRASS_COLOR = '#cd7f32';
 const SILVER_COLOR = '#c0c0c0';
 
-function stringColor(globalStringIdx: number): string {
-  return globalStringIdx <= 3 ? BRASS_COLOR : SILVER_COLOR;
+function stringColor(globalStringIdx: number, stringCount: number): string {
+  return isWoundString(globalStringIdx, stringCount) ? BRASS_COLOR : SILVER_COLOR;
 }
 
 export default function UnionFretboard({
   voicings,
   fretRange,
+  stringCount = 6,
+  fretboardOrientation = RIGHT_HANDED_ORIENTATION,
 }: UnionFretboardProps) {
   const startFret = fretRange.start;
   const endFret = fretRange.end;
@@ -45,28 +52,30 @@ export default function UnionFretboard({
   const fretboardPx = Math.max(160, physDistanceMm * PIXELS_PER_MM);
 
   const width = padLeft + fretboardPx + padRight;
-  const height = PAD_TOP + 5 * STRING_SPACING + PAD_BOTTOM;
+  const topString = stringCount - 1;
+  const height = PAD_TOP + topString * STRING_SPACING + PAD_BOTTOM;
 
   const fretRelativePositions = calculateFretYPositions(
     startFret,
     numCells,
     fretboardPx,
   );
-  const fretX = (i: number) => padLeft + fretRelativePositions[i];
+  const orientedX = (x: number) => orientX(x, width, fretboardOrientation);
+  const fretX = (i: number) => orientedX(padLeft + fretRelativePositions[i]);
 
   const notePositionX = (fret: number) => {
-    if (fret === 0) return padLeft - 10;
-    return padLeft + getNoteYPosition(fret, fretRelativePositions, startFret);
+    if (fret === 0) return orientedX(padLeft - 10);
+    return orientedX(padLeft + getNoteYPosition(fret, fretRelativePositions, startFret));
   };
 
   const stringY = (globalStringIdx: number) =>
-    PAD_TOP + (5 - globalStringIdx) * STRING_SPACING;
+    PAD_TOP + (topString - orientStringIndex(globalStringIdx, stringCount, fretboardOrientation)) * STRING_SPACING;
 
   const woodLeft = includesOpen ? padLeft : padLeft - 2;
   const woodWidth = width - woodLeft - padRight;
-  const woodTop = stringY(5) - 6;
-  const woodBottom = stringY(0) + 6;
-  const middleY = (stringY(0) + stringY(5)) / 2;
+  const woodTop = PAD_TOP - 6;
+  const woodBottom = PAD_TOP + topString * STRING_SPACING + 6;
+  const middleY = (stringY(0) + stringY(topString)) / 2;
 
   const uniqueNotes = useMemo(() => {
     const map = new Map<
@@ -98,7 +107,7 @@ export default function UnionFretboard({
       className="w-full min-w-[640px] lg:min-w-0 h-auto rounded-sm"
     >
       <rect
-        x={woodLeft}
+        x={orientRectX(woodLeft, woodWidth, width, fretboardOrientation)}
         y={woodTop}
         width={woodWidth}
         height={woodBottom - woodTop}
@@ -108,8 +117,7 @@ export default function UnionFretboard({
 
       {POSITION_MARKER_FRETS.map(fret => {
         if (fret <= startFret || fret > endFret) return null;
-        const cx =
-          padLeft + getNoteYPosition(fret, fretRelativePositions, startFret);
+        const cx = notePositionX(fret);
         return (
           <circle
             key={fret}
@@ -127,8 +135,8 @@ export default function UnionFretboard({
       {12 > startFret && 12 <= endFret && (
         <g>
           <circle
-            cx={padLeft + getNoteYPosition(12, fretRelativePositions, startFret)}
-            cy={(stringY(5) + stringY(3)) / 2}
+            cx={notePositionX(12)}
+            cy={(stringY(topString) + stringY(topString - 2)) / 2}
             r={4}
             fill="#f5f5dc"
             opacity={0.9}
@@ -136,7 +144,7 @@ export default function UnionFretboard({
             strokeWidth={0.5}
           />
           <circle
-            cx={padLeft + getNoteYPosition(12, fretRelativePositions, startFret)}
+            cx={notePositionX(12)}
             cy={(stringY(2) + stringY(0)) / 2}
             r={4}
             fill="#f5f5dc"
@@ -163,16 +171,16 @@ export default function UnionFretboard({
         );
       })}
 
-      {[0, 1, 2, 3, 4, 5].map(globalStringIdx => {
+      {Array.from({ length: stringCount }, (_, globalStringIdx) => {
         const y = stringY(globalStringIdx);
-        const thickness = getStringThickness(globalStringIdx, 0.6);
-        const color = stringColor(globalStringIdx);
+        const thickness = getStringThickness(globalStringIdx, 0.6, stringCount);
+        const color = stringColor(globalStringIdx, stringCount);
         return (
           <line
             key={globalStringIdx}
-            x1={includesOpen ? padLeft - 10 : padLeft}
+            x1={orientedX(includesOpen ? padLeft - 10 : padLeft)}
             y1={y}
-            x2={width - padRight}
+            x2={orientedX(width - padRight)}
             y2={y}
             stroke={color}
             strokeWidth={thickness}
@@ -211,8 +219,7 @@ export default function UnionFretboard({
 
       {Array.from({ length: numCells }).map((_, i) => {
         const fret = startFret + 1 + i;
-        const cx =
-          padLeft + getNoteYPosition(fret, fretRelativePositions, startFret);
+        const cx = notePositionX(fret);
         return (
           <text
             key={fret}
@@ -10,15 +10,17 @@ export interface VoicingSlot {
 interface VoicingPositionSelectorProps {
   selected: VoicingSlot;
   onChange: (slot: VoicingSlot) => void;
+  stringGroupCount?: number; // One row per string group (4 on a six-string)
 }
 
 export default function VoicingPositionSelector({
   selected,
   onChange,
+  stringGroupCount = 4,
 }: VoicingPositionSelectorProps) {
   return (
     <div className="inline-grid grid-cols-4 gap-1.5 lg:gap-1 p-1 rounded-md border border-slate-700 bg-slate-800">
-      {[0, 1, 2, 3].map(stringGroup =>
+      {Array.from({ length: stringGroupCount }, (_, stringGroup) =>
         [0, 1, 2, 3].map(position => {
           const isSelected =
             selected.stringGroup === stringGroup &&
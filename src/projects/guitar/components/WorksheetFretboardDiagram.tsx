@@ -0,0 +1,127 @@
+'use client';
+
+import React from 'react';
+import type { WorksheetFretboard } from '../lib/worksheets';
+
+interface WorksheetFretboardDiagramProps {
+  fretboard: WorksheetFretboard;
+}
+
+// Print layout (viewBox units): even fret spacing reads better on paper than the neck's real taper
+const FRET_WIDTH = 34;
+const STRING_GAP = 15;
+const OPEN_WIDTH = 22;
+const MARGIN_X = 10;
+const MARGIN_TOP = 8;
+const MARGIN_BOTTOM = 16;
+const DOT_RADIUS = 6.5;
+const MARKER_FRETS = new Set([3, 5, 7, 9, 12, 15, 17, 19, 21, 24]);
+
+/**
+ * Black-on-white fretboard for printed worksheets: highest string on top,
+ * roots filled, other notes outlined, with fret numbers below
+ */
+export default function WorksheetFretboardDiagram({ fretboard }: WorksheetFretboardDiagramProps) {
+  const { firstFret, lastFret, stringCount, dots, overlays = [] } = fretboard;
+  const showsNut = firstFret === 0;
+  // Wire at the left edge of the window (the nut when it starts at the open strings)
+  const leftWire = showsNut ? 0 : firstFret - 1;
+  const cellCount = lastFret - leftWire;
+  const boardLeft = MARGIN_X + (showsNut ? OPEN_WIDTH : 0);
+  const width = boardLeft + cellCount * FRET_WIDTH + MARGIN_X;
+  const boardHeight = (stringCount - 1) * STRING_GAP;
+  const height = MARGIN_TOP + boardHeight + MARGIN_BOTTOM;
+
+  const wireX = (wire: number) => boardLeft + (wire - leftWire) * FRET_WIDTH;
+  const fretX = (fret: number) => (fret === 0 ? boardLeft - OPEN_WIDTH / 2 : wireX(fret) - FRET_WIDTH / 2);
+  // String positions can be fractional for shape outlines
+  const stringY = (stringPosition: number) => MARGIN_TOP + (stringCount - 1 - stringPosition) * STRING_GAP;
+
+  // Low strings heavier, as on the neck
+  const getStringWidth = (stringIdx: number) => 0.6 + (stringCount - 1 - stringIdx) * 0.15;
+
+  const frets = Array.from({ length: cellCount }, (_, i) => leftWire + i + 1);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label={fretboard.title}>
+      {/* Fret wires, with a heavy nut when the open strings are shown */}
+      {Array.from({ length: cellCount + 1 }, (_, i) => leftWire + i).map((wire) => (
+        <line
+          key={`wire-${wire}`}
+          x1={wireX(wire)}
+          y1={stringY(stringCount - 1)}
+          x2={wireX(wire)}
+          y2={stringY(0)}
+          stroke="#111827"
+          strokeWidth={wire === 0 ? 4 : 1}
+        />
+      ))}
+
+      {Array.from({ length: stringCount }, (_, stringIdx) => (
+        <line
+          key={`string-${stringIdx}`}
+          x1={showsNut ? boardLeft - OPEN_WIDTH + 4 : boardLeft}
+          y1={stringY(stringIdx)}
+          x2={wireX(lastFret)}
+          y2={stringY(stringIdx)}
+          stroke="#374151"
+          strokeWidth={getStringWidth(stringIdx)}
+        />
+      ))}
+
+      {frets
+        .filter((fret, i) => MARKER_FRETS.has(fret) || (i === 0 && !showsNut))
+        .map((fret) => (
+          <text
+            key={`fret-number-${fret}`}
+            x={fretX(fret)}
+            y={height - 4}
+            fill="#4b5563"
+            fontSize="9"
+            textAnchor="middle"
+            fontFamily="ui-sans-serif, system-ui, sans-serif"
+          >
+            {fret}
+          </text>
+        ))}
+
+      {overlays.map((overlay) => (
+        <polygon
+          key={`overlay-${overlay.id}`}
+          points={overlay.points.map(([stringPosition, fret]) => `${fretX(fret)},${stringY(stringPosition)}`).join(' ')}
+          fill="none"
+          stroke={overlay.stroke}
+          strokeWidth={1.5}
+          strokeDasharray={overlay.dashArray}
+          strokeLinejoin="round"
+          opacity={0.8}
+        />
+      ))}
+
+      {dots.map((dot) => (
+        <g key={`dot-${dot.stringIdx}-${dot.fret}`}>
+          <circle
+            cx={fretX(dot.fret)}
+            cy={stringY(dot.stringIdx)}
+            r={DOT_RADIUS}
+            fill={dot.isRoot ? '#111827' : '#ffffff'}
+            stroke="#111827"
+            strokeWidth={1.2}
+          />
+          <text
+            x={fretX(dot.fret)}
+            y={stringY(dot.stringIdx)}
+            fill={dot.isRoot ? '#ffffff' : '#111827'}
+            fontSize={dot.label.length > 2 ? 5.5 : 7}
+            fontWeight="bold"
+            textAnchor="middle"
+            dominantBaseline="central"
+            fontFamily="ui-sans-serif, system-ui, sans-serif"
+          >
+            {dot.label}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
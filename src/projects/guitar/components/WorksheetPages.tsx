@@ -0,0 +1,112 @@
+'use client';
+
+import React from 'react';
+import { WORKSHEET_PAGE_SIZES } from '../lib/worksheets';
+import type { Worksheet, WorksheetPageSize, WorksheetSection } from '../lib/worksheets';
+import WorksheetFretboardDiagram from './WorksheetFretboardDiagram';
+
+interface WorksheetPagesProps {
+  worksheet: Worksheet;
+  pageSize: WorksheetPageSize;
+}
+
+const PAGE_MARGIN_MM = 12;
+
+function WorksheetSectionBlock({ section }: { section: WorksheetSection }) {
+  return (
+    <section className="mb-6 break-inside-avoid">
+      <h2 className="text-base font-bold text-gray-900">{section.title}</h2>
+      {section.subtitle && <p className="mb-2 text-xs text-gray-600">{section.subtitle}</p>}
+
+      <div className="grid gap-x-4 gap-y-3" style={{ gridTemplateColumns: `repeat(${section.columns}, minmax(0, 1fr))` }}>
+        {section.fretboards.map((fretboard, index) => (
+          <figure key={`${fretboard.title}-${index}`} className="break-inside-avoid">
+            <figcaption className="mb-0.5 flex items-baseline justify-between text-[11px] text-gray-800">
+              <span className="font-semibold">{fretboard.title}</span>
+              {fretboard.caption && <span className="text-gray-500">{fretboard.caption}</span>}
+            </figcaption>
+            <WorksheetFretboardDiagram fretboard={fretboard} />
+          </figure>
+        ))}
+      </div>
+
+      {section.notes && (
+        <table className="mt-3 w-full border-collapse text-xs text-gray-900">
+          <tbody>
+            {section.notes.map((row) => (
+              <tr key={row.label} className="border-b border-gray-300">
+                <th className="w-24 py-1 pr-2 text-left font-semibold">{row.label}</th>
+                <td className="py-1">{row.notes.join('  ')}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {section.blanks !== undefined && section.blanks > 0 && (
+        <ol className="mt-4 grid grid-cols-4 gap-x-6 gap-y-3 text-xs text-gray-900">
+          {Array.from({ length: section.blanks }, (_, i) => (
+            <li key={i} className="flex items-end gap-1">
+              <span className="w-5 text-right">{i + 1}.</span>
+              <span className="flex-1 border-b border-gray-400">&nbsp;</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {section.answers && (
+        <ol className="mt-4 grid grid-cols-6 gap-x-4 gap-y-1 text-xs text-gray-900">
+          {section.answers.map((answer) => (
+            <li key={answer}>{answer}</li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
+
+/**
+ * Worksheet pages on white paper, one sheet per page when printed
+ *
+ * On screen the pages preview at their paper size; in print everything else on
+ * the site is hidden and each page breaks onto its own sheet.
+ */
+export default function WorksheetPages({ worksheet, pageSize }: WorksheetPagesProps) {
+  const size = WORKSHEET_PAGE_SIZES[pageSize];
+
+  return (
+    <div className="worksheet-print flex flex-col items-center gap-6">
+      <style>{`
+        @page { size: ${size.cssSize}; margin: ${PAGE_MARGIN_MM}mm; }
+        @media print {
+          body * { visibility: hidden; }
+          .worksheet-print, .worksheet-print * { visibility: visible; }
+          .worksheet-print { position: absolute; left: 0; top: 0; width: 100%; gap: 0; }
+          .worksheet-page { box-shadow: none !important; width: auto !important; min-height: 0 !important; padding: 0 !important; }
+          .worksheet-page:not(:last-child) { break-after: page; }
+        }
+      `}</style>
+      {worksheet.pages.map((page, pageIndex) => (
+        <article
+          key={pageIndex}
+          className="worksheet-page bg-white shadow-lg"
+          style={{
+            width: `${size.widthMm}mm`,
+            minHeight: `${size.heightMm}mm`,
+            padding: `${PAGE_MARGIN_MM}mm`,
+          }}
+        >
+          <header className="mb-4 flex items-baseline justify-between border-b-2 border-gray-900 pb-1">
+            <h1 className="text-lg font-bold text-gray-900">{worksheet.title}</h1>
+            <span className="text-xs text-gray-500">
+              Page {pageIndex + 1} of {worksheet.pages.length}
+            </span>
+          </header>
+          {page.sections.map((section, sectionIndex) => (
+            <WorksheetSectionBlock key={`${section.title}-${sectionIndex}`} section={section} />
+          ))}
+        </article>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { getMajorKeyOptions, getRelativeMinorKeyFromMajor } from '../lib/box-shapes';
+import { getPracticeProgressions } from '../lib/progression-recommendations';
+import {
+  WORKSHEET_PAGE_SIZES,
+  buildCheatSheetWorksheet,
+  buildNoteQuizWorksheet,
+  buildPentatonicWorksheet,
+  buildTriadWorksheet,
+} from '../lib/worksheets';
+import type { WorksheetKind, WorksheetPageSize } from '../lib/worksheets';
+import { STANDARD_TUNING } from '../lib/tunings';
+import type { Tuning } from '../lib/tunings';
+import WorksheetPages from './WorksheetPages';
+
+interface WorksheetsProps {
+  selectedMajorKey: string;
+  onSelectedMajorKeyChange: (key: string) => void;
+  tuning?: Tuning;
+}
+
+const WORKSHEET_KINDS: Array<{ value: WorksheetKind; label: string }> = [
+  { value: 'triads', label: 'Triad positions' },
+  { value: 'pentatonic', label: 'Pentatonic boxes' },
+  { value: 'cheat-sheet', label: 'Progression cheat sheet' },
+  { value: 'note-quiz', label: 'Name-the-note quiz' },
+];
+
+const selectClass = 'min-h-[44px] rounded-lg border border-slate-700 bg-slate-800 px-3 text-sm font-semibold text-slate-200';
+const labelClass = 'text-xs font-semibold uppercase tracking-wide text-slate-400';
+
+/**
+ * Worksheet builder: pick a sheet, preview its pages, and print or save as PDF
+ */
+export default function Worksheets({ selectedMajorKey, onSelectedMajorKeyChange, tuning = STANDARD_TUNING }: WorksheetsProps) {
+  const [kind, setKind] = useState<WorksheetKind>('triads');
+  const [pageSize, setPageSize] = useState<WorksheetPageSize>('letter');
+  const [progressionId, setProgressionId] = useState<string | null>(null);
+  const [quizSeed, setQuizSeed] = useState(1);
+
+  const progressions = useMemo(
+    () => getPracticeProgressions({
+      tonalCenterMode: 'major',
+      scaleFamily: 'pentatonic',
+      majorCenterKey: selectedMajorKey,
+      minorCenterKey: getRelativeMinorKeyFromMajor(selectedMajorKey),
+      hexatonicMode: 'off',
+      visibleTargetIntervals: [],
+    }),
+    [selectedMajorKey]
+  );
+  const progression = progressions.find((candidate) => candidate.id === progressionId) ?? progressions[0];
+
+  const worksheet = useMemo(() => {
+    switch (kind) {
+      case 'triads':
+        return buildTriadWorksheet(selectedMajorKey, tuning);
+      case 'pentatonic':
+        return buildPentatonicWorksheet(selectedMajorKey, tuning);
+      case 'cheat-sheet':
+        return progression ? buildCheatSheetWorksheet(progression, tuning) : null;
+      case 'note-quiz':
+        return buildNoteQuizWorksheet({ seed: quizSeed, tuning });
+    }
+  }, [kind, selectedMajorKey, tuning, progression, quizSeed]);
+
+  return (
+    <div className="bg-slate-900 px-4 py-6">
+      <div className="mx-auto mb-6 flex max-w-[1100px] flex-wrap items-center justify-center gap-3 print:hidden">
+        <label className="flex items-center gap-2">
+          <span className={labelClass}>Sheet</span>
+          <select value={kind} onChange={(e) => setKind(e.target.value as WorksheetKind)} className={selectClass}>
+            {WORKSHEET_KINDS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {kind !== 'note-quiz' && (
+          <label className="flex items-center gap-2">
+            <span className={labelClass}>Key</span>
+            <select value={selectedMajorKey} onChange={(e) => onSelectedMajorKeyChange(e.target.value)} className={selectClass}>
+              {getMajorKeyOptions().map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {kind === 'cheat-sheet' && progression && (
+          <label className="flex items-center gap-2">
+            <span className={labelClass}>Progression</span>
+            <select value={progression.id} onChange={(e) => setProgressionId(e.target.value)} className={selectClass}>
+              {progressions.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.title} ({option.chordNames})
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {kind === 'note-quiz' && (
+          <button
+            type="button"
+            onClick={() => setQuizSeed((seed) => seed + 1)}
+            className="min-h-[44px] rounded-lg border border-slate-700 bg-slate-800 px-4 text-sm font-semibold text-slate-200 hover:bg-slate-700"
+          >
+            New quiz (#{quizSeed})
+          </button>
+        )}
+
+        <label className="flex items-center gap-2">
+          <span className={labelClass}>Paper</span>
+          <select value={pageSize} onChange={(e) => setPageSize(e.target.value as WorksheetPageSize)} className={selectClass}>
+            {(Object.keys(WORKSHEET_PAGE_SIZES) as WorksheetPageSize[]).map((size) => (
+              <option key={size} value={size}>
+                {WORKSHEET_PAGE_SIZES[size].label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <button
+          type="button"
+          onClick={() => window.print()}
+          disabled={!worksheet}
+          title="Print, or choose Save as PDF in the print dialog"
+          className="min-h-[44px] rounded-lg border border-blue-500 bg-blue-600 px-4 text-sm font-semibold text-white hover:bg-blue-500"
+        >
+          Print / Save PDF
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        {worksheet ? (
+          <WorksheetPages worksheet={worksheet} pageSize={pageSize} />
+        ) : (
+          <p className="text-center text-sm text-slate-400">No progressions for this key.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+/**
+ * Arpeggios - Every chord tone of a chord, position by position up the neck
+ *
+ * Each of the five positions takes the fret window of a pentatonic box (the
+ * minor pentatonic on the chord's root for chords with a minor 3rd, the major
+ * pentatonic otherwise), placed as low on the neck as it goes, and holds every
+ * chord tone in it over two octaves or more. A tone that no string reaches
+ * inside the window is taken one fret outside it, as a stretch, so the
+ * arpeggio has no gaps. Where a pitch falls on two strings it is played once,
+ * on the higher string, so the run climbs string by string. Each position also
+ * names the major scale box it lines up with.
+ */
+
+import { CHORD_FORMULAS, buildChord, getChordName, getChordNotes } from './chord-types';
+import type { ChordType } from './chord-types';
+import {
+  generateBoxShapePatterns,
+  getRelativeMajorKeyFromMinor,
+  getRelativeMinorKeyFromMajor,
+  shiftBoxShapePattern,
+} from './box-shapes';
+import type { BoxShapePattern } from './box-shapes';
+import type { BoxRunDirection } from './tab';
+import type { NoteName } from './types';
+import { STANDARD_TUNING, getFretCount, getTuningPitchClasses } from './tunings';
+import type { Tuning } from './tunings';
+
+export interface ArpeggioNote {
+  stringIdx: number;
+  fret: number;
+  midi: number;
+  degree: string; // Chord degree, e.g. "b7"
+}
+
+export interface ArpeggioPosition {
+  positionNumber: number; // Number of the pentatonic box the position follows
+  windowStart: number; // Fret window of the pentatonic box; stretches reach one fret past either end
+  windowEnd: number;
+  notes: ArpeggioNote[]; // Lowest first, one per pitch
+  pattern: number[][]; // Frets per string, low string first, as in BoxShapePattern.pattern
+  rootPositions: [number, number][];
+  pentatonicBox: BoxShapePattern;
+  majorBox: BoxShapePattern | null; // Major scale box (or its octave copy) overlapping the window most
+}
+
+export interface ArpeggioData {
+  key: NoteName;
+  chordType: ChordType;
+  chordName: string;
+  chordNotes: string[]; // Spelled in chord order, e.g. ["C", "E", "G", "Bb"]
+  degrees: string[]; // ["1", "3", "5", "b7"]
+  positions: ArpeggioPosition[]; // Five positions, lowest on the neck first
+}
+
+// Frets a stretch reaches outside the box window
+const STRETCH_FRETS = 1;
+
+/**
+ * The major box (or its octave copy) sharing the most frets with a window
+ */
+function findMajorBox(
+  windowStart: number,
+  windowEnd: number,
+  boxes: BoxShapePattern[],
+  fretCount: number
+): BoxShapePattern | null {
+  const windowCenter = (windowStart + windowEnd) / 2;
+  const candidates = boxes
+    .flatMap((box) => [-12, 0, 12].map((shift) => shiftBoxShapePattern(box, shift, fretCount)))
+    .filter((box) => box.pattern.flat().length > 0);
+
+  let best: { box: BoxShapePattern; overlap: number; distance: number } | null = null;
+  for (const box of candidates) {
+    const overlap = Math.min(windowEnd, box.windowEnd) - Math.max(windowStart, box.windowStart);
+    const distance = Math.abs((box.windowStart + box.windowEnd) / 2 - windowCenter);
+    if (!best || overlap > best.overlap || (overlap === best.overlap && distance < best.distance)) {
+      best = { box, overlap, distance };
+    }
+  }
+  return best?.box ?? null;
+}
+
+/**
+ * Chord tones in and around a window, one per pitch, climbing string by string
+ */
+function collectArpeggioNotes(
+  windowStart: number,
+  windowEnd: number,
+  degreeByPc: Map<number, string>,
+  tuning: Tuning,
+  fretCount: number
+): ArpeggioNote[] {
+  const tuningPcs = getTuningPitchClasses(tuning);
+  const candidates: Array<{ note: ArpeggioNote; inWindow: boolean }> = [];
+  tuningPcs.forEach((openPc, stringIdx) => {
+    const low = Math.max(0, windowStart - STRETCH_FRETS);
+    const high = Math.min(fretCount, windowEnd + STRETCH_FRETS);
+    for (let fret = low; fret <= high; fret++) {
+      const degree = degreeByPc.get((openPc + fret) % 12);
+      if (degree) {
+        candidates.push({
+          note: { stringIdx, fret, midi: tuning.openStringMidi[stringIdx] + fret, degree },
+          inWindow: fret >= windowStart && fret <= windowEnd,
+        });
+      }
+    }
+  });
+
+  // Notes inside the window first, then higher strings; a note is kept only
+  // if its pitch is new and it doesn't cross a note kept on another string
+  candidates.sort((a, b) => Number(b.inWindow) - Number(a.inWindow) || b.note.stringIdx - a.note.stringIdx);
+  const kept: ArpeggioNote[] = [];
+  candidates.forEach(({ note }) => {
+    const clashes = kept.some(
+      (other) =>
+        other.midi === note.midi ||
+        (other.stringIdx < note.stringIdx && other.midi > note.midi) ||
+        (other.stringIdx > note.stringIdx && other.midi < note.midi)
+    );
+    if (!clashes) {
+      kept.push(note);
+    }
+  });
+  return kept.sort((a, b) => a.midi - b.midi);
+}
+
+/**
+ * Arpeggio fingerings of a chord in each of the five positions
+ * @param key Root of the chord
+ * @param chordType Any chord type, from triads to altered 13ths
+ * @param tuning Tuning, optionally with a fret count (default 18 frets)
+ */
+export function generateArpeggioData(
+  key: NoteName,
+  chordType: ChordType,
+  tuning: Tuning = STANDARD_TUNING
+): ArpeggioData {
+  const formula = CHORD_FORMULAS[chordType];
+  const degrees = formula.description.split('-');
+  const chordPcs = buildChord(key, chordType);
+  const degreeByPc = new Map(chordPcs.map((pc, i) => [pc, degrees[i]]));
+  const fretCount = getFretCount(tuning);
+
+  // Minor-3rd chords sit in the root's minor pentatonic and its relative major
+  const hasMinorThird = formula.intervals.includes(3);
+  const pentatonicRoot = hasMinorThird ? key : getRelativeMinorKeyFromMajor(key);
+  const majorRoot = hasMinorThird ? getRelativeMajorKeyFromMinor(key) : key;
+  const pentatonicBoxes = generateBoxShapePatterns(pentatonicRoot, 'pentatonic', { tuning });
+  const majorBoxes = generateBoxShapePatterns(majorRoot, 'major', { tuning });
+
+  // Boxes from the 12th fret up repeat ones an octave lower
+  const positions = pentatonicBoxes.map((generatedBox): ArpeggioPosition => {
+    const box = generatedBox.windowStart >= 12 ? shiftBoxShapePattern(generatedBox, -12, fretCount) : generatedBox;
+    const notes = collectArpeggioNotes(box.windowStart, box.windowEnd, degreeByPc, tuning, fretCount);
+    return {
+      positionNumber: box.shapeNumber,
+      windowStart: box.windowStart,
+      windowEnd: box.windowEnd,
+      notes,
+      pattern: tuning.openStringMidi.map((_, stringIdx) =>
+        notes.filter((note) => note.stringIdx === stringIdx).map((note) => note.fret)
+      ),
+      rootPositions: notes
+        .filter((note) => note.degree === '1')
+        .map((note): [number, number] => [note.stringIdx, note.fret]),
+      pentatonicBox: box,
+      majorBox: findMajorBox(box.windowStart, box.windowEnd, majorBoxes, fretCount),
+    };
+  });
+
+  return {
+    key,
+    chordType,
+    chordName: getChordName(key, chordType),
+    chordNotes: getChordNotes(key, chordType),
+    degrees,
+    positions: positions.sort((a, b) => a.windowStart - b.windowStart),
+  };
+}
+
+/**
+ * The notes of a position in playing order
+ *
+ * The descending half starts below the top note, so 'both' plays the peak once.
+ */
+export function getArpeggioRun(position: ArpeggioPosition, direction: BoxRunDirection = 'both'): ArpeggioNote[] {
+  if (direction === 'ascending') {
+    return position.notes;
+  }
+  const descending = [...position.notes].reverse();
+  return direction === 'descending' ? descending : [...position.notes, ...descending.slice(1)];
+}
@@ -0,0 +1,159 @@
+/**
+ * Backing track - chord voicings and timing for progression playback and MIDI export
+ */
+
+import { getChordPitchClassesFromSymbol, parseChordSequence } from './looper-sync';
+import type { PracticeProgression } from './progression-recommendations';
+import { DEFAULT_TICKS_PER_QUARTER, writeMidiFile } from '@/utils/midi-file';
+import type { MidiNoteEvent } from '@/utils/midi-file';
+import { playSequence } from '@/utils/note-output';
+
+export const BACKING_TRACK_DEFAULT_BPM = 84;
+export const BACKING_TRACK_BEATS_PER_CHORD = 4;
+const NOTE_NAME_TO_PITCH_CLASS: Record<string, number> = {
+  C: 0,
+  'C#': 1,
+  Db: 1,
+  D: 2,
+  'D#': 3,
+  Eb: 3,
+  E: 4,
+  F: 5,
+  'F#': 6,
+  Gb: 6,
+  G: 7,
+  'G#': 8,
+  Ab: 8,
+  A: 9,
+  'A#': 10,
+  Bb: 10,
+  B: 11,
+  Cb: 11,
+};
+
+/**
+ * Length of one chord of the backing track (tempo clamped to 40-220 BPM)
+ */
+export function getBackingTrackChordDurationMs(bpm: number): number {
+  return (60_000 / clampBackingTrackBpm(bpm)) * BACKING_TRACK_BEATS_PER_CHORD;
+}
+
+function clampBackingTrackBpm(bpm: number): number {
+  return Math.min(220, Math.max(40, bpm));
+}
+
+function getChordRootPitchClass(chordSymbol: string): number | null {
+  const rootMatch = chordSymbol.match(/^([A-G](?:#|b)?)/);
+  if (!rootMatch) {
+    return null;
+  }
+  return NOTE_NAME_TO_PITCH_CLASS[rootMatch[1]] ?? null;
+}
+
+/**
+ * Close voicing of a chord symbol in a comfortable register (roughly G2-D5),
+ * root first with each tone above the last
+ * @returns MIDI notes, or an empty array when the symbol is not a chord
+ */
+export function buildChordMidiVoicing(chordSymbol: string | null | undefined): number[] {
+  if (typeof chordSymbol !== 'string') {
+    return [];
+  }
+
+  const chordPitchClasses = [...new Set(getChordPitchClassesFromSymbol(chordSymbol))];
+  if (chordPitchClasses.length === 0) {
+    return [];
+  }
+
+  const rootPitchClass = getChordRootPitchClass(chordSymbol);
+  const orderedPitchClasses = [...chordPitchClasses].sort((left, right) => {
+    if (rootPitchClass === null) {
+      return left - right;
+    }
+    return ((left - rootPitchClass + 12) % 12) - ((right - rootPitchClass + 12) % 12);
+  });
+
+  const rootBaseMidi = rootPitchClass === null ? 45 : 48 + rootPitchClass;
+  let previousMidi = 40;
+
+  return orderedPitchClasses.map((pitchClass, idx) => {
+    let midi = rootBaseMidi + (rootPitchClass === null
+      ? pitchClass
+      : ((pitchClass - rootPitchClass + 12) % 12));
+
+    while (idx > 0 && midi <= previousMidi) {
+      midi += 12;
+    }
+
+    while (midi < 43) {
+      midi += 12;
+    }
+    while (midi > 74) {
+      midi -= 12;
+    }
+
+    previousMidi = midi;
+    return midi;
+  });
+}
+
+/**
+ * Play a backing track round and round, one chord per bar, until stopped
+ *
+ * Chords are stepped through playSequence, timed from the start, so a long
+ * practice loop stays on the beat.
+ * @param chordSymbols - One pass of the progression, e.g. from parseChordSequence
+ * @param bpm - Tempo, clamped like getBackingTrackChordDurationMs
+ * @param playChord - Sounds one chord for the given length
+ * @param shouldContinue - Checked before each chord; return false to stop
+ * @param startChordIndex - Chord to start on, e.g. when resuming (default 0)
+ * @returns Resolves once stopped
+ */
+export async function playBackingTrack(
+  chordSymbols: string[],
+  bpm: number,
+  playChord: (chordSymbol: string, chordDurationMs: number) => void,
+  shouldContinue: () => boolean,
+  startChordIndex: number = 0
+): Promise<void> {
+  if (chordSymbols.length === 0) {
+    return;
+  }
+
+  const chordDurationMs = getBackingTrackChordDurationMs(bpm);
+  await playSequence(
+    Number.POSITIVE_INFINITY,
+    chordDurationMs / 1000,
+    (step) => playChord(chordSymbols[(startChordIndex + step) % chordSymbols.length], chordDurationMs),
+    shouldContinue
+  );
+}
+
+/**
+ * Standard MIDI File of a progression's backing track, one chord per bar
+ *
+ * Chords use the same voicings as the in-app backing track and last the whole
+ * bar. Symbols that are not chords leave the bar empty.
+ * @param bpm - Tempo, clamped like playback
+ * @param format - 0 for a single track, 1 for a tempo track plus a chord track (default 1)
+ */
+export function buildProgressionMidiFile(
+  progression: Pick<PracticeProgression, 'title' | 'chordNames'>,
+  bpm: number = BACKING_TRACK_DEFAULT_BPM,
+  format: 0 | 1 = 1
+): Uint8Array {
+  const ticksPerChord = DEFAULT_TICKS_PER_QUARTER * BACKING_TRACK_BEATS_PER_CHORD;
+  const notes: MidiNoteEvent[] = parseChordSequence(progression.chordNames).flatMap((chordSymbol, chordIndex) =>
+    buildChordMidiVoicing(chordSymbol).map((midi) => ({
+      midi,
+      startTick: chordIndex * ticksPerChord,
+      durationTicks: ticksPerChord,
+    }))
+  );
+
+  return writeMidiFile([{ name: 'Chords', notes }], {
+    bpm: clampBackingTrackBpm(bpm),
+    format,
+    name: progression.title,
+  });
+}
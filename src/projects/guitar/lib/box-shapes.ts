@@ -1,7 +1,20 @@
-export type BoxScaleFamily = 'major' | 'pentatonic' | 'blues';
+import { generateAllModePatterns, generateScale3NPSPatterns } from './modes';
+import type { ModePattern } from './modes';
+import { SCALE_FORMULA_CATALOG, findScaleFormulaByIntervals } from './theory-catalog';
+import type { ScaleFormulaId } from './theory-catalog';
+import { STANDARD_TUNING, getFretCount, getTuningPitchClasses, withFretCount } from './tunings';
+import type { Tuning } from './tunings';
+
+export type BoxScaleFamily = 'major' | '3nps' | 'pentatonic' | 'blues' | 'scales';
+
+// How the 'scales' family fingers a scale: four-fret positions or three notes per string
+export type ScaleFingering = 'position' | '3nps';
 
 export interface BoxShapeOptions {
   includeExperimentalBluesShape?: boolean;
+  tuning?: Tuning; // Defaults to standard tuning; its fret count (default 24) caps the boxes
+  scaleId?: ScaleFormulaId; // Catalog scale for the 'scales' family (default harmonic minor)
+  scaleFingering?: ScaleFingering; // Default 'position'
 }
 
 export interface BoxShapePattern {
@@ -27,7 +40,6 @@ export interface BoxScaleFamilyOption {
   description: string;
 }
 
-const STANDARD_TUNING_PCS = [4, 9, 2, 7, 11, 4]; // E A D G B E
 const MAX_FRET = 24;
 const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
 const MAJOR_BOX_SHIFT = 2;
@@ -73,11 +85,15 @@ const MAJOR_MODE_NAMES = [
 ] as const;
 
 const MAJOR_INTERVALS = [0, 2, 4, 5, 7, 9, 11];
-// Box -> string index that is 2NPS for major modes
-// String indexes: 0=low E, 1=A, 2=D, 3=G, 4=B, 5=high E
-const MAJOR_2NPS_STRING_INDEX_BY_BOX = [4, 3, 3, 4, 4, 4, 4];
+// Box -> preferred 2NPS string for major modes, counted from the first string
+// tuned less than a fourth above its neighbour (B in standard tuning, so
+// boxes 2 and 3 prefer the G string)
+const MAJOR_2NPS_STRING_OFFSET_BY_BOX = [0, -1, -1, 0, 0, 0, 0];
+const PERFECT_FOURTH = 5;
 const PENTATONIC_INTERVALS = [0, 3, 5, 7, 10]; // Minor pentatonic
 const BLUES_INTERVALS = [0, 3, 5, 6, 7, 10]; // Minor blues (adds b5)
+const MAJOR_BLUE_NOTE_INTERVAL = 3; // b3 of the major key, the relative minor's b5
+const DEFAULT_CATALOG_SCALE: ScaleFormulaId = 'harmonicMinor';
 
 export function getPitchClass(noteName: string): number {
   const normalized = noteName.replace('♯', '#').replace('♭', 'b');
@@ -154,90 +170,75 @@ export function getRelativeMajorKeyFromMinor(minorKey: string): string {
   return normalizeMajorKeyName(getNoteName((getPitchClass(normalizedMinor) + 3) % 12));
 }
 
-function pitchClassAtPosition(stringIndex: number, fret: number): number {
-  return (STANDARD_TUNING_PCS[stringIndex] + fret) % 12;
+function pitchClassAtPosition(tuningPcs: number[], stringIndex: number, fret: number): number {
+  return (tuningPcs[stringIndex] + fret) % 12;
 }
 
-function nextScalePitchClass(
+/**
+ * The next scale notes on a string, carrying on from the last note of the
+ * string below. The run starts on the pitch the scale reaches next, so the
+ * box stays in one octave whatever the interval between the two strings.
+ * Frets can land off the neck; the caller moves the box by an octave.
+ */
+function continueScaleRunOnString(
+  openStringMidi: number[],
+  stringIndex: number,
+  previousStringFret: number,
   rootPitchClass: number,
   scaleIntervals: number[],
-  currentPitchClass: number
-): number {
-  const interval = (currentPitchClass - rootPitchClass + 12) % 12;
-  const intervalIndex = scaleIntervals.indexOf(interval);
-  if (intervalIndex === -1) {
-    return (currentPitchClass + 2) % 12;
-  }
-
-  return (rootPitchClass + scaleIntervals[(intervalIndex + 1) % scaleIntervals.length]) % 12;
-}
-
-function findFretsForPitchClassOnString(
-  stringIndex: number,
-  targetPitchClass: number
+  noteCount: number
 ): number[] {
   const frets: number[] = [];
-  for (let fret = 0; fret <= MAX_FRET; fret++) {
-    if (pitchClassAtPosition(stringIndex, fret) === targetPitchClass) {
-      frets.push(fret);
+  let midi = openStringMidi[stringIndex - 1] + previousStringFret;
+  while (frets.length < noteCount) {
+    midi++;
+    if (scaleIntervals.includes((midi - rootPitchClass + 120) % 12)) {
+      frets.push(midi - openStringMidi[stringIndex]);
     }
   }
   return frets;
 }
 
-function canBuildScaleRunFromStart(
-  stringIndex: number,
+/**
+ * A major box built up from its lowest string: three notes per string except
+ * one 2NPS string, which is whichever keeps the box tightest on this tuning's
+ * string intervals. Ties go to the string nearest `preferredTwoNpsString`.
+ */
+function buildMajorBoxRuns(
+  openStringMidi: number[],
+  lowStringFrets: number[],
   rootPitchClass: number,
-  scaleIntervals: number[],
-  startFret: number,
-  noteCount: number
-): boolean {
-  let fret = startFret;
-  for (let i = 1; i < noteCount; i++) {
-    const next = nextScaleFretOnString(stringIndex, rootPitchClass, scaleIntervals, fret);
-    if (next <= fret) {
-      return false;
+  preferredTwoNpsString: number
+): number[][] {
+  let best: { pattern: number[][]; span: number; distance: number } | null = null;
+
+  for (let twoNpsString = 1; twoNpsString < openStringMidi.length; twoNpsString++) {
+    const pattern = [lowStringFrets];
+    for (let stringIndex = 1; stringIndex < openStringMidi.length; stringIndex++) {
+      const previousStringFrets = pattern[stringIndex - 1];
+      pattern.push(continueScaleRunOnString(
+        openStringMidi,
+        stringIndex,
+        previousStringFrets[previousStringFrets.length - 1],
+        rootPitchClass,
+        MAJOR_INTERVALS,
+        stringIndex === twoNpsString ? 2 : 3
+      ));
     }
-    fret = next;
-  }
-  return true;
-}
 
-function chooseRunStartFretForPitchClass(
-  stringIndex: number,
-  targetPitchClass: number,
-  localStart: number,
-  localEnd: number,
-  rootPitchClass: number,
-  scaleIntervals: number[],
-  desiredNotes: number
-): number {
-  const allFrets = findFretsForPitchClassOnString(stringIndex, targetPitchClass);
-  const belowWindow = allFrets
-    .filter((fret) => fret < localStart)
-    .sort((a, b) => b - a);
-  const orderedCandidates = [
-    ...allFrets.filter((fret) => fret >= localStart && fret <= localEnd),
-    ...allFrets.filter((fret) => fret > localEnd),
-    ...belowWindow,
-  ];
-
-  for (const candidate of orderedCandidates) {
-    if (canBuildScaleRunFromStart(
-      stringIndex,
-      rootPitchClass,
-      scaleIntervals,
-      candidate,
-      desiredNotes
-    )) {
-      return candidate;
+    const frets = pattern.flat();
+    const span = Math.max(...frets) - Math.min(...frets);
+    const distance = Math.abs(twoNpsString - preferredTwoNpsString);
+    if (!best || span < best.span || (span === best.span && distance < best.distance)) {
+      best = { pattern, span, distance };
     }
   }
 
-  return orderedCandidates[0] ?? localStart;
+  return best?.pattern ?? [lowStringFrets];
 }
 
 function selectBlueCandidatesForBox(
+  tuningPcs: number[],
   basePattern: number[][],
   windowStart: number,
   windowEnd: number,
@@ -245,11 +246,11 @@ function selectBlueCandidatesForBox(
 ): { stringIndex: number; fret: number; score: number }[] {
   const candidates: { stringIndex: number; fret: number; score: number }[] = [];
 
-  for (let stringIndex = 0; stringIndex < 6; stringIndex++) {
+  for (let stringIndex = 0; stringIndex < tuningPcs.length; stringIndex++) {
     const stringFrets = [...basePattern[stringIndex]].sort((a, b) => a - b);
     const low = stringFrets[0];
     const high = stringFrets[stringFrets.length - 1];
-    const blueFrets = collectScaleFretsForString(stringIndex, rootPitchClass, [6], 0, MAX_FRET);
+    const blueFrets = collectScaleFretsForString(tuningPcs, stringIndex, rootPitchClass, [6], 0, MAX_FRET);
 
     if (blueFrets.length === 0) {
       continue;
@@ -279,11 +280,128 @@ function selectBlueCandidatesForBox(
   return candidates.sort((a, b) => a.score - b.score || a.stringIndex - b.stringIndex);
 }
 
-function rootFretOnLowE(rootPitchClass: number): number {
-  return (rootPitchClass - STANDARD_TUNING_PCS[0] + 12) % 12;
+/**
+ * Blue notes passing between the notes of each string's run in a 3NPS shape.
+ * They stay out of the pattern itself, which keeps three notes per string.
+ */
+function getPassingBlueNotePositions(
+  tuningPcs: number[],
+  pattern: number[][],
+  rootPitchClass: number
+): [number, number][] {
+  return pattern.flatMap((frets, stringIndex) => {
+    if (frets.length === 0) {
+      return [];
+    }
+    return collectScaleFretsForString(
+      tuningPcs,
+      stringIndex,
+      rootPitchClass,
+      [MAJOR_BLUE_NOTE_INTERVAL],
+      Math.min(...frets),
+      Math.max(...frets)
+    ).map((fret): [number, number] => [stringIndex, fret]);
+  });
+}
+
+/**
+ * One four-fret position of a scale, starting on a given degree on the lowest string.
+ *
+ * Each string carries on from the scale tone after the previous string's last
+ * note, taking tones up to the top of the position. The first tone of a string
+ * may sit a fret below the position (an index-finger stretch), so no tone is
+ * skipped or repeated across strings. Scales of six or more notes get a
+ * fifth fret so each string holds about three of them.
+ */
+function buildScalePositionPattern(
+  tuningPcs: number[],
+  scalePcs: number[],
+  startDegree: number
+): number[][] {
+  const positionEnd = scalePcs.length >= 6 ? 4 : 3;
+  const startFret = (scalePcs[startDegree] - tuningPcs[0] + 12) % 12;
+  const lastFret = startFret + positionEnd;
+  const fretAtOrAbove = (stringIndex: number, pitchClass: number, minFret: number) =>
+    minFret + ((((pitchClass - tuningPcs[stringIndex] - minFret) % 12) + 12) % 12);
+  const pattern: number[][] = [];
+  let degree = startDegree;
+
+  for (let stringIndex = 0; stringIndex < tuningPcs.length; stringIndex++) {
+    const frets = [fretAtOrAbove(stringIndex, scalePcs[degree], Math.max(0, startFret - 1))];
+    degree = (degree + 1) % scalePcs.length;
+
+    let next = fretAtOrAbove(stringIndex, scalePcs[degree], frets[0] + 1);
+    while (next <= lastFret) {
+      frets.push(next);
+      degree = (degree + 1) % scalePcs.length;
+      next = fretAtOrAbove(stringIndex, scalePcs[degree], next + 1);
+    }
+
+    pattern.push(frets);
+  }
+
+  return pattern;
+}
+
+/**
+ * Boxes for a catalog scale, one starting on each degree, named for the scale that degree spells
+ */
+function buildCatalogScaleShapes(
+  tuningPcs: number[],
+  keyRoot: string,
+  scaleId: ScaleFormulaId,
+  scaleFingering: ScaleFingering,
+  tuning: Tuning
+): BoxShapePattern[] {
+  const scale = SCALE_FORMULA_CATALOG[scaleId];
+  const rootPitchClass = getPitchClass(keyRoot);
+  const scalePcs = scale.intervals.map((interval) => (rootPitchClass + interval) % 12);
+  const threeNotesPerString = scaleFingering === '3nps';
+  const modePatterns: Omit<ModePattern, 'rootPositions'>[] = threeNotesPerString
+    ? generateScale3NPSPatterns(keyRoot, scaleId, tuning)
+    : scalePcs.map((degreeRootPc, degree) => {
+        const degreeScale = findScaleFormulaByIntervals(scalePcs.map((pc) => pc - degreeRootPc));
+        const rootNote = getNoteName(degreeRootPc);
+        return {
+          mode: degreeScale ? `${rootNote} ${degreeScale.name}` : `${keyRoot} ${scale.name}`,
+          modeName: degreeScale?.name ?? scale.name,
+          rootNote,
+          rootPitchClass: degreeRootPc,
+          pattern: buildScalePositionPattern(tuningPcs, scalePcs, degree),
+        };
+      });
+
+  return modePatterns.map((modePattern, index): BoxShapePattern => {
+    const allFrets = modePattern.pattern.flat();
+    return recalculateShapeDerivedFields(
+      tuningPcs,
+      {
+        id: `scales-${scaleId}-${index + 1}`,
+        family: 'scales',
+        shapeNumber: index + 1,
+        label: `${modePattern.mode}${threeNotesPerString ? ' 3NPS' : ''} (Box ${index + 1})`,
+        keyRoot,
+        shapeRootNote: modePattern.rootNote,
+        shapeRootPitchClass: modePattern.rootPitchClass,
+        modeName: modePattern.modeName,
+        intervals: scale.intervals,
+        windowStart: Math.min(...allFrets),
+        windowEnd: Math.max(...allFrets),
+        pattern: modePattern.pattern,
+        rootPositions: [],
+        blueNotePositions: [],
+      },
+      rootPitchClass
+    );
+  });
+}
+
+function rootFretOnLowE(tuningPcs: number[], rootPitchClass: number): number {
+  return (rootPitchClass - tuningPcs[0] + 12) % 12;
 }
 
 function collectScaleFretsForString(
+  tuningPcs: number[],
   stringIndex: number,
   rootPitchClass: number,
   scaleIntervals: number[],
@@ -294,7 +412,7 @@ function collectScaleFretsForString(
   const frets: number[] = [];
 
   for (let fret = minFret; fret <= maxFret; fret++) {
-    const pc = pitchClassAtPosition(stringIndex, fret);
+    const pc = pitchClassAtPosition(tuningPcs, stringIndex, fret);
     const interval = (pc - rootPitchClass + 12) % 12;
     if (scaleIntervalSet.has(interval)) {
       frets.push(fret);
@@ -305,6 +423,7 @@ function collectScaleFretsForString(
 }
 
 function nextScaleFretOnString(
+  tuningPcs: number[],
   stringIndex: number,
   rootPitchClass: number,
   scaleIntervals: number[],
@@ -313,7 +432,7 @@ function nextScaleFretOnString(
   const scaleIntervalSet = new Set(scaleIntervals);
 
   for (let fret = fromFret + 1; fret <= MAX_FRET; fret++) {
-    const pc = pitchClassAtPosition(stringIndex, fret);
+    const pc = pitchClassAtPosition(tuningPcs, stringIndex, fret);
     const interval = (pc - rootPitchClass + 12) % 12;
     if (scaleIntervalSet.has(interval)) {
       return fret;
@@ -321,6 +440,7 @@ function nextScaleFretOnString(
   }
 
   const nearest = findNearestScaleFrets(
+    tuningPcs,
     stringIndex,
     rootPitchClass,
     scaleIntervals,
@@ -332,6 +452,7 @@ function nextScaleFretOnString(
 }
 
 function findNearestScaleFrets(
+  tuningPcs: number[],
   stringIndex: number,
   rootPitchClass: number,
   scaleIntervals: number[],
@@ -339,6 +460,7 @@ function findNearestScaleFrets(
   desiredCount: number
 ): number[] {
   const allScaleFrets = collectScaleFretsForString(
+    tuningPcs,
     stringIndex,
     rootPitchClass,
     scaleIntervals,
@@ -401,6 +523,7 @@ function chooseFretsForDisplay(frets: number[], maxNotes: number): number[] {
 }
 
 function selectFretsForString(
+  tuningPcs: number[],
   stringIndex: number,
   rootPitchClass: number,
   scaleIntervals: number[],
@@ -409,6 +532,7 @@ function selectFretsForString(
   desiredCount: number
 ): number[] {
   const inWindow = collectScaleFretsForString(
+    tuningPcs,
     stringIndex,
     rootPitchClass,
     scaleIntervals,
@@ -424,6 +548,7 @@ function selectFretsForString(
 
   // If the local window does not provide enough notes, fill from nearest valid frets.
   const nearest = findNearestScaleFrets(
+    tuningPcs,
     stringIndex,
     rootPitchClass,
     scaleIntervals,
@@ -465,47 +590,8 @@ function pickBlueFretForString(
     .fret;
 }
 
-function selectLowestFretsForString(
-  stringIndex: number,
-  rootPitchClass: number,
-  scaleIntervals: number[],
-  localStart: number,
-  localEnd: number,
-  desiredCount: number
-): number[] {
-  const inWindow = collectScaleFretsForString(
-    stringIndex,
-    rootPitchClass,
-    scaleIntervals,
-    localStart,
-    localEnd
-  );
-
-  const result = [...new Set(inWindow)].sort((a, b) => a - b);
-
-  if (result.length < desiredCount) {
-    const nearest = findNearestScaleFrets(
-      stringIndex,
-      rootPitchClass,
-      scaleIntervals,
-      Math.round((localStart + localEnd) / 2),
-      Math.max(desiredCount * 3, desiredCount)
-    );
-
-    for (const fret of nearest) {
-      if (!result.includes(fret)) {
-        result.push(fret);
-      }
-      if (result.length >= desiredCount) {
-        break;
-      }
-    }
-  }
-
-  return result.sort((a, b) => a - b).slice(0, desiredCount);
-}
-
 function buildShapePattern(
+  tuningPcs: number[],
   family: BoxScaleFamily,
   keyRoot: string,
   rootPitchClass: number,
@@ -514,10 +600,9 @@ function buildShapePattern(
   scaleIntervals: number[],
   notesPerString: number,
   windowWidth: number,
-  modeName?: string,
-  perStringNoteCounts?: number[]
+  modeName?: string
 ): BoxShapePattern {
-  const lowERootFret = rootFretOnLowE(rootPitchClass);
+  const lowERootFret = rootFretOnLowE(tuningPcs, rootPitchClass);
   const windowStart = family === 'major'
     ? lowERootFret + ((shapeNumber - 1) * MAJOR_BOX_SHIFT)
     : lowERootFret + shapeAnchor;
@@ -532,15 +617,15 @@ function buildShapePattern(
   const rootPositions: [number, number][] = [];
   const blueNotePositions: [number, number][] = [];
 
-  for (let stringIndex = 0; stringIndex < 6; stringIndex++) {
+  for (let stringIndex = 0; stringIndex < tuningPcs.length; stringIndex++) {
     const localStart = Math.max(0, windowStart);
     const localEnd = Math.min(MAX_FRET, windowEnd);
 
-    const desiredNotes = perStringNoteCounts?.[stringIndex] ?? notesPerString;
     let displayFrets: number[] = [];
 
     if (family === 'blues') {
       const pentatonicFrets = selectFretsForString(
+        tuningPcs,
         stringIndex,
         rootPitchClass,
         PENTATONIC_INTERVALS,
@@ -549,6 +634,7 @@ function buildShapePattern(
         2
       );
       const blueFrets = collectScaleFretsForString(
+        tuningPcs,
         stringIndex,
         rootPitchClass,
         [6],
@@ -564,38 +650,30 @@ function buildShapePattern(
       }
     } else if (family === 'pentatonic') {
       displayFrets = selectFretsForString(
+        tuningPcs,
         stringIndex,
         rootPitchClass,
         scaleIntervals,
         localStart,
         localEnd,
-        desiredNotes
-      );
-    } else if (family === 'major' && desiredNotes === 2) {
-      // Major box exception strings are explicitly 2NPS and use the lower pair.
-      displayFrets = selectLowestFretsForString(
-        stringIndex,
-        rootPitchClass,
-        scaleIntervals,
-        localStart,
-        localEnd,
-        2
+        notesPerString
       );
     } else {
       displayFrets = selectFretsForString(
+        tuningPcs,
         stringIndex,
         rootPitchClass,
         scaleIntervals,
         localStart,
         localEnd,
-        desiredNotes
+        notesPerString
       );
     }
 
     pattern.push(displayFrets);
 
     displayFrets.forEach((fret) => {
-      const pitchClass = pitchClassAtPosition(stringIndex, fret);
+      const pitchClass = pitchClassAtPosition(tuningPcs, stringIndex, fret);
       if (pitchClass === shapeRootPitchClass) {
         rootPositions.push([stringIndex, fret]);
       }
@@ -634,6 +712,7 @@ function buildShapePattern(
 }
 
 function recalculateShapeDerivedFields(
+  tuningPcs: number[],
   shape: BoxShapePattern,
   rootPitchClass: number,
   preserveWindow = false
@@ -644,7 +723,7 @@ function recalculateShapeDerivedFields(
 
   shape.pattern.forEach((frets, stringIndex) => {
     frets.forEach((fret) => {
-      const pitchClass = pitchClassAtPosition(stringIndex, fret);
+      const pitchClass = pitchClassAtPosition(tuningPcs, stringIndex, fret);
       if (pitchClass === shape.shapeRootPitchClass) {
         rootPositions.push([stringIndex, fret]);
       }
@@ -663,10 +742,54 @@ function recalculateShapeDerivedFields(
     windowStart: preserveWindow ? shape.windowStart : (allFrets.length ? Math.min(...allFrets) : shape.windowStart),
     windowEnd: preserveWindow ? shape.windowEnd : (allFrets.length ? Math.max(...allFrets) : shape.windowEnd),
     rootPositions,
-    blueNotePositions,
+    blueNotePositions: shape.family === '3nps'
+      ? getPassingBlueNotePositions(tuningPcs, shape.pattern, rootPitchClass)
+      : blueNotePositions,
   };
 }
 
+/**
+ * Keep a shape on an instrument with fewer frets than the search range:
+ * shapes entirely past the 12th fret drop an octave, and anything still
+ * beyond the last fret is left out.
+ */
+function fitShapeToFretCount(
+  tuningPcs: number[],
+  shape: BoxShapePattern,
+  rootPitchClass: number,
+  fretCount: number,
+  preserveWindow = false
+): BoxShapePattern {
+  const allFrets = shape.pattern.flat();
+  if (!allFrets.length || Math.max(...allFrets) <= fretCount) {
+    return shape;
+  }
+
+  const octaveShift = Math.min(...allFrets) >= 12 ? 12 : 0;
+  const pattern = shape.pattern.map((frets) =>
+    frets.map((fret) => fret - octaveShift).filter((fret) => fret <= fretCount)
+  );
+
+  return recalculateShapeDerivedFields(
+    tuningPcs,
+    {
+      ...shape,
+      windowStart: shape.windowStart - octaveShift,
+      windowEnd: Math.min(fretCount, shape.windowEnd - octaveShift),
+      pattern,
+    },
+    rootPitchClass,
+    preserveWindow
+  );
+}
+
+/**
+ * Families laid out as the seven modes of a major key, rather than minor pentatonic boxes
+ */
+export function isModalBoxFamily(family: BoxScaleFamily): boolean {
+  return family === 'major' || family === '3nps';
+}
+
 export function getBoxScaleFamilyOptions(): BoxScaleFamilyOption[] {
   return [
     {
@@ -674,6 +797,11 @@ export function getBoxScaleFamilyOptions(): BoxScaleFamilyOption[] {
       label: 'Major (7 modes)',
       description: 'Seven modal boxes: Ionian through Locrian',
     },
+    {
+      value: '3nps',
+      label: '3NPS (7 modes)',
+      description: 'Seven three-notes-per-string modal patterns with passing blue notes',
+    },
     {
       value: 'pentatonic',
       label: 'Minor Pentatonic (5 boxes)',
@@ -684,19 +812,27 @@ export function getBoxScaleFamilyOptions(): BoxScaleFamilyOption[] {
       label: 'Blues (5 boxes)',
       description: 'Minor pentatonic with blue-note targets',
     },
+    {
+      value: 'scales',
+      label: 'Scale catalog',
+      description: 'Harmonic minor, melodic minor, harmonic major and their modes, plus symmetric scales',
+    },
   ];
 }
 
 export function getDisplayOrderedBoxPatterns(
   patterns: BoxShapePattern[],
   family: BoxScaleFamily,
-  preferredStartShapeNumber?: number
+  preferredStartShapeNumber?: number,
+  tuning: Tuning = STANDARD_TUNING
 ): BoxShapePattern[] {
   if (patterns.length === 0) {
     return patterns;
   }
 
-  if (family !== 'major') {
+  const tuningPcs = getTuningPitchClasses(tuning);
+
+  if (family === 'pentatonic' || family === 'blues') {
     const byShapeNumber = new Map(patterns.map((pattern) => [pattern.shapeNumber, pattern]));
     const defaultCandidateOrders = patterns.length >= 6
       ? [
@@ -748,6 +884,7 @@ export function getDisplayOrderedBoxPatterns(
       }
 
       return recalculateShapeDerivedFields(
+        tuningPcs,
         {
           ...shape,
           pattern: transposedPattern,
@@ -811,22 +948,45 @@ export function getDisplayOrderedBoxPatterns(
   );
 }
 
+/**
+ * A box moved by an octave, dropping any notes that fall off the neck
+ */
+export function shiftBoxShapePattern(box: BoxShapePattern, semitones: number, fretCount: number): BoxShapePattern {
+  const onNeck = (fret: number) => fret >= 0 && fret <= fretCount;
+  const shiftPositions = (positions: [number, number][]) =>
+    positions
+      .map(([stringIdx, fret]): [number, number] => [stringIdx, fret + semitones])
+      .filter(([, fret]) => onNeck(fret));
+  return {
+    ...box,
+    windowStart: Math.max(0, box.windowStart + semitones),
+    windowEnd: Math.min(fretCount, box.windowEnd + semitones),
+    pattern: box.pattern.map((frets) => frets.map((fret) => fret + semitones).filter(onNeck)),
+    rootPositions: shiftPositions(box.rootPositions),
+    blueNotePositions: shiftPositions(box.blueNotePositions),
+  };
+}
+
 export function generateBoxShapePatterns(
   keyRoot: string,
   family: BoxScaleFamily,
   options: BoxShapeOptions = {}
 ): BoxShapePattern[] {
   const rootPitchClass = getPitchClass(keyRoot);
+  const tuning = options.tuning ?? STANDARD_TUNING;
+  const tuningPcs = getTuningPitchClasses(tuning);
+  const fretCount = getFretCount(tuning, MAX_FRET);
+  const lastStringIndex = tuningPcs.length - 1;
 
   if (family === 'major') {
-    const majorPerStringNoteCounts = MAJOR_INTERVALS.map((_, index) => {
-      const noteCounts = [3, 3, 3, 3, 3, 3];
-      noteCounts[MAJOR_2NPS_STRING_INDEX_BY_BOX[index]] = 2;
-      return noteCounts;
-    });
+    const narrowStringIndex = tuning.openStringMidi.findIndex(
+      (midi, stringIndex) => stringIndex > 0 && midi - tuning.openStringMidi[stringIndex - 1] < PERFECT_FOURTH
+    );
+    const twoNpsReferenceString = narrowStringIndex === -1 ? lastStringIndex : narrowStringIndex;
 
     const boxes = MAJOR_INTERVALS.map((shapeAnchor, index) =>
       buildShapePattern(
+        tuningPcs,
         'major',
         keyRoot,
         rootPitchClass,
@@ -835,8 +995,7 @@ export function generateBoxShapePatterns(
         MAJOR_INTERVALS,
         3,
         5,
-        MAJOR_MODE_NAMES[index],
-        majorPerStringNoteCounts[index]
+        MAJOR_MODE_NAMES[index]
       )
     );
 
@@ -847,8 +1006,8 @@ export function generateBoxShapePatterns(
       const prevFrets = [...previous.pattern[0]].sort((a, b) => a - b);
       const carryForward = prevFrets.slice(Math.max(0, prevFrets.length - 2));
       const first = carryForward[0] ?? prevFrets[0] ?? current.pattern[0][0];
-      const second = carryForward[1] ?? nextScaleFretOnString(0, rootPitchClass, MAJOR_INTERVALS, first);
-      const third = nextScaleFretOnString(0, rootPitchClass, MAJOR_INTERVALS, second);
+      const second = carryForward[1] ?? nextScaleFretOnString(tuningPcs, 0, rootPitchClass, MAJOR_INTERVALS, first);
+      const third = nextScaleFretOnString(tuningPcs, 0, rootPitchClass, MAJOR_INTERVALS, second);
       current.pattern[0] = [first, second, third];
     }
 
@@ -856,54 +1015,80 @@ export function generateBoxShapePatterns(
     // after the last note of the previous (lower) string.
     for (let boxIndex = 0; boxIndex < boxes.length; boxIndex++) {
       const current = boxes[boxIndex];
-      const localStart = Math.max(0, current.windowStart);
-      const localEnd = Math.min(MAX_FRET, current.windowEnd);
-
-      for (let stringIndex = 1; stringIndex < 6; stringIndex++) {
-        const desiredNotes = majorPerStringNoteCounts[boxIndex][stringIndex];
-        const previousStringFrets = current.pattern[stringIndex - 1];
-        const previousLastFret = previousStringFrets[previousStringFrets.length - 1];
-        const previousLastPc = pitchClassAtPosition(stringIndex - 1, previousLastFret);
-        const startPitchClass = nextScalePitchClass(rootPitchClass, MAJOR_INTERVALS, previousLastPc);
-        const firstFret = chooseRunStartFretForPitchClass(
-          stringIndex,
-          startPitchClass,
-          localStart,
-          localEnd,
-          rootPitchClass,
-          MAJOR_INTERVALS,
-          desiredNotes
-        );
-
-        const frets = [firstFret];
-        while (frets.length < desiredNotes) {
-          const next = nextScaleFretOnString(
-            stringIndex,
-            rootPitchClass,
-            MAJOR_INTERVALS,
-            frets[frets.length - 1]
-          );
-          if (frets.includes(next)) {
-            break;
-          }
-          frets.push(next);
-        }
+      current.pattern = buildMajorBoxRuns(
+        tuning.openStringMidi,
+        current.pattern[0],
+        rootPitchClass,
+        twoNpsReferenceString + MAJOR_2NPS_STRING_OFFSET_BY_BOX[boxIndex]
+      );
 
-        current.pattern[stringIndex] = frets.slice(0, desiredNotes);
+      // E strings share the same fret map in standard tuning for these box views.
+      // Other tunings only mirror when the outer strings are tuned to the same note.
+      if (tuningPcs[lastStringIndex] === tuningPcs[0]) {
+        current.pattern[lastStringIndex] = [...current.pattern[0]];
       }
 
-      // E strings share the same fret map in standard tuning for these box views.
-      current.pattern[5] = [...current.pattern[0]];
+      // Runs that cross the nut or the last fret move the whole box by an octave.
+      const boxFrets = current.pattern.flat();
+      const octaveShift = Math.min(...boxFrets) < 0 ? 12 : Math.max(...boxFrets) > MAX_FRET ? -12 : 0;
+      if (octaveShift !== 0) {
+        current.pattern = current.pattern.map((frets) => frets.map((fret) => fret + octaveShift));
+        current.windowStart += octaveShift;
+        current.windowEnd += octaveShift;
+      }
 
-      boxes[boxIndex] = recalculateShapeDerivedFields(current, rootPitchClass, true);
+      boxes[boxIndex] = recalculateShapeDerivedFields(tuningPcs, current, rootPitchClass, true);
     }
 
-    return boxes.map((shape) => recalculateShapeDerivedFields(shape, rootPitchClass, true));
+    return boxes.map((shape) =>
+      fitShapeToFretCount(
+        tuningPcs,
+        recalculateShapeDerivedFields(tuningPcs, shape, rootPitchClass, true),
+        rootPitchClass,
+        fretCount,
+        true
+      )
+    );
+  }
+
+  if (family === 'scales') {
+    return buildCatalogScaleShapes(
+      tuningPcs,
+      keyRoot,
+      options.scaleId ?? DEFAULT_CATALOG_SCALE,
+      options.scaleFingering ?? 'position',
+      withFretCount(tuning, fretCount)
+    ).map((shape) => fitShapeToFretCount(tuningPcs, shape, rootPitchClass, fretCount));
+  }
+
+  if (family === '3nps') {
+    const boxes = generateAllModePatterns(keyRoot, withFretCount(tuning, fretCount)).map((modePattern, index): BoxShapePattern => {
+      const allFrets = modePattern.pattern.flat();
+      return {
+        id: `3nps-${index + 1}`,
+        family: '3nps',
+        shapeNumber: index + 1,
+        label: `${modePattern.rootNote} ${modePattern.modeName} 3NPS (Box ${index + 1})`,
+        keyRoot,
+        shapeRootNote: modePattern.rootNote,
+        shapeRootPitchClass: modePattern.rootPitchClass,
+        modeName: modePattern.modeName,
+        intervals: MAJOR_INTERVALS,
+        windowStart: Math.min(...allFrets),
+        windowEnd: Math.max(...allFrets),
+        pattern: modePattern.pattern,
+        rootPositions: modePattern.rootPositions,
+        blueNotePositions: getPassingBlueNotePositions(tuningPcs, modePattern.pattern, rootPitchClass),
+      };
+    });
+
+    return boxes.map((shape) => fitShapeToFretCount(tuningPcs, shape, rootPitchClass, fretCount));
   }
 
   if (family === 'pentatonic') {
     const boxes = PENTATONIC_INTERVALS.map((shapeAnchor, index) =>
       buildShapePattern(
+        tuningPcs,
         'pentatonic',
         keyRoot,
         rootPitchClass,
@@ -921,9 +1106,10 @@ export function generateBoxShapePatterns(
       const previous = boxes[boxIndex - 1];
       const current = boxes[boxIndex];
 
-      for (let stringIndex = 0; stringIndex < 6; stringIndex++) {
+      for (let stringIndex = 0; stringIndex < tuningPcs.length; stringIndex++) {
         const prevSecond = previous.pattern[stringIndex][1];
         const next = nextScaleFretOnString(
+          tuningPcs,
           stringIndex,
           rootPitchClass,
           PENTATONIC_INTERVALS,
@@ -932,13 +1118,20 @@ export function generateBoxShapePatterns(
         current.pattern[stringIndex] = [prevSecond, next];
       }
 
-      boxes[boxIndex] = recalculateShapeDerivedFields(current, rootPitchClass);
+      boxes[boxIndex] = recalculateShapeDerivedFields(tuningPcs, current, rootPitchClass);
     }
 
-    return boxes.map((shape) => recalculateShapeDerivedFields(shape, rootPitchClass));
+    return boxes.map((shape) =>
+      fitShapeToFretCount(
+        tuningPcs,
+        recalculateShapeDerivedFields(tuningPcs, shape, rootPitchClass),
+        rootPitchClass,
+        fretCount
+      )
+    );
   }
 
-  const pentatonicBoxes = generateBoxShapePatterns(keyRoot, 'pentatonic');
+  const pentatonicBoxes = generateBoxShapePatterns(keyRoot, 'pentatonic', { tuning: options.tuning });
   const bluesBoxCount = options.includeExperimentalBluesShape ? 6 : 5;
 
   const bluesBoxes: BoxShapePattern[] = [];
@@ -950,6 +1143,7 @@ export function generateBoxShapePatterns(
     const pattern = sourceBox.pattern.map((stringFrets) => [...stringFrets]);
     const desiredBlueNotes = (boxIndex === 1 || boxIndex === 2) ? 3 : 2;
     const candidates = selectBlueCandidatesForBox(
+      tuningPcs,
       pattern,
       sourceBox.windowStart,
       sourceBox.windowEnd,
@@ -957,10 +1151,15 @@ export function generateBoxShapePatterns(
     );
     const selectedCandidates: typeof candidates = [];
 
-    // For boxes 2 and 3, force one blue note on high E for clearer top-end resolution.
+    // For boxes 2 and 3, force one blue note on the top string for clearer
+    // top-end resolution, as long as it sits next to the box on that tuning.
     if (boxIndex === 1 || boxIndex === 2) {
-      const highECandidate = candidates.find((candidate) => candidate.stringIndex === 5);
-      if (highECandidate) {
+      const highECandidate = candidates.find((candidate) => candidate.stringIndex === lastStringIndex);
+      if (
+        highECandidate &&
+        highECandidate.fret >= sourceBox.windowStart - 1 &&
+        highECandidate.fret <= sourceBox.windowEnd + 1
+      ) {
         selectedCandidates.push(highECandidate);
       }
     }
@@ -992,7 +1191,14 @@ export function generateBoxShapePatterns(
       pattern,
     };
 
-    bluesBoxes.push(recalculateShapeDerivedFields(baseShape, rootPitchClass));
+    bluesBoxes.push(
+      fitShapeToFretCount(
+        tuningPcs,
+        recalculateShapeDerivedFields(tuningPcs, baseShape, rootPitchClass),
+        rootPitchClass,
+        fretCount
+      )
+    );
   }
 
   return bluesBoxes;
@@ -0,0 +1,169 @@
+/**
+ * CAGED System - The five open major chord shapes moved up the neck
+ *
+ * Any major chord can be played with the grip of an open C, A, G, E or D chord,
+ * barred at the fret that puts the shape's root on the right note. In order up
+ * the neck the forms always run C-A-G-E-D (wrapping round), each one sharing
+ * its chord tones with the next. Every form holds a handful of the triad
+ * voicings and sits inside one of the five major pentatonic boxes, so the
+ * forms tie chords, triads and scales to the same places on the neck.
+ */
+
+import { nameToPc, pcToDisplayName } from './core';
+import {
+  generateBoxShapePatterns,
+  getRelativeMinorKeyFromMajor,
+  shiftBoxShapePattern,
+} from './box-shapes';
+import type { BoxShapePattern } from './box-shapes';
+import { buildMajorTriad, generateTriadsData } from './triads';
+import type { TriadVoicing } from './triads';
+import type { NoteName } from './types';
+import { STANDARD_TUNING, getFretCount, getTuningPitchClasses, isStandardTuning } from './tunings';
+import type { Tuning } from './tunings';
+
+export type CagedShapeName = 'C' | 'A' | 'G' | 'E' | 'D';
+
+export type CagedDegree = '1' | '3' | '5';
+
+export interface CagedChordTone {
+  stringIdx: number;
+  fret: number;
+  degree: CagedDegree;
+}
+
+export interface CagedForm {
+  shape: CagedShapeName;
+  grip: Array<number | null>; // Chord grip, low string first; null = muted
+  gripPositions: [number, number][]; // [stringIdx, fret] of each sounding note
+  windowStart: number; // Fret the shape's nut falls on (the barre)
+  windowEnd: number; // Highest fret of the grip
+  chordTones: CagedChordTone[]; // Every triad tone between windowStart and windowEnd
+  triadVoicings: TriadVoicing[]; // Triad voicings that lie inside the form
+  pentatonicBox: BoxShapePattern | null; // Major pentatonic box the grip sits in
+}
+
+export interface CagedData {
+  key: NoteName;
+  triadNotes: string[]; // ["C", "E", "G"] for C major
+  forms: CagedForm[]; // Five forms, lowest on the neck first
+}
+
+// Shapes in the order they follow each other up the neck
+export const CAGED_SHAPE_ORDER: CagedShapeName[] = ['C', 'A', 'G', 'E', 'D'];
+
+export const CAGED_SHAPE_COLORS: Record<CagedShapeName, string> = {
+  C: '#f97316',
+  A: '#a855f7',
+  G: '#22c55e',
+  E: '#3b82f6',
+  D: '#ef4444',
+};
+
+// Open-position grips, low string first (null = muted)
+const CAGED_TEMPLATES: Record<CagedShapeName, { openKey: NoteName; frets: Array<number | null> }> = {
+  C: { openKey: 'C', frets: [null, 3, 2, 0, 1, 0] },
+  A: { openKey: 'A', frets: [null, 0, 2, 2, 2, 0] },
+  G: { openKey: 'G', frets: [3, 2, 0, 0, 0, 3] },
+  E: { openKey: 'E', frets: [0, 2, 2, 1, 0, 0] },
+  D: { openKey: 'D', frets: [null, null, 0, 2, 3, 2] },
+};
+
+const DEGREES: CagedDegree[] = ['1', '3', '5'];
+
+function isInsideForm(form: Pick<CagedForm, 'windowStart' | 'windowEnd'>, frets: number[]): boolean {
+  return frets.every((fret) => fret >= form.windowStart && fret <= form.windowEnd);
+}
+
+/**
+ * The pentatonic box (or its octave copy) holding the most notes of the grip
+ */
+function findPentatonicBox(
+  gripPositions: [number, number][],
+  boxes: BoxShapePattern[],
+  fretCount: number
+): BoxShapePattern | null {
+  const gripCenter = gripPositions.reduce((sum, [, fret]) => sum + fret, 0) / gripPositions.length;
+  const candidates = boxes
+    .flatMap((box) => [-12, 0, 12].map((shift) => shiftBoxShapePattern(box, shift, fretCount)))
+    .filter((box) => box.pattern.flat().length > 0);
+
+  let best: { box: BoxShapePattern; hits: number; distance: number } | null = null;
+  for (const box of candidates) {
+    const hits = gripPositions.filter(([stringIdx, fret]) => box.pattern[stringIdx].includes(fret)).length;
+    const frets = box.pattern.flat();
+    const distance = Math.abs((Math.min(...frets) + Math.max(...frets)) / 2 - gripCenter);
+    if (!best || hits > best.hits || (hits === best.hits && distance < best.distance)) {
+      best = { box, hits, distance };
+    }
+  }
+  return best?.box ?? null;
+}
+
+/**
+ * The five CAGED forms of a major chord, with the triads and pentatonic box each one contains
+ * @param key Root of the major chord
+ * @param tuning Standard tuning, optionally with a fret count (default 18 frets)
+ * @throws Error if the tuning isn't standard tuning, where the CAGED shapes don't apply
+ */
+export function generateCagedData(key: NoteName, tuning: Tuning = STANDARD_TUNING): CagedData {
+  if (!isStandardTuning(tuning)) {
+    throw new Error('CAGED shapes are only defined for standard tuning');
+  }
+
+  const keyPc = nameToPc(key);
+  const triadPcs = buildMajorTriad(key);
+  const tuningPcs = getTuningPitchClasses(tuning);
+  const fretCount = getFretCount(tuning);
+  const triads = generateTriadsData(key, tuning).stringGroups.flatMap((group) => group.voicings);
+  const boxes = generateBoxShapePatterns(getRelativeMinorKeyFromMajor(key), 'pentatonic', { tuning });
+
+  const forms = CAGED_SHAPE_ORDER.map((shape): CagedForm => {
+    const template = CAGED_TEMPLATES[shape];
+    const offset = (keyPc - nameToPc(template.openKey) + 12) % 12;
+    const grip = template.frets.map((fret) => (fret === null ? null : fret + offset));
+    const gripPositions = grip.flatMap((fret, stringIdx): [number, number][] => (fret === null ? [] : [[stringIdx, fret]]));
+    const windowStart = offset;
+    const windowEnd = Math.max(...gripPositions.map(([, fret]) => fret));
+
+    const chordTones: CagedChordTone[] = [];
+    tuningPcs.forEach((openPc, stringIdx) => {
+      for (let fret = windowStart; fret <= windowEnd; fret++) {
+        const toneIdx = triadPcs.indexOf((openPc + fret) % 12);
+        if (toneIdx >= 0) {
+          chordTones.push({ stringIdx, fret, degree: DEGREES[toneIdx] });
+        }
+      }
+    });
+
+    // Triads repeat every octave, so one an octave away from the form is moved into it
+    const window = { windowStart, windowEnd };
+    const seen = new Set<string>();
+    const triadVoicings = triads.flatMap((voicing) => {
+      const shift = [0, -12, 12].find((semitones) => isInsideForm(window, voicing.frets.map((fret) => fret + semitones)));
+      if (shift === undefined) return [];
+      const frets = voicing.frets.map((fret) => fret + shift);
+      const id = `${voicing.strings.join(',')}:${frets.join(',')}`;
+      if (seen.has(id)) return [];
+      seen.add(id);
+      return [{ ...voicing, frets, avgFret: voicing.avgFret + shift }];
+    });
+
+    return {
+      shape,
+      grip,
+      gripPositions,
+      windowStart,
+      windowEnd,
+      chordTones,
+      triadVoicings,
+      pentatonicBox: findPentatonicBox(gripPositions, boxes, fretCount),
+    };
+  });
+
+  return {
+    key,
+    triadNotes: triadPcs.map((pc) => pcToDisplayName(pc, key)),
+    forms: forms.sort((a, b) => a.windowStart - b.windowStart),
+  };
+}
@@ -0,0 +1,202 @@
+/**
+ * Capo - transposed labeling and shape helpers
+ *
+ * A capo at fret N raises every open string by N semitones and turns fret N
+ * into the new nut. Each chord then has two names: the sounding chord (what
+ * is heard) and the shape (the fingering relative to the capo). Frets stay
+ * absolute everywhere in the library; a capo only decides which frets are
+ * playable and how chords are named.
+ */
+
+import { nameToPc, pcToDisplayName } from './core';
+import type { NoteName } from './types';
+import { generateChordData } from './chords';
+import type { ChordData } from './chords';
+import { getChordName, getChordNotes } from './chord-types';
+import type { ChordType } from './chord-types';
+import type { TriadVoicing } from './triads';
+import type { PracticeProgression } from './progression-recommendations';
+import { parseChordSequence } from './looper-sync';
+import { STANDARD_TUNING, getFretCount } from './tunings';
+import type { Tuning } from './tunings';
+import { parseChord } from '@/utils/chord-symbol';
+
+export const MAX_CAPO_FRET = 12;
+
+/**
+ * Open-position chord shapes that need no barre (scored as "easy")
+ */
+const EASY_OPEN_SHAPES = new Set([
+  'C', 'A', 'G', 'E', 'D',
+  'Am', 'Em', 'Dm',
+  'A7', 'B7', 'C7', 'D7', 'E7', 'G7',
+  'Am7', 'Em7', 'Dm7',
+  'Cmaj7', 'Fmaj7', 'Amaj7', 'Dmaj7', 'Gmaj7',
+]);
+
+export interface CapoSuggestion {
+  capoFret: number;
+  shapeChordNames: string[]; // Chord shapes to finger, in progression order
+  openShapeCount: number; // How many of the chords use easy open shapes
+  chordCount: number;
+}
+
+/**
+ * Validate a capo fret
+ * @throws Error if the fret is not an integer between 0 and MAX_CAPO_FRET
+ */
+export function assertValidCapoFret(capoFret: number): void {
+  if (!Number.isInteger(capoFret) || capoFret < 0 || capoFret > MAX_CAPO_FRET) {
+    throw new Error(`Invalid capo fret: ${capoFret}. Must be an integer 0-${MAX_CAPO_FRET}.`);
+  }
+}
+
+/**
+ * Tuning as heard with the capo on (every open string raised by the capo fret)
+ */
+export function applyCapoToTuning(tuning: Tuning, capoFret: number): Tuning {
+  assertValidCapoFret(capoFret);
+  if (capoFret === 0) {
+    return tuning;
+  }
+
+  return {
+    ...tuning,
+    label: `${tuning.label} (capo ${capoFret})`,
+    openStringMidi: tuning.openStringMidi.map((midi) => midi + capoFret),
+  };
+}
+
+/**
+ * True when an absolute fret can be played with the capo on (the capo fret itself is the new nut)
+ */
+export function isFretPlayableWithCapo(fret: number, capoFret: number): boolean {
+  return fret >= capoFret;
+}
+
+/**
+ * Key whose shapes are fingered for a sounding key (e.g. sounding A, capo 2 → G)
+ */
+export function getCapoShapeKey(soundingKey: NoteName, capoFret: number): NoteName {
+  return pcToDisplayName((nameToPc(soundingKey) - capoFret + 120) % 12, soundingKey);
+}
+
+/**
+ * Key that sounds when a shape is fingered with the capo on (e.g. G shape, capo 2 → A)
+ */
+export function getCapoSoundingKey(shapeKey: NoteName, capoFret: number): NoteName {
+  return pcToDisplayName((nameToPc(shapeKey) + capoFret) % 12, shapeKey);
+}
+
+/**
+ * Shape name for a sounding chord symbol, keeping its quality and slash bass
+ * (e.g. "Bm7" with capo 2 → "Am7", "D/F#" with capo 2 → "C/E")
+ * Symbols are read with the shared chord parser (see utils/chord-symbol), so
+ * spellings like "Bb-7" and "C6/9" work; ones it cannot read are returned unchanged.
+ */
+export function getShapeChordSymbol(soundingSymbol: string, capoFret: number): string {
+  const result = parseChord(soundingSymbol);
+  if (!result.ok || capoFret === 0) {
+    return soundingSymbol;
+  }
+
+  const { chord } = result;
+  const written = chord.bass === null ? chord.symbol : chord.symbol.slice(0, chord.symbol.lastIndexOf('/'));
+  const shapeName = (name: string, pc: number) => pcToDisplayName((pc - capoFret + 120) % 12, name);
+  const shapeRoot = `${shapeName(chord.root, chord.rootPc)}${written.slice(chord.root.length)}`;
+  return chord.bass === null || chord.bassPc === null
+    ? shapeRoot
+    : `${shapeRoot}/${shapeName(chord.bass, chord.bassPc)}`;
+}
+
+/**
+ * Label showing the sounding chord and, with a capo on, the shape to finger
+ * (e.g. "A (G shape)")
+ */
+export function formatCapoChordLabel(soundingSymbol: string, capoFret: number): string {
+  if (capoFret === 0) {
+    return soundingSymbol;
+  }
+  return `${soundingSymbol} (${getShapeChordSymbol(soundingSymbol, capoFret)} shape)`;
+}
+
+/**
+ * Move a voicing fingered relative to the capo up to absolute frets,
+ * re-spelling its notes in the sounding key
+ */
+export function transposeVoicingForCapo(
+  voicing: TriadVoicing,
+  capoFret: number,
+  soundingKey: NoteName
+): TriadVoicing {
+  const notes = voicing.notes.map((pc) => (pc + capoFret) % 12);
+  return {
+    ...voicing,
+    frets: voicing.frets.map((fret) => fret + capoFret),
+    notes,
+    noteNames: notes.map((pc) => pcToDisplayName(pc, soundingKey)),
+    avgFret: voicing.avgFret + capoFret,
+  };
+}
+
+/**
+ * Chord voicings for a sounding chord played with a capo
+ *
+ * The voicings are the shape key's positions moved up by the capo, so the
+ * capo fret acts as the nut. Voicings pushed past the instrument's last fret are dropped.
+ * @returns Chord data named for the sounding chord, or null if the shape is not supported
+ */
+export function generateCapoChordData(
+  soundingKey: NoteName,
+  chordType: ChordType,
+  capoFret: number,
+  tuning: Tuning = STANDARD_TUNING
+): ChordData | null {
+  assertValidCapoFret(capoFret);
+  if (capoFret === 0) {
+    return generateChordData(soundingKey, chordType, tuning);
+  }
+
+  const shapeData = generateChordData(getCapoShapeKey(soundingKey, capoFret), chordType, tuning);
+  if (!shapeData) {
+    return null;
+  }
+
+  return {
+    key: soundingKey,
+    chordType,
+    chordName: getChordName(soundingKey, chordType),
+    chordNotes: getChordNotes(soundingKey, chordType),
+    stringGroups: shapeData.stringGroups.map((group) => ({
+      ...group,
+      voicings: group.voicings
+        .map((voicing) => transposeVoicingForCapo(voicing, capoFret, soundingKey))
+        .filter((voicing) => Math.max(...voicing.frets) <= getFretCount(tuning)),
+    })),
+  };
+}
+
+/**
+ * Suggest the capo fret that lets a progression be played with the most easy
+ * open shapes. Ties go to the lower capo fret.
+ * @param progression A practice progression (e.g. from getPracticeProgressions)
+ * @param maxCapoFret Highest capo fret to consider (default 7)
+ */
+export function suggestCapoForProgression(
+  progression: PracticeProgression,
+  maxCapoFret: number = 7
+): CapoSuggestion {
+  const chordSymbols = parseChordSequence(progression.chordNames);
+
+  let best: CapoSuggestion | null = null;
+  for (let capoFret = 0; capoFret <= Math.min(maxCapoFret, MAX_CAPO_FRET); capoFret++) {
+    const shapeChordNames = chordSymbols.map((symbol) => getShapeChordSymbol(symbol, capoFret));
+    const openShapeCount = shapeChordNames.filter((symbol) => EASY_OPEN_SHAPES.has(symbol)).length;
+
+    if (!best || openShapeCount > best.openShapeCount) {
+      best = { capoFret, shapeChordNames, openShapeCount, chordCount: chordSymbols.length };
+    }
+  }
+
+  return best ?? { capoFret: 0, shapeChordNames: [], openShapeCount: 0, chordCount: 0 };
+}
@@ -0,0 +1,314 @@
+/**
+ * Chord Search - Every playable fretting of a chord symbol, ranked by playability
+ *
+ * The search walks the neck string by string, keeping only chord tones (or a
+ * slash bass), and accepts shapes whose notes make up the chord, optionally
+ * without its fifth. Branches stop as soon as they can no longer reach a
+ * playable shape (wrong bass, too few strings or chord tones left, more notes
+ * than fingers). Each shape is scored on stretch, finger count, barre use,
+ * muted strings and open strings, so the easiest grips come first.
+ */
+
+import { nameToPc, pcToDisplayName, pcToSharpName } from './core';
+import { CHORD_FORMULAS, getChordName, isValidChordVoicing } from './chord-types';
+import type { ChordType } from './chord-types';
+import { findChordFormulaByIntervals } from './theory-catalog';
+import { assignVoicingFingering } from './fingering';
+import type { NoteName } from './types';
+import { STANDARD_TUNING, getFretCount } from './tunings';
+import type { Tuning } from './tunings';
+import { parseChord } from '@/utils/chord-symbol';
+
+export interface ParsedChordSymbol {
+  root: NoteName;
+  chordType: ChordType | null; // null when the tones match no catalog chord, e.g. "C5" or "C7no5"
+  bass: NoteName | null; // Slash bass, e.g. "E" in "C/E"
+}
+
+export interface ChordVoicingCandidate {
+  frets: Array<number | null>; // One per string, low string first; null = muted
+  strings: number[]; // Sounding strings, low first
+  soundingFrets: number[]; // Frets of the sounding strings
+  notes: number[]; // Pitch classes of the sounding strings
+  noteNames: string[];
+  omitted: string[]; // Chord degrees left out, e.g. ["5"]
+  bassPc: number;
+  isInversion: boolean; // Bass is a chord tone other than the root (and not a written slash bass)
+  fingers: number; // Fretting fingers needed, a barre counting as one
+  stretch: number; // Fret span of the fretted notes
+  barreFret: number | null;
+  openStrings: number;
+  mutedStrings: number;
+  score: number; // 0-100, higher is easier
+}
+
+export interface ChordSearchOptions {
+  tuning?: Tuning;
+  maxFret?: number; // Highest fret searched (default the tuning's fret count)
+  maxStretch?: number; // Widest fret span allowed (default 3, i.e. four frets)
+  minStrings?: number; // Fewest sounding strings (default 3)
+  allowInversions?: boolean; // Accept shapes with the 3rd, 5th or 7th in the bass (default false)
+  maxResults?: number; // Most voicings returned, easiest kept (default 300)
+}
+
+export interface ChordSearchResult {
+  symbol: string;
+  chordName: string;
+  chordNotes: string[];
+  chordPcs: number[]; // Root first
+  parsed: ParsedChordSymbol;
+  voicings: ChordVoicingCandidate[]; // Easiest first
+}
+
+// Playability weights: each point comes off a perfect score of 100
+const STRETCH_PENALTY = 8;
+const FINGER_PENALTY = 4;
+const BARRE_PENALTY = 10;
+const MUTED_PENALTY = 5;
+const INNER_MUTE_PENALTY = 15;
+const OMITTED_PENALTY = 5;
+const INVERSION_PENALTY = 15;
+const OPEN_STRING_BONUS = 4;
+
+// Open strings only help shapes in the first few frets
+const OPEN_POSITION_MAX_FRET = 4;
+
+const DEFAULT_MAX_RESULTS = 300;
+
+// Fingers free above the lowest fretted note, which takes the index (or a barre)
+const FINGERS_ABOVE_LOWEST_FRET = 3;
+
+interface ChordSymbolTones {
+  parsed: ParsedChordSymbol;
+  chordName: string;
+  intervals: number[]; // Semitones from the root
+  degrees: string[]; // One per interval, e.g. "b7"
+}
+
+/**
+ * Read a chord symbol into its tones, taken from the catalog chord they match
+ * or, for chords the catalog lacks, straight from the symbol
+ */
+function readChordSymbol(symbol: string): ChordSymbolTones | null {
+  const result = parseChord(symbol);
+  if (!result.ok) {
+    return null;
+  }
+
+  const { chord } = result;
+  // Spellings outside the twelve names the fretboard uses ("E#", "Fb", "C##") are respelled
+  const spell = (name: string, pc: number) => (nameToPc(name) < 0 ? pcToSharpName(pc) : name);
+  const root = spell(chord.root, chord.rootPc);
+  const bass = chord.bass === null || chord.bassPc === null ? null : spell(chord.bass, chord.bassPc);
+  const formula = findChordFormulaByIntervals(chord.tones.map((tone) => tone.interval));
+
+  if (formula) {
+    return {
+      parsed: { root, chordType: formula.id, bass },
+      chordName: getChordName(root, formula.id),
+      intervals: CHORD_FORMULAS[formula.id].intervals,
+      degrees: CHORD_FORMULAS[formula.id].description.split('-'),
+    };
+  }
+
+  const written = chord.bass === null ? chord.symbol : chord.symbol.slice(0, chord.symbol.lastIndexOf('/'));
+  return {
+    parsed: { root, chordType: null, bass },
+    chordName: `${root}${written.slice(chord.root.length)}`,
+    intervals: chord.tones.map((tone) => tone.interval),
+    degrees: chord.tones.map((tone) => tone.degree),
+  };
+}
+
+/**
+ * Parse a chord symbol such as "Am7", "F#m7b5", "Cmaj7/E", "Bb-7" or "C6/9"
+ *
+ * Reading is shared with the Tonnetz (see utils/chord-symbol); the tones it
+ * spells are then matched to a chord type of the catalog. Symbols it reads
+ * whose tones no catalog chord has ("C5", "C7no5", "Cno3") keep a null chord type.
+ * @returns The root, chord type and slash bass, or null if the symbol isn't recognised
+ */
+export function parseChordSymbol(symbol: string): ParsedChordSymbol | null {
+  return readChordSymbol(symbol)?.parsed ?? null;
+}
+
+/**
+ * Sets of chord degrees a voicing may leave out, fewest first
+ *
+ * The fifth can go from any chord of four or more tones. Six-tone chords
+ * (13ths) can also drop their 9th or 11th, since few grips hold every tone.
+ */
+function getOmissionSets(intervals: number[]): number[][] {
+  const sets: number[][] = [[]];
+  if (intervals.length >= 4 && intervals.includes(7)) {
+    sets.push([7]);
+  }
+  if (intervals.length >= 6) {
+    const upper = intervals.filter((interval) => interval === 14 || interval === 17);
+    sets.push(upper, [7, ...upper]);
+  }
+  return sets;
+}
+
+function scoreVoicing(candidate: Omit<ChordVoicingCandidate, 'score'>, innerMutes: number): number {
+  const maxFretted = Math.max(0, ...candidate.soundingFrets);
+  const nearNut = maxFretted <= OPEN_POSITION_MAX_FRET;
+  const openBonus = nearNut ? candidate.openStrings * OPEN_STRING_BONUS : 0;
+  // Higher up, an open string is a note at fret 0, as far from the hand as the nut
+  const reach = candidate.openStrings > 0 && !nearNut ? maxFretted : candidate.stretch;
+  const difficulty =
+    reach * STRETCH_PENALTY +
+    Math.max(0, candidate.fingers - 1) * FINGER_PENALTY +
+    (candidate.barreFret !== null ? BARRE_PENALTY : 0) +
+    candidate.mutedStrings * MUTED_PENALTY +
+    innerMutes * INNER_MUTE_PENALTY +
+    candidate.omitted.length * OMITTED_PENALTY +
+    (candidate.isInversion ? INVERSION_PENALTY : 0) -
+    openBonus;
+  return Math.max(0, Math.min(100, 100 - difficulty));
+}
+
+/**
+ * Every playable fretting of a chord, easiest first
+ * @param symbol Chord symbol, e.g. "G", "Am7", "D/F#"
+ * @returns The ranked voicings, or null if the symbol isn't recognised
+ */
+export function searchChordVoicings(symbol: string, options: ChordSearchOptions = {}): ChordSearchResult | null {
+  const tones = readChordSymbol(symbol);
+  if (!tones) {
+    return null;
+  }
+
+  const {
+    tuning = STANDARD_TUNING,
+    maxStretch = 3,
+    minStrings = 3,
+    allowInversions = false,
+    maxResults = DEFAULT_MAX_RESULTS,
+  } = options;
+  const maxFret = Math.min(options.maxFret ?? getFretCount(tuning), getFretCount(tuning));
+  const { parsed, chordName, intervals, degrees } = tones;
+  const { root, bass } = parsed;
+  const rootPc = nameToPc(root);
+  const bassPc = bass ? nameToPc(bass) : null;
+  const chordPcs = intervals.map((interval) => (rootPc + interval) % 12);
+  const omissionSets = getOmissionSets(intervals);
+  const stringCount = tuning.openStringMidi.length;
+  // Tones no omission set leaves out, and the note the lowest string has to sound
+  const alwaysRequired = chordPcs.filter((_, i) => !omissionSets.some((omitted) => omitted.includes(intervals[i])));
+  const requiredBassPc = bassPc ?? (allowInversions ? null : rootPc);
+
+  const voicings: ChordVoicingCandidate[] = [];
+  const frets: Array<number | null> = [];
+  const soundingPcs: number[] = [];
+  const frettedStack: number[] = [];
+
+  const accept = () => {
+    const strings = frets.flatMap((fret, stringIdx) => (fret === null ? [] : [stringIdx]));
+    if (strings.length < minStrings) return;
+
+    const soundingFrets = strings.map((stringIdx) => frets[stringIdx] as number);
+    const notes = strings.map((stringIdx, i) => (tuning.openStringMidi[stringIdx] + soundingFrets[i]) % 12);
+    const lowestPc = notes[0];
+
+    // A slash bass sounds only in the bass; otherwise the bass is the root unless inversions are allowed
+    if (bassPc !== null && lowestPc !== bassPc) return;
+    if (bassPc === null && lowestPc !== rootPc && !allowInversions) return;
+    const upperNotes = bassPc !== null && !chordPcs.includes(bassPc) ? notes.slice(1) : notes;
+
+    const omittedIntervals = omissionSets.find((omitted) => {
+      const required = chordPcs.filter((_, i) => !omitted.includes(intervals[i]));
+      return isValidChordVoicing(upperNotes, required);
+    });
+    if (!omittedIntervals) return;
+
+    const fingering = assignVoicingFingering({ strings, frets: soundingFrets });
+    if (!fingering) return;
+
+    const fretted = soundingFrets.filter((fret) => fret > 0);
+    const firstSounding = strings[0];
+    const lastSounding = strings[strings.length - 1];
+    const innerMutes = frets.slice(firstSounding, lastSounding + 1).filter((fret) => fret === null).length;
+
+    const candidate: Omit<ChordVoicingCandidate, 'score'> = {
+      frets: [...frets],
+      strings,
+      soundingFrets,
+      notes,
+      noteNames: notes.map((pc) => pcToDisplayName(pc, root)),
+      omitted: omittedIntervals.map((interval) => degrees[intervals.indexOf(interval)]),
+      bassPc: lowestPc,
+      isInversion: bassPc === null && lowestPc !== rootPc,
+      fingers: new Set(fingering.fingers.filter((finger) => finger > 0)).size,
+      stretch: fretted.length > 0 ? Math.max(...fretted) - Math.min(...fretted) : 0,
+      barreFret: fingering.barre?.fret ?? null,
+      openStrings: soundingFrets.filter((fret) => fret === 0).length,
+      mutedStrings: stringCount - strings.length,
+    };
+    voicings.push({ ...candidate, score: scoreVoicing(candidate, innerMutes) });
+  };
+
+  // Depth-first over strings, low to high: mute, or any chord tone within the stretch
+  const visit = (stringIdx: number, low: number, high: number) => {
+    if (stringIdx === stringCount) {
+      accept();
+      return;
+    }
+
+    const stringsLeft = stringCount - stringIdx;
+    if (soundingPcs.length + stringsLeft < minStrings) return;
+    const missing = alwaysRequired.filter((pc) => !soundingPcs.includes(pc)).length;
+    if (missing > stringsLeft) return;
+
+    frets.push(null);
+    visit(stringIdx + 1, low, high);
+    frets.pop();
+
+    // Only frets that keep the fretted notes within the stretch, plus the open string
+    const openMidi = tuning.openStringMidi[stringIdx];
+    const fromFret = Math.max(1, high - maxStretch);
+    const toFret = Math.min(maxFret, low + maxStretch);
+    for (let fret = 0; fret <= toFret; fret = fret === 0 ? fromFret : fret + 1) {
+      const pc = (openMidi + fret) % 12;
+      if (!chordPcs.includes(pc) && pc !== bassPc) continue;
+      if (soundingPcs.length === 0 && requiredBassPc !== null && pc !== requiredBassPc) continue;
+
+      const nextLow = fret > 0 ? Math.min(low, fret) : low;
+      const nextHigh = fret > 0 ? Math.max(high, fret) : high;
+      const aboveLowest = [...frettedStack, fret].filter((fretted) => fretted > nextLow).length;
+      if (aboveLowest > FINGERS_ABOVE_LOWEST_FRET) continue;
+
+      frets.push(fret);
+      soundingPcs.push(pc);
+      if (fret > 0) frettedStack.push(fret);
+      visit(stringIdx + 1, nextLow, nextHigh);
+      if (fret > 0) frettedStack.pop();
+      soundingPcs.pop();
+      frets.pop();
+    }
+  };
+  visit(0, Infinity, -Infinity);
+
+  voicings.sort((a, b) =>
+    b.score - a.score ||
+    Math.min(...a.soundingFrets) - Math.min(...b.soundingFrets) ||
+    b.strings.length - a.strings.length
+  );
+
+  return {
+    symbol: bass ? `${chordName}/${bass}` : chordName,
+    chordName,
+    chordNotes: chordPcs.map((pc) => pcToDisplayName(pc, root)),
+    chordPcs,
+    parsed,
+    voicings: voicings.slice(0, maxResults),
+  };
+}
+
+/**
+ * Shape as a fret string, low string first ("x32010"; "x-10-12-12-12-x" once a fret needs two digits)
+ */
+export function formatChordFrets(frets: Array<number | null>): string {
+  const labels = frets.map((fret) => (fret === null ? 'x' : String(fret)));
+  return labels.join(labels.some((label) => label.length > 1) ? '-' : '');
+}
@@ -6,6 +6,7 @@ import { nameToPc, pcToDisplayName, buildFretboard, normalizeToSharp } from './c
 import type { NoteName } from './types';
 import { MAJOR_TRIAD_POSITIONS } from './major-triad-data';
 import {
+  CHORD_FORMULAS,
   ChordType,
   buildChord,
   getChordNotes,
@@ -18,7 +19,12 @@ import {
   StringGroupTriads,
   identifyInversion,
   InversionType,
+  findAllTriadVoicings,
+  getTriadStringGroups,
+  select4PositionsCoordinated,
 } from './triads';
+import { STANDARD_TUNING, getFretCount, getStringCount, getTuningStringNames, isStandardTuning } from './tunings';
+import type { Tuning } from './tunings';
 
 /**
  * Extended chord data structure that includes chord type
@@ -143,14 +149,112 @@ function transformToShellChordType(
   );
 }
 
+/**
+ * The three chord degrees voiced on a string group for chords of four or more tones.
+ * Sevenths, 7sus4 and add9 keep the root; 9ths, 11ths, 13ths and altered dominants
+ * go rootless, with the guide tones (3rd and 7th) and the tension that names them.
+ */
+const THREE_NOTE_VOICING_DEGREES: Partial<Record<ChordType, [string, string, string]>> = {
+  '7': ['1', '3', 'b7'],
+  min7: ['1', 'b3', 'b7'],
+  maj7: ['1', '3', '7'],
+  '7sus4': ['1', '4', 'b7'],
+  add9: ['1', '3', '9'],
+  '69': ['3', '6', '9'],
+  maj9: ['3', '7', '9'],
+  m9: ['b3', 'b7', '9'],
+  m11: ['b3', 'b7', '11'],
+  '7b9': ['3', 'b7', 'b9'],
+  '7#9': ['3', 'b7', '#9'],
+  '7#11': ['3', 'b7', '#11'],
+  '7alt': ['3', 'b7', 'b13'],
+  '13b9': ['3', 'b9', '13'],
+};
+
+/**
+ * Pitch classes of the three tones a string-group voicing of the chord plays
+ * @returns All three tones of a triad, the chosen degrees of a larger chord, or null if it has none
+ */
+function getThreeNoteVoicingPcs(key: NoteName, chordType: ChordType): [number, number, number] | null {
+  const chordPcs = buildChord(key, chordType);
+  if (chordPcs.length === 3) {
+    return [chordPcs[0], chordPcs[1], chordPcs[2]];
+  }
+
+  const voicedDegrees = THREE_NOTE_VOICING_DEGREES[chordType];
+  if (!voicedDegrees) {
+    return null;
+  }
+  const degrees = CHORD_FORMULAS[chordType].description.split('-');
+  const [first, second, third] = voicedDegrees.map((degree) => chordPcs[degrees.indexOf(degree)]);
+  return [first, second, third];
+}
+
+/**
+ * Search the fretboard directly for 3-note voicings of a chord.
+ * The hard-coded major positions only describe standard tuning, so any other
+ * tuning is voiced here, as are the sus, add and extended chords in every tuning.
+ */
+function generateSearchedChordData(
+  key: NoteName,
+  chordType: ChordType,
+  tuning: Tuning
+): ChordData | null {
+  const voicingPcs = getThreeNoteVoicingPcs(key, chordType);
+  if (!voicingPcs) {
+    return null;
+  }
+
+  const fretboard = buildFretboard(tuning);
+  const stringNames = getTuningStringNames(tuning);
+  const stringGroupsData = getTriadStringGroups(getStringCount(tuning));
+
+  const allGroupVoicings = stringGroupsData.map(stringGroup =>
+    findAllTriadVoicings(stringGroup, voicingPcs, fretboard, 5, getFretCount(tuning), key)
+  );
+  const selectedPositions = select4PositionsCoordinated(
+    allGroupVoicings,
+    stringGroupsData.map(g => [...g])
+  );
+
+  const stringGroups: StringGroupTriads[] = stringGroupsData
+    .map((stringGroupIndices, groupIdx) => ({
+      strings: [...stringGroupIndices],
+      stringNames: stringGroupIndices.map(idx => stringNames[idx]),
+      voicings: selectedPositions[groupIdx],
+    }))
+    .filter(group => group.voicings.length > 0);
+
+  if (stringGroups.length === 0) {
+    return null;
+  }
+
+  return {
+    key,
+    chordType,
+    chordName: getChordName(key, chordType),
+    chordNotes: getChordNotes(key, chordType),
+    stringGroups,
+  };
+}
+
 /**
  * Generate chord voicings for a given key and chord type
- * Currently supports major and minor triads, with more types coming
+ * Supports triads, shell sevenths and the sus, add and extended chords with three-note voicings
  * @param key The root note
  * @param chordType The type of chord
+ * @param tuning Tuning to voice the chord in (default standard tuning)
  * @returns Chord voicing data or null if not supported
  */
-export function generateChordData(key: NoteName, chordType: ChordType): ChordData | null {
+export function generateChordData(
+  key: NoteName,
+  chordType: ChordType,
+  tuning: Tuning = STANDARD_TUNING
+): ChordData | null {
+  if (!isStandardTuning(tuning)) {
+    return generateSearchedChordData(key, chordType, tuning);
+  }
+
   const chordPcs = buildChord(key, chordType);
   const chordNotes = getChordNotes(key, chordType);
   const chordName = getChordName(key, chordType);
@@ -372,8 +476,8 @@ export function generateChordData(key: NoteName, chordType: ChordType): ChordDat
     }
   }
 
-  // Chord type not yet supported
-  return null;
+  // Sus, add and extended chords have no hard-coded shapes to start from
+  return generateSearchedChordData(key, chordType, tuning);
 }
 
 /**
@@ -386,8 +490,8 @@ export function getSupportedKeys(chordType: ChordType): NoteName[] {
     return Object.keys(MAJOR_TRIAD_POSITIONS) as NoteName[];
   }
 
-  // For transformed/shell chord types, check which major keys can be transformed
-  if (['minor', 'dim', 'aug', '7', 'min7', 'maj7'].includes(chordType)) {
+  // For transformed, shell and searched chord types, check which keys get voicings on every group
+  if (chordType in THREE_NOTE_VOICING_DEGREES || CHORD_FORMULAS[chordType].intervals.length === 3) {
     const supportedKeys: NoteName[] = [];
     const allKeys = Object.keys(MAJOR_TRIAD_POSITIONS) as NoteName[];
 
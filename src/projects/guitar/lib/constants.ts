@@ -19,6 +19,13 @@ export const MODE_TO_START = {
 
 export const WINDOW_LEN = 6;
 
+// Frets of the three notes on a string, from its first note: X = whole-whole, Y = half-whole, Z = whole-half
+export const XYZ_FRET_OFFSETS = {
+  X: [0, 2, 4],
+  Y: [0, 1, 3],
+  Z: [0, 2, 3],
+} as const;
+
 // Mode offsets for parent major calculation
 export const MODE_OFFSETS = {
   Ionian: 0,    // 1st degree - no offset
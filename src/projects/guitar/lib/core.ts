@@ -4,13 +4,13 @@ import {
   NOTE_NAMES_SHARP,
   MODE_TO_START,
   MODE_OFFSETS,
-  STRING_TUNING_MIDI,
-  STRING_NAMES,
   STRING_ORDINALS,
   XYZ_BASE,
   WINDOW_LEN,
 } from "./constants";
 import type { Mode, XYZSymbol, Position, XYZPosition } from "./types";
+import { STANDARD_TUNING, getFretCount } from "./tunings";
+import type { Tuning } from "./tunings";
 
 // Map flat note names to their sharp equivalents
 const FLAT_TO_SHARP: Record<string, string> = {
@@ -89,14 +89,14 @@ export function parentMajor(mode: Mode, tonic: string): string {
   return pcToSharpName(parentPc);
 }
 
-export function buildFretboard(): Record<number, Record<number, number>> {
+export function buildFretboard(tuning: Tuning = STANDARD_TUNING): Record<number, Record<number, number>> {
   const fretboard: Record<number, Record<number, number>> = {};
 
-  for (let stringIdx = 0; stringIdx < STRING_TUNING_MIDI.length; stringIdx++) {
+  for (let stringIdx = 0; stringIdx < tuning.openStringMidi.length; stringIdx++) {
     fretboard[stringIdx] = {};
-    const openMidi = STRING_TUNING_MIDI[stringIdx];
+    const openMidi = tuning.openStringMidi[stringIdx];
 
-    for (let fret = 0; fret <= 20; fret++) {
+    for (let fret = 0; fret <= Math.max(20, getFretCount(tuning)); fret++) {
       const midiNote = openMidi + fret;
       const pitchClass = midiToPc(midiNote);
       fretboard[stringIdx][fret] = pitchClass;
@@ -115,8 +115,10 @@ export function findBestPosition(
   const candidates: Array<[number, number, number]> = [];
 
   // Find all positions that produce the target note
-  for (let stringIdx = 0; stringIdx < 6; stringIdx++) {
-    for (let fret = 0; fret <= 20; fret++) {
+  const stringCount = Object.keys(fretboard).length;
+  for (let stringIdx = 0; stringIdx < stringCount; stringIdx++) {
+    const lastFret = Object.keys(fretboard[stringIdx]).length - 1;
+    for (let fret = 0; fret <= lastFret; fret++) {
       if (fretboard[stringIdx][fret] === targetPc) {
         const distance = Math.abs(fret - targetFret);
         candidates.push([distance, fret, stringIdx]);
@@ -136,7 +138,8 @@ export function findBestPosition(
   });
 
   const [distance, fret, stringIdx] = candidates[0];
-  const stringName = STRING_NAMES[stringIdx];
+  // Name the string after its open note so non-standard tunings read correctly
+  const stringName = pcToSharpName(fretboard[stringIdx][0]);
 
   return {
     stringIndex: stringIdx,
@@ -159,51 +162,44 @@ export function getXyzDisplayString(mode: Mode): string {
   return xyzWindowForMode(mode).join("");
 }
 
+/**
+ * Three-notes-per-string layout of a mode through its root: the XYZ symbol
+ * and first fret of each string, low string first
+ *
+ * The root starts the run on its string, so that string takes the mode's
+ * first symbol and the others follow the XYZ cycle from it. Going up a
+ * string, the first fret moves up one after an X that a Y follows, and up
+ * by however much narrower than a 4th the strings are (one fret for G-B).
+ */
 export function planXyzPositions(
   mode: Mode,
   startStringIdx: number,
-  startFret: number
+  startFret: number,
+  tuning: Tuning = STANDARD_TUNING
 ): XYZPosition[] {
-  const symbols = xyzWindowForMode(mode);
-  const frets: (number | null)[] = Array(6).fill(null);
+  const openMidi = tuning.openStringMidi;
+  const start = MODE_TO_START[mode];
+  const symbols = openMidi.map(
+    (_, i) => XYZ_BASE[(((start + i - startStringIdx) % 7) + 7) % 7]
+  ) as XYZSymbol[];
+  const frets: (number | null)[] = openMidi.map(() => null);
   frets[startStringIdx] = startFret;
 
-  // Work backwards from start_string to string 6
-  let currentFret = startFret;
-  for (let i = startStringIdx - 1; i >= 0; i--) {
-    const prevSymbol = symbols[i + 1];
-    const currSymbol = symbols[i];
-
-    // Reverse of X→Y shift: Y→X means +1 fret
-    if (prevSymbol === "Y" && currSymbol === "X") {
-      currentFret += 1;
-    }
-
-    // Reverse of G→B shift: B→G (index 4→3) means +1 fret
-    if (i === 3 && (i + 1) === 4) {
-      currentFret += 1;
-    }
+  // Fret change from the first note on string i - 1 to the first note on string i
+  const shiftUpTo = (i: number) => {
+    // X then Y is the one place the next string starts a tritone above, not a 4th
+    const span = symbols[i - 1] === "X" && symbols[i] === "Y" ? 6 : 5;
+    return span - (openMidi[i] - openMidi[i - 1]);
+  };
 
-    frets[i] = currentFret;
+  // Work backwards from start_string to the lowest string
+  for (let i = startStringIdx - 1; i >= 0; i--) {
+    frets[i] = frets[i + 1]! - shiftUpTo(i + 1);
   }
 
-  // Work forwards from start_string to string 1
-  currentFret = startFret;
-  for (let i = startStringIdx + 1; i < 6; i++) {
-    const prevSymbol = symbols[i - 1];
-    const currSymbol = symbols[i];
-
-    // X → Y transition shift
-    if (prevSymbol === "X" && currSymbol === "Y") {
-      currentFret -= 1;
-    }
-
-    // G → B string shift (indices 3 → 4)
-    if ((i - 1) === 3 && i === 4) {
-      currentFret -= 1;
-    }
-
-    frets[i] = currentFret;
+  // Work forwards from start_string to the highest string
+  for (let i = startStringIdx + 1; i < openMidi.length; i++) {
+    frets[i] = frets[i - 1]! + shiftUpTo(i);
   }
 
   // Build the plan
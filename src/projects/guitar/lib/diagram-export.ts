@@ -0,0 +1,172 @@
+/**
+ * Export of fretboard diagrams as standalone SVG or PNG images
+ *
+ * The diagrams are styled partly by page CSS (Tailwind classes, inherited
+ * fonts), so a plain copy of the SVG markup loses colors and falls back to a
+ * serif font elsewhere. Export copies the computed presentation styles onto
+ * each element, giving a file that looks the same in a handout, blog post or
+ * image editor.
+ */
+
+export interface SvgExportOptions {
+  background?: string | null; // Fill behind the diagram (default the page background behind it, null for none)
+}
+
+export const SVG_MIME_TYPE = 'image/svg+xml';
+export const PNG_DPI_OPTIONS = [96, 150, 300, 600] as const;
+export const DEFAULT_PNG_DPI = 300;
+
+// CSS pixels are defined at 96 per inch
+const CSS_PIXELS_PER_INCH = 96;
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+// Presentation properties that page CSS can set on SVG content
+const INLINED_STYLE_PROPERTIES = [
+  'fill',
+  'fill-opacity',
+  'stroke',
+  'stroke-width',
+  'stroke-opacity',
+  'stroke-dasharray',
+  'stroke-linecap',
+  'stroke-linejoin',
+  'opacity',
+  'visibility',
+  'font-family',
+  'font-size',
+  'font-weight',
+  'font-style',
+  'letter-spacing',
+  'text-anchor',
+  'dominant-baseline',
+];
+
+const TRANSPARENT_COLORS = new Set(['', 'transparent', 'rgba(0, 0, 0, 0)']);
+
+/**
+ * Background color behind an element: its own, or the nearest ancestor's
+ */
+function findBackgroundColor(element: Element): string | null {
+  for (let current: Element | null = element; current; current = current.parentElement) {
+    const color = window.getComputedStyle(current).backgroundColor;
+    if (!TRANSPARENT_COLORS.has(color)) {
+      return color;
+    }
+  }
+  return null;
+}
+
+/**
+ * Size of the diagram in CSS pixels: its viewBox, or its rendered size without one
+ */
+export function getSvgDiagramSize(svg: SVGSVGElement): { width: number; height: number } {
+  const viewBox = svg.getAttribute('viewBox')?.trim().split(/[\s,]+/).map(Number);
+  if (viewBox && viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+    return { width: viewBox[2], height: viewBox[3] };
+  }
+  const rect = svg.getBoundingClientRect();
+  return { width: Math.max(1, Math.round(rect.width)), height: Math.max(1, Math.round(rect.height)) };
+}
+
+/**
+ * Serialize a rendered diagram to a standalone SVG document
+ *
+ * Must be called on an SVG that is in the page, so its computed styles exist.
+ */
+export function serializeSvgDiagram(svg: SVGSVGElement, options: SvgExportOptions = {}): string {
+  const { background = findBackgroundColor(svg) } = options;
+  const { width, height } = getSvgDiagramSize(svg);
+
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const sourceElements = [svg, ...Array.from(svg.querySelectorAll('*'))];
+  const clonedElements = [clone, ...Array.from(clone.querySelectorAll('*'))];
+
+  sourceElements.forEach((source, index) => {
+    const target = clonedElements[index];
+    const computed = window.getComputedStyle(source);
+    const inlined = INLINED_STYLE_PROPERTIES
+      .map((property) => [property, computed.getPropertyValue(property)] as const)
+      .filter(([, value]) => value !== '')
+      .map(([property, value]) => `${property}:${value}`);
+    const ownStyle = target.getAttribute('style');
+    if (ownStyle) {
+      inlined.push(ownStyle); // Inline styles already won in the page, so keep them last
+    }
+    target.removeAttribute('class');
+    if (inlined.length > 0) {
+      target.setAttribute('style', inlined.join(';'));
+    } else {
+      target.removeAttribute('style');
+    }
+  });
+
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  if (!clone.getAttribute('viewBox')) {
+    clone.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  }
+
+  if (background) {
+    const backgroundRect = document.createElementNS(SVG_NAMESPACE, 'rect');
+    const viewBox = clone.getAttribute('viewBox')!.trim().split(/[\s,]+/);
+    backgroundRect.setAttribute('x', viewBox[0]);
+    backgroundRect.setAttribute('y', viewBox[1]);
+    backgroundRect.setAttribute('width', viewBox[2]);
+    backgroundRect.setAttribute('height', viewBox[3]);
+    backgroundRect.setAttribute('fill', background);
+    clone.insertBefore(backgroundRect, clone.firstChild);
+  }
+
+  // The serializer adds the SVG namespace declaration itself
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(clone)}\n`;
+}
+
+/**
+ * Rasterize a standalone SVG document to a PNG at the given print resolution
+ *
+ * @param dpi - Dots per inch, taking the SVG's size as CSS pixels (96 DPI = 1:1)
+ * @throws Error if the browser cannot draw the SVG
+ */
+export async function rasterizeSvg(svgMarkup: string, width: number, height: number, dpi: number = DEFAULT_PNG_DPI): Promise<Blob> {
+  if (!(dpi > 0)) {
+    throw new Error(`Invalid DPI: ${dpi}. Must be positive.`);
+  }
+  const scale = dpi / CSS_PIXELS_PER_INCH;
+  const url = URL.createObjectURL(new Blob([svgMarkup], { type: SVG_MIME_TYPE }));
+
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('Could not draw the diagram as an image.'));
+      image.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Could not draw the diagram as an image.');
+    }
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the diagram as PNG.'))),
+        'image/png'
+      );
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Render a diagram to a PNG at the given print resolution
+ */
+export function exportSvgDiagramPng(svg: SVGSVGElement, dpi: number = DEFAULT_PNG_DPI, options: SvgExportOptions = {}): Promise<Blob> {
+  const { width, height } = getSvgDiagramSize(svg);
+  return rasterizeSvg(serializeSvgDiagram(svg, options), width, height, dpi);
+}
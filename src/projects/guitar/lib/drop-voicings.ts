@@ -0,0 +1,256 @@
+/**
+ * Drop-2 and Drop-3 Voicings - Four-note jazz voicings on fixed string sets
+ *
+ * A drop voicing starts from a close-position four-note chord and lowers one
+ * voice an octave: the second voice from the top for drop-2, the third for
+ * drop-3. That spreads the chord across four strings with one string per note,
+ * and moving every voice up to its next chord tone walks through the inversions
+ * on the same string set.
+ */
+
+import { nameToPc, pcToDisplayName } from './core';
+import { CHORD_FORMULAS, getChordName } from './chord-types';
+import type { ChordType } from './chord-types';
+import type { NoteName } from './types';
+import { STANDARD_TUNING, getFretCount, getStringCount, getTuningStringNames } from './tunings';
+import type { Tuning } from './tunings';
+
+export type DropVoicingType = 'drop2' | 'drop3';
+
+export interface DropVoiceTone {
+  interval: number; // Semitones above the root
+  degree: string; // Chord degree, e.g. "b7"
+}
+
+export interface DropVoicing {
+  type: DropVoicingType;
+  strings: number[]; // Low string first
+  frets: number[];
+  notes: number[]; // Pitch classes, low to high
+  noteNames: string[];
+  degrees: string[]; // Chord degrees, low to high (e.g. ["1", "5", "7", "3"])
+  inversion: number; // Index of the bass tone in the voice tones (0 = lowest voice tone in the bass)
+  avgFret: number;
+}
+
+export interface DropStringSet {
+  strings: number[]; // Low string first, e.g. [2, 3, 4, 5] for strings 4-3-2-1
+  stringNames: string[];
+  voicings: DropVoicing[]; // Every playable voicing, lowest on the neck first
+}
+
+export interface DropVoicingsData {
+  key: NoteName;
+  chordType: ChordType;
+  chordName: string;
+  type: DropVoicingType;
+  voiceTones: DropVoiceTone[]; // The tones the four voices are drawn from
+  stringSets: DropStringSet[]; // Lowest string set first
+}
+
+export const DROP_VOICING_LABELS: Record<DropVoicingType, string> = {
+  drop2: 'Drop 2',
+  drop3: 'Drop 3',
+};
+
+const VOICE_COUNT = 4;
+
+/**
+ * Four-voice string sets for a drop type, lowest set first
+ *
+ * Drop-2 uses adjacent strings (strings 3-6, 2-5 and 1-4 on six strings).
+ * Drop-3 skips the string above the bass (6-4-3-2 and 5-3-2-1 on six strings).
+ * @param stringCount Number of strings on the instrument
+ */
+export function getDropStringSets(type: DropVoicingType, stringCount: number): number[][] {
+  const offsets = type === 'drop2' ? [0, 1, 2, 3] : [0, 2, 3, 4];
+  const sets: number[][] = [];
+  for (let lowString = 0; lowString + offsets[VOICE_COUNT - 1] < stringCount; lowString++) {
+    sets.push(offsets.map((offset) => lowString + offset));
+  }
+  return sets;
+}
+
+/**
+ * Tones the four voices are drawn from
+ *
+ * Seventh chords use all four tones. Triads keep their three tones and double
+ * one in the voicing. Extended chords leave out the root, then the fifth, until
+ * four remain (rootless 9th and 13th voicings, as a bassist covers the root).
+ */
+export function getDropVoiceTones(chordType: ChordType): DropVoiceTone[] {
+  const formula = CHORD_FORMULAS[chordType];
+  const degrees = formula.description.split('-');
+  let tones: DropVoiceTone[] = formula.intervals.map((interval, i) => ({ interval, degree: degrees[i] }));
+
+  for (const omitted of [0, 7]) {
+    if (tones.length <= VOICE_COUNT) break;
+    tones = tones.filter((tone) => tone.interval !== omitted);
+  }
+  // Interval order isn't always pitch order once reduced (e.g. 9 above b7)
+  return tones
+    .map((tone) => ({ ...tone, interval: tone.interval % 12 }))
+    .sort((a, b) => a.interval - b.interval);
+}
+
+/**
+ * Voice layout of one inversion, low to high
+ *
+ * @param voiceTones Tones sorted by pitch class above the root
+ * @param inversion Which voice tone starts the close-position stack
+ * @returns Semitones above the bass and the tone index of each voice
+ */
+function getDropShape(
+  type: DropVoicingType,
+  voiceTones: DropVoiceTone[],
+  inversion: number
+): { offsets: number[]; toneIndices: number[] } {
+  // Close position: consecutive chord tones stacked upward from the chosen tone
+  const close: Array<{ pitch: number; toneIdx: number }> = [];
+  for (let i = 0; i < VOICE_COUNT; i++) {
+    const toneIdx = (inversion + i) % voiceTones.length;
+    let pitch = voiceTones[toneIdx].interval;
+    if (close.length > 0) {
+      const below = close[close.length - 1].pitch;
+      while (pitch <= below) pitch += 12;
+    }
+    close.push({ pitch, toneIdx });
+  }
+
+  // Lower the 2nd (drop-2) or 3rd (drop-3) voice from the top an octave
+  const droppedIdx = type === 'drop2' ? VOICE_COUNT - 2 : VOICE_COUNT - 3;
+  const dropped = { ...close[droppedIdx], pitch: close[droppedIdx].pitch - 12 };
+  const voices = [dropped, ...close.filter((_, i) => i !== droppedIdx)];
+
+  return {
+    offsets: voices.map((voice) => voice.pitch - dropped.pitch),
+    toneIndices: voices.map((voice) => voice.toneIdx),
+  };
+}
+
+/**
+ * Find every playable fingering of each inversion on a string set
+ * @param strings Four string indices, low string first
+ * @param rootPc Root pitch class
+ * @param maxStretch Maximum fret span of the fretted notes (default 5)
+ * @param maxFret Maximum fret number (default the tuning's fret count)
+ * @param key Optional key for note name display (sharps vs flats)
+ */
+export function findDropVoicings(
+  type: DropVoicingType,
+  strings: number[],
+  rootPc: number,
+  voiceTones: DropVoiceTone[],
+  tuning: Tuning = STANDARD_TUNING,
+  maxStretch: number = 5,
+  maxFret: number = getFretCount(tuning),
+  key?: string
+): DropVoicing[] {
+  if (strings.length !== VOICE_COUNT) {
+    throw new Error(`Drop voicings need ${VOICE_COUNT} strings, got ${strings.length}`);
+  }
+
+  const voicings: DropVoicing[] = [];
+  const openMidi = strings.map((stringIdx) => tuning.openStringMidi[stringIdx]);
+
+  for (let inversion = 0; inversion < voiceTones.length; inversion++) {
+    const { offsets, toneIndices } = getDropShape(type, voiceTones, inversion);
+    const bassPc = (rootPc + voiceTones[toneIndices[0]].interval) % 12;
+
+    for (let bassFret = 0; bassFret <= maxFret; bassFret++) {
+      const bassMidi = openMidi[0] + bassFret;
+      if (bassMidi % 12 !== bassPc) continue;
+
+      const frets = offsets.map((offset, i) => bassMidi + offset - openMidi[i]);
+      if (frets.some((fret) => fret < 0 || fret > maxFret)) continue;
+
+      const fretted = frets.filter((fret) => fret > 0);
+      if (fretted.length > 0 && Math.max(...fretted) - Math.min(...fretted) > maxStretch) continue;
+
+      const notes = toneIndices.map((toneIdx) => (rootPc + voiceTones[toneIdx].interval) % 12);
+      voicings.push({
+        type,
+        strings: [...strings],
+        frets,
+        notes,
+        noteNames: notes.map((pc) => pcToDisplayName(pc, key)),
+        degrees: toneIndices.map((toneIdx) => voiceTones[toneIdx].degree),
+        inversion: toneIndices[0],
+        avgFret: frets.reduce((sum, fret) => sum + fret, 0) / VOICE_COUNT,
+      });
+    }
+  }
+
+  return voicings.sort((a, b) => a.avgFret - b.avgFret);
+}
+
+/**
+ * Semitones each voice moves from one voicing to another on the same strings
+ */
+export function getVoiceMotion(from: Pick<DropVoicing, 'strings' | 'frets'>, to: Pick<DropVoicing, 'strings' | 'frets'>): number[] {
+  if (from.strings.join(',') !== to.strings.join(',')) {
+    throw new Error('Voice motion needs both voicings on the same strings');
+  }
+  return from.frets.map((fret, i) => to.frets[i] - fret);
+}
+
+/**
+ * Nearest voicing reached by moving every voice the same way on the same strings
+ *
+ * Moving each voice to its next chord tone up (or down) gives the next
+ * inversion, so the neighbours of a voicing are the shapes it leads into.
+ * @param direction 1 for the neighbour above, -1 for the one below
+ * @returns The neighbour with the least total motion, or null at the end of the neck
+ */
+export function findVoiceLedNeighbor(
+  voicing: DropVoicing,
+  candidates: DropVoicing[],
+  direction: 1 | -1
+): DropVoicing | null {
+  let best: DropVoicing | null = null;
+  let bestDistance = Infinity;
+
+  for (const candidate of candidates) {
+    if (candidate.strings.join(',') !== voicing.strings.join(',')) continue;
+    const motion = getVoiceMotion(voicing, candidate);
+    if (!motion.every((semitones) => semitones * direction > 0)) continue;
+
+    const distance = motion.reduce((sum, semitones) => sum + Math.abs(semitones), 0);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = candidate;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Generate drop-2 or drop-3 voicings of a chord on every string set
+ * @param key The chord root
+ * @param chordType Any chord type from the catalog
+ * @param tuning Tuning to voice the chord in (default standard tuning)
+ */
+export function generateDropVoicingsData(
+  key: NoteName,
+  chordType: ChordType,
+  type: DropVoicingType,
+  tuning: Tuning = STANDARD_TUNING
+): DropVoicingsData {
+  const rootPc = nameToPc(key);
+  const voiceTones = getDropVoiceTones(chordType);
+  const stringNames = getTuningStringNames(tuning);
+
+  return {
+    key,
+    chordType,
+    chordName: getChordName(key, chordType),
+    type,
+    voiceTones,
+    stringSets: getDropStringSets(type, getStringCount(tuning)).map((strings) => ({
+      strings,
+      stringNames: strings.map((stringIdx) => stringNames[stringIdx]),
+      voicings: findDropVoicings(type, strings, rootPc, voiceTones, tuning, 5, getFretCount(tuning), key),
+    })),
+  };
+}
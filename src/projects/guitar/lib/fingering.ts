@@ -0,0 +1,163 @@
+/**
+ * Fingering - Left-hand finger numbers for voicings and box shapes
+ *
+ * Fingers are numbered 1 (index) to 4 (pinky), with 0 for an open string.
+ * Voicings are solved by trying every finger assignment and keeping the one
+ * that stretches least, using a barre where one finger has to hold several
+ * strings. Box shapes follow the one-finger-per-fret rule, shifting or
+ * stretching on strings that reach outside a four-fret window.
+ */
+
+import type { TriadVoicing } from './triads';
+
+export type FingerNumber = 0 | 1 | 2 | 3 | 4;
+
+export interface Barre {
+  finger: FingerNumber;
+  fret: number;
+  fromString: number; // Lowest string index the barre covers
+  toString: number; // Highest string index the barre covers
+}
+
+export interface VoicingFingering {
+  fingers: FingerNumber[]; // One per note of the voicing
+  barre: Barre | null;
+}
+
+const FINGERS: FingerNumber[] = [1, 2, 3, 4];
+
+// Frets a hand can reach beyond one finger per fret
+const MAX_EXTRA_STRETCH = 2;
+
+// Costs weighed when comparing assignments
+const STRETCH_COST = 3;
+const CRAMP_COST = 1;
+const INDEX_BARRE_COST = 2;
+const OTHER_BARRE_COST = 4;
+const CROSSED_FINGERS_COST = 0.1;
+
+/**
+ * Finger numbers for a voicing, with the barre it needs (if any)
+ *
+ * Higher frets always take higher fingers. A finger only holds several notes as
+ * a barre on one fret, and every string under the barre must be fretted at or
+ * above it.
+ * @param voicing Sounding strings (low first) and their frets
+ * @returns The easiest fingering, or null if the voicing can't be fingered
+ */
+export function assignVoicingFingering(voicing: Pick<TriadVoicing, 'strings' | 'frets'>): VoicingFingering | null {
+  const { strings, frets } = voicing;
+  const fretted = frets.flatMap((fret, i) => (fret > 0 ? [i] : []));
+  const fretOnString = new Map(strings.map((stringIdx, i) => [stringIdx, frets[i]]));
+
+  const search: { best: { fingers: FingerNumber[]; cost: number; barre: Barre | null } | null } = { best: null };
+  const assignment: FingerNumber[] = [];
+
+  // Whether the finger just placed on fretted note b can go with those before it
+  const fitsEarlierFingers = (b: number) => {
+    for (let a = 0; a < b; a++) {
+      const fretGap = frets[fretted[b]] - frets[fretted[a]];
+      const fingerGap = assignment[b] - assignment[a];
+
+      // Fingers can't cross frets: the higher fret takes the higher finger
+      if ((fretGap > 0 && fingerGap <= 0) || (fretGap < 0 && fingerGap >= 0)) return false;
+      if (fingerGap === 0 && fretGap !== 0) return false;
+      if (Math.abs(fretGap) > Math.abs(fingerGap) + MAX_EXTRA_STRETCH) return false;
+    }
+    return true;
+  };
+
+  const evaluate = () => {
+    let cost = 0;
+    let barre: Barre | null = null;
+
+    for (let a = 0; a < fretted.length; a++) {
+      for (let b = a + 1; b < fretted.length; b++) {
+        const [i, j] = [fretted[a], fretted[b]];
+        const fretGap = frets[j] - frets[i];
+        const fingerGap = assignment[b] - assignment[a];
+
+        cost += Math.max(0, Math.abs(fretGap) - Math.abs(fingerGap)) * STRETCH_COST;
+        cost += Math.max(0, Math.abs(fingerGap) - Math.abs(fretGap) - 1) * CRAMP_COST;
+        if (fretGap === 0 && fingerGap < 0) cost += CROSSED_FINGERS_COST;
+      }
+    }
+
+    for (const finger of FINGERS) {
+      const held = fretted.filter((_, k) => assignment[k] === finger);
+      if (held.length < 2) continue;
+
+      const fret = frets[held[0]];
+      const fromString = Math.min(...held.map((i) => strings[i]));
+      const toString = Math.max(...held.map((i) => strings[i]));
+      for (let stringIdx = fromString; stringIdx <= toString; stringIdx++) {
+        const covered = fretOnString.get(stringIdx);
+        if (covered === undefined || covered < fret || covered === 0) return;
+      }
+      // Only one barre per hand, held by the lowest fretted finger
+      if (barre || fret !== Math.min(...fretted.map((i) => frets[i]))) return;
+      barre = { finger, fret, fromString, toString };
+      cost += finger === 1 ? INDEX_BARRE_COST : OTHER_BARRE_COST;
+    }
+
+    if (!search.best || cost < search.best.cost) {
+      search.best = { fingers: [...assignment], cost, barre };
+    }
+  };
+
+  const visit = (k: number) => {
+    if (k === fretted.length) {
+      evaluate();
+      return;
+    }
+    for (const finger of FINGERS) {
+      assignment.push(finger);
+      if (fitsEarlierFingers(k)) {
+        visit(k + 1);
+      }
+      assignment.pop();
+    }
+  };
+  visit(0);
+
+  if (!search.best) {
+    return null;
+  }
+  const { fingers: frettedFingers, barre } = search.best;
+  return {
+    fingers: frets.map((fret, i) => (fret > 0 ? frettedFingers[fretted.indexOf(i)] : 0)),
+    barre,
+  };
+}
+
+/**
+ * One-finger-per-fret fingering for a box shape
+ *
+ * The index takes the box's lowest fret. Strings that reach past the fourth
+ * fret shift the hand up one fret, and a string spanning more than four frets
+ * stretches from index to pinky.
+ * @param pattern Frets per string, low string first (BoxShapePattern.pattern)
+ * @returns Finger numbers in the same layout as the pattern
+ */
+export function assignBoxFingering(pattern: number[][]): FingerNumber[][] {
+  const fretted = pattern.flat().filter((fret) => fret > 0);
+  if (fretted.length === 0) {
+    return pattern.map((frets) => frets.map(() => 0 as FingerNumber));
+  }
+  const base = Math.min(...fretted);
+
+  return pattern.map((frets) => {
+    const stringFretted = frets.filter((fret) => fret > 0);
+    const low = Math.min(...stringFretted);
+    const high = Math.max(...stringFretted);
+
+    return frets.map((fret): FingerNumber => {
+      if (fret === 0) return 0;
+      if (high - base <= 3) return (fret - base + 1) as FingerNumber;
+      if (low - base >= 1 && high - base <= 4) return (fret - base) as FingerNumber;
+      // Stretch across the string: index on the lowest fret, pinky on the highest
+      if (high - low <= 3) return (fret - low + 1) as FingerNumber;
+      return (1 + Math.round(((fret - low) / (high - low)) * 3)) as FingerNumber;
+    });
+  });
+}
@@ -117,7 +117,7 @@ export const DIMENSIONS = {
 
   // String spacing
   get stringSpacing() {
-    return this.svgHeight / 7; // Space for 6 strings with margins
+    return this.svgHeight / 7; // Space for 6 strings with margins (see getFretboardSvgHeight)
   },
 
   // Fretboard margins (vertical, beyond strings)
@@ -226,20 +226,40 @@ export const DIMENSIONS = {
   },
 } as const;
 
+/**
+ * Total SVG height for a horizontal fretboard with the given number of strings.
+ * String spacing stays fixed, so 7/8-string necks grow taller and basses shorter.
+ *
+ * @param stringCount - Number of strings (default 6)
+ */
+export function getFretboardSvgHeight(stringCount: number = 6): number {
+  return DIMENSIONS.stringSpacing * (stringCount + 1);
+}
+
 /**
  * Calculate all string Y positions (vertical positions for horizontal layout)
- * String 1 (index 5) at top, string 6 (index 0) at bottom
+ * Highest string (last index) at top, lowest string (index 0) at bottom
  *
- * @returns Array of Y positions for all 6 strings [string6, string5, ..., string1]
+ * @param stringCount - Number of strings (default 6)
+ * @returns Array of Y positions for all strings, lowest string first
+ *          (for 6 strings: [string6, string5, ..., string1])
  */
-export function calculateAllStringYPositions(): number[] {
+export function calculateAllStringYPositions(stringCount: number = 6): number[] {
   const spacing = DIMENSIONS.stringSpacing;
+  return Array.from({ length: stringCount }, (_, stringIndex) => spacing * (stringCount - stringIndex));
+}
+
+/**
+ * String index pairs whose midpoints hold the 12th-fret double inlay
+ * ([[1, 2], [3, 4]] on six strings), kept symmetric for any string count.
+ *
+ * @param stringCount - Number of strings (default 6)
+ */
+export function getDoubleInlayStringPairs(stringCount: number = 6): Array<[number, number]> {
+  const lowerPairStart = Math.max(0, Math.floor((stringCount - 2) / 2) - 1);
+  const upperPairStart = Math.max(lowerPairStart, stringCount - 2 - lowerPairStart);
   return [
-    spacing * 6, // String 6 (index 0) - bottom (thickest)
-    spacing * 5, // String 5 (index 1)
-    spacing * 4, // String 4 (index 2)
-    spacing * 3, // String 3 (index 3)
-    spacing * 2, // String 2 (index 4)
-    spacing * 1, // String 1 (index 5) - top (thinnest)
+    [lowerPairStart, lowerPairStart + 1],
+    [upperPairStart, upperPairStart + 1],
   ];
 }
@@ -7,6 +7,9 @@
  * - This creates exponentially decreasing fret spacing
  */
 
+import { STANDARD_TUNING } from './tunings';
+import type { Tuning } from './tunings';
+
 /**
  * Standard guitar scale length in mm (Fender-style 25.5")
  */
@@ -44,19 +47,73 @@ export function getFretSpacing(fretNumber: number, scaleLength: number = SCALE_L
  */
 const STRING_GAUGES = [0.046, 0.036, 0.026, 0.017, 0.013, 0.010];
 
+/**
+ * Typical gauge sets for other string counts, lowest string first
+ * (4/5 strings are bass sets, 7/8 strings are extended-range guitar sets)
+ */
+const STRING_GAUGES_BY_COUNT: Record<number, number[]> = {
+  4: [0.105, 0.085, 0.065, 0.045],
+  5: [0.130, 0.105, 0.085, 0.065, 0.045],
+  6: STRING_GAUGES,
+  7: [0.059, 0.046, 0.036, 0.026, 0.017, 0.013, 0.010],
+  8: [0.074, 0.059, 0.046, 0.036, 0.026, 0.017, 0.013, 0.010],
+};
+
+/**
+ * Gauges at or above this (inches) are treated as wound strings
+ */
+const WOUND_GAUGE_THRESHOLD = 0.017;
+
+/**
+ * Gauge set for a string count; counts without a typical set spread the
+ * six-string range evenly (geometrically) across the strings.
+ */
+function getStringGauges(stringCount: number): number[] {
+  const known = STRING_GAUGES_BY_COUNT[stringCount];
+  if (known) {
+    return known;
+  }
+
+  const heaviest = STRING_GAUGES[0];
+  const lightest = STRING_GAUGES[STRING_GAUGES.length - 1];
+  if (stringCount <= 1) {
+    return [lightest];
+  }
+  return Array.from({ length: stringCount }, (_, index) =>
+    heaviest * Math.pow(lightest / heaviest, index / (stringCount - 1))
+  );
+}
+
 /**
  * Get the stroke width for a string based on its gauge
  *
- * @param stringIndex - String index (0 = 6th string/low E, 5 = 1st string/high E)
+ * @param stringIndex - String index (0 = lowest string, e.g. 6th string/low E)
  * @param baseWidth - Base width for the thinnest string (default 1.5)
+ * @param stringCount - Number of strings on the instrument (default 6)
  * @returns Stroke width in pixels
  */
-export function getStringThickness(stringIndex: number, baseWidth: number = 1.5): number {
-  const gauge = STRING_GAUGES[stringIndex];
-  const thinestGauge = STRING_GAUGES[5]; // 1st string is thinnest
+export function getStringThickness(
+  stringIndex: number,
+  baseWidth: number = 1.5,
+  stringCount: number = 6
+): number {
+  const gauges = getStringGauges(stringCount);
+  const gauge = gauges[stringIndex];
+  const thinestGauge = gauges[gauges.length - 1]; // Highest string is thinnest
   return baseWidth * (gauge / thinestGauge);
 }
 
+/**
+ * Whether a string is wound (drawn in bronze rather than plain steel)
+ * On six strings this is the low E, A, D and G; every bass string is wound.
+ *
+ * @param stringIndex - String index (0 = lowest string)
+ * @param stringCount - Number of strings on the instrument (default 6)
+ */
+export function isWoundString(stringIndex: number, stringCount: number = 6): boolean {
+  return getStringGauges(stringCount)[stringIndex] >= WOUND_GAUGE_THRESHOLD;
+}
+
 /**
  * Calculate Y positions for all frets in a range, normalized to a given height
  *
@@ -115,18 +172,6 @@ export function getNoteYPosition(
   return prevPos + (currentPos - prevPos) * 0.65;
 }
 
-/**
- * Standard guitar tuning in pitch classes (0-11)
- * Index 0 = 6th string (low E), Index 5 = 1st string (high E)
- */
-const STANDARD_TUNING_PITCH_CLASSES = [4, 9, 2, 7, 11, 4]; // E A D G B E
-
-/**
- * Standard guitar tuning in MIDI note numbers
- * Index 0 = 6th string (E2 = MIDI 40), Index 5 = 1st string (E4 = MIDI 64)
- */
-const STRING_TUNING_MIDI = [40, 45, 50, 55, 59, 64]; // E2, A2, D3, G3, B3, E4
-
 /**
  * Note names for sharps
  */
@@ -155,11 +200,16 @@ const SHARP_TO_FLAT_ENHARMONIC: Record<string, string> = {
  * @param stringIndex - String index (0 = 6th string/low E, 5 = 1st string/high E)
  * @param fret - Fret number (0 = open string)
  * @param key - Optional key context to determine sharps vs flats
+ * @param tuning - Tuning to read the open strings from (default standard tuning)
  * @returns Object with pitch class (0-11) and note name
  */
-export function getNoteAtPosition(stringIndex: number, fret: number, key?: string): { pitchClass: number; noteName: string } {
-  const openStringPc = STANDARD_TUNING_PITCH_CLASSES[stringIndex];
-  const pitchClass = (openStringPc + fret) % 12;
+export function getNoteAtPosition(
+  stringIndex: number,
+  fret: number,
+  key?: string,
+  tuning: Tuning = STANDARD_TUNING
+): { pitchClass: number; noteName: string } {
+  const pitchClass = (tuning.openStringMidi[stringIndex] + fret) % 12;
   // Use flats for flat keys, sharps for sharp keys
   const useFlats = key ? FLAT_KEYS.has(key) : false;
   const noteNames = useFlats ? PITCH_CLASS_NAMES_FLATS : PITCH_CLASS_NAMES_SHARPS;
@@ -193,10 +243,15 @@ export function toFlatEnharmonic(noteName: string): string {
  *
  * @param stringIndex - String index (0 = 6th string/low E, 5 = 1st string/high E)
  * @param fret - Fret number (0 = open string)
+ * @param tuning - Tuning to read the open strings from (default standard tuning)
  * @returns Octave number (typically 2-5 for standard guitar range)
  */
-export function getOctaveAtPosition(stringIndex: number, fret: number): number {
-  const openStringMidi = STRING_TUNING_MIDI[stringIndex];
+export function getOctaveAtPosition(
+  stringIndex: number,
+  fret: number,
+  tuning: Tuning = STANDARD_TUNING
+): number {
+  const openStringMidi = tuning.openStringMidi[stringIndex];
   const midiNote = openStringMidi + fret;
   return Math.floor(midiNote / 12) - 1;
 }
@@ -0,0 +1,93 @@
+/**
+ * Microphone pitch input
+ *
+ * Opens the mic with the browser's voice processing turned off (it smears
+ * pitch and mutes sustained notes), then runs the pitch detector on the
+ * latest frame at a fixed interval and hands each estimate to the caller.
+ * The frame is sized from the context's sample rate, so a 96 kHz interface
+ * still holds two periods of the lowest note.
+ */
+
+import {
+  DEFAULT_PITCH_DETECTOR_OPTIONS,
+  detectPitch,
+  getLowestDetectableFrequency,
+  getPitchFrameSize,
+} from './pitch-detection';
+import type { PitchEstimate } from './pitch-detection';
+
+export const DEFAULT_PITCH_INPUT_INTERVAL_MS = 80;
+
+/**
+ * Start listening for pitches on the microphone
+ *
+ * @param onPitch - Called with each estimate (null for silence or an unpitched frame)
+ * @param intervalMs - Time between analyses; detection is O(frame × lag), so not every animation frame
+ * @returns A function that stops listening and releases the mic
+ * @throws Error if the browser has no microphone access or the user denies it
+ */
+export async function startPitchInput(
+  onPitch: (estimate: PitchEstimate | null, timeMs: number) => void,
+  intervalMs: number = DEFAULT_PITCH_INPUT_INTERVAL_MS
+): Promise<() => void> {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new Error('Microphone access is not available in this browser.');
+  }
+
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: {
+      echoCancellation: false,
+      noiseSuppression: false,
+      autoGainControl: false,
+    },
+  });
+
+  const audioContext = new window.AudioContext();
+  const source = audioContext.createMediaStreamSource(stream);
+  const analyser = audioContext.createAnalyser();
+  const { sampleRate } = audioContext;
+  analyser.fftSize = getPitchFrameSize(sampleRate);
+  source.connect(analyser);
+
+  const frame = new Float32Array(analyser.fftSize);
+  // Past the largest frame, the lowest notes are given up rather than the whole search
+  const minFrequency = Math.max(
+    DEFAULT_PITCH_DETECTOR_OPTIONS.minFrequency,
+    getLowestDetectableFrequency(frame.length, sampleRate)
+  );
+  let lastAnalysisMs = -Infinity;
+  let rafId: number | null = null;
+
+  // The next frame is requested first, so nothing thrown below stops listening
+  const tick = () => {
+    rafId = window.requestAnimationFrame(tick);
+    const now = performance.now();
+    if (now - lastAnalysisMs < intervalMs) {
+      return;
+    }
+    lastAnalysisMs = now;
+
+    let estimate: PitchEstimate | null = null;
+    try {
+      analyser.getFloatTimeDomainData(frame);
+      estimate = detectPitch(frame, sampleRate, { minFrequency });
+    } catch {
+      // A frame that can't be analysed reads as unpitched
+    }
+    try {
+      onPitch(estimate, now);
+    } catch (err) {
+      console.error('Pitch input callback failed:', err);
+    }
+  };
+  rafId = window.requestAnimationFrame(tick);
+
+  return () => {
+    if (rafId !== null) {
+      window.cancelAnimationFrame(rafId);
+      rafId = null;
+    }
+    stream.getTracks().forEach((track) => track.stop());
+    void audioContext.close();
+  };
+}
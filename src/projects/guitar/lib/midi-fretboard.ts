@@ -0,0 +1,100 @@
+/**
+ * Fretboard positions for incoming MIDI notes
+ *
+ * A keyboard (or a MIDI guitar without per-string channels) only tells us the
+ * pitch, so each note is placed on its own string in the most compact hand
+ * position, kept near the previous one so the highlight doesn't jump around.
+ */
+
+import { STANDARD_TUNING, getFretCount } from './tunings';
+import type { Tuning } from './tunings';
+
+export interface MidiFretPosition {
+  stringIdx: number;
+  fret: number;
+  midi: number;
+}
+
+export interface NearestFretOptions {
+  numFrets?: number; // Highest fret to use (default the tuning's fret count)
+  anchorFret?: number | null; // Center of the previous position, to stay close to
+}
+
+// Costs, in frets: a note we could not place outweighs any stretch
+const MISSING_NOTE_COST = 20;
+const SPAN_WEIGHT = 2;
+const CROSSED_STRING_COST = 1;
+
+/**
+ * Fretted center of a set of positions (open strings don't move the hand)
+ */
+export function getPositionCenterFret(positions: Array<{ fret: number }>): number | null {
+  const fretted = positions.filter((position) => position.fret > 0);
+  if (fretted.length === 0) {
+    return null;
+  }
+  return fretted.reduce((sum, position) => sum + position.fret, 0) / fretted.length;
+}
+
+function getFretSpan(positions: MidiFretPosition[]): number {
+  const fretted = positions.filter((position) => position.fret > 0).map((position) => position.fret);
+  return fretted.length > 0 ? Math.max(...fretted) - Math.min(...fretted) : 0;
+}
+
+function scorePositions(positions: MidiFretPosition[], anchorFret: number | null): number {
+  const span = getFretSpan(positions);
+  const center = getPositionCenterFret(positions);
+  // Without an anchor, lower positions win ties
+  const drift = center === null ? 0 : anchorFret === null ? center * 0.1 : Math.abs(center - anchorFret);
+  const crossings = positions.filter((a, i) =>
+    positions.some((b, j) => j > i && (a.midi - b.midi) * (a.stringIdx - b.stringIdx) < 0)
+  ).length;
+  return span * SPAN_WEIGHT + drift + crossings * CROSSED_STRING_COST;
+}
+
+/**
+ * Place MIDI notes on the fretboard, one string each, in the most playable shape
+ *
+ * Notes out of the neck's range, or beyond one per string, are left out.
+ * @returns Positions ordered from the lowest note up
+ */
+export function findNearestFretPositions(
+  midiNotes: number[],
+  tuning: Tuning = STANDARD_TUNING,
+  options: NearestFretOptions = {}
+): MidiFretPosition[] {
+  const { numFrets = getFretCount(tuning), anchorFret = null } = options;
+  const stringCount = tuning.openStringMidi.length;
+  const notes = [...new Set(midiNotes)].sort((a, b) => a - b).slice(0, stringCount);
+
+  let best: MidiFretPosition[] = [];
+  let bestCost = Infinity;
+
+  const search = (noteIdx: number, placed: MidiFretPosition[], usedStrings: Set<number>, missing: number) => {
+    // Missing notes and the stretch only grow as notes are added
+    if (missing * MISSING_NOTE_COST + getFretSpan(placed) * SPAN_WEIGHT >= bestCost) {
+      return;
+    }
+    if (noteIdx === notes.length) {
+      const cost = missing * MISSING_NOTE_COST + scorePositions(placed, anchorFret);
+      if (cost < bestCost) {
+        bestCost = cost;
+        best = placed;
+      }
+      return;
+    }
+
+    const midi = notes[noteIdx];
+    for (let stringIdx = 0; stringIdx < stringCount; stringIdx++) {
+      const fret = midi - tuning.openStringMidi[stringIdx];
+      if (usedStrings.has(stringIdx) || fret < 0 || fret > numFrets) {
+        continue;
+      }
+      search(noteIdx + 1, [...placed, { stringIdx, fret, midi }], new Set([...usedStrings, stringIdx]), missing);
+    }
+    search(noteIdx + 1, placed, usedStrings, missing + 1);
+  };
+
+  search(0, [], new Set(), 0);
+  return best;
+}
@@ -5,9 +5,9 @@
  * with proper handling of the B string "warp" (major 3rd vs perfect 4th tuning).
  */
 
-// Standard tuning open string pitch classes (0=C, 1=C#, ..., 11=B)
-// Index 0 = 6th string (low E), Index 5 = 1st string (high E)
-const STANDARD_TUNING = [4, 9, 2, 7, 11, 4]; // E A D G B E
+import { findScaleFormulaByIntervals, getScaleFormulaDefinition } from './theory-catalog';
+import { STANDARD_TUNING, getFretCount, getTuningPitchClasses } from './tunings';
+import type { Tuning } from './tunings';
 
 // Note names for display
 const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
@@ -35,7 +35,7 @@ export interface ModePattern {
   modeName: string;       // e.g., "Ionian", "Dorian"
   rootNote: string;       // e.g., "G", "A"
   rootPitchClass: number; // 0-11
-  pattern: number[][];    // 6 arrays of fret numbers (2-3 per string)
+  pattern: number[][];    // One array of fret numbers per string, low string first
   rootPositions: [number, number][]; // [stringIndex, fret] pairs for root notes
 }
 
@@ -67,19 +67,26 @@ export function getNoteName(pitchClass: number): string {
 
 /**
  * Get all pitch classes in a scale given root and mode
+ * (a major mode name, or any scale id or alias from the theory catalog)
  */
 export function getScalePitchClasses(rootPitchClass: number, mode: string): number[] {
-  const intervals = MODE_INTERVALS[mode.toLowerCase()];
+  const intervals = MODE_INTERVALS[mode.toLowerCase()] ?? getScaleFormulaDefinition(mode)?.intervals;
   if (!intervals) return [];
   return intervals.map(interval => (rootPitchClass + interval) % 12);
 }
 
 /**
  * Find the fret for a given pitch class on a given string
- * Returns all frets (0-18) where this pitch class appears
+ * Returns all frets between minFret and maxFret where this pitch class appears
  */
-function findFretsForPitchClass(stringIndex: number, pitchClass: number, minFret: number = 0, maxFret: number = 18): number[] {
-  const openStringPc = STANDARD_TUNING[stringIndex];
+function findFretsForPitchClass(
+  tuningPcs: number[],
+  stringIndex: number,
+  pitchClass: number,
+  minFret: number,
+  maxFret: number
+): number[] {
+  const openStringPc = tuningPcs[stringIndex];
   const frets: number[] = [];
 
   for (let fret = minFret; fret <= maxFret; fret++) {
@@ -95,114 +102,94 @@ function findFretsForPitchClass(stringIndex: number, pitchClass: number, minFret
  * Generate a 3NPS pattern for a mode starting at a specific position
  *
  * The algorithm:
- * 1. Start with the mode's root note on string 6 at the target position
- * 2. For each string, find 3 consecutive scale tones that fit within the position
- * 3. The B string (index 4) may have only 2 notes to maintain playability
+ * 1. Start with the mode's root note on the lowest string at the target position
+ * 2. Each string takes the next 3 scale tones up in pitch, so a string tuned
+ *    closer than a 4th above the previous one (the B string in standard
+ *    tuning) moves the position up the neck and a wider one moves it down
+ * 3. A pattern that would run under the nut or past the last fret moves an octave
  *
  * @param rootPitchClass - The root note's pitch class (0=C, 7=G, etc.)
  * @param mode - The mode name (ionian, dorian, etc.)
  * @param startingFret - Approximate starting position on the neck
+ * @param tuning - Tuning to lay the pattern out on (default standard, 18 frets)
  */
 export function generate3NPSPattern(
   rootPitchClass: number,
   mode: string,
-  startingFret: number = 2
+  startingFret: number = 2,
+  tuning: Tuning = STANDARD_TUNING
 ): { pattern: number[][]; rootPositions: [number, number][] } {
-  const scalePcs = getScalePitchClasses(rootPitchClass, mode);
+  return layOut3NPSPattern(getScalePitchClasses(rootPitchClass, mode), startingFret, tuning);
+}
+
+/**
+ * Lay scale tones out three per string, starting from the first one
+ * @param scalePcs - Scale pitch classes in order from the starting degree, which is marked as the root
+ */
+function layOut3NPSPattern(
+  scalePcs: number[],
+  startingFret: number,
+  tuning: Tuning
+): { pattern: number[][]; rootPositions: [number, number][] } {
+  const tuningPcs = getTuningPitchClasses(tuning);
+  const maxFret = getFretCount(tuning);
   if (scalePcs.length === 0) {
-    return { pattern: [[], [], [], [], [], []], rootPositions: [] };
+    return { pattern: tuningPcs.map(() => []), rootPositions: [] };
   }
+  const rootPitchClass = scalePcs[0];
+  const scalePcSet = new Set(scalePcs);
 
-  const pattern: number[][] = [];
-  const rootPositions: [number, number][] = [];
+  // The first note sits nearest a couple of frets above the starting fret,
+  // preferring the position's own six frets
+  const firstFrets = findFretsForPitchClass(tuningPcs, 0, rootPitchClass, 0, maxFret);
+  const inPosition = firstFrets.filter((fret) => fret >= startingFret && fret <= startingFret + 6);
+  const firstFret = [...(inPosition.length ? inPosition : firstFrets)]
+    .sort((a, b) => Math.abs(a - (startingFret + 2)) - Math.abs(b - (startingFret + 2)))[0] ?? 0;
 
   // For 3NPS, we play 3 notes per string, cycling through the scale
   // String 6 gets degrees 1,2,3 | String 5 gets 4,5,6 | String 4 gets 7,1,2 | etc.
-  // This creates the characteristic 3NPS fingering
-
-  let scaleIndex = 0; // Which scale degree we're on (0-6, cycles)
-
-  for (let stringIdx = 0; stringIdx < 6; stringIdx++) {
+  // Walking up in pitch keeps every string's run unbroken whatever the tuning.
+  let midi = tuning.openStringMidi[0] + firstFret - 1;
+  const pattern = tuning.openStringMidi.map((openMidi) => {
     const stringNotes: number[] = [];
-    const openStringPc = STANDARD_TUNING[stringIdx];
-
-    // Determine how many notes on this string
-    // For a true 3NPS pattern with B string adjustment:
-    // The B string (index 4) often needs adjustment due to the tuning offset
-    const notesOnString = 3;
-
-    // Find frets for the next 3 scale degrees
-    for (let i = 0; i < notesOnString; i++) {
-      const targetPc = scalePcs[scaleIndex % 7];
-
-      // Find the fret closest to our current position
-      const possibleFrets = findFretsForPitchClass(stringIdx, targetPc, 0, 18);
-
-      // Calculate target fret range based on previous string
-      let targetMin = startingFret;
-      let targetMax = startingFret + 6;
-
-      if (stringIdx > 0 && pattern[stringIdx - 1].length > 0) {
-        // Base position on previous string, accounting for string transition
-        const prevStringAvg = pattern[stringIdx - 1].reduce((a, b) => a + b, 0) / pattern[stringIdx - 1].length;
-
-        // B string (index 4) needs +1 fret adjustment due to major 3rd tuning
-        const bStringAdjust = stringIdx === 4 ? 1 : 0;
-
-        targetMin = Math.max(0, Math.floor(prevStringAvg) - 1 + bStringAdjust);
-        targetMax = targetMin + 5;
-      }
-
-      // Find best fret in range
-      let bestFret = possibleFrets[0] || 0;
-      let bestDist = Infinity;
-
-      for (const fret of possibleFrets) {
-        if (fret >= targetMin && fret <= targetMax) {
-          const dist = Math.abs(fret - (targetMin + 2));
-          if (dist < bestDist) {
-            bestDist = dist;
-            bestFret = fret;
-          }
-        }
-      }
-
-      // If no fret in range, find closest one
-      if (bestDist === Infinity) {
-        for (const fret of possibleFrets) {
-          const dist = Math.min(Math.abs(fret - targetMin), Math.abs(fret - targetMax));
-          if (dist < bestDist) {
-            bestDist = dist;
-            bestFret = fret;
-          }
-        }
+    while (stringNotes.length < 3) {
+      midi++;
+      if (scalePcSet.has(midi % 12)) {
+        stringNotes.push(midi - openMidi);
       }
+    }
+    return stringNotes;
+  });
 
-      stringNotes.push(bestFret);
+  const allFrets = pattern.flat();
+  const octaveShift = Math.min(...allFrets) < 0
+    ? 12
+    : Math.max(...allFrets) > maxFret && Math.min(...allFrets) >= 12
+      ? -12
+      : 0;
+  const shiftedPattern = pattern.map((frets) => frets.map((fret) => fret + octaveShift));
 
-      // Track root positions
-      if (targetPc === rootPitchClass) {
-        rootPositions.push([stringIdx, bestFret]);
+  const rootPositions: [number, number][] = [];
+  shiftedPattern.forEach((frets, stringIdx) => {
+    frets.forEach((fret) => {
+      if ((tuningPcs[stringIdx] + fret) % 12 === rootPitchClass) {
+        rootPositions.push([stringIdx, fret]);
       }
+    });
+  });
 
-      scaleIndex++;
-    }
-
-    // Sort notes on this string by fret number
-    stringNotes.sort((a, b) => a - b);
-    pattern.push(stringNotes);
-  }
-
-  return { pattern, rootPositions };
+  return { pattern: shiftedPattern, rootPositions };
 }
 
 /**
  * Generate all 7 mode patterns for a given key
  *
  * @param keyRoot - The root note name of the major key (e.g., "G" for G major)
+ * @param tuning - Tuning to lay the patterns out on (default standard, 18 frets)
  * @returns Array of 7 ModePattern objects
  */
-export function generateAllModePatterns(keyRoot: string = 'G'): ModePattern[] {
+export function generateAllModePatterns(keyRoot: string = 'G', tuning: Tuning = STANDARD_TUNING): ModePattern[] {
+  const tuningPcs = getTuningPitchClasses(tuning);
   const keyRootPc = getPitchClass(keyRoot);
   const majorScalePcs = getScalePitchClasses(keyRootPc, 'ionian');
 
@@ -214,12 +201,12 @@ export function generateAllModePatterns(keyRoot: string = 'G'): ModePattern[] {
     const modeRootPc = majorScalePcs[modeIdx];
     const modeRootName = getNoteName(modeRootPc);
 
-    // Calculate starting fret based on mode root on low E string
+    // Calculate starting fret based on mode root on the lowest string
     // Find the lowest occurrence of the root note
-    const rootFretsOnLowE = findFretsForPitchClass(0, modeRootPc, 0, 12);
-    const startingFret = rootFretsOnLowE[0] || 0;
+    const rootFretsOnLowString = findFretsForPitchClass(tuningPcs, 0, modeRootPc, 0, 12);
+    const startingFret = rootFretsOnLowString[0] || 0;
 
-    const { pattern, rootPositions } = generate3NPSPattern(modeRootPc, modeName, startingFret);
+    const { pattern, rootPositions } = generate3NPSPattern(modeRootPc, modeName, startingFret, tuning);
 
     // Format mode name with proper capitalization
     const formattedModeName = modeName.charAt(0).toUpperCase() + modeName.slice(1);
@@ -237,6 +224,47 @@ export function generateAllModePatterns(keyRoot: string = 'G'): ModePattern[] {
   return patterns;
 }
 
+/**
+ * Generate a 3NPS pattern starting on each degree of any scale in the theory catalog
+ *
+ * Each pattern is named for the scale its starting degree spells, e.g. the
+ * second pattern of A harmonic minor is "B Locrian Natural 6". Degrees that
+ * spell no catalog scale keep the scale's own name ("C Major Pentatonic").
+ *
+ * @param scaleRoot - The scale's root note name (e.g., "A" for A harmonic minor)
+ * @param scaleId - Scale id or alias from the theory catalog
+ * @param tuning - Tuning to lay the patterns out on (default standard, 18 frets)
+ * @returns One ModePattern per scale degree, or none if the scale isn't in the catalog
+ */
+export function generateScale3NPSPatterns(
+  scaleRoot: string,
+  scaleId: string,
+  tuning: Tuning = STANDARD_TUNING
+): ModePattern[] {
+  const scale = getScaleFormulaDefinition(scaleId);
+  if (!scale) return [];
+
+  const tuningPcs = getTuningPitchClasses(tuning);
+  const scalePcs = getScalePitchClasses(getPitchClass(scaleRoot), scale.id);
+
+  return scalePcs.map((degreeRootPc, degree) => {
+    const fromDegree = [...scalePcs.slice(degree), ...scalePcs.slice(0, degree)];
+    const startingFret = findFretsForPitchClass(tuningPcs, 0, degreeRootPc, 0, 12)[0] || 0;
+    const { pattern, rootPositions } = layOut3NPSPattern(fromDegree, startingFret, tuning);
+    const degreeScale = findScaleFormulaByIntervals(fromDegree.map((pc) => pc - degreeRootPc));
+    const rootNote = getNoteName(degreeRootPc);
+
+    return {
+      mode: degreeScale ? `${rootNote} ${degreeScale.name}` : `${scaleRoot} ${scale.name}`,
+      modeName: degreeScale?.name ?? scale.name,
+      rootNote,
+      rootPitchClass: degreeRootPc,
+      pattern,
+      rootPositions,
+    };
+  });
+}
+
 /**
  * Get available key options for the UI
  */
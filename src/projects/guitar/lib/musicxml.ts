@@ -0,0 +1,309 @@
+/**
+ * MusicXML 4.0 export
+ *
+ * Writes a single guitar part on two staves: standard notation (treble clef,
+ * sounding an octave lower) and a TAB staff with string and fret for every note.
+ * Column labels become <harmony> chord symbols, so progressions open in
+ * MuseScore or Guitar Pro with their chord names above the staff.
+ */
+
+import { chooseProgressionVoicings, getBoxRunTabColumns, getVoicingTabColumn } from './tab';
+import type { BoxRunDirection, TabColumn } from './tab';
+import { parseChordSequence } from './looper-sync';
+import type { PracticeProgression } from './progression-recommendations';
+import type { TriadVoicing } from './triads';
+import { STANDARD_TUNING } from './tunings';
+import type { Tuning } from './tunings';
+
+export interface MusicXmlOptions {
+  title?: string;
+  tuning?: Tuning;
+  capoFret?: number; // TAB frets are counted from the capo (default 0)
+  beatsPerColumn?: number; // Quarter notes per column: 0.5, 1, 2 or 4 (default 1)
+  beatsPerMeasure?: number; // default 4
+  preferFlats?: boolean; // Spell black keys as flats (default sharps)
+}
+
+export const MUSICXML_MIME_TYPE = 'application/vnd.recordare.musicxml+xml';
+
+const DIVISIONS_PER_QUARTER = 2;
+const NOTE_TYPE_BY_BEATS: Record<number, string> = {
+  0.5: 'eighth',
+  1: 'quarter',
+  2: 'half',
+  3: 'half', // Dotted
+  4: 'whole',
+};
+const SHARP_SPELLINGS: Array<[string, number]> = [
+  ['C', 0], ['C', 1], ['D', 0], ['D', 1], ['E', 0], ['F', 0],
+  ['F', 1], ['G', 0], ['G', 1], ['A', 0], ['A', 1], ['B', 0],
+];
+const FLAT_SPELLINGS: Array<[string, number]> = [
+  ['C', 0], ['D', -1], ['D', 0], ['E', -1], ['E', 0], ['F', 0],
+  ['G', -1], ['G', 0], ['A', -1], ['A', 0], ['B', -1], ['B', 0],
+];
+// Chord-symbol suffixes to MusicXML <kind> values; anything else is written as "other" with its text
+const HARMONY_KIND_BY_SUFFIX: Record<string, string> = {
+  '': 'major',
+  m: 'minor',
+  dim: 'diminished',
+  aug: 'augmented',
+  '7': 'dominant',
+  maj7: 'major-seventh',
+  m7: 'minor-seventh',
+  dim7: 'diminished-seventh',
+  m7b5: 'half-diminished',
+  mMaj7: 'major-minor',
+  '6': 'major-sixth',
+  m6: 'minor-sixth',
+  '9': 'dominant-ninth',
+  '11': 'dominant-11th',
+  '13': 'dominant-13th',
+  sus2: 'suspended-second',
+  sus4: 'suspended-fourth',
+  '5': 'power',
+  '7b5': 'dominant',
+  '7#5': 'dominant',
+};
+// Altered fifths are written as a <degree> on top of the dominant kind
+const FIFTH_ALTER_BY_SUFFIX: Record<string, number> = {
+  '7b5': -1,
+  '7#5': 1,
+};
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function pitchXml(midi: number, preferFlats: boolean): string {
+  const [step, alter] = (preferFlats ? FLAT_SPELLINGS : SHARP_SPELLINGS)[((midi % 12) + 12) % 12];
+  const octave = Math.floor(midi / 12) - 1;
+  return `<pitch><step>${step}</step>${alter !== 0 ? `<alter>${alter}</alter>` : ''}<octave>${octave}</octave></pitch>`;
+}
+
+function rootXml(element: 'root' | 'bass', letter: string, accidental: string): string {
+  const alter = accidental === '#' ? 1 : accidental === 'b' ? -1 : 0;
+  return `<${element}><${element}-step>${letter}</${element}-step>${
+    alter !== 0 ? `<${element}-alter>${alter}</${element}-alter>` : ''
+  }</${element}>`;
+}
+
+/**
+ * <harmony> element for a chord symbol such as "Am7", "Bb" or "D/F#"
+ * @returns The element, or null when the symbol does not start with a note name
+ */
+export function chordSymbolToHarmonyXml(chordSymbol: string): string | null {
+  const match = chordSymbol
+    .trim()
+    .replace(/♭/g, 'b')
+    .replace(/♯/g, '#')
+    .match(/^([A-G])([#b]?)([^/\s]*)(?:\/([A-G])([#b]?))?$/);
+  if (!match) {
+    return null;
+  }
+  const [, letter, accidental, suffix, bassLetter, bassAccidental] = match;
+  const kind = HARMONY_KIND_BY_SUFFIX[suffix] ?? 'other';
+
+  return [
+    '<harmony print-frame="no">',
+    rootXml('root', letter, accidental),
+    `<kind text="${escapeXml(suffix)}">${kind}</kind>`,
+    bassLetter ? rootXml('bass', bassLetter, bassAccidental) : '',
+    FIFTH_ALTER_BY_SUFFIX[suffix]
+      ? `<degree><degree-value>5</degree-value><degree-alter>${FIFTH_ALTER_BY_SUFFIX[suffix]}</degree-alter><degree-type>alter</degree-type></degree>`
+      : '',
+    '<staff>1</staff>',
+    '</harmony>',
+  ].join('');
+}
+
+function noteXml(
+  body: string,
+  durationDivisions: number,
+  beats: number,
+  staff: 1 | 2,
+  options: { chord?: boolean; technical?: string }
+): string {
+  return [
+    '<note>',
+    options.chord ? '<chord/>' : '',
+    body,
+    `<duration>${durationDivisions}</duration>`,
+    `<voice>${staff === 1 ? 1 : 5}</voice>`,
+    `<type>${NOTE_TYPE_BY_BEATS[beats]}</type>`,
+    beats === 3 ? '<dot/>' : '',
+    `<staff>${staff}</staff>`,
+    options.technical ? `<notations><technical>${options.technical}</technical></notations>` : '',
+    '</note>',
+  ].join('');
+}
+
+function attributesXml(tuning: Tuning, capoFret: number, beatsPerMeasure: number): string {
+  const stringCount = tuning.openStringMidi.length;
+  const staffTuning = tuning.openStringMidi
+    .map((midi, stringIndex) => {
+      const [step, alter] = SHARP_SPELLINGS[((midi % 12) + 12) % 12];
+      return `<staff-tuning line="${stringIndex + 1}"><tuning-step>${step}</tuning-step>${
+        alter !== 0 ? `<tuning-alter>${alter}</tuning-alter>` : ''
+      }<tuning-octave>${Math.floor(midi / 12) - 1}</tuning-octave></staff-tuning>`;
+    })
+    .join('');
+
+  return [
+    '<attributes>',
+    `<divisions>${DIVISIONS_PER_QUARTER}</divisions>`,
+    '<key><fifths>0</fifths></key>',
+    `<time><beats>${beatsPerMeasure}</beats><beat-type>4</beat-type></time>`,
+    '<staves>2</staves>',
+    '<clef number="1"><sign>G</sign><line>2</line><clef-octave-change>-1</clef-octave-change></clef>',
+    '<clef number="2"><sign>TAB</sign><line>5</line></clef>',
+    `<staff-details number="2"><staff-lines>${stringCount}</staff-lines>${staffTuning}${
+      capoFret > 0 ? `<capo>${capoFret}</capo>` : ''
+    }</staff-details>`,
+    '</attributes>',
+  ].join('');
+}
+
+/**
+ * Render columns as a MusicXML score
+ *
+ * Every column lasts `beatsPerColumn`; the last measure is filled with rests.
+ * Notes are written at sounding pitch with TAB string numbers counted from
+ * the highest string, as MusicXML expects.
+ * @throws Error if the rhythm does not fit the measure, or a note is off the strings or behind the capo
+ */
+export function renderMusicXml(columns: TabColumn[], options: MusicXmlOptions = {}): string {
+  const {
+    title = 'Guitar',
+    tuning = STANDARD_TUNING,
+    capoFret = 0,
+    beatsPerColumn = 1,
+    beatsPerMeasure = 4,
+    preferFlats = false,
+  } = options;
+
+  const columnsPerMeasure = beatsPerMeasure / beatsPerColumn;
+  if (!NOTE_TYPE_BY_BEATS[beatsPerColumn] || !Number.isInteger(columnsPerMeasure) || columnsPerMeasure < 1) {
+    throw new Error(`Invalid rhythm: ${beatsPerColumn} beats per column in ${beatsPerMeasure}/4.`);
+  }
+
+  const stringCount = tuning.openStringMidi.length;
+  columns.forEach((column) => {
+    column.notes.forEach((note) => {
+      if (note.stringIndex < 0 || note.stringIndex >= stringCount) {
+        throw new Error(`Invalid note: string ${note.stringIndex} on a ${stringCount}-string tuning.`);
+      }
+      if (note.fret < capoFret) {
+        throw new Error(`Invalid note: fret ${note.fret} is behind a capo on fret ${capoFret}.`);
+      }
+    });
+  });
+
+  const duration = beatsPerColumn * DIVISIONS_PER_QUARTER;
+  const measureCount = Math.max(1, Math.ceil(columns.length / columnsPerMeasure));
+  const measures: string[] = [];
+
+  for (let m = 0; m < measureCount; m++) {
+    const measureColumns: TabColumn[] = Array.from(
+      { length: columnsPerMeasure },
+      (_, i) => columns[m * columnsPerMeasure + i] ?? { notes: [] }
+    );
+
+    const staffXml = (staff: 1 | 2) => measureColumns
+      .map((column) => {
+        const harmony = staff === 1 && column.label ? chordSymbolToHarmonyXml(column.label) ?? '' : '';
+        if (column.notes.length === 0) {
+          return harmony + noteXml('<rest/>', duration, beatsPerColumn, staff, {});
+        }
+        const sortedNotes = [...column.notes].sort(
+          (a, b) => tuning.openStringMidi[a.stringIndex] + a.fret - (tuning.openStringMidi[b.stringIndex] + b.fret)
+        );
+        return harmony + sortedNotes
+          .map((note, i) => noteXml(
+            pitchXml(tuning.openStringMidi[note.stringIndex] + note.fret, preferFlats),
+            duration,
+            beatsPerColumn,
+            staff,
+            {
+              chord: i > 0,
+              technical: staff === 2
+                ? `<string>${stringCount - note.stringIndex}</string><fret>${note.fret - capoFret}</fret>`
+                : undefined,
+            }
+          ))
+          .join('');
+      })
+      .join('');
+
+    measures.push([
+      `<measure number="${m + 1}">`,
+      m === 0 ? attributesXml(tuning, capoFret, beatsPerMeasure) : '',
+      staffXml(1),
+      `<backup><duration>${beatsPerMeasure * DIVISIONS_PER_QUARTER}</duration></backup>`,
+      staffXml(2),
+      m === measureCount - 1 ? '<barline location="right"><bar-style>light-heavy</bar-style></barline>' : '',
+      '</measure>',
+    ].join(''));
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">',
+    '<score-partwise version="4.0">',
+    `<work><work-title>${escapeXml(title)}</work-title></work>`,
+    '<part-list><score-part id="P1"><part-name>Guitar</part-name></score-part></part-list>',
+    '<part id="P1">',
+    ...measures,
+    '</part>',
+    '</score-partwise>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Score of voicings, one per beat
+ */
+export function renderVoicingsMusicXml(
+  voicings: Pick<TriadVoicing, 'strings' | 'frets'>[],
+  options: MusicXmlOptions = {}
+): string {
+  return renderMusicXml(voicings.map((voicing) => getVoicingTabColumn(voicing)), options);
+}
+
+/**
+ * Score of a box shape played as a run of eighth notes
+ */
+export function renderBoxShapeMusicXml(
+  pattern: number[][],
+  direction: BoxRunDirection = 'both',
+  options: MusicXmlOptions = {}
+): string {
+  return renderMusicXml(getBoxRunTabColumns(pattern, direction), { beatsPerColumn: 0.5, ...options });
+}
+
+/**
+ * Score of a practice progression: one chord per bar with its symbol, voiced
+ * like the progression tab (chords that cannot be voiced are a bar's rest)
+ */
+export function renderProgressionMusicXml(
+  progression: Pick<PracticeProgression, 'title' | 'chordNames'>,
+  options: MusicXmlOptions = {}
+): string {
+  const { tuning = STANDARD_TUNING, capoFret = 0 } = options;
+  const columns = chooseProgressionVoicings(parseChordSequence(progression.chordNames), tuning, capoFret)
+    .map(({ chordSymbol, voicing }) =>
+      voicing ? getVoicingTabColumn(voicing, chordSymbol) : { notes: [], label: chordSymbol }
+    );
+  const beatsPerMeasure = options.beatsPerMeasure ?? 4;
+
+  return renderMusicXml(columns, {
+    title: progression.title,
+    preferFlats: /^[A-G]b/.test(progression.chordNames.trim()),
+    beatsPerColumn: beatsPerMeasure,
+    ...options,
+  });
+}
@@ -0,0 +1,249 @@
+/**
+ * Fretboard note-finding drill with spaced repetition (Leitner boxes)
+ *
+ * Every (string, fret) cell has a box. A quick correct answer moves the cell
+ * up a box, a slow one keeps it where it is, and a miss sends it back to box 0.
+ * Higher boxes wait longer before they are due again, and question picking is
+ * weighted toward cells that are due, new, or in low boxes, so practice keeps
+ * returning to the weak spots.
+ */
+
+import { getNoteAtPosition } from './fretboard-physics';
+import { STANDARD_TUNING, formatTuningSpec } from './tunings';
+import type { Tuning } from './tunings';
+
+export type NoteDrillQuestion =
+  | { kind: 'find'; stringIndex: number; pitchClass: number; answerFrets: number[] } // Find all Fs on a string
+  | { kind: 'name'; stringIndex: number; fret: number; pitchClass: number }; // Name this fret
+
+export interface NoteDrillCell {
+  box: number; // 0 (new or missed) to MAX_NOTE_DRILL_BOX (mastered)
+  dueAt: number; // Epoch ms when the cell should be asked again
+  attempts: number;
+  correct: number;
+}
+
+export type NoteDrillMemory = Record<string, NoteDrillCell>; // Keyed by getNoteDrillCellKey
+
+export interface NoteDrillOptions {
+  numFrets: number;
+  tuning?: Tuning;
+  nowMs: number;
+  random?: () => number;
+}
+
+export const MAX_NOTE_DRILL_BOX = 5;
+
+/**
+ * How long a cell rests in each box before it is due again
+ */
+export const NOTE_DRILL_BOX_INTERVALS_MS = [
+  0,
+  30 * 1000,
+  5 * 60 * 1000,
+  60 * 60 * 1000,
+  24 * 60 * 60 * 1000,
+  4 * 24 * 60 * 60 * 1000,
+];
+
+/**
+ * Time allowed per question; answers after half the limit count as slow
+ */
+export const NOTE_DRILL_TIME_LIMITS_MS: Record<NoteDrillQuestion['kind'], number> = {
+  find: 12000,
+  name: 5000,
+};
+
+export function getNoteDrillCellKey(stringIndex: number, fret: number): string {
+  return `${stringIndex}:${fret}`;
+}
+
+/**
+ * localStorage key for a tuning's drill memory (cells are positions, so each tuning learns separately)
+ */
+export function getNoteDrillStorageKey(tuning: Tuning = STANDARD_TUNING): string {
+  return `guitar-note-drill:${formatTuningSpec(tuning)}`;
+}
+
+/**
+ * Read drill memory saved with JSON.stringify, dropping anything malformed
+ */
+export function parseNoteDrillMemory(raw: string | null): NoteDrillMemory {
+  if (!raw) {
+    return {};
+  }
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object') {
+      return {};
+    }
+    const memory: NoteDrillMemory = {};
+    Object.entries(parsed as Record<string, Partial<NoteDrillCell>>).forEach(([key, cell]) => {
+      if (
+        /^\d+:\d+$/.test(key) &&
+        typeof cell?.box === 'number' &&
+        typeof cell.dueAt === 'number' &&
+        typeof cell.attempts === 'number' &&
+        typeof cell.correct === 'number'
+      ) {
+        memory[key] = {
+          box: Math.min(MAX_NOTE_DRILL_BOX, Math.max(0, Math.round(cell.box))),
+          dueAt: cell.dueAt,
+          attempts: cell.attempts,
+          correct: cell.correct,
+        };
+      }
+    });
+    return memory;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Mastery of a cell from 0 to 1 (null if it has never been asked)
+ */
+export function getCellMastery(cell: NoteDrillCell | undefined): number | null {
+  return cell ? cell.box / MAX_NOTE_DRILL_BOX : null;
+}
+
+/**
+ * Mastery of every asked cell, keyed by getNoteDrillCellKey (for a heatmap)
+ */
+export function getMasteryMap(memory: NoteDrillMemory): Record<string, number> {
+  const mastery: Record<string, number> = {};
+  Object.entries(memory).forEach(([key, cell]) => {
+    mastery[key] = cell.box / MAX_NOTE_DRILL_BOX;
+  });
+  return mastery;
+}
+
+/**
+ * Move a cell between boxes after an answer
+ *
+ * @param correct - Whether the cell was answered correctly
+ * @param slow - Correct but slower than half the time limit (stays in its box)
+ */
+export function recordCellAnswer(
+  memory: NoteDrillMemory,
+  stringIndex: number,
+  fret: number,
+  correct: boolean,
+  slow: boolean,
+  nowMs: number
+): NoteDrillMemory {
+  const key = getNoteDrillCellKey(stringIndex, fret);
+  const previous = memory[key];
+  const previousBox = previous?.box ?? 0;
+  const box = !correct ? 0 : slow ? previousBox : Math.min(MAX_NOTE_DRILL_BOX, previousBox + 1);
+
+  return {
+    ...memory,
+    [key]: {
+      box,
+      dueAt: nowMs + NOTE_DRILL_BOX_INTERVALS_MS[box],
+      attempts: (previous?.attempts ?? 0) + 1,
+      correct: (previous?.correct ?? 0) + (correct ? 1 : 0),
+    },
+  };
+}
+
+/**
+ * Frets on a string that sound a pitch class
+ */
+export function findFretsForPitchClass(
+  stringIndex: number,
+  pitchClass: number,
+  numFrets: number,
+  tuning: Tuning = STANDARD_TUNING
+): number[] {
+  const frets: number[] = [];
+  for (let fret = 0; fret <= numFrets; fret++) {
+    if (getNoteAtPosition(stringIndex, fret, undefined, tuning).pitchClass === pitchClass) {
+      frets.push(fret);
+    }
+  }
+  return frets;
+}
+
+/**
+ * Sampling weight for a cell: new and due cells are favoured, and lower boxes more than higher ones
+ */
+function getCellWeight(cell: NoteDrillCell | undefined, nowMs: number): number {
+  if (!cell) {
+    return 3;
+  }
+  const weakness = MAX_NOTE_DRILL_BOX + 1 - cell.box;
+  return cell.dueAt <= nowMs ? weakness * 2 : weakness * 0.1;
+}
+
+/**
+ * Pick the next question, biased toward weak and due cells
+ */
+export function pickNoteDrillQuestion(memory: NoteDrillMemory, options: NoteDrillOptions): NoteDrillQuestion {
+  const { numFrets, tuning = STANDARD_TUNING, nowMs, random = Math.random } = options;
+  const cells: Array<{ stringIndex: number; fret: number; weight: number }> = [];
+  for (let stringIndex = 0; stringIndex < tuning.openStringMidi.length; stringIndex++) {
+    for (let fret = 0; fret <= numFrets; fret++) {
+      const weight = getCellWeight(memory[getNoteDrillCellKey(stringIndex, fret)], nowMs);
+      cells.push({ stringIndex, fret, weight });
+    }
+  }
+
+  const totalWeight = cells.reduce((sum, cell) => sum + cell.weight, 0);
+  let pick = random() * totalWeight;
+  const chosen = cells.find((cell) => (pick -= cell.weight) < 0) ?? cells[cells.length - 1];
+  const { pitchClass } = getNoteAtPosition(chosen.stringIndex, chosen.fret, undefined, tuning);
+
+  if (random() < 0.5) {
+    return { kind: 'name', stringIndex: chosen.stringIndex, fret: chosen.fret, pitchClass };
+  }
+  return {
+    kind: 'find',
+    stringIndex: chosen.stringIndex,
+    pitchClass,
+    answerFrets: findFretsForPitchClass(chosen.stringIndex, pitchClass, numFrets, tuning),
+  };
+}
+
+/**
+ * Score an answer and update the memory
+ *
+ * Naming a fret updates that cell. Finding a note updates every fret that
+ * should have been picked (missed ones count as wrong) and every wrong pick.
+ *
+ * @param answer - Named pitch class for 'name', picked frets for 'find' (null when time ran out)
+ * @param responseMs - Time taken to answer
+ */
+export function scoreNoteDrillAnswer(
+  memory: NoteDrillMemory,
+  question: NoteDrillQuestion,
+  answer: number | number[] | null,
+  responseMs: number,
+  nowMs: number
+): { memory: NoteDrillMemory; correct: boolean } {
+  const timeLimit = NOTE_DRILL_TIME_LIMITS_MS[question.kind];
+  const timedOut = answer === null || responseMs > timeLimit;
+  const slow = responseMs > timeLimit / 2;
+
+  if (question.kind === 'name') {
+    const correct = !timedOut && answer === question.pitchClass;
+    return {
+      memory: recordCellAnswer(memory, question.stringIndex, question.fret, correct, slow, nowMs),
+      correct,
+    };
+  }
+
+  const picked = new Set(Array.isArray(answer) ? answer : []);
+  let next = memory;
+  question.answerFrets.forEach((fret) => {
+    next = recordCellAnswer(next, question.stringIndex, fret, !timedOut && picked.has(fret), slow, nowMs);
+  });
+  const wrongPicks = [...picked].filter((fret) => !question.answerFrets.includes(fret));
+  wrongPicks.forEach((fret) => {
+    next = recordCellAnswer(next, question.stringIndex, fret, false, slow, nowMs);
+  });
+
+  const correct = !timedOut && wrongPicks.length === 0 && question.answerFrets.every((fret) => picked.has(fret));
+  return { memory: next, correct };
+}
@@ -0,0 +1,105 @@
+/**
+ * Fretboard orientation - handedness and string order for diagrams
+ *
+ * Diagrams are laid out right-handed (nut on the left, lowest string at the
+ * bottom of horizontal necks and on the left of vertical chord boxes) and then
+ * passed through these helpers. Mirroring flips the drawing horizontally;
+ * flipping strings reverses the order along the string axis. Geometry is
+ * transformed rather than the whole SVG, so labels stay readable and every
+ * hover target moves with its note.
+ */
+
+export type FretboardOrientationId =
+  | 'right-handed'
+  | 'left-handed'
+  | 'low-string-top'
+  | 'left-handed-low-string-top';
+
+export interface FretboardOrientation {
+  id: FretboardOrientationId;
+  label: string;
+  mirrored: boolean; // Mirror horizontally (nut on the right of horizontal necks)
+  flipStrings: boolean; // Reverse string order along the string axis
+}
+
+export const RIGHT_HANDED_ORIENTATION: FretboardOrientation = {
+  id: 'right-handed',
+  label: 'Right-handed',
+  mirrored: false,
+  flipStrings: false,
+};
+
+export const ORIENTATION_PRESETS: FretboardOrientation[] = [
+  RIGHT_HANDED_ORIENTATION,
+  { id: 'left-handed', label: 'Left-handed (nut on right)', mirrored: true, flipStrings: false },
+  { id: 'low-string-top', label: 'Low string on top', mirrored: false, flipStrings: true },
+  { id: 'left-handed-low-string-top', label: 'Left-handed, low string on top', mirrored: true, flipStrings: true },
+];
+
+/**
+ * Look up a preset orientation by id (falls back to right-handed)
+ */
+export function getOrientationById(id: string): FretboardOrientation {
+  return ORIENTATION_PRESETS.find((orientation) => orientation.id === id) ?? RIGHT_HANDED_ORIENTATION;
+}
+
+/**
+ * Map an x coordinate laid out right-handed into the oriented drawing
+ * @param x - Right-handed x coordinate
+ * @param extent - Width of the drawing (the mirror axis is extent / 2)
+ */
+export function orientX(x: number, extent: number, orientation: FretboardOrientation): number {
+  return orientation.mirrored ? extent - x : x;
+}
+
+/**
+ * Left edge of a rect laid out right-handed, after orientation
+ */
+export function orientRectX(
+  x: number,
+  rectWidth: number,
+  extent: number,
+  orientation: FretboardOrientation
+): number {
+  return orientation.mirrored ? extent - x - rectWidth : x;
+}
+
+/**
+ * Horizontal offset (e.g. nudging overlapping dots apart) after orientation
+ */
+export function orientOffsetX(offset: number, orientation: FretboardOrientation): number {
+  return orientation.mirrored ? -offset : offset;
+}
+
+/**
+ * SVG text anchor after orientation (start and end swap when mirrored)
+ */
+export function orientTextAnchor(
+  anchor: 'start' | 'middle' | 'end',
+  orientation: FretboardOrientation
+): 'start' | 'middle' | 'end' {
+  if (!orientation.mirrored || anchor === 'middle') {
+    return anchor;
+  }
+  return anchor === 'start' ? 'end' : 'start';
+}
+
+/**
+ * Row a string is drawn in, counted from the lowest string's usual row
+ * (string index 0 = lowest string). Horizontal necks only: the string axis is vertical.
+ */
+export function orientStringIndex(
+  stringIndex: number,
+  stringCount: number,
+  orientation: FretboardOrientation
+): number {
+  return orientation.flipStrings ? stringCount - 1 - stringIndex : stringIndex;
+}
+
+/**
+ * Vertical diagrams run strings across the x axis, so mirroring and flipping
+ * both reverse the string columns (and cancel out when combined)
+ */
+export function isVerticalStringOrderReversed(orientation: FretboardOrientation): boolean {
+  return orientation.mirrored !== orientation.flipStrings;
+}
@@ -0,0 +1,194 @@
+/**
+ * Pitch detection for the tuner (YIN)
+ *
+ * The detector works on a single frame of mono samples, so it can run on
+ * microphone frames from an AnalyserNode or on synthesized test buffers.
+ * YIN compares the frame with delayed copies of itself: the first delay where
+ * the normalized difference dips below a threshold is the period. Taking the
+ * first dip rather than the deepest one is what keeps rich, harmonic-heavy
+ * tones (plucked strings, sawtooths) from reading an octave low.
+ */
+
+import { midiToFrequency } from './sound';
+import { NOTE_NAMES_SHARP } from './constants';
+import { STANDARD_TUNING } from './tunings';
+import type { Tuning } from './tunings';
+
+export interface PitchEstimate {
+  frequency: number; // Hz
+  clarity: number; // 0-1, how periodic the frame is (1 = perfectly periodic)
+}
+
+export interface PitchDetectorOptions {
+  minFrequency?: number; // Lowest pitch searched, in Hz
+  maxFrequency?: number; // Highest pitch searched, in Hz
+  threshold?: number; // YIN dip threshold (lower = stricter)
+  minRms?: number; // Frames quieter than this are treated as silence
+}
+
+export interface TunerReading {
+  frequency: number;
+  midi: number; // Nearest MIDI note
+  noteName: string; // Sharp spelling, e.g. "F#"
+  octave: number;
+  cents: number; // Offset from the nearest note (-50 to +50)
+  stringIndex: number; // Open string closest to the pitch (0 = lowest string)
+  stringMidi: number; // That string's open note
+  stringCents: number; // Offset from that open string
+}
+
+export const DEFAULT_PITCH_DETECTOR_OPTIONS: Required<PitchDetectorOptions> = {
+  minFrequency: 27.5, // A0, below a 5-string bass's low B
+  maxFrequency: 1400, // Above the 24th fret of the high E string
+  threshold: 0.15,
+  minRms: 0.01,
+};
+
+// AnalyserNode frames are a power of two no longer than this
+export const MAX_PITCH_FRAME_SIZE = 32768;
+
+/**
+ * Smallest analyser frame that holds two periods of the lowest frequency
+ *
+ * Higher sample rates need longer frames: at 96 kHz, 27.5 Hz takes 8192 samples.
+ *
+ * @param sampleRate - Sample rate of the input in Hz
+ * @param minFrequency - Lowest pitch to search, in Hz
+ * @returns A power of two, at most MAX_PITCH_FRAME_SIZE
+ */
+export function getPitchFrameSize(
+  sampleRate: number,
+  minFrequency: number = DEFAULT_PITCH_DETECTOR_OPTIONS.minFrequency
+): number {
+  const needed = 2 * Math.ceil(sampleRate / minFrequency);
+  return Math.min(MAX_PITCH_FRAME_SIZE, 2 ** Math.ceil(Math.log2(needed)));
+}
+
+/**
+ * Lowest pitch a frame of this length can hold two periods of
+ */
+export function getLowestDetectableFrequency(frameLength: number, sampleRate: number): number {
+  // One lag of headroom keeps rounding in detectPitch from asking for a sample too many
+  return sampleRate / (Math.floor(frameLength / 2) - 1);
+}
+
+/**
+ * Estimate the pitch of one frame of mono samples
+ *
+ * @param frame - Samples in the range -1 to 1
+ * @param sampleRate - Sample rate of the frame in Hz
+ * @param options - Search range, threshold and silence level
+ * @returns The pitch, or null for silence or an unpitched frame
+ * @throws Error if the frame is too short to hold two periods of the lowest frequency
+ */
+export function detectPitch(
+  frame: Float32Array,
+  sampleRate: number,
+  options: PitchDetectorOptions = {}
+): PitchEstimate | null {
+  const { minFrequency, maxFrequency, threshold, minRms } = { ...DEFAULT_PITCH_DETECTOR_OPTIONS, ...options };
+  const maxLag = Math.ceil(sampleRate / minFrequency);
+  const minLag = Math.max(2, Math.floor(sampleRate / maxFrequency));
+  const windowLength = frame.length - maxLag;
+  if (windowLength < maxLag) {
+    throw new Error(`Frame too short: ${frame.length} samples. Need at least ${maxLag * 2} for ${minFrequency} Hz.`);
+  }
+
+  let sumSquares = 0;
+  for (let i = 0; i < frame.length; i++) {
+    sumSquares += frame[i] * frame[i];
+  }
+  if (Math.sqrt(sumSquares / frame.length) < minRms) {
+    return null;
+  }
+
+  // Cumulative mean normalized difference: d'(τ) = d(τ) · τ / Σ d(1..τ), with d'(0) = 1
+  const normalized = new Float32Array(maxLag + 2);
+  normalized[0] = 1;
+  let runningSum = 0;
+  for (let lag = 1; lag < normalized.length; lag++) {
+    let difference = 0;
+    for (let i = 0; i < windowLength; i++) {
+      const delta = frame[i] - frame[i + lag];
+      difference += delta * delta;
+    }
+    runningSum += difference;
+    normalized[lag] = runningSum > 0 ? (difference * lag) / runningSum : 1;
+  }
+
+  let period = -1;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (normalized[lag] < threshold) {
+      // Walk down to the bottom of this dip
+      while (lag + 1 <= maxLag && normalized[lag + 1] < normalized[lag]) {
+        lag++;
+      }
+      period = lag;
+      break;
+    }
+  }
+  if (period < 0) {
+    return null;
+  }
+
+  // Parabolic interpolation between neighbouring lags for sub-sample accuracy
+  const before = normalized[period - 1];
+  const at = normalized[period];
+  const after = normalized[period + 1];
+  const curvature = before - 2 * at + after;
+  const shift = curvature > 0 ? (before - after) / (2 * curvature) : 0;
+
+  return {
+    frequency: sampleRate / (period + shift),
+    clarity: Math.min(1, Math.max(0, 1 - at)),
+  };
+}
+
+/**
+ * Fractional MIDI note for a frequency (inverse of midiToFrequency)
+ */
+export function frequencyToMidi(frequency: number): number {
+  return 69 + 12 * Math.log2(frequency / 440);
+}
+
+/**
+ * Cents from one frequency to another (positive = sharp of the reference)
+ */
+export function getCentsOffset(frequency: number, referenceFrequency: number): number {
+  return 1200 * Math.log2(frequency / referenceFrequency);
+}
+
+/**
+ * Describe a detected pitch for the tuner: nearest note, cents off, and the
+ * open string of the tuning it is closest to
+ *
+ * @param frequency - Detected pitch in Hz
+ * @param tuning - Tuning whose open strings are the targets (default standard tuning)
+ */
+export function getTunerReading(frequency: number, tuning: Tuning = STANDARD_TUNING): TunerReading {
+  if (!(frequency > 0)) {
+    throw new Error(`Invalid frequency: ${frequency}. Must be above 0 Hz.`);
+  }
+
+  const exactMidi = frequencyToMidi(frequency);
+  const midi = Math.round(exactMidi);
+
+  let stringIndex = 0;
+  tuning.openStringMidi.forEach((openMidi, index) => {
+    if (Math.abs(exactMidi - openMidi) < Math.abs(exactMidi - tuning.openStringMidi[stringIndex])) {
+      stringIndex = index;
+    }
+  });
+  const stringMidi = tuning.openStringMidi[stringIndex];
+
+  return {
+    frequency,
+    midi,
+    noteName: NOTE_NAMES_SHARP[((midi % 12) + 12) % 12],
+    octave: Math.floor(midi / 12) - 1,
+    cents: getCentsOffset(frequency, midiToFrequency(midi)),
+    stringIndex,
+    stringMidi,
+    stringCents: getCentsOffset(frequency, midiToFrequency(stringMidi)),
+  };
+}
@@ -0,0 +1,194 @@
+/**
+ * Play-along verification for scale practice
+ *
+ * The mic only hears pitch, not which string it came from, so a target counts
+ * as played when the detected note is the same pitch (same octave) as the
+ * target position. Results are tallied per string and per mode so practice can
+ * focus on the weak spots.
+ */
+
+import { XYZ_FRET_OFFSETS } from './constants';
+import { planXyzPositions } from './core';
+import { frequencyToMidi } from './pitch-detection';
+import { STANDARD_TUNING } from './tunings';
+import type { Tuning } from './tunings';
+import type { Mode } from './types';
+
+export interface PlayAlongTarget {
+  stringIndex: number; // 0 = lowest string
+  fret: number;
+  midi: number;
+}
+
+export interface PlayAlongResult {
+  stringIndex: number;
+  mode: string;
+  correct: boolean;
+  reactionMs: number; // From the prompt to the played note
+}
+
+export interface PlayAlongStatBucket {
+  attempts: number;
+  correct: number;
+  totalReactionMs: number;
+}
+
+export interface PlayAlongStats {
+  byString: Record<number, PlayAlongStatBucket>;
+  byMode: Record<string, PlayAlongStatBucket>;
+}
+
+export interface NoteOnsetTracker {
+  candidateMidi: number | null; // Pitch seen in the latest frames, not yet confirmed
+  candidateFrames: number;
+  heldMidi: number | null; // Note already reported and still sounding
+}
+
+export interface PatternDrillProgress {
+  stepIndex: number; // Next target to play
+  stepStartedAtMs: number;
+}
+
+export const EMPTY_PLAY_ALONG_STATS: PlayAlongStats = { byString: {}, byMode: {} };
+
+// Consecutive frames a pitch must hold before it counts as a played note
+const STABLE_FRAMES = 2;
+
+/**
+ * Target for a fretted position
+ */
+export function getPlayAlongTarget(
+  stringIndex: number,
+  fret: number,
+  tuning: Tuning = STANDARD_TUNING
+): PlayAlongTarget {
+  return { stringIndex, fret, midi: tuning.openStringMidi[stringIndex] + fret };
+}
+
+/**
+ * Three-notes-per-string run of a mode across every string, low to high, laid
+ * out as the XYZ plan through the root
+ *
+ * With the root low on the neck, the strings below it would need frets under
+ * the nut, so the whole run moves up an octave.
+ *
+ * @param mode - Mode to play
+ * @param rootStringIndex - String the root is played on
+ * @param rootFret - Fret of the root on that string
+ */
+export function buildPatternDrill(
+  mode: Mode,
+  rootStringIndex: number,
+  rootFret: number,
+  tuning: Tuning = STANDARD_TUNING
+): PlayAlongTarget[] {
+  const plan = planXyzPositions(mode, rootStringIndex, rootFret, tuning);
+  const octaveShift = plan.some(({ fret }) => fret < 0) ? 12 : 0;
+
+  return plan.flatMap(({ stringIndex, fret, symbol }) =>
+    XYZ_FRET_OFFSETS[symbol].map((offset) => getPlayAlongTarget(stringIndex, fret + offset + octaveShift, tuning))
+  );
+}
+
+/**
+ * Nearest MIDI note to a detected frequency
+ */
+export function getPlayedMidi(frequency: number): number {
+  return Math.round(frequencyToMidi(frequency));
+}
+
+export function createNoteOnsetTracker(): NoteOnsetTracker {
+  return { candidateMidi: null, candidateFrames: 0, heldMidi: null };
+}
+
+/**
+ * Turn a stream of per-frame pitches into played notes
+ *
+ * A note is reported once its pitch holds for a couple of frames and differs
+ * from the note already sounding. Silence releases the held note, so the same
+ * note can be played again after it stops ringing.
+ *
+ * @param midi - Detected MIDI note for this frame, or null for silence
+ * @returns The updated tracker, and the MIDI note if one was just played
+ */
+export function trackNoteOnset(
+  tracker: NoteOnsetTracker,
+  midi: number | null
+): { tracker: NoteOnsetTracker; onsetMidi: number | null } {
+  if (midi === null) {
+    return { tracker: createNoteOnsetTracker(), onsetMidi: null };
+  }
+
+  const candidateFrames = midi === tracker.candidateMidi ? tracker.candidateFrames + 1 : 1;
+  if (candidateFrames >= STABLE_FRAMES && midi !== tracker.heldMidi) {
+    return { tracker: { candidateMidi: midi, candidateFrames, heldMidi: midi }, onsetMidi: midi };
+  }
+
+  return { tracker: { ...tracker, candidateMidi: midi, candidateFrames }, onsetMidi: null };
+}
+
+/**
+ * Step through a pattern drill with a played note
+ *
+ * The right note moves on to the next target; a wrong one is recorded as a
+ * miss and the drill waits on the same target.
+ *
+ * @returns The updated progress, and the result if the drill was still running
+ */
+export function advancePatternDrill(
+  progress: PatternDrillProgress,
+  targets: PlayAlongTarget[],
+  mode: string,
+  playedMidi: number,
+  nowMs: number
+): { progress: PatternDrillProgress; result: PlayAlongResult | null } {
+  const target = targets[progress.stepIndex];
+  if (!target) {
+    return { progress, result: null };
+  }
+
+  const correct = playedMidi === target.midi;
+  const result: PlayAlongResult = {
+    stringIndex: target.stringIndex,
+    mode,
+    correct,
+    reactionMs: nowMs - progress.stepStartedAtMs,
+  };
+
+  return {
+    progress: correct ? { stepIndex: progress.stepIndex + 1, stepStartedAtMs: nowMs } : progress,
+    result,
+  };
+}
+
+function addToBucket(bucket: PlayAlongStatBucket | undefined, result: PlayAlongResult): PlayAlongStatBucket {
+  return {
+    attempts: (bucket?.attempts ?? 0) + 1,
+    correct: (bucket?.correct ?? 0) + (result.correct ? 1 : 0),
+    totalReactionMs: (bucket?.totalReactionMs ?? 0) + result.reactionMs,
+  };
+}
+
+/**
+ * Add a result to the per-string and per-mode tallies
+ */
+export function recordPlayAlongResult(stats: PlayAlongStats, result: PlayAlongResult): PlayAlongStats {
+  return {
+    byString: { ...stats.byString, [result.stringIndex]: addToBucket(stats.byString[result.stringIndex], result) },
+    byMode: { ...stats.byMode, [result.mode]: addToBucket(stats.byMode[result.mode], result) },
+  };
+}
+
+/**
+ * Fraction of attempts played correctly (0 when nothing has been played)
+ */
+export function getAccuracy(bucket: PlayAlongStatBucket): number {
+  return bucket.attempts > 0 ? bucket.correct / bucket.attempts : 0;
+}
+
+/**
+ * Mean time from prompt to played note, in milliseconds (null when nothing has been played)
+ */
+export function getAverageReactionMs(bucket: PlayAlongStatBucket): number | null {
+  return bucket.attempts > 0 ? bucket.totalReactionMs / bucket.attempts : null;
+}
@@ -0,0 +1,206 @@
+/**
+ * Plucked-string synthesis (Karplus-Strong)
+ *
+ * A burst of noise shaped by the pick is fed round a delay line one period
+ * long; a gentle lowpass in the loop makes the high harmonics die first, which
+ * is what makes the tone sound like a string rather than an oscillator.
+ * Rendering is pure (samples in, samples out) and scheduling goes through
+ * whichever audio context is passed in, so an OfflineAudioContext or a test
+ * double can stand in for the browser's AudioContext.
+ */
+
+import { isWoundString } from './fretboard-physics';
+
+export interface PluckVoice {
+  brightness: number; // 0 (dark, thumb-like) to 1 (bright, pick near the bridge)
+  pickPosition: number; // Pluck point as a fraction of the string length from the bridge (0-0.5)
+  decay: number; // Seconds for the note to fall by 60 dB
+}
+
+export type StrumDirection = 'none' | 'down' | 'up';
+
+export interface PluckNote {
+  frequency: number;
+  startTime: number; // Context time in seconds
+  duration: number; // Seconds, including the release
+  gain: number; // Peak gain (0-1)
+  voice: PluckVoice;
+}
+
+/**
+ * Default seconds between string onsets when strumming
+ */
+export const DEFAULT_STRUM_SPREAD = 0.025;
+
+const RELEASE_TIME = 0.08;
+const LOWEST_DECAY = 4.5;
+const HIGHEST_DECAY = 2.5;
+
+/**
+ * Voice for a string: wound strings are darker, and lower strings ring longer
+ *
+ * @param stringIndex - String index (0 = lowest string)
+ * @param stringCount - Number of strings (default 6)
+ */
+export function getStringVoice(stringIndex: number, stringCount: number = 6): PluckVoice {
+  const position = stringCount > 1 ? stringIndex / (stringCount - 1) : 0;
+  return {
+    brightness: isWoundString(stringIndex, stringCount) ? 0.45 : 0.7,
+    pickPosition: 0.18,
+    decay: LOWEST_DECAY + (HIGHEST_DECAY - LOWEST_DECAY) * position,
+  };
+}
+
+/**
+ * Render one plucked note as mono samples
+ *
+ * @param frequency - Pitch in Hz
+ * @param sampleRate - Output sample rate in Hz
+ * @param duration - Length in seconds
+ * @param voice - Brightness, pick position and decay
+ * @param random - Noise source for the excitation (inject a seeded one for repeatable output)
+ * @throws Error if the frequency is not between 20 Hz and a quarter of the sample rate
+ */
+export function renderPluckedString(
+  frequency: number,
+  sampleRate: number,
+  duration: number,
+  voice: PluckVoice,
+  random: () => number = Math.random
+): Float32Array {
+  if (!(frequency >= 20 && frequency <= sampleRate / 4)) {
+    throw new Error(`Invalid pluck frequency: ${frequency}. Must be 20-${sampleRate / 4} Hz.`);
+  }
+
+  const brightness = Math.min(1, Math.max(0, voice.brightness));
+  const sampleCount = Math.max(0, Math.round(duration * sampleRate));
+  const output = new Float32Array(sampleCount);
+
+  // Loop lowpass: y = (1 - s)·x[n] + s·x[n - 1]; s = 0.5 is the classic, darkest average
+  const smoothing = 0.5 - 0.45 * brightness;
+
+  // Split the period into a whole-sample delay line and a fractional allpass so
+  // the pitch stays in tune on high notes. The loop filter adds `smoothing` samples.
+  const period = sampleRate / frequency;
+  let delayLength = Math.floor(period - smoothing);
+  let fraction = period - smoothing - delayLength;
+  if (fraction < 0.1) {
+    delayLength -= 1;
+    fraction += 1;
+  }
+  const allpassCoefficient = (1 - fraction) / (1 + fraction);
+
+  // Loop gain per period so the note falls 60 dB over `decay` seconds
+  const loopGain = Math.pow(10, -3 / (Math.max(0.05, voice.decay) * frequency));
+
+  // Excitation: noise, lowpassed by brightness, then comb-filtered at the pick
+  // position (plucking at 1/n of the length removes every nth harmonic)
+  const excitation = new Float32Array(delayLength);
+  let previousNoise = 0;
+  for (let i = 0; i < delayLength; i++) {
+    const noise = random() * 2 - 1;
+    previousNoise = brightness * noise + (1 - brightness) * previousNoise;
+    excitation[i] = previousNoise;
+  }
+  const pickOffset = Math.max(1, Math.round(Math.min(0.5, Math.max(0, voice.pickPosition)) * delayLength));
+  const delayLine = new Float32Array(delayLength);
+  let peak = 0;
+  for (let i = 0; i < delayLength; i++) {
+    const value = excitation[i] - (i >= pickOffset ? excitation[i - pickOffset] : 0);
+    delayLine[i] = value;
+    peak = Math.max(peak, Math.abs(value));
+  }
+  if (peak > 0) {
+    for (let i = 0; i < delayLength; i++) {
+      delayLine[i] /= peak;
+    }
+  }
+
+  let readIndex = 0;
+  let previousSample = 0;
+  let allpassInput = 0;
+  let allpassOutput = 0;
+  for (let n = 0; n < sampleCount; n++) {
+    const sample = delayLine[readIndex];
+    output[n] = sample;
+
+    const filtered = loopGain * ((1 - smoothing) * sample + smoothing * previousSample);
+    previousSample = sample;
+
+    const tuned = allpassCoefficient * filtered + allpassInput - allpassCoefficient * allpassOutput;
+    allpassInput = filtered;
+    allpassOutput = tuned;
+
+    delayLine[readIndex] = tuned;
+    readIndex = (readIndex + 1) % delayLength;
+  }
+
+  return output;
+}
+
+/**
+ * Onset offsets (seconds) for each chord note when strummed
+ *
+ * A down strum hits the lowest string first, an up strum the highest.
+ * Offsets are returned in the order the notes were given.
+ */
+export function getStrumOffsets(
+  stringIndices: number[],
+  direction: StrumDirection,
+  spread: number = DEFAULT_STRUM_SPREAD
+): number[] {
+  if (direction === 'none') {
+    return stringIndices.map(() => 0);
+  }
+
+  const order = stringIndices
+    .map((stringIndex, noteIndex) => ({ stringIndex, noteIndex }))
+    .sort((a, b) => (direction === 'down' ? a.stringIndex - b.stringIndex : b.stringIndex - a.stringIndex));
+
+  const offsets = new Array<number>(stringIndices.length).fill(0);
+  order.forEach(({ noteIndex }, strumIndex) => {
+    offsets[noteIndex] = strumIndex * spread;
+  });
+  return offsets;
+}
+
+/**
+ * Schedule a plucked note on an audio context
+ *
+ * @param ctx - Audio context to render and play through (AudioContext or OfflineAudioContext)
+ * @param destination - Node to connect to (usually ctx.destination)
+ * @param note - Pitch, timing, level and voice
+ * @param random - Noise source for the excitation
+ * @returns The buffer source, so callers can stop it early
+ */
+export function schedulePluck(
+  ctx: BaseAudioContext,
+  destination: AudioNode,
+  note: PluckNote,
+  random: () => number = Math.random
+): AudioBufferSourceNode {
+  const samples = renderPluckedString(note.frequency, ctx.sampleRate, note.duration, note.voice, random);
+  const buffer = ctx.createBuffer(1, Math.max(1, samples.length), ctx.sampleRate);
+  buffer.getChannelData(0).set(samples);
+
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+
+  // Hold the level, then fade out briefly so a cut-off note does not click
+  const gainNode = ctx.createGain();
+  const releaseStart = note.startTime + Math.max(0, note.duration - RELEASE_TIME);
+  gainNode.gain.setValueAtTime(note.gain, note.startTime);
+  gainNode.gain.setValueAtTime(note.gain, releaseStart);
+  gainNode.gain.linearRampToValueAtTime(0, note.startTime + note.duration);
+
+  source.connect(gainNode);
+  gainNode.connect(destination);
+  source.start(note.startTime);
+  source.stop(note.startTime + note.duration);
+  source.onended = () => {
+    source.disconnect();
+    gainNode.disconnect();
+  };
+
+  return source;
+}
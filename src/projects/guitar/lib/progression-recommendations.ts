@@ -1,7 +1,8 @@
 import type { BoxScaleFamily } from './box-shapes';
 import type { HexatonicModeId, TonalCenterMode } from './target-tones';
-import { getPitchClass } from './box-shapes';
-import { getChordNotes, type ChordType } from './chord-types';
+import { getPitchClass, isModalBoxFamily } from './box-shapes';
+import { pcToDisplayName } from './core';
+import { getChordPitchClasses, parseChord } from '@/utils/chord-symbol';
 
 export interface ProgressionRecommendationContext {
   tonalCenterMode: TonalCenterMode;
@@ -614,7 +615,7 @@ function getFlavorId(
   const intervalSet = new Set(visibleTargetIntervals);
   const hasInterval = (interval: number) => intervalSet.has(interval);
 
-  if (scaleFamily === 'major') {
+  if (isModalBoxFamily(scaleFamily)) {
     return tonalCenterMode === 'major' ? 'ionian' : 'aeolian';
   }
 
@@ -666,7 +667,7 @@ function getBaselineIntervals(
   scaleFamily: BoxScaleFamily,
   tonalCenterMode: TonalCenterMode
 ): number[] {
-  if (scaleFamily === 'major') {
+  if (isModalBoxFamily(scaleFamily)) {
     return tonalCenterMode === 'major' ? MAJOR_DIATONIC_INTERVALS : MINOR_DIATONIC_INTERVALS;
   }
   return tonalCenterMode === 'major' ? MAJOR_PENTATONIC_INTERVALS : MINOR_PENTATONIC_INTERVALS;
@@ -862,46 +863,13 @@ function dedupeTemplateIds(ids: string[]): string[] {
   return output;
 }
 
-function chordTypeFromSuffix(suffix: string): ChordType | null {
-  const normalized = suffix.trim();
-  const map: Record<string, ChordType> = {
-    '': 'major',
-    m: 'minor',
-    dim: 'dim',
-    aug: 'aug',
-    maj7: 'maj7',
-    m7: 'min7',
-    '7': '7',
-    dim7: 'dim7',
-    mMaj7: 'mMaj7',
-    '7b5': '7b5',
-    '7#5': '7#5',
-    m7b5: 'm7b5',
-    '6': '6',
-    m6: 'm6',
-    '9': '9',
-    '11': '11',
-    '13': '13',
-  };
-
-  return map[normalized] ?? null;
-}
-
 function chordNotesFromSymbol(chordSymbol: string): string[] {
-  const baseSymbol = chordSymbol.split('/')[0];
-  const match = baseSymbol.match(/^([A-G](?:#|b)?)(.*)$/);
-  if (!match) {
+  const result = parseChord(chordSymbol);
+  if (!result.ok) {
     return [];
   }
 
-  const root = match[1];
-  const suffix = match[2];
-  const chordType = chordTypeFromSuffix(suffix);
-  if (!chordType) {
-    return [root];
-  }
-
-  return getChordNotes(root, chordType);
+  return getChordPitchClasses(result.chord).map((pc) => pcToDisplayName(pc, result.chord.root));
 }
 
 export function getChordCheatSheetData(progressions: PracticeProgression[]): ChordCheatSheetData {
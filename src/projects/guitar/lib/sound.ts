@@ -1,54 +1,65 @@
 /**
  * Guitar sound generation using Web Audio API
- * Calculates correct frequencies for each string/fret and plays tones
+ * Calculates correct frequencies for each string/fret and plays them with a
+ * plucked-string voice (see pluck-synth.ts), or sends them to the external
+ * note output (e.g. a MIDI synth) when one is selected
  */
 
+import { MAX_SUPPORTED_FRET_COUNT, STANDARD_TUNING, getFretCount } from './tunings';
+import type { Tuning } from './tunings';
+import { DEFAULT_STRUM_SPREAD, getStrumOffsets, getStringVoice, schedulePluck } from './pluck-synth';
+import type { StrumDirection } from './pluck-synth';
+import { getExternalNoteOutput, playSequence } from '@/utils/note-output';
+
+/**
+ * Concert pitch reference: A4 (MIDI 69) = 440 Hz
+ */
+const A4_MIDI = 69;
+const A4_FREQUENCY = 440;
+
 /**
- * Standard guitar tuning frequencies in Hz (based on equal temperament)
- * These are the scientifically correct frequencies for standard tuning
+ * Convert a MIDI note number to its equal-temperament frequency
  *
- * String 6 (low E):  E2 = 82.41 Hz
- * String 5 (A):      A2 = 110.00 Hz
- * String 4 (D):      D3 = 146.83 Hz
- * String 3 (G):      G3 = 196.00 Hz
- * String 2 (B):      B3 = 246.94 Hz
- * String 1 (high E): E4 = 329.63 Hz
+ * Uses f = 440 × 2^((midi - 69) / 12), so standard tuning's open strings land on
+ * E2 = 82.41 Hz, A2 = 110.00 Hz, D3 = 146.83 Hz, G3 = 196.00 Hz, B3 = 246.94 Hz
+ * and E4 = 329.63 Hz.
+ *
+ * @param midiNote - MIDI note number (e.g. 40 = E2)
+ * @returns Frequency in Hz
  */
-const OPEN_STRING_FREQUENCIES = [
-  82.41,  // String 6 (index 0): E2
-  110.00, // String 5 (index 1): A2
-  146.83, // String 4 (index 2): D3
-  196.00, // String 3 (index 3): G3
-  246.94, // String 2 (index 4): B3
-  329.63, // String 1 (index 5): E4
-];
+export function midiToFrequency(midiNote: number): number {
+  return A4_FREQUENCY * Math.pow(2, (midiNote - A4_MIDI) / 12);
+}
 
 /**
  * Calculate the frequency of a note at a specific string and fret
  *
- * Uses equal temperament formula: f = f0 × 2^(n/12)
- * where f0 is the open string frequency and n is the number of frets
+ * Each fret raises the open string by one semitone, so the sounding MIDI note
+ * is the tuning's open-string note plus the fret number.
  *
- * @param stringIndex - String index (0 = 6th string/low E, 5 = 1st string/high E)
- * @param fret - Fret number (0 = open string, 1-18 = fretted)
+ * @param stringIndex - String index (0 = lowest string, e.g. low E in standard tuning)
+ * @param fret - Fret number (0 = open string, up to the instrument's fret count)
+ * @param tuning - Tuning to play in (default standard tuning); without a fret
+ *   count of its own any fret up to MAX_SUPPORTED_FRET_COUNT sounds, since views
+ *   such as the box shapes draw more frets than the default
  * @returns Frequency in Hz
  */
-export function calculateNoteFrequency(stringIndex: number, fret: number): number {
-  if (stringIndex < 0 || stringIndex > 5) {
-    throw new Error(`Invalid string index: ${stringIndex}. Must be 0-5.`);
+export function calculateNoteFrequency(
+  stringIndex: number,
+  fret: number,
+  tuning: Tuning = STANDARD_TUNING
+): number {
+  const lastStringIndex = tuning.openStringMidi.length - 1;
+  if (stringIndex < 0 || stringIndex > lastStringIndex) {
+    throw new Error(`Invalid string index: ${stringIndex}. Must be 0-${lastStringIndex}.`);
   }
 
-  if (fret < 0 || fret > 18) {
-    throw new Error(`Invalid fret: ${fret}. Must be 0-18.`);
+  const maxFret = getFretCount(tuning, MAX_SUPPORTED_FRET_COUNT);
+  if (fret < 0 || fret > maxFret) {
+    throw new Error(`Invalid fret: ${fret}. Must be 0-${maxFret}.`);
   }
 
-  const openStringFreq = OPEN_STRING_FREQUENCIES[stringIndex];
-
-  // Each fret raises pitch by one semitone (half step)
-  // 2^(1/12) ≈ 1.0595 is the frequency ratio for one semitone
-  const frequency = openStringFreq * Math.pow(2, fret / 12);
-
-  return frequency;
+  return midiToFrequency(tuning.openStringMidi[stringIndex] + fret);
 }
 
 /**
@@ -68,133 +79,164 @@ function getAudioContext(): AudioContext {
 }
 
 /**
- * Active oscillators (for stopping previous sounds)
+ * Active note sources (for stopping previous sounds)
+ */
+let activeSources: AudioScheduledSourceNode[] = [];
+
+/**
+ * Bumped by stopAllSounds, so a sequence still stepping knows to stop
  */
-let activeOscillators: OscillatorNode[] = [];
+let sequenceRun = 0;
 
 /**
  * Stop all currently playing sounds
  */
 export function stopAllSounds(): void {
-  activeOscillators.forEach(osc => {
+  sequenceRun++;
+  getExternalNoteOutput()?.stopAll();
+  activeSources.forEach(source => {
     try {
-      osc.stop();
-      osc.disconnect();
+      source.stop();
+      source.disconnect();
     } catch (e) {
-      // Oscillator may already be stopped
+      // Source may already be stopped
     }
   });
-  activeOscillators = [];
+  activeSources = [];
 }
 
 /**
- * Play a single note
+ * Pluck one string and track the source so stopAllSounds can cut it off
+ */
+function pluckString(
+  ctx: AudioContext,
+  stringIndex: number,
+  fret: number,
+  startTime: number,
+  duration: number,
+  gain: number,
+  tuning: Tuning
+): void {
+  const source = schedulePluck(ctx, ctx.destination, {
+    frequency: calculateNoteFrequency(stringIndex, fret, tuning),
+    startTime,
+    duration,
+    gain,
+    voice: getStringVoice(stringIndex, tuning.openStringMidi.length),
+  });
+
+  activeSources.push(source);
+  source.addEventListener('ended', () => {
+    activeSources = activeSources.filter(active => active !== source);
+  });
+}
+
+/**
+ * Play a single note with a plucked-string voice
  *
- * @param stringIndex - String index (0-5)
- * @param fret - Fret number (0-18)
+ * @param stringIndex - String index (0 = lowest string)
+ * @param fret - Fret number (0 to the instrument's fret count)
  * @param duration - Duration in seconds (default 2.0)
+ * @param tuning - Tuning to play in (default standard tuning)
  */
-export function playNote(stringIndex: number, fret: number, duration: number = 2.0): void {
+export function playNote(
+  stringIndex: number,
+  fret: number,
+  duration: number = 2.0,
+  tuning: Tuning = STANDARD_TUNING
+): void {
   stopAllSounds();
 
-  const frequency = calculateNoteFrequency(stringIndex, fret);
-  const ctx = getAudioContext();
-
-  // Create oscillator for the tone
-  const oscillator = ctx.createOscillator();
-  oscillator.type = 'sine'; // Smooth guitar-like tone
-  oscillator.frequency.value = frequency;
-
-  // Create gain node for volume control and envelope
-  const gainNode = ctx.createGain();
-  gainNode.gain.value = 0;
-
-  // Connect: oscillator → gain → output
-  oscillator.connect(gainNode);
-  gainNode.connect(ctx.destination);
-
-  // ADSR envelope (simple attack and decay)
-  const now = ctx.currentTime;
-  const attackTime = 0.01; // 10ms attack
-  const decayTime = 0.1; // 100ms decay
-  const sustainLevel = 0.15; // Quiet volume (not too loud)
-  const releaseTime = 0.5; // 500ms release
-
-  // Attack
-  gainNode.gain.setValueAtTime(0, now);
-  gainNode.gain.linearRampToValueAtTime(0.3, now + attackTime);
-
-  // Decay to sustain
-  gainNode.gain.linearRampToValueAtTime(sustainLevel, now + attackTime + decayTime);
-
-  // Release
-  gainNode.gain.setValueAtTime(sustainLevel, now + duration - releaseTime);
-  gainNode.gain.linearRampToValueAtTime(0, now + duration);
-
-  // Start and schedule stop
-  oscillator.start(now);
-  oscillator.stop(now + duration);
-
-  activeOscillators.push(oscillator);
+  const externalOutput = getExternalNoteOutput();
+  if (externalOutput) {
+    calculateNoteFrequency(stringIndex, fret, tuning); // Validates the position
+    externalOutput.schedule([
+      { midi: tuning.openStringMidi[stringIndex] + fret, startSec: 0, durationSec: duration },
+    ]);
+    return;
+  }
 
-  // Clean up after sound finishes
-  oscillator.onended = () => {
-    oscillator.disconnect();
-    activeOscillators = activeOscillators.filter(osc => osc !== oscillator);
-  };
+  const ctx = getAudioContext();
+  pluckString(ctx, stringIndex, fret, ctx.currentTime, duration, 0.5, tuning);
 }
 
 /**
- * Play a chord (multiple notes simultaneously)
+ * Play a chord, strummed by default so it sounds like a guitar
  *
  * @param notes - Array of {stringIndex, fret} objects
  * @param duration - Duration in seconds (default 2.0)
+ * @param tuning - Tuning to play in (default standard tuning)
+ * @param strum - 'down' (low string first), 'up' (high string first) or 'none' (all at once)
+ * @param strumSpread - Seconds between string onsets when strumming
  */
-export function playChord(notes: Array<{ stringIndex: number; fret: number }>, duration: number = 2.0): void {
+export function playChord(
+  notes: Array<{ stringIndex: number; fret: number }>,
+  duration: number = 2.0,
+  tuning: Tuning = STANDARD_TUNING,
+  strum: StrumDirection = 'down',
+  strumSpread: number = DEFAULT_STRUM_SPREAD
+): void {
   stopAllSounds();
 
+  const offsets = getStrumOffsets(notes.map(note => note.stringIndex), strum, strumSpread);
+  const externalOutput = getExternalNoteOutput();
+  if (externalOutput) {
+    notes.forEach(({ stringIndex, fret }) => calculateNoteFrequency(stringIndex, fret, tuning));
+    externalOutput.schedule(notes.map(({ stringIndex, fret }, noteIndex) => ({
+      midi: tuning.openStringMidi[stringIndex] + fret,
+      startSec: offsets[noteIndex],
+      durationSec: duration,
+    })));
+    return;
+  }
+
   const ctx = getAudioContext();
   const now = ctx.currentTime;
+  // Quieter per note so the chord does not clip
+  const gain = 0.5 / Math.max(1, Math.sqrt(notes.length));
 
-  notes.forEach(({ stringIndex, fret }) => {
-    const frequency = calculateNoteFrequency(stringIndex, fret);
-
-    // Create oscillator
-    const oscillator = ctx.createOscillator();
-    oscillator.type = 'sine';
-    oscillator.frequency.value = frequency;
-
-    // Create gain node
-    const gainNode = ctx.createGain();
-    gainNode.gain.value = 0;
-
-    oscillator.connect(gainNode);
-    gainNode.connect(ctx.destination);
-
-    // ADSR envelope (softer for chords)
-    const attackTime = 0.01;
-    const decayTime = 0.1;
-    const sustainLevel = 0.1; // Quieter for chords (multiple notes)
-    const releaseTime = 0.5;
-
-    gainNode.gain.setValueAtTime(0, now);
-    gainNode.gain.linearRampToValueAtTime(0.2, now + attackTime);
-    gainNode.gain.linearRampToValueAtTime(sustainLevel, now + attackTime + decayTime);
-    gainNode.gain.setValueAtTime(sustainLevel, now + duration - releaseTime);
-    gainNode.gain.linearRampToValueAtTime(0, now + duration);
-
-    oscillator.start(now);
-    oscillator.stop(now + duration);
-
-    activeOscillators.push(oscillator);
-
-    oscillator.onended = () => {
-      oscillator.disconnect();
-      activeOscillators = activeOscillators.filter(osc => osc !== oscillator);
-    };
+  notes.forEach(({ stringIndex, fret }, noteIndex) => {
+    pluckString(ctx, stringIndex, fret, now + offsets[noteIndex], duration, gain, tuning);
   });
 }
 
+/**
+ * Play notes one after another, e.g. a scale run or an arpeggio
+ *
+ * Notes are stepped through playSequence, so stopAllSounds (or the next note
+ * or sequence) ends the run where it is.
+ *
+ * @param notes - Array of {stringIndex, fret} objects, in playing order
+ * @param noteSpacing - Seconds between note onsets (default 0.25)
+ * @param tuning - Tuning to play in (default standard tuning)
+ * @returns Resolves when the run has finished or been stopped
+ * @throws Error if any note is off the fretboard, before any note sounds
+ */
+export async function playNoteSequence(
+  notes: Array<{ stringIndex: number; fret: number }>,
+  noteSpacing: number = 0.25,
+  tuning: Tuning = STANDARD_TUNING
+): Promise<void> {
+  notes.forEach(({ stringIndex, fret }) => calculateNoteFrequency(stringIndex, fret, tuning));
+  stopAllSounds();
+  const run = sequenceRun;
+
+  // Each note rings on under the next, as it would on the fretboard
+  const duration = noteSpacing * 2;
+  await playSequence(notes.length, noteSpacing, (noteIndex) => {
+    const { stringIndex, fret } = notes[noteIndex];
+    const externalOutput = getExternalNoteOutput();
+    if (externalOutput) {
+      externalOutput.schedule([
+        { midi: tuning.openStringMidi[stringIndex] + fret, startSec: 0, durationSec: duration },
+      ]);
+      return;
+    }
+    const ctx = getAudioContext();
+    pluckString(ctx, stringIndex, fret, ctx.currentTime, duration, 0.5, tuning);
+  }, () => run === sequenceRun);
+}
+
 /**
  * Resume audio context if it's suspended (required by browser autoplay policies)
  * Call this on user interaction (e.g., first click/hover)
@@ -0,0 +1,293 @@
+/**
+ * Guitar tab rendering
+ *
+ * Turns triad voicings, box-shape runs and practice progressions into plain
+ * text tab: one line per string with the highest string on top, one column per
+ * note or chord, and bar lines between measures.
+ */
+
+import { buildFretboard } from './core';
+import { getChordPitchClassesFromSymbol, parseChordSequence } from './looper-sync';
+import type { PracticeProgression } from './progression-recommendations';
+import { findAllTriadVoicings, getTriadStringGroups } from './triads';
+import type { TriadVoicing } from './triads';
+import { STANDARD_TUNING, getFretCount, getTuningStringNames } from './tunings';
+import type { Tuning } from './tunings';
+
+export type TabStyle = 'ascii' | 'unicode';
+
+export type BoxRunDirection = 'ascending' | 'descending' | 'both';
+
+export interface TabNote {
+  stringIndex: number; // 0 = lowest string
+  fret: number;
+}
+
+export interface TabColumn {
+  notes: TabNote[]; // Played together; empty for a rest
+  label?: string; // Printed above the column (e.g. a chord symbol)
+}
+
+export interface TabOptions {
+  tuning?: Tuning;
+  columnsPerMeasure?: number;
+  measuresPerLine?: number;
+  spacing?: number; // Dashes before each column and before each bar line
+  style?: TabStyle;
+  title?: string;
+  capoFret?: number; // Frets are written relative to the capo (default 0)
+}
+
+export interface ProgressionVoicing {
+  chordSymbol: string;
+  voicing: Pick<TriadVoicing, 'strings' | 'frets'> | null; // null when the chord cannot be voiced
+}
+
+export const DEFAULT_TAB_OPTIONS: Required<Omit<TabOptions, 'tuning' | 'title'>> = {
+  columnsPerMeasure: 8,
+  measuresPerLine: 4,
+  spacing: 2,
+  style: 'ascii',
+  capoFret: 0,
+};
+
+const TAB_CHARACTERS: Record<TabStyle, { line: string; bar: string }> = {
+  ascii: { line: '-', bar: '|' },
+  unicode: { line: '─', bar: '│' },
+};
+
+/**
+ * Line labels for each string, low to high, padded to the same width
+ *
+ * The top string is written in lower case when it shares a name with another
+ * string, so standard tuning reads e B G D A E.
+ */
+export function getTabStringLabels(tuning: Tuning = STANDARD_TUNING): string[] {
+  const names = getTuningStringNames(tuning);
+  const topIndex = names.length - 1;
+  if (names.slice(0, topIndex).includes(names[topIndex])) {
+    names[topIndex] = names[topIndex].toLowerCase();
+  }
+  const width = Math.max(...names.map((name) => name.length));
+  return names.map((name) => name.padEnd(width, ' '));
+}
+
+/**
+ * File-system friendly name for a tab download, e.g. "C# minor triads" -> "c-sharp-minor-triads"
+ */
+export function getTabFileName(title: string): string {
+  return title
+    .replace(/[#♯]/g, '-sharp')
+    .replace(/♭/g, 'b')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'tab';
+}
+
+/**
+ * One chord column for a voicing
+ */
+export function getVoicingTabColumn(
+  voicing: Pick<TriadVoicing, 'strings' | 'frets'>,
+  label?: string
+): TabColumn {
+  return {
+    notes: voicing.strings.map((stringIndex, i) => ({ stringIndex, fret: voicing.frets[i] })),
+    label,
+  };
+}
+
+/**
+ * Single-note columns walking a box shape string by string
+ *
+ * The descending half starts below the top note, so 'both' plays the peak once.
+ * @param pattern - Frets per string, low string first (BoxShapePattern.pattern)
+ */
+export function getBoxRunTabColumns(pattern: number[][], direction: BoxRunDirection = 'both'): TabColumn[] {
+  const ascending: TabColumn[] = pattern.flatMap((frets, stringIndex) =>
+    [...frets].sort((a, b) => a - b).map((fret) => ({ notes: [{ stringIndex, fret }] }))
+  );
+  if (direction === 'ascending') {
+    return ascending;
+  }
+  const descending = [...ascending].reverse();
+  return direction === 'descending' ? descending : [...ascending, ...descending.slice(1)];
+}
+
+function getColumnWidth(column: TabColumn, capoFret: number): number {
+  const fretWidth = Math.max(1, ...column.notes.map((note) => String(note.fret - capoFret).length));
+  return Math.max(fretWidth, column.label?.length ?? 0);
+}
+
+/**
+ * Render columns as tab
+ *
+ * Columns are grouped into measures of `columnsPerMeasure` and measures are
+ * wrapped `measuresPerLine` to a system, with systems separated by a blank line.
+ * With a capo the frets are counted from the capo and the title says so.
+ * @throws Error if a note is off the tuning's strings or behind the capo, or the layout options are invalid
+ */
+export function renderTab(columns: TabColumn[], options: TabOptions = {}): string {
+  const { tuning = STANDARD_TUNING, title } = options;
+  const { columnsPerMeasure, measuresPerLine, spacing, style, capoFret } = { ...DEFAULT_TAB_OPTIONS, ...options };
+
+  [columnsPerMeasure, measuresPerLine].forEach((value) => {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new Error(`Invalid tab layout: ${value}. Measures and columns must be positive integers.`);
+    }
+  });
+  if (!Number.isInteger(spacing) || spacing < 0) {
+    throw new Error(`Invalid tab spacing: ${spacing}. Must be a non-negative integer.`);
+  }
+
+  const stringCount = tuning.openStringMidi.length;
+  columns.forEach((column) => {
+    column.notes.forEach((note) => {
+      if (note.stringIndex < 0 || note.stringIndex >= stringCount) {
+        throw new Error(`Invalid tab note: string ${note.stringIndex} on a ${stringCount}-string tuning.`);
+      }
+      if (note.fret < capoFret) {
+        throw new Error(`Invalid tab note: fret ${note.fret} is behind a capo on fret ${capoFret}.`);
+      }
+    });
+  });
+
+  const { line, bar } = TAB_CHARACTERS[style];
+  const labels = getTabStringLabels(tuning);
+  const gap = line.repeat(spacing);
+
+  const measures: TabColumn[][] = [];
+  for (let i = 0; i < columns.length; i += columnsPerMeasure) {
+    measures.push(columns.slice(i, i + columnsPerMeasure));
+  }
+  if (measures.length === 0) {
+    measures.push([]);
+  }
+
+  const systems: string[] = [];
+  for (let i = 0; i < measures.length; i += measuresPerLine) {
+    const systemMeasures = measures.slice(i, i + measuresPerLine);
+
+    // High string first, as tab is read
+    const stringLines = labels
+      .map((label, stringIndex) => {
+        const body = systemMeasures
+          .map((measure) =>
+            measure
+              .map((column) => {
+                const note = column.notes.find((n) => n.stringIndex === stringIndex);
+                return gap + (note ? String(note.fret - capoFret) : '').padEnd(getColumnWidth(column, capoFret), line);
+              })
+              .join('') + gap
+          )
+          .join(bar);
+        return `${label}${bar}${body}${bar}`;
+      })
+      .reverse();
+
+    if (systemMeasures.some((measure) => measure.some((column) => column.label))) {
+      // Chord names line up with the first character of their column
+      let labelLine = ' '.repeat(labels[0].length + 1);
+      systemMeasures.forEach((measure, measureIdx) => {
+        measure.forEach((column) => {
+          labelLine += ' '.repeat(spacing) + (column.label ?? '').padEnd(getColumnWidth(column, capoFret), ' ');
+        });
+        labelLine += ' '.repeat(spacing) + (measureIdx < systemMeasures.length - 1 ? ' ' : '');
+      });
+      stringLines.unshift(labelLine.trimEnd());
+    }
+
+    systems.push(stringLines.join('\n'));
+  }
+
+  const capoNote = capoFret > 0 ? `Capo ${capoFret}` : null;
+  const heading = title && capoNote ? `${title} (${capoNote.toLowerCase()})` : title ?? capoNote;
+  return [...(heading ? [heading] : []), ...systems].join('\n\n') + '\n';
+}
+
+/**
+ * Tab of voicings strummed one after another
+ */
+export function renderVoicingsTab(
+  voicings: Pick<TriadVoicing, 'strings' | 'frets'>[],
+  options: TabOptions = {}
+): string {
+  return renderTab(voicings.map((voicing) => getVoicingTabColumn(voicing)), options);
+}
+
+/**
+ * Tab of a box shape played as a run
+ */
+export function renderBoxShapeTab(
+  pattern: number[][],
+  direction: BoxRunDirection = 'both',
+  options: TabOptions = {}
+): string {
+  return renderTab(getBoxRunTabColumns(pattern, direction), options);
+}
+
+/**
+ * Pick a three-note voicing for each chord of a progression, moving as
+ * little as possible from one chord to the next
+ *
+ * Triads are voiced as written; four-note and larger chords as root, 3rd
+ * and 7th (the shell) or, for sixth chords, root, 3rd and 6th.
+ * @param capoFret - Frets below the capo are not used (default 0)
+ */
+export function chooseProgressionVoicings(
+  chordSymbols: string[],
+  tuning: Tuning = STANDARD_TUNING,
+  capoFret: number = 0
+): ProgressionVoicing[] {
+  const fretboard = buildFretboard(tuning);
+  const stringGroups = getTriadStringGroups(tuning.openStringMidi.length);
+  const maxFret = getFretCount(tuning);
+  // Start around the middle of the neck's string groups
+  const middleLowString = Math.floor((tuning.openStringMidi.length - 3) / 2);
+
+  let previous: Pick<TriadVoicing, 'strings' | 'avgFret'> | null = null;
+  return chordSymbols.map((chordSymbol) => {
+    const pcs = getChordPitchClassesFromSymbol(chordSymbol);
+    const voicedPcs = pcs.length >= 4 ? [pcs[0], pcs[1], pcs[3]] : pcs;
+    if (voicedPcs.length !== 3 || new Set(voicedPcs).size !== 3) {
+      return { chordSymbol, voicing: null };
+    }
+
+    const candidates = stringGroups.flatMap((group) =>
+      findAllTriadVoicings(group, voicedPcs as [number, number, number], fretboard, 5, maxFret)
+        .filter((voicing) => Math.min(...voicing.frets) >= capoFret)
+    );
+
+    const cost = (voicing: Omit<TriadVoicing, 'position'>) => previous
+      ? Math.abs(voicing.avgFret - previous.avgFret) + 2 * Math.abs(voicing.strings[0] - previous.strings[0])
+      : voicing.avgFret - capoFret + 2 * Math.abs(voicing.strings[0] - middleLowString);
+
+    const best = candidates.reduce<Omit<TriadVoicing, 'position'> | null>(
+      (bestSoFar, voicing) => (!bestSoFar || cost(voicing) < cost(bestSoFar) ? voicing : bestSoFar),
+      null
+    );
+    if (!best) {
+      return { chordSymbol, voicing: null };
+    }
+    previous = best;
+    return { chordSymbol, voicing: { strings: best.strings, frets: best.frets } };
+  });
+}
+
+/**
+ * Tab of a practice progression, one chord per measure with its symbol above
+ *
+ * Chords that could not be voiced are left as a labelled rest.
+ */
+export function renderProgressionTab(
+  progression: Pick<PracticeProgression, 'title' | 'chordNames'>,
+  options: TabOptions = {}
+): string {
+  const { tuning = STANDARD_TUNING, capoFret = 0 } = options;
+  const columns = chooseProgressionVoicings(parseChordSequence(progression.chordNames), tuning, capoFret)
+    .map(({ chordSymbol, voicing }) =>
+      voicing ? getVoicingTabColumn(voicing, chordSymbol) : { notes: [], label: chordSymbol }
+    );
+
+  return renderTab(columns, { columnsPerMeasure: 1, title: progression.title, ...options });
+}
@@ -137,6 +137,98 @@ const CHORD_FORMULA_SEEDS = {
     intervalTokens: ['1P', '3M', '5P', '7m', '9M', '13M'],
     aliases: ['dom13'],
   },
+  sus2: {
+    name: 'Suspended 2nd',
+    symbol: 'sus2',
+    description: '1-2-5',
+    intervalTokens: ['1P', '2M', '5P'],
+  },
+  sus4: {
+    name: 'Suspended 4th',
+    symbol: 'sus4',
+    description: '1-4-5',
+    intervalTokens: ['1P', '4P', '5P'],
+    aliases: ['sus'],
+  },
+  '7sus4': {
+    name: 'Dominant 7 sus4',
+    symbol: '7sus4',
+    description: '1-4-5-b7',
+    intervalTokens: ['1P', '4P', '5P', '7m'],
+    aliases: ['7sus'],
+  },
+  add9: {
+    name: 'Added 9th',
+    symbol: 'add9',
+    description: '1-3-5-9',
+    intervalTokens: ['1P', '3M', '5P', '9M'],
+    aliases: ['add2'],
+  },
+  '69': {
+    name: 'Six-Nine',
+    symbol: '6/9',
+    description: '1-3-5-6-9',
+    intervalTokens: ['1P', '3M', '5P', '6M', '9M'],
+    aliases: ['69', '6add9'],
+  },
+  // Listed before m9 so the case-insensitive lookup of "m9" still finds the minor chord
+  maj9: {
+    name: 'Major 9th',
+    symbol: 'maj9',
+    description: '1-3-5-7-9',
+    intervalTokens: ['1P', '3M', '5P', '7M', '9M'],
+    aliases: ['M9', 'Maj9', '^9'],
+  },
+  m9: {
+    name: 'Minor 9th',
+    symbol: 'm9',
+    description: '1-b3-5-b7-9',
+    intervalTokens: ['1P', '3m', '5P', '7m', '9M'],
+    aliases: ['-9', 'min9'],
+  },
+  m11: {
+    name: 'Minor 11th',
+    symbol: 'm11',
+    description: '1-b3-5-b7-9-11',
+    intervalTokens: ['1P', '3m', '5P', '7m', '9M', '11P'],
+    aliases: ['-11', 'min11'],
+  },
+  '7b9': {
+    name: 'Dominant 7 flat 9',
+    symbol: '7b9',
+    description: '1-3-5-b7-b9',
+    intervalTokens: ['1P', '3M', '5P', '7m', '9m'],
+    aliases: ['7(b9)'],
+  },
+  '7#9': {
+    name: 'Dominant 7 sharp 9',
+    symbol: '7#9',
+    description: '1-3-5-b7-#9',
+    intervalTokens: ['1P', '3M', '5P', '7m', '9A'],
+    aliases: ['7(#9)'],
+  },
+  '7#11': {
+    name: 'Dominant 7 sharp 11',
+    symbol: '7#11',
+    description: '1-3-5-b7-#11',
+    intervalTokens: ['1P', '3M', '5P', '7m', '11A'],
+    aliases: ['7(#11)'],
+  },
+  // One common spelling of the altered dominant: #9 and b13 over the 3rd and b7
+  '7alt': {
+    name: 'Altered Dominant',
+    symbol: '7alt',
+    description: '1-3-b7-#9-b13',
+    intervalTokens: ['1P', '3M', '7m', '9A', '13m'],
+    aliases: ['alt'],
+  },
+  '13b9': {
+    name: 'Dominant 13 flat 9',
+    symbol: '13b9',
+    description: '1-3-5-b7-b9-13',
+    intervalTokens: ['1P', '3M', '5P', '7m', '9m', '13M'],
+    aliases: ['13(b9)'],
+  },
 } as const satisfies Record<string, TheoryFormulaSeed>;
 
 const SCALE_FORMULA_SEEDS = {
@@ -191,12 +283,185 @@ const SCALE_FORMULA_SEEDS = {
     intervalTokens: ['1P', '3m', '4P', '5P', '7m'],
     aliases: ['pentatonicMinor', 'minorPenta'],
   },
+  majorPentatonic: {
+    name: 'Major Pentatonic',
+    symbol: 'major-pentatonic',
+    description: '1-2-3-5-6',
+    intervalTokens: ['1P', '2M', '3M', '5P', '6M'],
+    aliases: ['pentatonicMajor', 'majorPenta'],
+  },
   blues: {
     name: 'Blues',
     symbol: 'blues',
     description: 'Minor pentatonic + b5',
     intervalTokens: ['1P', '3m', '4P', '5d', '5P', '7m'],
   },
+  harmonicMinor: {
+    name: 'Harmonic Minor',
+    symbol: 'harmonic-minor',
+    description: 'Natural minor with a raised 7th',
+    intervalTokens: ['1P', '2M', '3m', '4P', '5P', '6m', '7M'],
+  },
+  locrianNatural6: {
+    name: 'Locrian Natural 6',
+    symbol: 'locrian-nat6',
+    description: 'Second harmonic minor mode',
+    intervalTokens: ['1P', '2m', '3m', '4P', '5d', '6M', '7m'],
+    aliases: ['locrian#6'],
+  },
+  ionianAugmented: {
+    name: 'Ionian #5',
+    symbol: 'ionian-#5',
+    description: 'Third harmonic minor mode',
+    intervalTokens: ['1P', '2M', '3M', '4P', '5A', '6M', '7M'],
+    aliases: ['ionian#5'],
+  },
+  dorianSharp4: {
+    name: 'Dorian #4',
+    symbol: 'dorian-#4',
+    description: 'Fourth harmonic minor mode',
+    intervalTokens: ['1P', '2M', '3m', '4A', '5P', '6M', '7m'],
+    aliases: ['dorian#4', 'ukrainianDorian'],
+  },
+  phrygianDominant: {
+    name: 'Phrygian Dominant',
+    symbol: 'phrygian-dominant',
+    description: 'Fifth harmonic minor mode',
+    intervalTokens: ['1P', '2m', '3M', '4P', '5P', '6m', '7m'],
+    aliases: ['spanishPhrygian', 'freygish'],
+  },
+  lydianSharp2: {
+    name: 'Lydian #2',
+    symbol: 'lydian-#2',
+    description: 'Sixth harmonic minor mode',
+    intervalTokens: ['1P', '2A', '3M', '4A', '5P', '6M', '7M'],
+    aliases: ['lydian#2'],
+  },
+  superLocrianDoubleFlat7: {
+    name: 'Super Locrian bb7',
+    symbol: 'super-locrian-bb7',
+    description: 'Seventh harmonic minor mode',
+    intervalTokens: ['1P', '2m', '3m', '4d', '5d', '6m', '7d'],
+    aliases: ['ultralocrian', 'alteredbb7'],
+  },
+  melodicMinor: {
+    name: 'Melodic Minor',
+    symbol: 'melodic-minor',
+    description: 'Natural minor with a raised 6th and 7th',
+    intervalTokens: ['1P', '2M', '3m', '4P', '5P', '6M', '7M'],
+    aliases: ['jazzMinor'],
+  },
+  dorianFlat2: {
+    name: 'Dorian b2',
+    symbol: 'dorian-b2',
+    description: 'Second melodic minor mode',
+    intervalTokens: ['1P', '2m', '3m', '4P', '5P', '6M', '7m'],
+    aliases: ['dorianb2', 'phrygianNatural6'],
+  },
+  lydianAugmented: {
+    name: 'Lydian Augmented',
+    symbol: 'lydian-augmented',
+    description: 'Third melodic minor mode',
+    intervalTokens: ['1P', '2M', '3M', '4A', '5A', '6M', '7M'],
+    aliases: ['lydian#5'],
+  },
+  lydianDominant: {
+    name: 'Lydian Dominant',
+    symbol: 'lydian-dominant',
+    description: 'Fourth melodic minor mode',
+    intervalTokens: ['1P', '2M', '3M', '4A', '5P', '6M', '7m'],
+    aliases: ['lydianb7', 'overtone', 'acoustic'],
+  },
+  mixolydianFlat6: {
+    name: 'Mixolydian b6',
+    symbol: 'mixolydian-b6',
+    description: 'Fifth melodic minor mode',
+    intervalTokens: ['1P', '2M', '3M', '4P', '5P', '6m', '7m'],
+    aliases: ['mixolydianb6', 'aeolianDominant'],
+  },
+  locrianNatural2: {
+    name: 'Locrian Natural 2',
+    symbol: 'locrian-nat2',
+    description: 'Sixth melodic minor mode',
+    intervalTokens: ['1P', '2M', '3m', '4P', '5d', '6m', '7m'],
+    aliases: ['locrian#2', 'halfDiminishedScale'],
+  },
+  altered: {
+    name: 'Altered',
+    symbol: 'altered',
+    description: 'Seventh melodic minor mode',
+    intervalTokens: ['1P', '2m', '3m', '4d', '5d', '6m', '7m'],
+    aliases: ['superLocrian', 'alt'],
+  },
+  harmonicMajor: {
+    name: 'Harmonic Major',
+    symbol: 'harmonic-major',
+    description: 'Major with a lowered 6th',
+    intervalTokens: ['1P', '2M', '3M', '4P', '5P', '6m', '7M'],
+  },
+  dorianFlat5: {
+    name: 'Dorian b5',
+    symbol: 'dorian-b5',
+    description: 'Second harmonic major mode',
+    intervalTokens: ['1P', '2M', '3m', '4P', '5d', '6M', '7m'],
+    aliases: ['dorianb5'],
+  },
+  phrygianFlat4: {
+    name: 'Phrygian b4',
+    symbol: 'phrygian-b4',
+    description: 'Third harmonic major mode',
+    intervalTokens: ['1P', '2m', '3m', '4d', '5P', '6m', '7m'],
+    aliases: ['phrygianb4'],
+  },
+  lydianFlat3: {
+    name: 'Lydian b3',
+    symbol: 'lydian-b3',
+    description: 'Fourth harmonic major mode',
+    intervalTokens: ['1P', '2M', '3m', '4A', '5P', '6M', '7M'],
+    aliases: ['lydianb3', 'melodicMinor#4'],
+  },
+  mixolydianFlat2: {
+    name: 'Mixolydian b2',
+    symbol: 'mixolydian-b2',
+    description: 'Fifth harmonic major mode',
+    intervalTokens: ['1P', '2m', '3M', '4P', '5P', '6M', '7m'],
+    aliases: ['mixolydianb2'],
+  },
+  lydianAugmentedSharp2: {
+    name: 'Lydian Augmented #2',
+    symbol: 'lydian-augmented-#2',
+    description: 'Sixth harmonic major mode',
+    intervalTokens: ['1P', '2A', '3M', '4A', '5A', '6M', '7M'],
+    aliases: ['lydian#2#5'],
+  },
+  locrianDoubleFlat7: {
+    name: 'Locrian bb7',
+    symbol: 'locrian-bb7',
+    description: 'Seventh harmonic major mode',
+    intervalTokens: ['1P', '2m', '3m', '4P', '5d', '6m', '7d'],
+    aliases: ['locrianbb7'],
+  },
+  wholeTone: {
+    name: 'Whole Tone',
+    symbol: 'whole-tone',
+    description: 'Six whole steps',
+    intervalTokens: ['1P', '2M', '3M', '4A', '5A', '7m'],
+    aliases: ['wholetone'],
+  },
+  diminished: {
+    name: 'Diminished (Whole-Half)',
+    symbol: 'diminished',
+    description: 'Alternating whole and half steps',
+    intervalTokens: ['1P', '2M', '3m', '4P', '5d', '6m', '7d', '7M'],
+    aliases: ['wholeHalf', 'wholeHalfDiminished', 'octatonic'],
+  },
+  halfWholeDiminished: {
+    name: 'Diminished (Half-Whole)',
+    symbol: 'half-whole-diminished',
+    description: 'Alternating half and whole steps',
+    intervalTokens: ['1P', '2m', '2A', '3M', '4A', '5P', '6M', '7m'],
+    aliases: ['halfWhole', 'dominantDiminished'],
+  },
 } as const satisfies Record<string, TheoryFormulaSeed>;
 
 export type ChordFormulaId = keyof typeof CHORD_FORMULA_SEEDS;
@@ -358,3 +623,27 @@ export function getScaleFormulaDefinition(idOrAlias: string): TheoryFormulaDefin
   if (!id) return null;
   return SCALE_FORMULA_CATALOG[id];
 }
+
+/**
+ * The scale a set of intervals spells, e.g. a scale started on one of its own degrees
+ * @param intervals - Semitones above the root, in any order and any octave
+ * @returns The first matching catalog scale, or null if none matches
+ */
+export function findScaleFormulaByIntervals(intervals: number[]): TheoryFormulaDefinition<ScaleFormulaId> | null {
+  const key = [...new Set(intervals.map((interval) => ((interval % 12) + 12) % 12))]
+    .sort((a, b) => a - b)
+    .join(',');
+  return Object.values(SCALE_FORMULA_CATALOG).find((scale) => scale.intervals.join(',') === key) ?? null;
+}
+
+/**
+ * The chord a set of intervals spells, e.g. the tones of a parsed chord symbol
+ * @param intervals - Semitones above the root, in any order and any octave
+ * @returns The first matching catalog chord, or null if none matches
+ */
+export function findChordFormulaByIntervals(intervals: number[]): TheoryFormulaDefinition<ChordFormulaId> | null {
+  const toKey = (values: number[]) =>
+    [...new Set(values.map((interval) => ((interval % 12) + 12) % 12))].sort((a, b) => a - b).join(',');
+  const key = toKey(intervals);
+  return Object.values(CHORD_FORMULA_CATALOG).find((chord) => toKey(chord.intervals) === key) ?? null;
+}
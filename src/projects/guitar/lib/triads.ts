@@ -5,6 +5,15 @@
 import { nameToPc, pcToDisplayName, buildFretboard } from './core';
 import type { NoteName } from './types';
 import { MAJOR_TRIAD_POSITIONS } from './major-triad-data';
+import {
+  DEFAULT_FRET_COUNT,
+  STANDARD_TUNING,
+  getFretCount,
+  getStringCount,
+  getTuningStringNames,
+  isStandardTuning,
+} from './tunings';
+import type { Tuning } from './tunings';
 
 export type InversionType = 'root' | 'first' | 'second' | 'unknown';
 
@@ -19,7 +28,7 @@ export interface TriadVoicing {
 }
 
 export interface NeighborNote {
-  globalStringIdx: number; // 0 = low E … 5 = high e
+  globalStringIdx: number; // 0 = lowest string (low E … 5 = high e on six strings)
   fret: number;
   pc: number;
   noteName: string;
@@ -34,7 +43,7 @@ export interface StringGroupTriads {
 export interface TriadsData {
   key: NoteName;
   triadNotes: string[]; // ["C", "E", "G"] for C major
-  stringGroups: StringGroupTriads[]; // 4 groups
+  stringGroups: StringGroupTriads[]; // 4 groups on six strings (string count - 2 in general)
 }
 
 /**
@@ -78,16 +87,19 @@ export function identifyInversion(
  * @param voicing The voicing whose neighborhood we want
  * @param chordPcs The full pitch-class set of the displayed chord
  * @param key Optional key for note name display (sharps vs flats)
- * @param maxFret Maximum fret number (default 18)
+ * @param maxFret Maximum fret number (default: the tuning's fret count)
+ * @param tuning Tuning the voicing is played in (default standard tuning)
  * @returns Up to 3 neighbor notes, one per unused string
  */
 export function computeNeighborNotes(
   voicing: TriadVoicing,
   chordPcs: number[],
   key?: string,
-  maxFret: number = 18
+  maxFret?: number,
+  tuning: Tuning = STANDARD_TUNING
 ): NeighborNote[] {
-  const fretboard = buildFretboard();
+  const fretLimit = maxFret ?? getFretCount(tuning);
+  const fretboard = buildFretboard(tuning);
   const chordSet = new Set(chordPcs);
   const usedStrings = new Set(voicing.strings);
 
@@ -101,13 +113,13 @@ export function computeNeighborNotes(
 
   const neighbors: NeighborNote[] = [];
 
-  for (let stringIdx = 0; stringIdx < 6; stringIdx++) {
+  for (let stringIdx = 0; stringIdx < tuning.openStringMidi.length; stringIdx++) {
     if (usedStrings.has(stringIdx)) continue;
 
     let best: { fret: number; pc: number } | null = null;
     let bestDist = Infinity;
 
-    for (let fret = allowOpen ? 0 : 1; fret <= maxFret; fret++) {
+    for (let fret = allowOpen ? 0 : 1; fret <= fretLimit; fret++) {
       const pc = fretboard[stringIdx][fret];
       if (!chordSet.has(pc)) continue;
 
@@ -132,13 +144,26 @@ export function computeNeighborNotes(
   return neighbors;
 }
 
+/**
+ * Adjacent 3-string groups for an instrument, lowest group first
+ * (six strings give [0,1,2], [1,2,3], [2,3,4], [3,4,5]; a 4-string bass gives two)
+ * @param stringCount Number of strings on the instrument
+ */
+export function getTriadStringGroups(stringCount: number): Array<[number, number, number]> {
+  const groups: Array<[number, number, number]> = [];
+  for (let lowString = 0; lowString + 2 < stringCount; lowString++) {
+    groups.push([lowString, lowString + 1, lowString + 2]);
+  }
+  return groups;
+}
+
 /**
  * Find all valid triad voicings on a specific 3-string group
  * @param stringGroup Array of 3 string indices [low, mid, high]
  * @param triadPcs The triad pitch classes [root, third, fifth]
  * @param fretboard The fretboard mapping
  * @param maxStretch Maximum fret stretch (default 5)
- * @param maxFret Maximum fret number (default 18)
+ * @param maxFret Maximum fret number (default DEFAULT_FRET_COUNT)
  * @param key Optional key for note name display (sharps vs flats)
  * @returns Array of valid voicings (without position numbers)
  */
@@ -147,7 +172,7 @@ export function findAllTriadVoicings(
   triadPcs: [number, number, number],
   fretboard: Record<number, Record<number, number>>,
   maxStretch: number = 5,
-  maxFret: number = 18,
+  maxFret: number = DEFAULT_FRET_COUNT,
   key?: string
 ): Omit<TriadVoicing, 'position'>[] {
   const voicings: Omit<TriadVoicing, 'position'>[] = [];
@@ -203,13 +228,18 @@ export function findAllTriadVoicings(
 /**
  * Select 4 positions from all voicings for a single string group
  * Prioritizes the inversion cycle: second → root → first → second
- * @param voicings All valid voicings for this group
+ * @param allVoicings All valid voicings for this group
+ * @param startingInversion Inversion of position 0 (default second)
+ * @param maxFret Highest playable fret; voicings reaching past it are skipped (default DEFAULT_FRET_COUNT)
  * @returns 4 selected positions
  */
 export function select4Positions(
-  voicings: Omit<TriadVoicing, 'position'>[],
-  startingInversion: InversionType = 'second' // Default starting inversion
+  allVoicings: Omit<TriadVoicing, 'position'>[],
+  startingInversion: InversionType = 'second', // Default starting inversion
+  maxFret: number = DEFAULT_FRET_COUNT
 ): TriadVoicing[] {
+  const voicings = allVoicings.filter(v => Math.max(...v.frets) <= maxFret);
+
   // Group voicings by inversion
   const byInversion: Record<InversionType, typeof voicings> = {
     root: [],
@@ -329,12 +359,21 @@ function findVoicingChains(
 
 /**
  * Select 4 positions for each string group with coordination
+ * @param allGroupVoicings All valid voicings, one list per string group
+ * @param stringGroups String indices of each group
+ * @param maxFret Highest playable fret; voicings reaching past it are skipped (default DEFAULT_FRET_COUNT)
  */
 export function select4PositionsCoordinated(
-  groupVoicings: Omit<TriadVoicing, 'position'>[][],
-  stringGroups: number[][]
+  allGroupVoicings: Omit<TriadVoicing, 'position'>[][],
+  stringGroups: number[][],
+  maxFret: number = DEFAULT_FRET_COUNT
 ): TriadVoicing[][] {
-  // Try to find complete chains through all 4 groups
+  const groupVoicings = allGroupVoicings.map((voicings) =>
+    voicings.filter(v => Math.max(...v.frets) <= maxFret)
+  );
+  const groupCount = groupVoicings.length;
+
+  // Try to find complete chains through all groups
   const chains = findVoicingChains(groupVoicings, stringGroups);
 
   // If we found complete chains, select from them
@@ -355,9 +394,9 @@ export function select4PositionsCoordinated(
     }
 
     // Convert chains to positioned voicings
-    const result: TriadVoicing[][] = [[], [], [], []];
+    const result: TriadVoicing[][] = groupVoicings.map(() => []);
     for (let pos = 0; pos < 4; pos++) {
-      for (let group = 0; group < 4; group++) {
+      for (let group = 0; group < groupCount; group++) {
         result[group].push({
           ...selectedChains[pos][group],
           position: pos,
@@ -372,9 +411,10 @@ export function select4PositionsCoordinated(
   const result: TriadVoicing[][] = [];
 
   // Determine starting inversions for cycle continuity across groups
-  const startingInversions: InversionType[] = ['second', 'first', 'root', 'second'];
+  // (second -> first -> root, repeating for instruments with more groups)
+  const inversionCycle: InversionType[] = ['second', 'first', 'root'];
 
-  for (let groupIdx = 0; groupIdx < 4; groupIdx++) {
+  for (let groupIdx = 0; groupIdx < groupCount; groupIdx++) {
     // Sort voicings by average fret
     const sorted = [...groupVoicings[groupIdx]].sort((a, b) => a.avgFret - b.avgFret);
 
@@ -394,7 +434,7 @@ export function select4PositionsCoordinated(
     const positions: TriadVoicing[] = [];
 
     // Position 0: Lowest voicing (prefer with starting inversion)
-    const startInv = startingInversions[groupIdx];
+    const startInv = inversionCycle[groupIdx % inversionCycle.length];
     const pos0Candidates = byInversion[startInv].length > 0 ? byInversion[startInv] : sorted;
     if (pos0Candidates.length > 0) {
       positions.push({
@@ -475,15 +515,22 @@ export function visualizeVoicings(
 /**
  * Generate all triad voicings for a given key
  * @param key The root note of the major triad
+ * @param tuning Tuning to voice the triads in (default standard tuning)
  * @returns Complete triad voicing data for all string groups
  */
-export function generateTriadsData(key: NoteName): TriadsData {
+export function generateTriadsData(key: NoteName, tuning: Tuning = STANDARD_TUNING): TriadsData {
   const triadPcs = buildMajorTriad(key);
   const triadNoteNames = triadPcs.map(pc => pcToDisplayName(pc, key));
-  const fretboard = buildFretboard();
-
-  // Use hard-coded voicings if available
-  if (MAJOR_TRIAD_POSITIONS[key]) {
+  const fretboard = buildFretboard(tuning);
+  const fretCount = getFretCount(tuning);
+
+  // Use hard-coded voicings if available (they only describe standard tuning,
+  // and only necks long enough to reach all of them)
+  const hardCodedGroups = isStandardTuning(tuning) ? MAJOR_TRIAD_POSITIONS[key] : undefined;
+  const hardCodedFits = hardCodedGroups && Object.values(hardCodedGroups).every((group: any) =>
+    group.every((hc: any) => Math.max(...hc.frets) <= fretCount)
+  );
+  if (hardCodedFits) {
     const STRING_NAMES = ['E', 'A', 'D', 'G', 'B', 'E'];
     const stringGroupsData: Array<[number, number, number]> = [
       [0, 1, 2], [1, 2, 3], [2, 3, 4], [3, 4, 5],
@@ -491,7 +538,7 @@ export function generateTriadsData(key: NoteName): TriadsData {
 
     const stringGroups: StringGroupTriads[] = stringGroupsData.map((stringGroupIndices, groupIdx) => {
       const groupKey = `G${groupIdx}`;
-      const hardCodedVoicings = MAJOR_TRIAD_POSITIONS[key][groupKey];
+      const hardCodedVoicings = hardCodedGroups[groupKey];
 
       // Validation: Check for duplicate positions
       const fretStrings = hardCodedVoicings.map((hc: any) => hc.frets.join(','));
@@ -537,27 +584,23 @@ export function generateTriadsData(key: NoteName): TriadsData {
     };
   }
 
-  // Define the 4 string groups (adjacent 3-string sets)
-  const stringGroupsData: Array<[number, number, number]> = [
-    [0, 1, 2], // Strings 6-5-4 (E-A-D)
-    [1, 2, 3], // Strings 5-4-3 (A-D-G)
-    [2, 3, 4], // Strings 4-3-2 (D-G-B)
-    [3, 4, 5], // Strings 3-2-1 (G-B-E)
-  ];
+  // Adjacent 3-string sets (4 groups on six strings: E-A-D, A-D-G, D-G-B, G-B-E)
+  const stringGroupsData = getTriadStringGroups(getStringCount(tuning));
 
   // Find all voicings for each group
   const allGroupVoicings = stringGroupsData.map(stringGroup =>
-    findAllTriadVoicings(stringGroup, triadPcs, fretboard, 5, 18, key)
+    findAllTriadVoicings(stringGroup, triadPcs, fretboard, 5, fretCount, key)
   );
 
-  // Select 4 positions for each group with coordination
+  // Select positions for each group with coordination
   const selectedPositions = select4PositionsCoordinated(
     allGroupVoicings,
-    stringGroupsData.map(g => [...g])
+    stringGroupsData.map(g => [...g]),
+    fretCount
   );
 
   // Build the final data structure
-  const STRING_NAMES = ['E', 'A', 'D', 'G', 'B', 'E'];
+  const STRING_NAMES = getTuningStringNames(tuning);
   const stringGroups: StringGroupTriads[] = stringGroupsData.map(
     (stringGroupIndices, groupIdx) => ({
       strings: [...stringGroupIndices],
@@ -0,0 +1,193 @@
+/**
+ * Tuning model for the guitar library
+ *
+ * A tuning is the list of open-string MIDI notes ordered low to high
+ * (index 0 = lowest string), matching the string indexing used everywhere
+ * else in the library. The string count comes from the tuning, so extended-range
+ * guitars and basses are just tunings with more or fewer strings. A tuning may
+ * also carry the instrument's fret count; views fall back to their own default
+ * neck length when it is not set.
+ */
+
+import { NOTE_NAMES_SHARP, STRING_TUNING_MIDI } from './constants';
+
+export type TuningId =
+  | 'standard'
+  | 'half-step-down'
+  | 'drop-d'
+  | 'dadgad'
+  | 'open-g'
+  | 'open-d'
+  | 'all-fourths'
+  | 'seven-string'
+  | 'eight-string'
+  | 'bass-4'
+  | 'bass-5'
+  | 'custom';
+
+export interface Tuning {
+  id: TuningId;
+  label: string;
+  openStringMidi: number[]; // Low to high, e.g. [40, 45, 50, 55, 59, 64]
+  fretCount?: number; // Highest fret on the instrument (e.g. 21, 22, 24)
+}
+
+/**
+ * Highest fret used when the instrument does not set one
+ *
+ * Views lay shapes and voicings out over this many frets. Sound is looser:
+ * calculateNoteFrequency falls back to MAX_SUPPORTED_FRET_COUNT instead, so a
+ * fret drawn by a view with its own longer neck still plays.
+ */
+export const DEFAULT_FRET_COUNT = 18;
+
+/**
+ * Fret counts offered for real instruments
+ */
+export const FRET_COUNT_OPTIONS = [21, 22, 24];
+
+/**
+ * Upper bound for any configured fret count, and the playable range when none is set
+ */
+export const MAX_SUPPORTED_FRET_COUNT = 24;
+
+export const STANDARD_TUNING: Tuning = {
+  id: 'standard',
+  label: 'Standard (E A D G B E)',
+  openStringMidi: [...STRING_TUNING_MIDI],
+};
+
+export const TUNING_PRESETS: Tuning[] = [
+  STANDARD_TUNING,
+  { id: 'half-step-down', label: 'Half-Step Down (Eb Ab Db Gb Bb Eb)', openStringMidi: [39, 44, 49, 54, 58, 63] },
+  { id: 'drop-d', label: 'Drop D (D A D G B E)', openStringMidi: [38, 45, 50, 55, 59, 64] },
+  { id: 'dadgad', label: 'DADGAD', openStringMidi: [38, 45, 50, 55, 57, 62] },
+  { id: 'open-g', label: 'Open G (D G D G B D)', openStringMidi: [38, 43, 50, 55, 59, 62] },
+  { id: 'open-d', label: 'Open D (D A D F# A D)', openStringMidi: [38, 45, 50, 54, 57, 62] },
+  { id: 'all-fourths', label: 'All Fourths (E A D G C F)', openStringMidi: [40, 45, 50, 55, 60, 65] },
+  { id: 'seven-string', label: '7-String (B E A D G B E)', openStringMidi: [35, 40, 45, 50, 55, 59, 64] },
+  { id: 'eight-string', label: '8-String (F# B E A D G B E)', openStringMidi: [30, 35, 40, 45, 50, 55, 59, 64] },
+  { id: 'bass-4', label: '4-String Bass (E A D G)', openStringMidi: [28, 33, 38, 43] },
+  { id: 'bass-5', label: '5-String Bass (B E A D G)', openStringMidi: [23, 28, 33, 38, 43] },
+];
+
+const NOTE_WITH_OCTAVE_PATTERN = /^([A-Ga-g])([#b]?)(-?\d)$/;
+const ACCIDENTAL_OFFSETS: Record<string, number> = { '': 0, '#': 1, 'b': -1 };
+
+/**
+ * Look up a preset tuning by id (falls back to standard tuning)
+ */
+export function getTuningById(id: string): Tuning {
+  return TUNING_PRESETS.find((tuning) => tuning.id === id) ?? STANDARD_TUNING;
+}
+
+/**
+ * Build a custom tuning from open-string MIDI notes (low to high)
+ * @throws Error if no strings are given or a note is not a valid MIDI number
+ */
+export function createCustomTuning(openStringMidi: number[], label: string = 'Custom'): Tuning {
+  if (openStringMidi.length === 0) {
+    throw new Error('A tuning needs at least one string.');
+  }
+
+  openStringMidi.forEach((midi) => {
+    if (!Number.isInteger(midi) || midi < 0 || midi > 127) {
+      throw new Error(`Invalid open-string MIDI note: ${midi}. Must be an integer 0-127.`);
+    }
+  });
+
+  return { id: 'custom', label, openStringMidi: [...openStringMidi] };
+}
+
+/**
+ * Parse a note with octave (e.g. "D2", "F#3", "Bb1") into a MIDI note number
+ * @returns MIDI note number, or null if the text is not a valid note
+ */
+export function parseNoteWithOctave(text: string): number | null {
+  const match = text.trim().match(NOTE_WITH_OCTAVE_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [, letter, accidental, octave] = match;
+  const naturalPc = NOTE_NAMES_SHARP.indexOf(letter.toUpperCase());
+  const midi = (Number(octave) + 1) * 12 + naturalPc + ACCIDENTAL_OFFSETS[accidental];
+  return midi >= 0 && midi <= 127 ? midi : null;
+}
+
+/**
+ * Parse a space- or comma-separated tuning spec such as "D2 A2 D3 G3 A3 D4"
+ * @returns Open-string MIDI notes (low to high), or null if any note is invalid
+ */
+export function parseTuningSpec(spec: string): number[] | null {
+  const tokens = spec.split(/[\s,]+/).filter(Boolean);
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  const midiNotes = tokens.map(parseNoteWithOctave);
+  return midiNotes.every((midi): midi is number => midi !== null) ? midiNotes : null;
+}
+
+/**
+ * Format a tuning as a note-with-octave spec (inverse of parseTuningSpec)
+ */
+export function formatTuningSpec(tuning: Tuning): string {
+  return tuning.openStringMidi
+    .map((midi) => `${NOTE_NAMES_SHARP[midi % 12]}${Math.floor(midi / 12) - 1}`)
+    .join(' ');
+}
+
+/**
+ * Number of strings in the tuning
+ */
+export function getStringCount(tuning: Tuning): number {
+  return tuning.openStringMidi.length;
+}
+
+/**
+ * Open-string pitch classes (0-11), low to high
+ */
+export function getTuningPitchClasses(tuning: Tuning): number[] {
+  return tuning.openStringMidi.map((midi) => ((midi % 12) + 12) % 12);
+}
+
+/**
+ * Open-string note names (sharp spelling), low to high
+ */
+export function getTuningStringNames(tuning: Tuning): string[] {
+  return getTuningPitchClasses(tuning).map((pc) => NOTE_NAMES_SHARP[pc]);
+}
+
+/**
+ * True when the tuning is standard E tuning (whatever its id or label)
+ */
+export function isStandardTuning(tuning: Tuning): boolean {
+  return tuning.openStringMidi.length === STANDARD_TUNING.openStringMidi.length
+    && tuning.openStringMidi.every((midi, index) => midi === STANDARD_TUNING.openStringMidi[index]);
+}
+
+/**
+ * Highest fret on the instrument
+ * @param fallback - Used when the tuning does not set a fret count (default DEFAULT_FRET_COUNT)
+ */
+export function getFretCount(tuning: Tuning, fallback: number = DEFAULT_FRET_COUNT): number {
+  return tuning.fretCount ?? fallback;
+}
+
+/**
+ * Copy of a tuning with the instrument's fret count set (null clears it)
+ * @throws Error if the fret count is not an integer between 1 and MAX_SUPPORTED_FRET_COUNT
+ */
+export function withFretCount(tuning: Tuning, fretCount: number | null): Tuning {
+  if (fretCount === null) {
+    const { fretCount: _removed, ...rest } = tuning;
+    return rest;
+  }
+
+  if (!Number.isInteger(fretCount) || fretCount < 1 || fretCount > MAX_SUPPORTED_FRET_COUNT) {
+    throw new Error(`Invalid fret count: ${fretCount}. Must be an integer 1-${MAX_SUPPORTED_FRET_COUNT}.`);
+  }
+
+  return { ...tuning, fretCount };
+}
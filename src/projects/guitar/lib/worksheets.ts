@@ -0,0 +1,337 @@
+/**
+ * Printable worksheets and cheat sheets
+ *
+ * Builders turn the workbench's data (triad positions, pentatonic boxes,
+ * progression cheat sheets, note quizzes) into pages of plain fretboard
+ * diagrams. The worksheet view lays the pages out for print, so the browser's
+ * "Save as PDF" gives a multi-page handout at Letter or A4.
+ */
+
+import { buildMajorTriad, generateTriadsData } from './triads';
+import type { InversionType, TriadVoicing } from './triads';
+import {
+  generateBoxShapePatterns,
+  getDisplayOrderedBoxPatterns,
+  getPitchClass,
+  getRelativeMinorKeyFromMajor,
+} from './box-shapes';
+import { buildPentatonicShapeOverlays } from './pentatonic-shape-overlays';
+import type { PentatonicShapeOverlay } from './pentatonic-shape-overlays';
+import { getChordCheatSheetData } from './progression-recommendations';
+import type { PracticeProgression } from './progression-recommendations';
+import { getChordPitchClassesFromSymbol, parseChordSequence } from './looper-sync';
+import { chooseProgressionVoicings } from './tab';
+import { getNoteAtPosition } from './fretboard-physics';
+import { STANDARD_TUNING, getFretCount, isStandardTuning } from './tunings';
+import type { Tuning } from './tunings';
+
+export type WorksheetPageSize = 'letter' | 'a4';
+
+export type WorksheetKind = 'triads' | 'pentatonic' | 'cheat-sheet' | 'note-quiz';
+
+export const WORKSHEET_PAGE_SIZES: Record<WorksheetPageSize, { label: string; cssSize: string; widthMm: number; heightMm: number }> = {
+  letter: { label: 'US Letter', cssSize: 'letter', widthMm: 215.9, heightMm: 279.4 },
+  a4: { label: 'A4', cssSize: 'A4', widthMm: 210, heightMm: 297 },
+};
+
+export interface WorksheetDot {
+  stringIdx: number;
+  fret: number;
+  label: string;
+  isRoot?: boolean;
+}
+
+export interface WorksheetFretboard {
+  title: string;
+  caption?: string;
+  firstFret: number; // 0 draws the nut
+  lastFret: number;
+  stringCount: number;
+  dots: WorksheetDot[];
+  overlays?: PentatonicShapeOverlay[];
+}
+
+export interface WorksheetSection {
+  title: string;
+  subtitle?: string;
+  columns: number; // Fretboards per row
+  fretboards: WorksheetFretboard[];
+  notes?: Array<{ label: string; notes: string[] }>; // Chord tones listed beside the diagrams
+  answers?: string[]; // Numbered answers (answer keys)
+  blanks?: number; // Numbered blank lines to write answers on
+}
+
+export interface WorksheetPage {
+  sections: WorksheetSection[];
+}
+
+export interface Worksheet {
+  title: string;
+  pages: WorksheetPage[];
+}
+
+export interface NoteQuizOptions {
+  seed?: number; // Same seed, same quiz
+  questionCount?: number; // Default 24
+  questionsPerFretboard?: number; // Default 8
+  lastFret?: number; // Highest fret asked about (default 12, capped by the tuning)
+  tuning?: Tuning;
+}
+
+const INVERSION_LABELS: Record<InversionType, string> = {
+  root: 'Root position',
+  first: '1st inversion',
+  second: '2nd inversion',
+  unknown: '',
+};
+
+const ENHARMONIC_NOTE_NAMES = ['C', 'C#/Db', 'D', 'D#/Eb', 'E', 'F', 'F#/Gb', 'G', 'G#/Ab', 'A', 'A#/Bb', 'B'];
+
+// Diagrams show at least this many frets so boxes line up on the page
+const MIN_WINDOW_FRETS = 4;
+
+const TRIAD_GROUPS_PER_PAGE = 2;
+
+/**
+ * Fret window around a set of frets, with one fret of context below
+ */
+function getFretWindow(frets: number[], tuning: Tuning): { firstFret: number; lastFret: number } {
+  const maxFret = getFretCount(tuning);
+  const low = Math.min(...frets);
+  const high = Math.max(...frets);
+  const firstFret = low <= 1 ? 0 : low - 1;
+  const lastFret = Math.min(maxFret, Math.max(high, firstFret + MIN_WINDOW_FRETS));
+  return { firstFret, lastFret };
+}
+
+/**
+ * Diagram of a three-note voicing, labelled with the given spellings
+ *
+ * @param noteNames - Spellings to label with (matched by pitch class, e.g. a chord's tones)
+ */
+function getVoicingFretboard(
+  title: string,
+  voicing: Pick<TriadVoicing, 'strings' | 'frets'>,
+  noteNames: string[],
+  rootPc: number,
+  tuning: Tuning,
+  caption?: string
+): WorksheetFretboard {
+  return {
+    title,
+    caption,
+    ...getFretWindow(voicing.frets, tuning),
+    stringCount: tuning.openStringMidi.length,
+    dots: voicing.strings.map((stringIdx, i) => {
+      const fret = voicing.frets[i];
+      const { pitchClass, noteName } = getNoteAtPosition(stringIdx, fret, undefined, tuning);
+      return {
+        stringIdx,
+        fret,
+        label: noteNames.find((name) => getPitchClass(name) === pitchClass) ?? noteName,
+        isRoot: pitchClass === rootPc,
+      };
+    }),
+  };
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * All four positions of a major triad on every string group
+ */
+export function buildTriadWorksheet(key: string, tuning: Tuning = STANDARD_TUNING): Worksheet {
+  const data = generateTriadsData(key, tuning);
+  const [rootPc] = buildMajorTriad(key);
+
+  const sections: WorksheetSection[] = data.stringGroups.map((group) => ({
+    title: `Strings ${group.stringNames.join('-')}`,
+    subtitle: data.triadNotes.join(' - '),
+    columns: 4,
+    fretboards: group.voicings.map((voicing) =>
+      getVoicingFretboard(
+        `Position ${voicing.position}`,
+        voicing,
+        voicing.noteNames,
+        rootPc,
+        tuning,
+        INVERSION_LABELS[voicing.inversion]
+      )
+    ),
+  }));
+
+  return {
+    title: `${key} Major Triads`,
+    pages: chunk(sections, TRIAD_GROUPS_PER_PAGE).map((pageSections) => ({ sections: pageSections })),
+  };
+}
+
+/**
+ * The five minor pentatonic boxes of a key, with rectangle/stack outlines in standard tuning
+ */
+export function buildPentatonicWorksheet(majorKey: string, tuning: Tuning = STANDARD_TUNING): Worksheet {
+  const minorKey = getRelativeMinorKeyFromMajor(majorKey);
+  const patterns = getDisplayOrderedBoxPatterns(
+    generateBoxShapePatterns(minorKey, 'pentatonic', { tuning }),
+    'pentatonic',
+    undefined,
+    tuning
+  );
+  const showOverlays = isStandardTuning(tuning);
+
+  const fretboards: WorksheetFretboard[] = patterns.map((shape) => {
+    const dots: WorksheetDot[] = shape.pattern.flatMap((frets, stringIdx) =>
+      frets.map((fret) => ({
+        stringIdx,
+        fret,
+        label: getNoteAtPosition(stringIdx, fret, majorKey, tuning).noteName,
+        isRoot: shape.rootPositions.some(([s, f]) => s === stringIdx && f === fret),
+      }))
+    );
+    return {
+      title: shape.label,
+      ...getFretWindow(dots.map((dot) => dot.fret), tuning),
+      stringCount: tuning.openStringMidi.length,
+      dots,
+      overlays: showOverlays ? buildPentatonicShapeOverlays(shape.pattern, majorKey) : undefined,
+    };
+  });
+
+  return {
+    title: `${minorKey} Minor / ${majorKey} Major Pentatonic Boxes`,
+    pages: [{
+      sections: [{
+        title: 'Five Boxes',
+        subtitle: showOverlays ? 'Roots filled; outlines mark the rectangle and stack shapes' : 'Roots filled',
+        columns: 2,
+        fretboards,
+      }],
+    }],
+  };
+}
+
+/**
+ * Chord tones and a close triad voicing for each chord of a progression
+ */
+export function buildCheatSheetWorksheet(
+  progression: Pick<PracticeProgression, 'title' | 'chordNames'> & { romanNumerals?: string },
+  tuning: Tuning = STANDARD_TUNING
+): Worksheet {
+  const { entries } = getChordCheatSheetData([{ id: '', whyItFits: '', romanNumerals: '', ...progression }]);
+  const voicings = chooseProgressionVoicings(entries.map((entry) => entry.chordSymbol), tuning);
+
+  const fretboards = voicings.flatMap(({ chordSymbol, voicing }, index) => {
+    if (!voicing) {
+      return [];
+    }
+    const rootPc = getChordPitchClassesFromSymbol(chordSymbol)[0];
+    return [getVoicingFretboard(chordSymbol, voicing, entries[index].notes, rootPc, tuning)];
+  });
+
+  return {
+    title: `${progression.title} Cheat Sheet`,
+    pages: [{
+      sections: [{
+        title: progression.title,
+        subtitle: [progression.romanNumerals, parseChordSequence(progression.chordNames).join(' ')]
+          .filter(Boolean)
+          .join('  ·  '),
+        columns: 4,
+        fretboards,
+        notes: entries.map((entry) => ({ label: entry.chordSymbol, notes: entry.notes })),
+      }],
+    }],
+  };
+}
+
+/**
+ * Blank fretboards with numbered positions to name, and an answer key page
+ */
+export function buildNoteQuizWorksheet(options: NoteQuizOptions = {}): Worksheet {
+  const {
+    seed = 1,
+    questionCount = 24,
+    questionsPerFretboard = 8,
+    tuning = STANDARD_TUNING,
+  } = options;
+  const lastFret = Math.min(options.lastFret ?? 12, getFretCount(tuning));
+  const stringCount = tuning.openStringMidi.length;
+  const random = createSeededRandom(seed);
+
+  // Fretboards never repeat a position, and a quiz never asks more than the neck holds
+  const cellsPerFretboard = stringCount * (lastFret + 1);
+  const questions = chunk(
+    Array.from({ length: questionCount }, (_, i) => i),
+    Math.min(questionsPerFretboard, cellsPerFretboard)
+  ).map((numbers) => {
+    const used = new Set<string>();
+    return numbers.map((number) => {
+      let stringIdx: number;
+      let fret: number;
+      do {
+        stringIdx = Math.floor(random() * stringCount);
+        fret = Math.floor(random() * (lastFret + 1));
+      } while (used.has(`${stringIdx}:${fret}`));
+      used.add(`${stringIdx}:${fret}`);
+      const pitchClass = (tuning.openStringMidi[stringIdx] + fret) % 12;
+      return { number: number + 1, stringIdx, fret, answer: ENHARMONIC_NOTE_NAMES[pitchClass] };
+    });
+  });
+
+  const quizFretboard = (group: typeof questions[number], index: number, withAnswers: boolean): WorksheetFretboard => ({
+    title: `Fretboard ${index + 1}`,
+    firstFret: 0,
+    lastFret,
+    stringCount,
+    dots: group.map((question) => ({
+      stringIdx: question.stringIdx,
+      fret: question.fret,
+      label: withAnswers ? question.answer.split('/')[0] : String(question.number),
+      isRoot: withAnswers,
+    })),
+  });
+
+  return {
+    title: 'Name the Note',
+    pages: [
+      {
+        sections: [{
+          title: 'Name the Note',
+          subtitle: `Write the note at each numbered position (quiz #${seed})`,
+          columns: 1,
+          fretboards: questions.map((group, index) => quizFretboard(group, index, false)),
+          blanks: questionCount,
+        }],
+      },
+      {
+        sections: [{
+          title: 'Answer Key',
+          subtitle: `Quiz #${seed}`,
+          columns: 1,
+          fretboards: questions.map((group, index) => quizFretboard(group, index, true)),
+          answers: questions.flat().map((question) => `${question.number}. ${question.answer}`),
+        }],
+      },
+    ],
+  };
+}
+
+/**
+ * Deterministic pseudo-random numbers in [0, 1) (mulberry32)
+ */
+function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -3,6 +3,7 @@ import { TonnetzCanvas } from './components/TonnetzCanvas';
 import { LeftSidebar } from './components/LeftSidebar';
 import { RightSidebar } from './components/RightSidebar';
 import { ChordWheel } from './components/ChordWheel';
+import { MidiInputListener } from './components/MidiInputListener';
 // Note: CSS is imported in _app.tsx due to Next.js global CSS restrictions
 
 function App() {
@@ -27,6 +28,7 @@ function App() {
       </div>
       </div>
       <ChordWheel />
+      <MidiInputListener />
     </AppProvider>
   );
 }
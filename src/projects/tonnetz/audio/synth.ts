@@ -1,9 +1,12 @@
 import type { PitchClass, TrianglePathPoint, MidiRange } from '../state/types';
 import { DEFAULT_MIDI_RANGE } from '../state/types';
 import { clampToRange } from '../core/voicing';
+import { getPathPointMidiPitches } from '../core/midiExport';
+import { getExternalNoteOutput, playSequence } from '@/utils/note-output';
 
 /**
  * Simple WebAudio synthesizer for playing triads
+ * (or the external note output, e.g. a MIDI synth, when one is selected)
  */
 
 let audioContext: AudioContext | null = null;
@@ -39,6 +42,26 @@ function midiToFrequency(midiNote: number): number {
   return 440 * Math.pow(2, (clampedMidi - 69) / 12);
 }
 
+/**
+ * Send a chord to the external note output, if one is selected
+ * @returns Whether the external output took the chord
+ */
+function scheduleOnExternalOutput(midiPitches: number[], duration: number): boolean {
+  const output = getExternalNoteOutput();
+  if (!output) return false;
+  output.schedule(midiPitches.map((midi) => ({
+    midi: clampToRange(midi, playbackRange),
+    startSec: 0,
+    durationSec: duration,
+  })));
+  return true;
+}
+
+// Pitch class and octave to MIDI note (C4 = 60)
+function pcToMidi(pc: PitchClass, octave: number): number {
+  return (octave + 1) * 12 + pc;
+}
+
 // Simple ADSR envelope
 interface EnvelopeParams {
   attack: number;
@@ -63,6 +86,8 @@ export function playNote(
   duration: number = 0.5,
   volume: number = 0.3
 ): void {
+  if (scheduleOnExternalOutput([pcToMidi(pc, octave)], duration)) return;
+
   const ctx = getAudioContext();
   const now = ctx.currentTime;
 
@@ -100,6 +125,8 @@ export function playTriad(
   duration: number = 0.5,
   volume: number = 0.2
 ): void {
+  if (scheduleOnExternalOutput(pitchClasses.map((pc) => pcToMidi(pc, octave)), duration)) return;
+
   const ctx = getAudioContext();
   const now = ctx.currentTime;
 
@@ -149,6 +176,8 @@ export function playChordMidi(
   duration: number = 0.5,
   volume: number = 0.2
 ): void {
+  if (scheduleOnExternalOutput(midiPitches, duration)) return;
+
   const ctx = getAudioContext();
   const now = ctx.currentTime;
 
@@ -217,26 +246,15 @@ export async function playPath(
   const beatDuration = 60 / tempo; // seconds per beat
   const noteDuration = beatDuration * 0.9; // Slight gap between notes
 
-  for (let i = 0; i < path.length; i++) {
-    const point = path[i];
-
+  await playSequence(path.length, beatDuration, (i) => {
     // Notify callback
     if (onStep) {
       onStep(i);
     }
 
-    // Build the full chord: triad + optional 7th
-    const chordPitches: number[] = [...point.midiPitches];
-    if (point.seventhMidiPitch !== undefined) {
-      chordPitches.push(point.seventhMidiPitch);
-    }
-
-    // Play the chord using position-based MIDI pitches
-    playChordMidi(chordPitches, noteDuration, 0.25);
-
-    // Wait for next beat
-    await new Promise((resolve) => setTimeout(resolve, beatDuration * 1000));
-  }
+    // Play the full chord (triad + optional 7th) using position-based MIDI pitches
+    playChordMidi(getPathPointMidiPitches(path[i]), noteDuration, 0.25);
+  });
 
   // Final callback to indicate end
   if (onStep) {
@@ -0,0 +1,60 @@
+import { useEffect } from 'react';
+import { useApp } from '../state/AppContext';
+import {
+  EMPTY_MIDI_HELD_NOTES,
+  applyMidiMessage,
+  getSoundingMidiNotes,
+  parseMidiMessage,
+  startMidiInput,
+} from '@/utils/midi-input';
+
+/**
+ * Listens to MIDI inputs while MIDI input is enabled and keeps the held notes
+ * in app state. Lives at the app root so collapsing a sidebar doesn't drop it.
+ */
+export function MidiInputListener() {
+  const { state, dispatch } = useApp();
+  const enabled = state.midiInput.enabled;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let held = EMPTY_MIDI_HELD_NOTES;
+    let stop: (() => void) | null = null;
+    let cancelled = false;
+
+    startMidiInput(
+      (data) => {
+        const message = parseMidiMessage(data);
+        if (!message) return;
+        const next = applyMidiMessage(held, message);
+        if (next === held) return;
+        held = next;
+        dispatch({ type: 'SET_MIDI_INPUT_NOTES', notes: getSoundingMidiNotes(held) });
+      },
+      (inputNames) => dispatch({ type: 'SET_MIDI_INPUT_DEVICES', inputNames })
+    )
+      .then((stopInput) => {
+        if (cancelled) {
+          stopInput();
+        } else {
+          stop = stopInput;
+        }
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) {
+          dispatch({
+            type: 'SET_MIDI_INPUT_ERROR',
+            error: err instanceof Error ? err.message : 'Could not open MIDI input.',
+          });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      stop?.();
+    };
+  }, [enabled, dispatch]);
+
+  return null;
+}
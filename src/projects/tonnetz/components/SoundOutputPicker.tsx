@@ -0,0 +1,40 @@
+import { MIDI_OUTPUT_CHANNELS, useMidiOutputSelection } from '../../../components/useMidiOutputSelection';
+
+/**
+ * Sound output selection: the built-in synth or a MIDI port and channel.
+ * Ports are listed when the dropdown is first focused, so the browser only
+ * asks for MIDI access when it is needed.
+ */
+export function SoundOutputPicker() {
+  const { ports, portId, channel, selectedName, error, loadPorts, selectOutput } = useMidiOutputSelection();
+
+  return (
+    <>
+      <div className="control-group">
+        <label>Output</label>
+        <select value={portId} onFocus={loadPorts} onChange={(e) => selectOutput(e.target.value, channel)}>
+          <option value="">Built-in synth</option>
+          {!ports && portId && <option value={portId}>{selectedName}</option>}
+          {ports?.map((port) => (
+            <option key={port.id} value={port.id}>
+              {port.name || port.id}
+            </option>
+          ))}
+        </select>
+      </div>
+      {portId && (
+        <div className="control-group">
+          <label>MIDI Channel</label>
+          <select value={channel} onChange={(e) => selectOutput(portId, Number(e.target.value))}>
+            {MIDI_OUTPUT_CHANNELS.map((midiChannel) => (
+              <option key={midiChannel} value={midiChannel}>
+                {midiChannel + 1}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      {error && <div className="path-empty">{error}</div>}
+    </>
+  );
+}
@@ -116,6 +116,7 @@ export function TonnetzCanvas({ className }: TonnetzCanvasProps) {
       cellSize: CELL_SIZE,
       playingIndex: state.playingIndex,
       chordWheel: state.chordWheel,
+      midiInputNotes: state.midiInput.notes,
     };
 
     render(rc);
@@ -1,12 +1,18 @@
 import { useState, useEffect, useRef } from 'react';
-import { usePath, usePlayback } from '../state/AppContext';
-import { chordName } from '../core/musicMath';
+import { useMidiInput, usePath, usePlayback, useSettings } from '../state/AppContext';
+import { chordName, mod12, pcToNoteName } from '../core/musicMath';
 import { getSeventhChordName } from '../core/seventhChords';
+import { recognizeChord } from '../core/chordRecognition';
 import { playPath, playChordPreviewMidi, initAudio } from '../audio/synth';
+import { buildPathsMidiFile } from '../core/midiExport';
+import { downloadMidiFile } from '@/utils/midi-file';
+import { SoundOutputPicker } from './SoundOutputPicker';
 
 export function Toolbar() {
   const { currentPath, savedPaths, undoPath, clearPath, savePath, loadPath, deleteSavedPath } = usePath();
   const { isPlaying, tempo, playingIndex, setPlaying, setTempo, setPlayingIndex } = usePlayback();
+  const { midiInput, setMidiInputEnabled } = useMidiInput();
+  const { settings } = useSettings();
   const [pathName, setPathName] = useState('');
   const [repeat, setRepeat] = useState(false);
   const playingRef = useRef(false);
@@ -72,6 +78,10 @@ export function Toolbar() {
     URL.revokeObjectURL(url);
   };
 
+  const handleExportMidi = () => {
+    downloadMidiFile(buildPathsMidiFile(currentPath, savedPaths, tempo), 'tonnetz-paths.mid');
+  };
+
   const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -101,6 +111,12 @@ export function Toolbar() {
     return { name, isActive };
   });
 
+  // Held MIDI notes, named as a chord when they form one
+  const midiChord = recognizeChord(midiInput.notes, settings.preferSharps);
+  const midiNoteNames = midiInput.notes
+    .map((midi) => `${pcToNoteName(mod12(midi), 0, settings.preferSharps)}${Math.floor(midi / 12) - 1}`)
+    .join(' ');
+
   return (
     <div className="toolbar">
       <div className="toolbar-section">
@@ -194,6 +210,44 @@ export function Toolbar() {
         </div>
       </div>
 
+      <div className="toolbar-section">
+        <h4>Sound Output</h4>
+        <SoundOutputPicker />
+      </div>
+
+      <div className="toolbar-section">
+        <h4>MIDI Input</h4>
+        <div className="toolbar-buttons">
+          <button
+            className={midiInput.enabled ? 'active' : ''}
+            onClick={() => setMidiInputEnabled(!midiInput.enabled)}
+            title="Highlight notes played on a MIDI keyboard or guitar"
+          >
+            {midiInput.enabled ? 'Stop MIDI In' : 'MIDI In'}
+          </button>
+        </div>
+        {midiInput.error && <div className="path-empty">{midiInput.error}</div>}
+        {midiInput.enabled && (
+          <>
+            <div className="path-info">
+              <span>
+                {midiInput.inputNames.length > 0 ? midiInput.inputNames.join(', ') : 'No MIDI devices connected'}
+              </span>
+            </div>
+            <div className="path-display">
+              {midiInput.notes.length > 0 ? (
+                <span className="path-notes">
+                  {midiChord && <span className="chord-name active">{midiChord.symbol}</span>}
+                  {midiChord ? ` (${midiNoteNames})` : midiNoteNames}
+                </span>
+              ) : (
+                <span className="path-empty">Play a note or chord</span>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
       <div className="toolbar-section">
         <h4>Save Path</h4>
         <div className="save-path">
@@ -252,6 +306,13 @@ export function Toolbar() {
         <h4>Import/Export</h4>
         <div className="toolbar-buttons">
           <button onClick={handleExport} disabled={isPlaying}>Export JSON</button>
+          <button
+            onClick={handleExportMidi}
+            disabled={isPlaying || (currentPath.length === 0 && savedPaths.length === 0)}
+            title="Current and saved paths as a MIDI file at the current tempo"
+          >
+            Export MIDI
+          </button>
           <label className="file-input-label">
             Import JSON
             <input
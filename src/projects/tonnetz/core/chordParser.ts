@@ -5,139 +5,106 @@
  * Supports:
  * - Basic triads: "C", "Am", "Bdim", "Faug"
  * - 7th chords: "Cmaj7", "Am7", "G7", "Dm7b5", "Bdim7"
+ * - Suspended and added-tone chords: "Csus2", "Gsus4", "D7sus4", "Cadd9", "C6/9"
+ * - Extended and altered chords: "Cmaj9", "Dm11", "G13", "G7b9", "G7#9", "C7#11", "G7alt", "G13b9"
  * - Slash chords: "C/E", "G7/B", "Am/G"
+ * - Unicode and jazz spellings: "B♭m7", "CΔ7", "F#ø7", "C°7", "C-7"
  */
 
 import type { PitchClass, SeventhQuality } from '../state/types';
 import { mod12 } from './musicMath';
-
-// Note name to pitch class mapping
-const NOTE_TO_PC: Record<string, number> = {
-  'C': 0, 'C#': 1, 'Db': 1,
-  'D': 2, 'D#': 3, 'Eb': 3,
-  'E': 4, 'Fb': 4, 'E#': 5,
-  'F': 5, 'F#': 6, 'Gb': 6,
-  'G': 7, 'G#': 8, 'Ab': 8,
-  'A': 9, 'A#': 10, 'Bb': 10,
-  'B': 11, 'Cb': 11, 'B#': 0,
-};
+import { parseChord } from '@/utils/chord-symbol';
+import type { ChordSymbol, ChordSymbolError } from '@/utils/chord-symbol';
 
 export type TriadQuality = 'major' | 'minor' | 'diminished' | 'augmented';
 
+export type Suspension = 'sus2' | 'sus4';
+
 export interface ParsedChord {
   rootPC: PitchClass;
   quality: TriadQuality;
   seventhQuality?: SeventhQuality;  // Includes 7th chords AND 6th chords ('6', 'm6')
+  suspension?: Suspension;  // 2nd or 4th in place of the 3rd
+  extensions?: number[];  // Tensions above the octave in semitones from the root (14 = 9th, 13 = b9), ascending
   bassPC?: PitchClass;  // For slash chords (e.g., G7/B)
 }
 
+export type ParsedChordResult = { ok: true; chord: ParsedChord } | { ok: false; error: ChordSymbolError };
+
+// Display names of natural and altered tensions
+const TENSION_NAMES: Record<number, string> = {
+  13: 'b9', 14: '9', 15: '#9', 17: '11', 18: '#11', 20: 'b13', 21: '13',
+};
+
+// Added 2nds and 4ths read as the 9th and 11th they double
+const ADDED_TONE_TENSIONS: Record<string, number> = { '2': 14, '4': 17 };
+
 /**
- * Parse a note name (e.g., "C", "F#", "Bb") to pitch class
+ * The 7th (or 6th) a chord's tones hold, named for the triad under it
  */
-function parseNoteName(note: string): PitchClass {
-  const pc = NOTE_TO_PC[note];
-  if (pc === undefined) {
-    console.warn(`Unknown note name: ${note}, defaulting to C`);
-    return 0;
+function getSeventhQuality(chord: ChordSymbol, quality: TriadQuality): SeventhQuality | undefined {
+  const seventh = chord.tones.find((tone) => ['7', 'b7', 'bb7'].includes(tone.degree));
+  if (seventh?.interval === 11) {
+    return quality === 'minor' ? 'minMaj7' : quality === 'augmented' ? 'augMaj7' : 'maj7';
+  }
+  if (seventh?.interval === 10) {
+    return quality === 'minor' ? 'min7' : quality === 'diminished' ? 'halfDim7' : 'dom7';
+  }
+  if (seventh?.interval === 9) {
+    return 'dim7';
   }
-  return pc as PitchClass;
+  if (chord.tones.some((tone) => tone.degree === '6')) {
+    return quality === 'minor' ? 'm6' : '6';
+  }
+  return undefined;
 }
 
 /**
  * Parse a chord symbol into its components
  *
- * Supported formats:
- * - Basic triads: "C", "Am", "Bdim", "Faug"
- * - 7th chords: "Cmaj7", "Am7", "G7", "Dm7b5" (halfDim7), "Bdim7"
- * - Slash chords: "C/E", "G7/B", "Am/G"
+ * Reading is shared with the guitar app (see utils/chord-symbol), which covers
+ * unicode accidentals, omissions and inversions too. Suspended chords keep a
+ * major triad with the 2nd or 4th in place of the 3rd, and power chords read
+ * as major.
  *
  * @param symbol - Chord symbol string
- * @returns ParsedChord object
+ * @returns The parsed chord, or the shared parser's error (code, message and
+ *   position) for a symbol that can't be read
  */
-export function parseChordSymbol(symbol: string): ParsedChord {
-  let remaining = symbol.trim();
-
-  // Check for slash chord (bass note)
-  let bassPC: PitchClass | undefined;
-  const slashIndex = remaining.lastIndexOf('/');
-  if (slashIndex > 0) {
-    const bassNote = remaining.slice(slashIndex + 1);
-    bassPC = parseNoteName(bassNote);
-    remaining = remaining.slice(0, slashIndex);
-  }
-
-  // Parse root note (handle accidentals)
-  let rootEndIndex = 1;
-  if (remaining.length > 1 && (remaining[1] === '#' || remaining[1] === 'b')) {
-    rootEndIndex = 2;
-  }
-
-  const rootNote = remaining.slice(0, rootEndIndex);
-  const rootPC = parseNoteName(rootNote);
-  remaining = remaining.slice(rootEndIndex);
-
-  // Parse quality and extensions
-  let quality: TriadQuality = 'major';
-  let seventhQuality: SeventhQuality | undefined;
-
-  // Normalize common variations
-  remaining = remaining
-    .replace(/°7/g, 'dim7')
-    .replace(/°/g, 'dim')
-    .replace(/ø7/g, 'm7b5')
-    .replace(/ø/g, 'm7b5')
-    .replace(/Δ7/g, 'maj7')
-    .replace(/Δ/g, 'maj7');
-
-  // Check for specific patterns (order matters - check longer patterns first)
-  if (remaining.startsWith('maj7') || remaining.startsWith('M7')) {
-    quality = 'major';
-    seventhQuality = 'maj7';
-  } else if (remaining.startsWith('m7b5') || remaining.startsWith('min7b5')) {
-    quality = 'diminished';
-    seventhQuality = 'halfDim7';
-  } else if (remaining.startsWith('mMaj7') || remaining.startsWith('minMaj7') || remaining.startsWith('m(maj7)')) {
-    quality = 'minor';
-    seventhQuality = 'minMaj7';
-  } else if (remaining.startsWith('m7') || remaining.startsWith('min7') || remaining.startsWith('-7')) {
-    quality = 'minor';
-    seventhQuality = 'min7';
-  } else if (remaining.startsWith('m6') || remaining.startsWith('min6')) {
-    // Minor 6th chord (minor triad + major 6th)
-    quality = 'minor';
-    seventhQuality = 'm6';
-  } else if (remaining.startsWith('dim7')) {
-    quality = 'diminished';
-    seventhQuality = 'dim7';
-  } else if (remaining.startsWith('aug7') || remaining.startsWith('+7')) {
-    quality = 'augmented';
-    seventhQuality = 'augMaj7';
-  } else if (remaining.startsWith('augMaj7') || remaining.startsWith('+maj7')) {
-    quality = 'augmented';
-    seventhQuality = 'augMaj7';
-  } else if (remaining === '7' || remaining.startsWith('7')) {
-    // Dominant 7 (major triad + minor 7th)
-    quality = 'major';
-    seventhQuality = 'dom7';
-  } else if (remaining === '6' || remaining.startsWith('6')) {
-    // Major 6th chord (major triad + major 6th)
-    quality = 'major';
-    seventhQuality = '6';
-  } else if (remaining.startsWith('aug') || remaining.startsWith('+')) {
-    quality = 'augmented';
-  } else if (remaining.startsWith('dim')) {
-    quality = 'diminished';
-  } else if (remaining.startsWith('m') || remaining.startsWith('min') || remaining.startsWith('-')) {
-    quality = 'minor';
-  }
-  // Default: major (no suffix needed)
-
-  return {
-    rootPC: rootPC as PitchClass,
+export function parseChordSymbol(symbol: string): ParsedChordResult {
+  const result = parseChord(symbol);
+  if (!result.ok) {
+    return result;
+  }
+
+  const { chord } = result;
+  const suspensionTone = chord.triad === 'sus2' || chord.triad === 'sus4'
+    ? chord.tones.find((tone) => tone.degree === '2' || tone.degree === '4')
+    : undefined;
+  const suspension: Suspension | undefined = suspensionTone && (suspensionTone.degree === '2' ? 'sus2' : 'sus4');
+  const quality: TriadQuality =
+    chord.triad === 'minor' || chord.triad === 'diminished' || chord.triad === 'augmented' ? chord.triad : 'major';
+
+  // Tensions above the octave, plus added 2nds and 4ths that aren't a suspension
+  const extensions = chord.tones
+    .filter((tone) => tone !== suspensionTone)
+    .map((tone) => (tone.interval >= 12 ? tone.interval : ADDED_TONE_TENSIONS[tone.degree]))
+    .filter((interval): interval is number => interval !== undefined)
+    .sort((a, b) => a - b);
+
+  const parsed: ParsedChord = {
+    rootPC: chord.rootPc as PitchClass,
     quality,
-    seventhQuality,
-    bassPC,
+    seventhQuality: getSeventhQuality(chord, quality),
+    bassPC: chord.bassPc === null ? undefined : (chord.bassPc as PitchClass),
   };
+  if (suspension) {
+    parsed.suspension = suspension;
+  }
+  if (extensions.length > 0) {
+    parsed.extensions = extensions;
+  }
+  return { ok: true, chord: parsed };
 }
 
 /**
@@ -171,16 +138,20 @@ function getSeventhInterval(quality: SeventhQuality): number {
 }
 
 /**
- * Get interval structure for parsed chord (including 7th or 6th if present)
+ * Get interval structure for parsed chord (including 7th or 6th and any tensions)
  */
 export function getChordIntervals(parsed: ParsedChord): number[] {
   const intervals = getTriadIntervals(parsed.quality);
 
+  if (parsed.suspension) {
+    intervals[1] = parsed.suspension === 'sus2' ? 2 : 5;
+  }
+
   if (parsed.seventhQuality) {
     intervals.push(getSeventhInterval(parsed.seventhQuality));
   }
 
-  return intervals;
+  return [...intervals, ...(parsed.extensions ?? [])];
 }
 
 /**
@@ -239,6 +210,15 @@ export function getChordDisplayName(parsed: ParsedChord, preferSharps: boolean =
     }
   }
 
+  if (parsed.suspension) {
+    name += parsed.suspension;
+  }
+
+  // Tensions in parentheses, e.g. "G7(b9, 13)"
+  if (parsed.extensions?.length) {
+    name += `(${parsed.extensions.map((interval) => TENSION_NAMES[interval]).join(', ')})`;
+  }
+
   // Add bass note for slash chords
   if (parsed.bassPC !== undefined) {
     name += '/' + noteNames[parsed.bassPC];
@@ -0,0 +1,90 @@
+import type { PitchClass } from '../state/types';
+import { mod12, pcToNoteName } from './musicMath';
+import {
+  CHORD_INTERVALS,
+  CHORD_QUALITY_NAMES,
+  findTriadFaces,
+  identifySeventhChordQuality,
+  type ChordQuality,
+} from './seventhChords';
+import { parseChordSymbol, type ParsedChord } from './chordParser';
+
+/**
+ * Chord recognition for live input
+ *
+ * Names the set of notes being held: root position when the bass note works
+ * as a root, otherwise the inversion as a slash chord over the bass.
+ */
+
+export interface RecognizedChord {
+  symbol: string; // e.g. "Am7/G"
+  chord: ParsedChord; // The symbol parsed back, for rendering
+}
+
+/**
+ * Quality of a pitch-class set built on the given root, if it is one we know
+ */
+function matchQualityFromRoot(pitchClasses: PitchClass[], root: PitchClass): ChordQuality | null {
+  const intervals = pitchClasses.map((pc) => mod12(pc - root)).sort((a, b) => a - b).join(',');
+  const match = (Object.keys(CHORD_INTERVALS) as ChordQuality[]).find(
+    (quality) => CHORD_INTERVALS[quality].join(',') === intervals
+  );
+  return match ?? null;
+}
+
+/**
+ * Root and quality of a pitch-class set, preferring the bass as the root
+ */
+function identifyChord(
+  pitchClasses: PitchClass[],
+  bassPC: PitchClass
+): { root: PitchClass; quality: ChordQuality } | null {
+  const bassQuality = matchQualityFromRoot(pitchClasses, bassPC);
+  if (bassQuality) {
+    return { root: bassPC, quality: bassQuality };
+  }
+
+  if (pitchClasses.length === 4) {
+    return identifySeventhChordQuality(pitchClasses);
+  }
+
+  if (pitchClasses.length === 3) {
+    // Inverted major/minor triads are a single face; diminished and augmented have none
+    const [face] = findTriadFaces(pitchClasses);
+    if (face) {
+      return { root: face.rootPC, quality: face.type };
+    }
+    for (const root of pitchClasses) {
+      const quality = matchQualityFromRoot(pitchClasses, root);
+      if (quality) {
+        return { root, quality };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Name the chord formed by a set of MIDI notes
+ *
+ * @param midiNotes - Notes being held, in any order (duplicates and octaves are fine)
+ * @returns The chord, or null for fewer than three pitch classes or a set we cannot name
+ */
+export function recognizeChord(midiNotes: number[], preferSharps: boolean = true): RecognizedChord | null {
+  if (midiNotes.length === 0) return null;
+
+  const bassPC = mod12(Math.min(...midiNotes));
+  const pitchClasses = [...new Set(midiNotes.map((midi) => mod12(midi)))];
+  if (pitchClasses.length < 3 || pitchClasses.length > 4) return null;
+
+  const identified = identifyChord(pitchClasses, bassPC);
+  if (!identified) return null;
+
+  const { root, quality } = identified;
+  const name = pcToNoteName(root, 0, preferSharps) + CHORD_QUALITY_NAMES[quality];
+  const symbol = root === bassPC ? name : `${name}/${pcToNoteName(bassPC, 0, preferSharps)}`;
+
+  const parsed = parseChordSymbol(symbol);
+  return parsed.ok ? { symbol, chord: parsed.chord } : null;
+}
@@ -0,0 +1,58 @@
+/**
+ * MIDI export for Tonnetz paths
+ *
+ * Chords keep the MIDI pitches of their lattice position (plus any added
+ * 7th) and the timing of playback, so the file sounds like the Play button.
+ */
+
+import type { TrianglePath, TrianglePathPoint } from '../state/types';
+import { DEFAULT_TICKS_PER_QUARTER, writeMidiFile } from '@/utils/midi-file';
+import type { MidiTrack } from '@/utils/midi-file';
+
+// Playback steps through a path at half the tempo, so each chord lasts two beats
+export const BEATS_PER_PATH_CHORD = 2;
+// Chords are held for 90% of their slot, leaving a short gap before the next
+const CHORD_GATE = 0.9;
+
+/**
+ * MIDI pitches of a path chord: the triad plus the 7th when it has been upgraded
+ */
+export function getPathPointMidiPitches(point: TrianglePathPoint): number[] {
+  return point.seventhMidiPitch !== undefined
+    ? [...point.midiPitches, point.seventhMidiPitch]
+    : [...point.midiPitches];
+}
+
+/**
+ * One MIDI track playing a path's chords back to back
+ */
+export function pathToMidiTrack(points: TrianglePathPoint[], name: string): MidiTrack {
+  const ticksPerChord = DEFAULT_TICKS_PER_QUARTER * BEATS_PER_PATH_CHORD;
+  return {
+    name,
+    notes: points.flatMap((point, index) =>
+      getPathPointMidiPitches(point).map((midi) => ({
+        midi,
+        startTick: index * ticksPerChord,
+        durationTicks: Math.round(ticksPerChord * CHORD_GATE),
+      }))
+    ),
+  };
+}
+
+/**
+ * Standard MIDI File (format 1) with the current path and each saved path on its own track
+ *
+ * @param tempo - Tempo in BPM, as set in the toolbar
+ */
+export function buildPathsMidiFile(
+  currentPath: TrianglePathPoint[],
+  savedPaths: TrianglePath[],
+  tempo: number
+): Uint8Array {
+  const tracks = [
+    ...(currentPath.length > 0 ? [pathToMidiTrack(currentPath, 'Current path')] : []),
+    ...savedPaths.map((path) => pathToMidiTrack(path.points, path.name)),
+  ];
+  return writeMidiFile(tracks, { bpm: tempo, name: 'Tonnetz paths' });
+}
@@ -151,6 +151,7 @@ function centerProgression(points: TrianglePathPoint[]): TrianglePathPoint[] {
 
 /**
  * Parse chord symbols into TrianglePathPoint array with voice leading
+ * @throws Error for the first chord symbol that can't be read, with where reading stopped
  */
 function parseProgressionChords(
   chords: string[],
@@ -163,7 +164,11 @@ function parseProgressionChords(
 
   for (let i = 0; i < chords.length; i++) {
     const chordSymbol = chords[i];
-    const parsed = parseChordSymbol(chordSymbol);
+    const result = parseChordSymbol(chordSymbol);
+    if (!result.ok) {
+      throw new Error(`Chord ${i + 1}: ${result.error.message} (at character ${result.error.position})`);
+    }
+    const parsed = result.chord;
 
     // Get pitch classes for this chord
     const pitchClasses = getPitchClassesForChord(parsed);
@@ -231,11 +236,16 @@ function parseProgressionChords(
  */
 function convertProgression(data: ProgressionJsonData, index: number): Progression {
   // Parse chords and apply centering so progression is near middle C
-  const rawPoints = parseProgressionChords(
-    data.chords,
-    data.bassLineMidi,
-    data.topLineMidi
-  );
+  let rawPoints: TrianglePathPoint[];
+  try {
+    rawPoints = parseProgressionChords(
+      data.chords,
+      data.bassLineMidi,
+      data.topLineMidi
+    );
+  } catch (err) {
+    throw new Error(`Progression "${data.name}": ${err instanceof Error ? err.message : String(err)}`);
+  }
   const centeredPoints = centerProgression(rawPoints);
 
   return {
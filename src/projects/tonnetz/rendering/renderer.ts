@@ -20,10 +20,11 @@ import {
   isRowPatchBoundary,
   isColPatchBoundary,
 } from '../core/lattice';
-import { getLabel, getTriangleLabel } from '../core/musicMath';
+import { getLabel, getTriangleLabel, mod12 } from '../core/musicMath';
 import { getMajorTriangle, getMinorTriangle, triangleCenter } from '../core/triads';
 import {
   decomposeSeventhChord,
+  findTriadFaces,
   getSeventhChordName,
   getGridCellForInterval,
   type SeventhChordDecomposition,
@@ -108,6 +109,7 @@ const COLORS = {
   seventhLeg: 'rgba(255, 200, 100, 0.4)',             // Connector lines from 7th to triangle
   noFaceChord: 'rgba(200, 150, 255, 0.3)',            // Purple for no-face chords (dim7, aug)
   noFaceChordStroke: 'rgba(180, 130, 230, 0.7)',      // Purple stroke
+  midiInputNote: 'rgba(255, 120, 200, 0.95)',         // Pink ring for notes held on a MIDI controller
 };
 
 // Grid boundaries: 3 patches in each direction from origin patch
@@ -146,10 +148,10 @@ function isInPianoRange(row: number, col: number): boolean {
 }
 
 /**
- * Build a set of canonical cells - one cell per unique MIDI pitch
+ * Build the canonical cells - one cell per unique MIDI pitch
  * For each MIDI value 21-108, we pick the cell closest to the origin
  */
-function buildCanonicalCells(): Set<string> {
+function buildCanonicalCells(): Map<number, GridCell> {
   const midiToBestCell = new Map<number, { row: number; col: number; dist: number }>();
 
   // Search the full grid bounds for all cells in piano range
@@ -167,17 +169,19 @@ function buildCanonicalCells(): Set<string> {
     }
   }
 
-  // Convert to set of "row,col" keys
-  const canonicalCells = new Set<string>();
-  for (const { row, col } of midiToBestCell.values()) {
-    canonicalCells.add(`${row},${col}`);
+  const canonicalCells = new Map<number, GridCell>();
+  for (const [midi, { row, col }] of midiToBestCell) {
+    canonicalCells.set(midi, { row, col });
   }
 
   return canonicalCells;
 }
 
-// Cache the canonical cells (computed once)
-const CANONICAL_CELLS = buildCanonicalCells();
+// Cache the canonical cells (computed once), by MIDI pitch and as "row,col" keys
+const CANONICAL_CELL_BY_MIDI = buildCanonicalCells();
+const CANONICAL_CELLS = new Set(
+  Array.from(CANONICAL_CELL_BY_MIDI.values(), ({ row, col }) => `${row},${col}`)
+);
 console.log(`Canonical cells: ${CANONICAL_CELLS.size} (expected 88)`);
 
 /**
@@ -188,6 +192,13 @@ function isCanonicalCell(row: number, col: number): boolean {
   return CANONICAL_CELLS.has(`${row},${col}`);
 }
 
+/**
+ * The cell where a MIDI pitch is drawn, or null outside the piano range
+ */
+export function getCanonicalCellForMidi(midi: number): GridCell | null {
+  return CANONICAL_CELL_BY_MIDI.get(midi) ?? null;
+}
+
 /**
  * Check if a cell is visible (canonical cell within piano range)
  */
@@ -207,6 +218,7 @@ export interface RenderContext {
   cellSize: number;
   playingIndex: number;
   chordWheel: ChordWheelState | null;
+  midiInputNotes: number[]; // Notes held on a MIDI controller
 }
 
 /**
@@ -232,6 +244,7 @@ export function render(rc: RenderContext): void {
   if (tiltAngle > 0) {
     drawTriangles(rc, range);
     drawHoveredTriangle(rc);
+    drawMidiInputFaces(rc);
   }
 
   // Apply tilt and rotation transforms for flat elements (labels, grid lines)
@@ -253,9 +266,11 @@ export function render(rc: RenderContext): void {
   if (tiltAngle === 0) {
     drawTriangles(rc, range);
     drawHoveredTriangle(rc);
+    drawMidiInputFaces(rc);
   }
   drawGridLines(rc, range);
   drawCells(rc, range);
+  drawMidiInputNotes(rc);
 
   ctx.restore();
 
@@ -748,20 +763,85 @@ function drawCells(
  * Draw hovered triangle highlight
  */
 function drawHoveredTriangle(rc: RenderContext): void {
-  const { ctx, width, height, camera, cellSize, hoveredTriangle } = rc;
+  const { hoveredTriangle } = rc;
   if (!hoveredTriangle) return;
 
+  drawHighlightedTriangle(rc, hoveredTriangle.rootCell, hoveredTriangle.type);
+}
+
+/**
+ * Draw the triads formed by the notes held on a MIDI controller
+ * Each face is drawn once, on the root cell whose triangle covers the most held notes
+ */
+function drawMidiInputFaces(rc: RenderContext): void {
+  const { midiInputNotes } = rc;
+  if (midiInputNotes.length < 3) return;
+
+  const held = new Set(midiInputNotes);
+  const faces = findTriadFaces(midiInputNotes.map((midi) => mod12(midi)));
+
+  for (const face of faces) {
+    let bestCell: GridCell | null = null;
+    let bestHeld = -1;
+    for (const midi of midiInputNotes) {
+      const cell = getCanonicalCellForMidi(midi);
+      if (!cell || mod12(midi) !== face.rootPC) continue;
+      const verts = getTriangleGridVertices(cell, face.type);
+      if (!verts.every(v => isCanonicalCell(v.row, v.col))) continue;
+      const heldCount = verts.filter(v => held.has(gridToPitch(v.row, v.col))).length;
+      if (heldCount > bestHeld) {
+        bestCell = cell;
+        bestHeld = heldCount;
+      }
+    }
+    if (bestCell) {
+      drawHighlightedTriangle(rc, bestCell, face.type);
+    }
+  }
+}
+
+/**
+ * Draw a ring around each cell whose note is held on a MIDI controller
+ */
+function drawMidiInputNotes(rc: RenderContext): void {
+  const { ctx, width, height, camera, cellSize, midiInputNotes } = rc;
+
+  const effectiveSize = cellSize * camera.zoom;
+  const ringRadius = Math.min(Math.max(6, effectiveSize * 0.21), 16) + 4;
+
+  for (const midi of midiInputNotes) {
+    const cell = getCanonicalCellForMidi(midi);
+    if (!cell || !isCellVisible(cell.row, cell.col)) continue;
+
+    const center = worldToScreen(cellToWorld(cell, cellSize), camera, width, height);
+    ctx.beginPath();
+    ctx.arc(center.x, center.y, ringRadius, 0, Math.PI * 2);
+    ctx.strokeStyle = COLORS.midiInputNote;
+    ctx.lineWidth = 3;
+    ctx.shadowColor = COLORS.midiInputNote;
+    ctx.shadowBlur = 12;
+    ctx.stroke();
+    ctx.shadowBlur = 0;
+  }
+}
+
+/**
+ * Fill and outline one triangle on the base plane (hover and MIDI input highlights)
+ */
+function drawHighlightedTriangle(rc: RenderContext, rootCell: GridCell, type: 'major' | 'minor'): void {
+  const { ctx, width, height, camera, cellSize } = rc;
+
   // Don't draw if outside grid bounds or not a canonical cell
-  const { row, col } = hoveredTriangle.rootCell;
+  const { row, col } = rootCell;
   if (!isCellVisible(row, col)) return;
 
   // Also check that all triangle vertices are canonical (unique MIDI in piano range)
-  const gridVerts = getTriangleGridVertices(hoveredTriangle.rootCell, hoveredTriangle.type);
+  const gridVerts = getTriangleGridVertices(rootCell, type);
   if (!gridVerts.every(v => isCanonicalCell(v.row, v.col))) return;
 
-  const triangle = hoveredTriangle.type === 'major'
-    ? getMajorTriangle(hoveredTriangle.rootCell, cellSize)
-    : getMinorTriangle(hoveredTriangle.rootCell, cellSize);
+  const triangle = type === 'major'
+    ? getMajorTriangle(rootCell, cellSize)
+    : getMinorTriangle(rootCell, cellSize);
 
   const tiltAngle = camera.tilt;
 
@@ -781,10 +861,10 @@ function drawHoveredTriangle(rc: RenderContext): void {
   ctx.lineTo(verts[2].x, verts[2].y);
   ctx.closePath();
 
-  ctx.fillStyle = hoveredTriangle.type === 'major' ? COLORS.majorHighlight : COLORS.minorHighlight;
+  ctx.fillStyle = type === 'major' ? COLORS.majorHighlight : COLORS.minorHighlight;
   ctx.fill();
 
-  ctx.strokeStyle = hoveredTriangle.type === 'major'
+  ctx.strokeStyle = type === 'major'
     ? 'rgba(100, 220, 100, 0.9)'
     : 'rgba(100, 150, 255, 0.9)';
   ctx.lineWidth = 3;
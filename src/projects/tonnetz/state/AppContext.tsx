@@ -14,6 +14,7 @@ import type {
 import {
   DEFAULT_SETTINGS,
   DEFAULT_CAMERA,
+  DEFAULT_MIDI_INPUT,
   MIN_ZOOM,
   MAX_ZOOM,
 } from './types';
@@ -53,7 +54,11 @@ type Action =
   | { type: 'HIDE_CHORD_WHEEL' }
   | { type: 'UPGRADE_TO_SEVENTH'; pathIndex: number; quality: SeventhQuality }
   | { type: 'REMOVE_SEVENTH'; pathIndex: number }
-  | { type: 'SET_SEVENTH_PREVIEW'; quality: SeventhQuality | null };
+  | { type: 'SET_SEVENTH_PREVIEW'; quality: SeventhQuality | null }
+  | { type: 'SET_MIDI_INPUT_ENABLED'; enabled: boolean }
+  | { type: 'SET_MIDI_INPUT_NOTES'; notes: number[] }
+  | { type: 'SET_MIDI_INPUT_DEVICES'; inputNames: string[] }
+  | { type: 'SET_MIDI_INPUT_ERROR'; error: string };
 
 // Initial state
 const initialState: AppState = {
@@ -67,6 +72,7 @@ const initialState: AppState = {
   tempo: 120,
   playingIndex: -1,
   chordWheel: null,
+  midiInput: DEFAULT_MIDI_INPUT,
 };
 
 // Reducer
@@ -351,6 +357,31 @@ function appReducer(state: AppState, action: Action): AppState {
       };
     }
 
+    case 'SET_MIDI_INPUT_ENABLED':
+      // Turning input on or off starts from a clean slate
+      return {
+        ...state,
+        midiInput: { ...DEFAULT_MIDI_INPUT, enabled: action.enabled },
+      };
+
+    case 'SET_MIDI_INPUT_NOTES':
+      return {
+        ...state,
+        midiInput: { ...state.midiInput, notes: action.notes },
+      };
+
+    case 'SET_MIDI_INPUT_DEVICES':
+      return {
+        ...state,
+        midiInput: { ...state.midiInput, inputNames: action.inputNames },
+      };
+
+    case 'SET_MIDI_INPUT_ERROR':
+      return {
+        ...state,
+        midiInput: { ...DEFAULT_MIDI_INPUT, error: action.error },
+      };
+
     default:
       return state;
   }
@@ -470,3 +501,18 @@ export function useChordWheel() {
       dispatch({ type: 'SET_SEVENTH_PREVIEW', quality }),
   };
 }
+
+export function useMidiInput() {
+  const { state, dispatch } = useApp();
+  return {
+    midiInput: state.midiInput,
+    setMidiInputEnabled: (enabled: boolean) =>
+      dispatch({ type: 'SET_MIDI_INPUT_ENABLED', enabled }),
+    setMidiInputNotes: (notes: number[]) =>
+      dispatch({ type: 'SET_MIDI_INPUT_NOTES', notes }),
+    setMidiInputDevices: (inputNames: string[]) =>
+      dispatch({ type: 'SET_MIDI_INPUT_DEVICES', inputNames }),
+    setMidiInputError: (error: string) =>
+      dispatch({ type: 'SET_MIDI_INPUT_ERROR', error }),
+  };
+}
@@ -103,6 +103,14 @@ export interface ChordWheelState {
   hoveredPreview?: SeventhQuality;  // Preview quality on hover (before clicking)
 }
 
+// Live notes from a MIDI keyboard or guitar
+export interface MidiInputState {
+  enabled: boolean;
+  notes: number[];       // Sounding MIDI notes, lowest first
+  inputNames: string[];  // Connected devices
+  error: string | null;  // Why listening could not start
+}
+
 // Full application state
 export interface AppState {
   camera: Camera;
@@ -115,6 +123,7 @@ export interface AppState {
   tempo: number; // BPM
   playingIndex: number; // Currently playing chord index (-1 if not playing)
   chordWheel: ChordWheelState | null; // State for 7th chord selection wheel
+  midiInput: MidiInputState;
 }
 
 // Default values
@@ -129,6 +138,13 @@ export const DEFAULT_SETTINGS: AppSettings = {
   showGridLines: false,
 };
 
+export const DEFAULT_MIDI_INPUT: MidiInputState = {
+  enabled: false,
+  notes: [],
+  inputNames: [],
+  error: null,
+};
+
 export const DEFAULT_CAMERA: Camera = {
   x: 0,
   y: 0,
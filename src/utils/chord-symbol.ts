@@ -0,0 +1,394 @@
+/**
+ * Chord symbols: one parser for the guitar and Tonnetz apps
+ *
+ * Reads lead-sheet symbols ("F#m7b5", "Bb13(#11)", "G7alt/B", "C6/9", "Dm(maj7)"),
+ * Roman numerals ("V7/V", "bVII", "viiø7", "V65") and Nashville numbers ("6m", "4/5")
+ * into the chord's tones, bass and inversion. Numerals count from the major scale
+ * of the key, so "bVII" in C is Bb. A plain "6" after a numeral is an added 6th, as
+ * on a lead sheet; inversions use the two-digit figures 64, 65, 43 and 42.
+ *
+ * Failures come back as structured errors with the position where reading
+ * stopped, never as exceptions, so callers decide how to report them.
+ */
+
+export type ChordNotation = "letter" | "roman" | "nashville";
+
+// Triad the chord is built on; "power" has neither a 3rd nor a suspension
+export type ChordTriad = "major" | "minor" | "diminished" | "augmented" | "sus2" | "sus4" | "power";
+
+export interface ChordTone {
+	degree: string; // "1", "b3", "#11"
+	interval: number; // Semitones above the root; tensions sit an octave up (9th = 14)
+}
+
+export interface ChordSymbol {
+	symbol: string; // As written, trimmed
+	notation: ChordNotation;
+	root: string; // Spelled with ASCII accidentals ("Bb"); numerals are spelled in the key
+	rootPc: number;
+	triad: ChordTriad;
+	tones: ChordTone[]; // Root first, ascending
+	omitted: string[]; // Degrees removed with "no" or "omit"
+	bass: string | null; // Slash bass, or the bass a figured inversion puts there
+	bassPc: number | null;
+	inversion: number | null; // Chord tone in the bass: 0 root, 1 the 3rd, 2 the 5th, 3 the 7th...; null if the bass isn't in the chord
+}
+
+export type ChordSymbolErrorCode = "empty" | "invalidRoot" | "missingKey" | "invalidKey" | "invalidBass" | "unknownSuffix";
+
+export interface ChordSymbolError {
+	code: ChordSymbolErrorCode;
+	message: string;
+	position: number; // Character of the normalized symbol where reading stopped
+}
+
+export type ChordSymbolResult = { ok: true; chord: ChordSymbol } | { ok: false; error: ChordSymbolError };
+
+export interface ChordSymbolOptions {
+	key?: string; // Tonic that Roman numerals and Nashville numbers count from
+}
+
+type QualityPrefix = "minorMajor" | "major" | "minor" | "diminished" | "halfDiminished" | "augmented" | "dominant";
+
+const LETTERS = ["C", "D", "E", "F", "G", "A", "B"];
+const LETTER_PCS = [0, 2, 4, 5, 7, 9, 11];
+const MAJOR_SCALE = [0, 2, 4, 5, 7, 9, 11];
+const ROMAN_DEGREES = ["I", "II", "III", "IV", "V", "VI", "VII"];
+
+const NOTE_PATTERN = /^([A-G])(##|bb|#|b)?/;
+const ROMAN_PATTERN = /^([b#]?)(VII|VI|V|IV|III|II|I|vii|vi|v|iv|iii|ii|i)/;
+const NASHVILLE_PATTERN = /^([b#]?)([1-7])/;
+
+// Longest spellings first, so "maj" is not read as "m"
+const QUALITY_PREFIXES: Array<[RegExp, QualityPrefix]> = [
+	[/^(half-?diminished|halfdim|ø|Ø|h(?=7|$))/, "halfDiminished"],
+	[/^(minMaj|minmaj|mMaj|mmaj|mM|-maj|-Δ|mΔ)/, "minorMajor"],
+	[/^(major|maj|Maj|MAJ|delta|Δ|\^|ma(?=\d)|Ma(?=\d)|M)/, "major"],
+	[/^(minor|min|mi|m|-)/, "minor"],
+	[/^(diminished|dim|°|o(?!mit))/, "diminished"],
+	[/^(augmented|aug|\+)/, "augmented"],
+	[/^(dominant|dom)/, "dominant"],
+];
+
+// Chord numbers, and the tensions each stacks on its 7th (an 11th chord on a major 3rd drops the 3rd)
+const CHORD_NUMBERS: Array<[RegExp, { seventh: boolean; sixth: boolean; tensions: number[] }]> = [
+	[/^(6\/9|69)/, { seventh: false, sixth: true, tensions: [9] }],
+	[/^13/, { seventh: true, sixth: false, tensions: [9, 13] }],
+	[/^11/, { seventh: true, sixth: false, tensions: [9, 11] }],
+	[/^9/, { seventh: true, sixth: false, tensions: [9] }],
+	[/^7/, { seventh: true, sixth: false, tensions: [] }],
+	[/^6/, { seventh: false, sixth: true, tensions: [] }],
+];
+
+// Roman figured bass: which chord tone goes in the bass, and whether the figure implies a 7th
+const INVERSION_FIGURES: Array<[RegExp, { inversion: number; seventh: boolean }]> = [
+	[/^6\/?4/, { inversion: 2, seventh: false }],
+	[/^6\/?5/, { inversion: 1, seventh: true }],
+	[/^4\/?3/, { inversion: 2, seventh: true }],
+	[/^4\/?2/, { inversion: 3, seventh: true }],
+];
+
+const NATURAL_TENSIONS: Record<number, number> = { 9: 14, 11: 17, 13: 21 };
+
+const FIFTHS = ["5", "b5", "#5"];
+
+// Degrees each "no" or "omit" removes
+const OMITTABLE: Record<string, string[]> = { "1": ["1"], "3": ["3", "b3"], "5": FIFTHS };
+
+// Added tones below the octave keep their small number ("add2", "add4", "add6")
+const ADDED_TONES: Record<number, number> = { 2: 2, 4: 5, 6: 9, ...NATURAL_TENSIONS };
+
+/**
+ * Pitch class of a note name such as "C", "F#", "Bb" or "Cbb"
+ * @returns The pitch class, or null if the name isn't a note
+ */
+export function noteNameToPitchClass(name: string): number | null {
+	const match = name.match(/^([A-G])(#+|b+)?$/);
+	if (!match) {
+		return null;
+	}
+	const accidental = match[2] ?? "";
+	const offset = accidental.startsWith("#") ? accidental.length : -accidental.length;
+	return (LETTER_PCS[LETTERS.indexOf(match[1])] + offset + 12) % 12;
+}
+
+function spellNote(letterIndex: number, pc: number): string {
+	const offset = ((pc - LETTER_PCS[letterIndex] + 18) % 12) - 6;
+	return LETTERS[letterIndex] + (offset > 0 ? "#".repeat(offset) : "b".repeat(-offset));
+}
+
+/**
+ * Note a given scale degree and number of semitones above another, spelled on the degree's letter
+ */
+function spellAbove(noteName: string, degree: number, semitones: number): string {
+	const letterIndex = (LETTERS.indexOf(noteName[0]) + degree - 1) % 7;
+	const pc = ((noteNameToPitchClass(noteName) ?? 0) + semitones + 120) % 12;
+	return spellNote(letterIndex, pc);
+}
+
+function spellScaleDegree(tonic: string, degree: number, accidental: string): string {
+	const offset = accidental === "b" ? -1 : accidental === "#" ? 1 : 0;
+	return spellAbove(tonic, degree, MAJOR_SCALE[degree - 1] + offset);
+}
+
+function normalizeSymbol(symbol: string): string {
+	return symbol
+		.trim()
+		.replace(/𝄪/g, "##")
+		.replace(/𝄫/g, "bb")
+		.replace(/♯/g, "#")
+		.replace(/♭/g, "b")
+		.replace(/º/g, "°")
+		.replace(/[−–]/g, "-")
+		.replace(/\s+/g, "");
+}
+
+function failure(code: ChordSymbolErrorCode, message: string, position: number): ChordSymbolResult {
+	return { ok: false, error: { code, message, position } };
+}
+
+/**
+ * Parse a chord symbol, Roman numeral or Nashville number
+ * @param symbol e.g. "Am7", "C7(b9,#11)/E", "ii°7", "V65", "4/5"
+ * @param options key: the tonic numerals count from (required for numeral input)
+ */
+export function parseChord(symbol: string, options: ChordSymbolOptions = {}): ChordSymbolResult {
+	const text = normalizeSymbol(symbol);
+	if (text === "") {
+		return failure("empty", "Chord symbol is empty", 0);
+	}
+
+	// Root: a note name, a Roman numeral or a Nashville number
+	let notation: ChordNotation;
+	let root: string;
+	let defaultMinor = false;
+	let position: number;
+	const noteMatch = text.match(NOTE_PATTERN);
+	const numeralMatch = noteMatch ? null : (text.match(ROMAN_PATTERN) ?? text.match(NASHVILLE_PATTERN));
+	if (noteMatch) {
+		notation = "letter";
+		root = noteMatch[0];
+		position = root.length;
+	} else if (numeralMatch) {
+		notation = /\d/.test(numeralMatch[2]) ? "nashville" : "roman";
+		if (options.key === undefined) {
+			return failure("missingKey", `"${text}" is a ${notation === "roman" ? "Roman numeral" : "Nashville number"} and needs a key`, 0);
+		}
+		if (noteNameToPitchClass(options.key) === null) {
+			return failure("invalidKey", `"${options.key}" is not a key`, 0);
+		}
+		const degree = notation === "roman" ? ROMAN_DEGREES.indexOf(numeralMatch[2].toUpperCase()) + 1 : Number(numeralMatch[2]);
+		root = spellScaleDegree(options.key, degree, numeralMatch[1]);
+		defaultMinor = notation === "roman" && numeralMatch[2] === numeralMatch[2].toLowerCase();
+		position = numeralMatch[0].length;
+	} else {
+		return failure("invalidRoot", `"${text}" does not start with a note name`, 0);
+	}
+
+	// Slash: a bass note, a bass degree (Nashville) or the degree a secondary chord leads to (Roman)
+	let end = text.length;
+	let bass: string | null = null;
+	const slashIndex = text.lastIndexOf("/");
+	if (slashIndex >= position) {
+		const afterSlash = text.slice(slashIndex + 1);
+		const bassNote = afterSlash.match(/^([A-G])(##|bb|#|b)?$/);
+		const bassDegree = notation === "nashville" ? afterSlash.match(/^([b#]?)([1-7])$/) : null;
+		const secondary = notation === "roman" ? afterSlash.match(new RegExp(`${ROMAN_PATTERN.source}$`)) : null;
+		if (bassNote) {
+			bass = afterSlash;
+			end = slashIndex;
+		} else if (bassDegree) {
+			bass = spellScaleDegree(options.key as string, Number(bassDegree[2]), bassDegree[1]);
+			end = slashIndex;
+		} else if (secondary) {
+			// "V/V": the numeral counts from the degree after the slash
+			const targetDegree = ROMAN_DEGREES.indexOf(secondary[2].toUpperCase()) + 1;
+			const target = spellScaleDegree(options.key as string, targetDegree, secondary[1]);
+			const numeral = text.match(ROMAN_PATTERN) as RegExpMatchArray;
+			root = spellScaleDegree(target, ROMAN_DEGREES.indexOf(numeral[2].toUpperCase()) + 1, numeral[1]);
+			end = slashIndex;
+		}
+		// Anything else after the slash ("6/9", "m/maj7", a figure) belongs to the suffix
+	}
+	const suffix = text.slice(position, end);
+	let offset = 0;
+	const read = (pattern: RegExp): RegExpMatchArray | null => {
+		const match = suffix.slice(offset).match(pattern);
+		if (match) {
+			offset += match[0].length;
+		}
+		return match;
+	};
+
+	// Quality; a lowercase numeral is minor unless the quality says otherwise
+	let quality: QualityPrefix | null = null;
+	let qualityText = "";
+	for (const [pattern, prefix] of QUALITY_PREFIXES) {
+		const match = read(pattern);
+		if (match) {
+			quality = prefix;
+			qualityText = match[0];
+			break;
+		}
+	}
+	const power = quality === null && read(/^5(?!\d)/) !== null;
+	const minorThird = quality === "minor" || quality === "minorMajor" || quality === "diminished" || quality === "halfDiminished" ||
+		(defaultMinor && (quality === null || quality === "major" || quality === "dominant"));
+	let hasSeventh = quality === "halfDiminished";
+	let sixth = false;
+	let majorSeventh = quality === "major" || quality === "minorMajor";
+	const stacked: number[] = [];
+
+	// Figured-bass inversion (numerals only), then the chord number
+	let figuredInversion: number | null = null;
+	if (notation === "roman") {
+		for (const [pattern, figure] of INVERSION_FIGURES) {
+			if (read(pattern)) {
+				figuredInversion = figure.inversion;
+				hasSeventh = hasSeventh || figure.seventh;
+				break;
+			}
+		}
+	}
+	if (!power) {
+		for (const [pattern, chordNumber] of CHORD_NUMBERS) {
+			if (read(pattern)) {
+				hasSeventh = hasSeventh || chordNumber.seventh;
+				sixth = chordNumber.sixth;
+				stacked.push(...chordNumber.tensions);
+				break;
+			}
+		}
+	}
+	// "CΔ" and "Cdom" name 7th chords without the number; "Cmaj" and "CM" are plain major triads
+	if (offset === qualityText.length && !sixth && (quality === "dominant" || /^(Δ|\^|delta)$/.test(qualityText))) {
+		hasSeventh = true;
+	}
+
+	// Suspensions, added tones, alterations and omissions, in any order
+	let suspension: number | null = null;
+	let altered = false;
+	const addedTones: ChordTone[] = [];
+	const alterations: ChordTone[] = [];
+	const omitted: string[] = [];
+	while (offset < suffix.length) {
+		let match: RegExpMatchArray | null;
+		if (read(/^[(),]/)) {
+			continue;
+		}
+		if ((match = read(/^sus(2|4)?/))) {
+			suspension = match[1] === "2" ? 2 : 5;
+		} else if ((match = read(/^add([b#]?)(2|4|6|9|11|13)/))) {
+			const natural = ADDED_TONES[Number(match[2])];
+			addedTones.push({ degree: match[1] + match[2], interval: natural + (match[1] === "b" ? -1 : match[1] === "#" ? 1 : 0) });
+		} else if ((match = read(/^(no|omit)(1|3|5|R|root)/))) {
+			omitted.push(/^\d$/.test(match[2]) ? match[2] : "1");
+		} else if (read(/^alt/)) {
+			altered = true;
+		} else if (read(/^\/?(maj|Maj|M|Δ|\^)7/)) {
+			majorSeventh = true;
+			hasSeventh = true;
+		} else if ((match = read(/^([b#+-])(5|9|11|13)/))) {
+			const flat = match[1] === "b" || match[1] === "-";
+			const degree = Number(match[2]);
+			const natural = degree === 5 ? 7 : NATURAL_TENSIONS[degree];
+			alterations.push({ degree: (flat ? "b" : "#") + match[2], interval: natural + (flat ? -1 : 1) });
+		} else if (read(/^(aug|\+)/)) {
+			alterations.push({ degree: "#5", interval: 8 });
+		} else if ((match = read(/^(9|11|13)/))) {
+			addedTones.push({ degree: match[1], interval: NATURAL_TENSIONS[Number(match[1])] });
+		} else if (read(/^2/)) {
+			addedTones.push({ degree: "2", interval: 2 });
+		} else {
+			const rest = suffix.slice(offset);
+			return rest.startsWith("/")
+				? failure("invalidBass", `"${rest.slice(1)}" is not a bass note`, position + offset + 1)
+				: failure("unknownSuffix", `Cannot read "${rest}" in "${text}"`, position + offset);
+		}
+	}
+
+	// Build the tones: triad, 7th or 6th, stacked tensions, then added and altered tones
+	const tones = new Map<string, number>([["1", 0]]);
+	if (!power && suspension === null) {
+		tones.set(minorThird ? "b3" : "3", minorThird ? 3 : 4);
+	}
+	if (suspension !== null) {
+		tones.set(suspension === 2 ? "2" : "4", suspension);
+	}
+	const diminishedFifth = quality === "diminished" || quality === "halfDiminished";
+	tones.set(diminishedFifth ? "b5" : quality === "augmented" ? "#5" : "5", diminishedFifth ? 6 : quality === "augmented" ? 8 : 7);
+	if (hasSeventh || altered) {
+		if (majorSeventh) {
+			tones.set("7", 11);
+		} else if (quality === "diminished") {
+			tones.set("bb7", 9);
+		} else {
+			tones.set("b7", 10);
+		}
+	}
+	if (sixth) {
+		tones.set("6", 9);
+	}
+	stacked.forEach((degree) => tones.set(String(degree), NATURAL_TENSIONS[degree]));
+	if (stacked.includes(11) && tones.has("3")) {
+		tones.delete("3");
+	}
+	addedTones.forEach((tone) => tones.set(tone.degree, tone.interval));
+	if (altered) {
+		tones.delete("5");
+		alterations.push({ degree: "#9", interval: 15 }, { degree: "b13", interval: 20 });
+	}
+	// An altered tone replaces the natural one (and any other spelling of the 5th)
+	alterations.forEach((tone) => {
+		const natural = tone.degree.slice(1);
+		(natural === "5" ? FIFTHS : [natural]).forEach((degree) => tones.delete(degree));
+	});
+	alterations.forEach((tone) => tones.set(tone.degree, tone.interval));
+	omitted.forEach((degree) => OMITTABLE[degree].forEach((label) => tones.delete(label)));
+
+	const sortedTones = [...tones.entries()]
+		.map(([degree, interval]) => ({ degree, interval }))
+		.sort((a, b) => a.interval - b.interval);
+	const has = (degree: string) => tones.has(degree);
+	let triad: ChordTriad;
+	if (has("3")) {
+		triad = has("#5") && !has("5") ? "augmented" : "major";
+	} else if (has("b3")) {
+		triad = has("b5") && !has("5") ? "diminished" : "minor";
+	} else if (suspension !== null) {
+		triad = suspension === 2 ? "sus2" : "sus4";
+	} else {
+		triad = has("11") ? "sus4" : "power";
+	}
+
+	const rootPc = noteNameToPitchClass(root) as number;
+	if (figuredInversion !== null) {
+		const bassTone = sortedTones[figuredInversion];
+		bass = bassTone ? spellAbove(root, Number(bassTone.degree.replace(/[b#]/g, "")), bassTone.interval) : null;
+	}
+	const bassPc = bass === null ? null : noteNameToPitchClass(bass);
+	const bassIndex = bassPc === null ? 0 : sortedTones.findIndex((tone) => (rootPc + tone.interval) % 12 === bassPc);
+
+	return {
+		ok: true,
+		chord: {
+			symbol: text,
+			notation,
+			root,
+			rootPc,
+			triad,
+			tones: sortedTones,
+			omitted,
+			bass,
+			bassPc,
+			inversion: bassIndex >= 0 ? bassIndex : null,
+		},
+	};
+}
+
+/**
+ * Pitch classes of a chord's tones, root first (a slash bass outside the chord is not included)
+ */
+export function getChordPitchClasses(chord: ChordSymbol): number[] {
+	return [...new Set(chord.tones.map((tone) => (chord.rootPc + tone.interval) % 12))];
+}
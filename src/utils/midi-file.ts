@@ -0,0 +1,183 @@
+/**
+ * Standard MIDI File writer (format 0 and 1), no dependencies
+ *
+ * Notes are given in ticks; the writer adds the tempo and time signature,
+ * sorts note-ons and note-offs, and encodes the delta times.
+ */
+
+export interface MidiNoteEvent {
+	midi: number; // 0-127
+	startTick: number;
+	durationTicks: number;
+	velocity?: number; // 1-127 (default 90)
+}
+
+export interface MidiTrack {
+	name?: string;
+	channel?: number; // 0-15 (default 0)
+	program?: number; // General MIDI program 0-127, sent at the start when set
+	notes: MidiNoteEvent[];
+}
+
+export interface MidiFileOptions {
+	bpm: number;
+	format?: 0 | 1; // 0 merges every track into one; 1 writes a tempo track plus one track each (default 1)
+	ticksPerQuarter?: number; // default DEFAULT_TICKS_PER_QUARTER
+	timeSignature?: [number, number]; // default [4, 4]
+	name?: string; // Sequence name, written to the first track
+}
+
+export const DEFAULT_TICKS_PER_QUARTER = 480;
+export const MIDI_FILE_MIME_TYPE = "audio/midi";
+
+const DEFAULT_VELOCITY = 90;
+
+interface TimedEvent {
+	tick: number;
+	order: number; // Meta first, then note-offs before note-ons at the same tick
+	bytes: number[];
+}
+
+/**
+ * Encode a number as a MIDI variable-length quantity (7 bits per byte, high bit = more)
+ */
+export function encodeVariableLengthQuantity(value: number): number[] {
+	if (!Number.isInteger(value) || value < 0 || value > 0x0fffffff) {
+		throw new Error(`Invalid variable-length quantity: ${value}`);
+	}
+	const bytes = [value & 0x7f];
+	let rest = value >> 7;
+	while (rest > 0) {
+		bytes.unshift((rest & 0x7f) | 0x80);
+		rest >>= 7;
+	}
+	return bytes;
+}
+
+// Text meta events are read as ASCII by most DAWs; anything else becomes "?"
+function encodeText(text: string): number[] {
+	return Array.from(text, (char) => (char.charCodeAt(0) < 0x80 ? char.charCodeAt(0) : 0x3f));
+}
+
+function uint32(value: number): number[] {
+	return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function uint16(value: number): number[] {
+	return [(value >> 8) & 0xff, value & 0xff];
+}
+
+function metaEvent(type: number, data: number[]): number[] {
+	return [0xff, type, ...encodeVariableLengthQuantity(data.length), ...data];
+}
+
+function assertMidiByte(value: number, label: string, min: number = 0): void {
+	if (!Number.isInteger(value) || value < min || value > 127) {
+		throw new Error(`Invalid ${label}: ${value}. Must be an integer ${min}-127.`);
+	}
+}
+
+function getTempoEvents(options: MidiFileOptions): TimedEvent[] {
+	const { bpm, timeSignature = [4, 4] } = options;
+	if (!(bpm > 0)) {
+		throw new Error(`Invalid tempo: ${bpm}. Must be above 0 BPM.`);
+	}
+	const [beats, beatUnit] = timeSignature;
+	const beatUnitPower = Math.log2(beatUnit);
+	if (!Number.isInteger(beats) || beats < 1 || !Number.isInteger(beatUnitPower) || beatUnitPower < 0) {
+		throw new Error(`Invalid time signature: ${beats}/${beatUnit}`);
+	}
+
+	const microsecondsPerQuarter = Math.round(60_000_000 / bpm);
+	return [
+		{
+			tick: 0,
+			order: 0,
+			bytes: metaEvent(0x51, [
+				(microsecondsPerQuarter >> 16) & 0xff,
+				(microsecondsPerQuarter >> 8) & 0xff,
+				microsecondsPerQuarter & 0xff,
+			]),
+		},
+		{ tick: 0, order: 0, bytes: metaEvent(0x58, [beats, beatUnitPower, 24, 8]) },
+	];
+}
+
+function getTrackEvents(track: MidiTrack, includeName: boolean): TimedEvent[] {
+	const channel = track.channel ?? 0;
+	if (!Number.isInteger(channel) || channel < 0 || channel > 15) {
+		throw new Error(`Invalid MIDI channel: ${channel}. Must be an integer 0-15.`);
+	}
+
+	const events: TimedEvent[] = [];
+	if (includeName && track.name) {
+		events.push({ tick: 0, order: 0, bytes: metaEvent(0x03, encodeText(track.name)) });
+	}
+	if (track.program !== undefined) {
+		assertMidiByte(track.program, "program");
+		events.push({ tick: 0, order: 1, bytes: [0xc0 | channel, track.program] });
+	}
+
+	track.notes.forEach((note) => {
+		assertMidiByte(note.midi, "MIDI note");
+		const velocity = note.velocity ?? DEFAULT_VELOCITY;
+		assertMidiByte(velocity, "velocity", 1);
+		if (!Number.isInteger(note.startTick) || note.startTick < 0 || !Number.isInteger(note.durationTicks) || note.durationTicks < 1) {
+			throw new Error(`Invalid note timing: start ${note.startTick}, duration ${note.durationTicks}`);
+		}
+		events.push({ tick: note.startTick, order: 3, bytes: [0x90 | channel, note.midi, velocity] });
+		events.push({ tick: note.startTick + note.durationTicks, order: 2, bytes: [0x80 | channel, note.midi, 0x40] });
+	});
+	return events;
+}
+
+function encodeTrackChunk(events: TimedEvent[]): number[] {
+	const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order);
+	const lastTick = sorted.length > 0 ? sorted[sorted.length - 1].tick : 0;
+
+	const data: number[] = [];
+	let previousTick = 0;
+	sorted.forEach((event) => {
+		data.push(...encodeVariableLengthQuantity(event.tick - previousTick), ...event.bytes);
+		previousTick = event.tick;
+	});
+	data.push(...encodeVariableLengthQuantity(lastTick - previousTick), ...metaEvent(0x2f, []));
+
+	return [0x4d, 0x54, 0x72, 0x6b, ...uint32(data.length), ...data];
+}
+
+/**
+ * Write tracks as a Standard MIDI File
+ * @throws Error if a note, channel, tempo or time signature is out of range
+ */
+export function writeMidiFile(tracks: MidiTrack[], options: MidiFileOptions): Uint8Array {
+	const { format = 1, ticksPerQuarter = DEFAULT_TICKS_PER_QUARTER, name } = options;
+	if (!Number.isInteger(ticksPerQuarter) || ticksPerQuarter < 1 || ticksPerQuarter > 0x7fff) {
+		throw new Error(`Invalid ticks per quarter note: ${ticksPerQuarter}`);
+	}
+
+	const conductor: TimedEvent[] = [
+		...(name ? [{ tick: 0, order: 0, bytes: metaEvent(0x03, encodeText(name)) }] : []),
+		...getTempoEvents(options),
+	];
+
+	const chunks: number[][] = format === 0
+		? [encodeTrackChunk([...conductor, ...tracks.flatMap((track) => getTrackEvents(track, false))])]
+		: [encodeTrackChunk(conductor), ...tracks.map((track) => encodeTrackChunk(getTrackEvents(track, true)))];
+
+	const header = [0x4d, 0x54, 0x68, 0x64, ...uint32(6), ...uint16(format), ...uint16(chunks.length), ...uint16(ticksPerQuarter)];
+	return Uint8Array.from([...header, ...chunks.flat()]);
+}
+
+/**
+ * Save a MIDI file through a temporary download link
+ */
+export function downloadMidiFile(data: Uint8Array, fileName: string): void {
+	const blob = new Blob([data as BlobPart], { type: MIDI_FILE_MIME_TYPE });
+	const url = URL.createObjectURL(blob);
+	const a = document.createElement("a");
+	a.href = url;
+	a.download = fileName.endsWith(".mid") ? fileName : `${fileName}.mid`;
+	a.click();
+	URL.revokeObjectURL(url);
+}
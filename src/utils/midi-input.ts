@@ -0,0 +1,177 @@
+/**
+ * Web MIDI input: message parsing and held-note tracking
+ *
+ * Parsing and the held-note reducer are pure, so a stream of raw messages can
+ * be replayed without a device. Notes are tracked per channel because MIDI
+ * guitars send each string on its own channel and may hold the same pitch twice.
+ */
+
+export type MidiInputMessage =
+	| { type: "noteOn"; channel: number; note: number; velocity: number }
+	| { type: "noteOff"; channel: number; note: number }
+	| { type: "sustain"; channel: number; on: boolean }
+	| { type: "allNotesOff"; channel: number };
+
+export interface MidiHeldNote {
+	channel: number;
+	note: number;
+}
+
+export interface MidiHeldNotesState {
+	pressed: MidiHeldNote[]; // Keys or strings currently down
+	sustained: MidiHeldNote[]; // Released while the sustain pedal was down
+	sustainChannels: number[]; // Channels with the pedal down
+}
+
+export const EMPTY_MIDI_HELD_NOTES: MidiHeldNotesState = { pressed: [], sustained: [], sustainChannels: [] };
+
+const SUSTAIN_CONTROLLER = 64;
+const ALL_SOUND_OFF_CONTROLLER = 120;
+const ALL_NOTES_OFF_CONTROLLER = 123;
+
+/**
+ * Parse one raw MIDI message
+ * @returns The message, or null for anything that does not affect held notes
+ */
+export function parseMidiMessage(data: ArrayLike<number>): MidiInputMessage | null {
+	if (data.length < 3) {
+		return null;
+	}
+	const kind = data[0] & 0xf0;
+	const channel = data[0] & 0x0f;
+	const [, first, second] = Array.from(data);
+
+	switch (kind) {
+		case 0x90:
+			// Note-on with velocity 0 is a note-off
+			return second > 0 ? { type: "noteOn", channel, note: first, velocity: second } : { type: "noteOff", channel, note: first };
+		case 0x80:
+			return { type: "noteOff", channel, note: first };
+		case 0xb0:
+			if (first === SUSTAIN_CONTROLLER) {
+				return { type: "sustain", channel, on: second >= 64 };
+			}
+			if (first === ALL_SOUND_OFF_CONTROLLER || first === ALL_NOTES_OFF_CONTROLLER) {
+				return { type: "allNotesOff", channel };
+			}
+			return null;
+		default:
+			return null;
+	}
+}
+
+function isSameNote(a: MidiHeldNote, b: MidiHeldNote): boolean {
+	return a.channel === b.channel && a.note === b.note;
+}
+
+/**
+ * Held notes after a message
+ */
+export function applyMidiMessage(state: MidiHeldNotesState, message: MidiInputMessage): MidiHeldNotesState {
+	switch (message.type) {
+		case "noteOn": {
+			const held = { channel: message.channel, note: message.note };
+			return state.pressed.some((note) => isSameNote(note, held))
+				? state
+				: { ...state, pressed: [...state.pressed, held] };
+		}
+		case "noteOff": {
+			const released = state.pressed.find((note) => note.channel === message.channel && note.note === message.note);
+			if (!released) {
+				return state;
+			}
+			const sustaining = state.sustainChannels.includes(message.channel);
+			return {
+				...state,
+				pressed: state.pressed.filter((note) => note !== released),
+				sustained: sustaining && !state.sustained.some((note) => isSameNote(note, released))
+					? [...state.sustained, released]
+					: state.sustained,
+			};
+		}
+		case "sustain":
+			return message.on
+				? {
+					...state,
+					sustainChannels: state.sustainChannels.includes(message.channel)
+						? state.sustainChannels
+						: [...state.sustainChannels, message.channel],
+				}
+				: {
+					...state,
+					sustained: state.sustained.filter((note) => note.channel !== message.channel),
+					sustainChannels: state.sustainChannels.filter((channel) => channel !== message.channel),
+				};
+		case "allNotesOff":
+			return {
+				...state,
+				pressed: state.pressed.filter((note) => note.channel !== message.channel),
+				sustained: state.sustained.filter((note) => note.channel !== message.channel),
+			};
+	}
+}
+
+/**
+ * Held notes after a stream of raw messages (unknown messages are skipped)
+ */
+export function reduceMidiMessages(
+	messages: ArrayLike<number>[],
+	state: MidiHeldNotesState = EMPTY_MIDI_HELD_NOTES
+): MidiHeldNotesState {
+	return messages.reduce<MidiHeldNotesState>((current, data) => {
+		const message = parseMidiMessage(data);
+		return message ? applyMidiMessage(current, message) : current;
+	}, state);
+}
+
+/**
+ * Distinct MIDI notes sounding (pressed or sustained), lowest first
+ */
+export function getSoundingMidiNotes(state: MidiHeldNotesState): number[] {
+	return [...new Set([...state.pressed, ...state.sustained].map((held) => held.note))].sort((a, b) => a - b);
+}
+
+/**
+ * Start listening to every connected MIDI input, including ones plugged in later
+ *
+ * @param onMessage - Called with each raw message
+ * @param onInputsChange - Called with the input names on start and whenever a device connects or disconnects
+ * @returns A function that stops listening
+ * @throws Error if the browser has no Web MIDI support or the user denies access
+ */
+export async function startMidiInput(
+	onMessage: (data: Uint8Array) => void,
+	onInputsChange?: (inputNames: string[]) => void
+): Promise<() => void> {
+	if (typeof navigator === "undefined" || !navigator.requestMIDIAccess) {
+		throw new Error("Web MIDI is not available in this browser.");
+	}
+
+	const access = await navigator.requestMIDIAccess();
+	const handleMessage = (event: MIDIMessageEvent) => {
+		if (event.data) {
+			onMessage(event.data);
+		}
+	};
+
+	const attachInputs = () => {
+		const names: string[] = [];
+		access.inputs.forEach((input) => {
+			input.onmidimessage = handleMessage;
+			if (input.state === "connected") {
+				names.push(input.name ?? "MIDI input");
+			}
+		});
+		onInputsChange?.(names);
+	};
+
+	attachInputs();
+	access.onstatechange = attachInputs;
+
+	return () => {
+		access.onstatechange = null;
+		access.inputs.forEach((input) => {
+			input.onmidimessage = null;
+		});
+	};
+}
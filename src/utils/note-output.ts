@@ -0,0 +1,165 @@
+/**
+ * Pluggable note output
+ *
+ * Playback code hands timed notes to a NoteOutput instead of building audio
+ * nodes itself, so the same chord or sequence can sound through a built-in
+ * Web Audio voice or be sent to a hardware synth or DAW over Web MIDI.
+ * When an external output is selected it replaces the built-in voices in
+ * every app.
+ */
+
+export interface ScheduledNote {
+	midi: number; // 0-127
+	startSec: number; // Offset from now
+	durationSec: number;
+	velocity?: number; // 1-127 (default the output's velocity)
+}
+
+export interface NoteOutput {
+	name: string; // Shown in output pickers
+	schedule(notes: ScheduledNote[]): void;
+	stopAll(): void; // Silence everything this output has started or queued
+}
+
+export interface MidiPortLike {
+	id?: string;
+	name?: string | null;
+	send(data: number[], timestamp?: number): void;
+	clear?(): void; // Not implemented by every browser
+}
+
+export interface MidiPortOutputOptions {
+	channel?: number; // 0-15 (default 0, shown to users as channel 1)
+	velocity?: number; // 1-127 (default DEFAULT_MIDI_OUTPUT_VELOCITY)
+	now?: () => number; // Clock in ms matching the port's timestamps (default performance.now)
+}
+
+export interface MidiPortOutput extends NoteOutput {
+	port: MidiPortLike;
+	portId: string;
+	channel: number;
+}
+
+export const DEFAULT_MIDI_OUTPUT_VELOCITY = 90;
+
+const ALL_NOTES_OFF_CONTROLLER = 123;
+
+let externalOutput: NoteOutput | null = null;
+
+/**
+ * Route all playback to an output (null returns to the built-in voices)
+ */
+export function setExternalNoteOutput(output: NoteOutput | null): void {
+	externalOutput?.stopAll();
+	externalOutput = output;
+}
+
+/**
+ * The selected external output, or null when the built-in voices are in use
+ */
+export function getExternalNoteOutput(): NoteOutput | null {
+	return externalOutput;
+}
+
+/**
+ * The selected external output when it is a MIDI port, for output pickers
+ */
+export function getSelectedMidiPortOutput(): MidiPortOutput | null {
+	return externalOutput && "portId" in externalOutput ? (externalOutput as MidiPortOutput) : null;
+}
+
+function assertMidiValue(value: number, label: string, min: number, max: number): void {
+	if (!Number.isInteger(value) || value < min || value > max) {
+		throw new Error(`Invalid ${label}: ${value}. Must be an integer ${min}-${max}.`);
+	}
+}
+
+/**
+ * Output that sends notes to a Web MIDI port
+ *
+ * Note-ons and note-offs are both queued with timestamps, so timing does not
+ * depend on the page's timers. A note retriggered before its previous note-off
+ * is cut short by that note-off, as on most hardware.
+ * @throws Error if the channel or velocity is out of range
+ */
+export function createMidiPortOutput(port: MidiPortLike, options: MidiPortOutputOptions = {}): MidiPortOutput {
+	const {
+		channel = 0,
+		velocity: defaultVelocity = DEFAULT_MIDI_OUTPUT_VELOCITY,
+		now = () => performance.now(),
+	} = options;
+	assertMidiValue(channel, "MIDI channel", 0, 15);
+	assertMidiValue(defaultVelocity, "velocity", 1, 127);
+
+	// Notes whose note-off is still pending, so stopAll can release them early
+	let sounding: Array<{ midi: number; offAtMs: number }> = [];
+
+	return {
+		name: port.name || "MIDI output",
+		port,
+		portId: port.id ?? "",
+		channel,
+		schedule(notes) {
+			const nowMs = now();
+			sounding = sounding.filter((note) => note.offAtMs > nowMs);
+			notes.forEach((note) => {
+				const velocity = note.velocity ?? defaultVelocity;
+				assertMidiValue(note.midi, "MIDI note", 0, 127);
+				assertMidiValue(velocity, "velocity", 1, 127);
+				const onAtMs = nowMs + Math.max(0, note.startSec) * 1000;
+				const offAtMs = onAtMs + Math.max(0, note.durationSec) * 1000;
+				port.send([0x90 | channel, note.midi, velocity], onAtMs);
+				port.send([0x80 | channel, note.midi, 0x40], offAtMs);
+				sounding.push({ midi: note.midi, offAtMs });
+			});
+		},
+		stopAll() {
+			port.clear?.();
+			new Set(sounding.map((note) => note.midi)).forEach((midi) => port.send([0x80 | channel, midi, 0x40]));
+			port.send([0xb0 | channel, ALL_NOTES_OFF_CONTROLLER, 0]);
+			sounding = [];
+		},
+	};
+}
+
+/**
+ * Connected MIDI output ports
+ * @throws Error if the browser has no Web MIDI support or the user denies access
+ */
+export async function requestMidiOutputPorts(): Promise<MIDIOutput[]> {
+	if (typeof navigator === "undefined" || !navigator.requestMIDIAccess) {
+		throw new Error("Web MIDI is not available in this browser.");
+	}
+	const access = await navigator.requestMIDIAccess();
+	const ports: MIDIOutput[] = [];
+	access.outputs.forEach((port) => {
+		if (port.state === "connected") {
+			ports.push(port);
+		}
+	});
+	return ports;
+}
+
+/**
+ * Step through a sequence at a fixed step length, calling playStep at each step
+ *
+ * Steps are timed from the start rather than chained, so they don't drift.
+ * @param shouldContinue - Checked before each step; return false to stop early
+ * @returns Resolves one step length after the last step
+ */
+export async function playSequence(
+	stepCount: number,
+	stepDurationSec: number,
+	playStep: (index: number) => void,
+	shouldContinue: () => boolean = () => true
+): Promise<void> {
+	const startMs = Date.now();
+	for (let index = 0; index < stepCount; index++) {
+		if (!shouldContinue()) {
+			return;
+		}
+		playStep(index);
+		const nextStepMs = startMs + (index + 1) * stepDurationSec * 1000;
+		await new Promise((resolve) => setTimeout(resolve, Math.max(0, nextStepMs - Date.now())));
+	}
+}